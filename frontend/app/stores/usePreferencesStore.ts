@@ -0,0 +1,142 @@
+// stores/usePreferencesStore.ts
+import { defineStore } from "pinia";
+import {
+  DEFAULT_PREFERENCES,
+  fetchPreferences,
+  mergePreferences,
+  savePreferences,
+  toPreferences,
+  toVersion,
+} from "../../utils/preferences";
+import type { PreferencesPatch, PreferencesVersion, UserPreferences } from "../../utils/preferences";
+
+const STORAGE_KEY = "supabase-user-preferences";
+
+interface CachedPreferences {
+  preferences: UserPreferences;
+  version: PreferencesVersion;
+  /** Changes the server has not confirmed yet */
+  pending: PreferencesPatch | null;
+}
+
+export const usePreferencesStore = defineStore("preferences", {
+  state: () => ({
+    userId: null as string | null,
+    preferences: mergePreferences(DEFAULT_PREFERENCES, {}),
+    version: { hasRow: false, updatedAt: null } as PreferencesVersion,
+    pending: null as PreferencesPatch | null,
+    loading: false,
+    saving: false,
+    error: null as string | null,
+  }),
+
+  getters: {
+    hasPendingChanges: (state) => state.pending !== null,
+  },
+
+  actions: {
+    /**
+     * Show the cached preferences right away, then the server row
+     */
+    async load(userId: string) {
+      this.userId = userId;
+      this.loading = true;
+      this.error = null;
+
+      const cached = readCache(userId);
+      this.preferences = mergePreferences(DEFAULT_PREFERENCES, cached?.preferences);
+      this.version = cached?.version ?? { hasRow: false, updatedAt: null };
+      this.pending = cached?.pending ?? null;
+
+      try {
+        const { row, error } = await fetchPreferences(userId);
+        if (error) throw error;
+        if (this.userId !== userId) return;
+
+        this.preferences = mergePreferences(toPreferences(row), this.pending);
+        this.version = toVersion(row);
+        this.persist();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("Error loading preferences:", message);
+        this.error = message;
+      } finally {
+        this.loading = false;
+      }
+
+      if (this.pending) {
+        await this.sync();
+      }
+    },
+
+    /**
+     * Apply a change locally and save it
+     */
+    async update(patch: PreferencesPatch) {
+      if (!this.userId) return;
+
+      this.preferences = mergePreferences(this.preferences, patch);
+      this.pending = mergePreferences(this.pending || {}, patch);
+      this.persist();
+      await this.sync();
+    },
+
+    /**
+     * Send pending changes; they stay cached when the save fails
+     */
+    async sync() {
+      if (!this.userId || !this.pending || this.saving) return;
+
+      const userId = this.userId;
+      const sent = this.pending;
+      this.saving = true;
+      try {
+        const result = await savePreferences(userId, this.preferences, sent, this.version);
+        if (this.userId !== userId) return;
+
+        // Keep changes made while the request was in flight
+        this.preferences = mergePreferences(result.preferences, this.pending === sent ? null : this.pending);
+        this.version = result.version;
+        if (result.error) throw result.error;
+        if (this.pending === sent) this.pending = null;
+        this.error = null;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("Error saving preferences:", message);
+        this.error = message;
+      } finally {
+        this.saving = false;
+        this.persist();
+      }
+
+      // Changes made during the save
+      if (!this.error && this.pending) {
+        await this.sync();
+      }
+    },
+
+    clear() {
+      this.userId = null;
+      this.preferences = mergePreferences(DEFAULT_PREFERENCES, {});
+      this.version = { hasRow: false, updatedAt: null };
+      this.pending = null;
+      this.error = null;
+    },
+
+    persist() {
+      if (!this.userId || !import.meta.client) return;
+      const cached: CachedPreferences = { preferences: this.preferences, version: this.version, pending: this.pending };
+      localStorage.setItem(`${STORAGE_KEY}:${this.userId}`, JSON.stringify(cached));
+    },
+  },
+});
+
+function readCache(userId: string): CachedPreferences | null {
+  if (!import.meta.client) return null;
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY}:${userId}`);
+    return stored ? (JSON.parse(stored) as CachedPreferences) : null;
+  } catch (err) {
+    return null;
+  }
+}
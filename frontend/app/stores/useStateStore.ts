@@ -1,14 +1,21 @@
 // stores/useStateStore.ts
 import { defineStore } from "pinia";
+import type { PostsRow } from "~~/utils/databaseTypes";
+
+export interface SelectedUserData {
+  lat: number;
+  lng: number;
+  posts: PostsRow[];
+}
 
 export const useStateStore = defineStore("state", {
   state: () => ({
     selectedUserId: null as string | null,
-    selectedUserData: null as Record<string, any> | null,
+    selectedUserData: null as SelectedUserData | null,
   }),
 
   actions: {
-    selectUser(id: string, data?: Record<string, any>) {
+    selectUser(id: string, data?: SelectedUserData) {
       this.selectedUserId = id;
       this.selectedUserData = data || null;
     },
@@ -0,0 +1,109 @@
+// utils/analytics.ts
+// Reads the events written by the Lens Analytics module (Core/Analytics.ts)
+// from user_interactions and groups them by session for the /analytics page.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import type { UserInteractionsRow } from "./databaseTypes";
+
+export const SESSION_START = "session_start";
+export const SESSION_END = "session_end";
+
+export interface ActionCount {
+  action: string;
+  count: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  platform: string | null;
+  startedAt: string;
+  /** Time of the last event received */
+  lastEventAt: string;
+  durationMs: number;
+  /** Events excluding session_start / session_end */
+  eventCount: number;
+  /** Most frequent first */
+  actions: ActionCount[];
+  /** True once session_end arrived */
+  ended: boolean;
+}
+
+type EventRow = Pick<UserInteractionsRow, "action" | "session_id" | "timestamp" | "platform">;
+
+export interface SessionQuery {
+  /** Only events after this time */
+  since: Date;
+  /** Most recent events read (default 2000) */
+  limit?: number;
+}
+
+export async function fetchSessionSummaries(query: SessionQuery, client: SupabaseClient = supabase) {
+  const { data, error } = await client
+    .from("user_interactions")
+    .select("action,session_id,timestamp,platform")
+    .gte("timestamp", query.since.toISOString())
+    .order("timestamp", { ascending: false })
+    .limit(query.limit ?? 2000);
+
+  if (error) return { sessions: [] as SessionSummary[], error };
+  return { sessions: summarizeSessions((data || []) as EventRow[]), error: null };
+}
+
+/**
+ * Group events by session, newest session first
+ */
+export function summarizeSessions(rows: EventRow[]): SessionSummary[] {
+  const sessions = new Map<string, EventRow[]>();
+  rows.forEach((row) => {
+    const sessionRows = sessions.get(row.session_id) || [];
+    sessionRows.push(row);
+    sessions.set(row.session_id, sessionRows);
+  });
+
+  const summaries: SessionSummary[] = [];
+  sessions.forEach((sessionRows, sessionId) => {
+    const times = sessionRows.map((row) => Date.parse(row.timestamp));
+    const start = Math.min(...times);
+    const end = Math.max(...times);
+
+    const counts: Record<string, number> = {};
+    sessionRows
+      .filter((row) => row.action !== SESSION_START && row.action !== SESSION_END)
+      .forEach((row) => {
+        counts[row.action] = (counts[row.action] || 0) + 1;
+      });
+
+    const actions = toActionCounts(counts);
+    summaries.push({
+      sessionId,
+      platform: sessionRows.find((row) => row.platform)?.platform ?? null,
+      startedAt: new Date(start).toISOString(),
+      lastEventAt: new Date(end).toISOString(),
+      durationMs: end - start,
+      eventCount: actions.reduce((total, entry) => total + entry.count, 0),
+      actions,
+      ended: sessionRows.some((row) => row.action === SESSION_END),
+    });
+  });
+
+  return summaries.sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+}
+
+/**
+ * Action totals across sessions, most frequent first
+ */
+export function totalActions(sessions: SessionSummary[]): ActionCount[] {
+  const counts: Record<string, number> = {};
+  sessions.forEach((session) =>
+    session.actions.forEach((entry) => {
+      counts[entry.action] = (counts[entry.action] || 0) + entry.count;
+    })
+  );
+  return toActionCounts(counts);
+}
+
+function toActionCounts(counts: Record<string, number>): ActionCount[] {
+  return Object.keys(counts)
+    .map((action) => ({ action, count: counts[action] }))
+    .sort((a, b) => b.count - a.count);
+}
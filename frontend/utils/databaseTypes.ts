@@ -0,0 +1,1027 @@
+/**
+ * Row models for the Supabase tables
+ *
+ * GENERATED by supabase/scripts/generate-types.mjs from the PostgREST OpenAPI
+ * document - do not edit. Regenerate after applying a migration.
+ *
+ * - <Table>Row: a row as returned by select (columns without a NOT NULL
+ *   constraint or with a default may be null, except primary keys)
+ * - <Table>Insert: what insert() accepts (columns with defaults are optional)
+ * - <Table>Update: what update() accepts (every column optional)
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json } | Json[];
+
+/** public.cursor_annotations */
+export interface CursorAnnotationsRow {
+  /** uuid - Note: This is a Primary Key. */
+  id: string;
+  /** text */
+  room_name: string;
+  /** text */
+  user_id: string;
+  /** text */
+  user_name: string | null;
+  /** text */
+  color: string | null;
+  /** real */
+  width: number | null;
+  /** real */
+  depth: number | null;
+  /** jsonb */
+  points: Json;
+  /** timestamp with time zone */
+  created_at: string | null;
+}
+
+export interface CursorAnnotationsInsert {
+  /** uuid - Note: This is a Primary Key. */
+  id: string;
+  /** text */
+  room_name: string;
+  /** text */
+  user_id: string;
+  /** text */
+  user_name?: string | null;
+  /** text */
+  color?: string | null;
+  /** real */
+  width?: number | null;
+  /** real */
+  depth?: number | null;
+  /** jsonb */
+  points: Json;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface CursorAnnotationsUpdate {
+  /** uuid - Note: This is a Primary Key. */
+  id?: string;
+  /** text */
+  room_name?: string;
+  /** text */
+  user_id?: string;
+  /** text */
+  user_name?: string | null;
+  /** text */
+  color?: string | null;
+  /** real */
+  width?: number | null;
+  /** real */
+  depth?: number | null;
+  /** jsonb */
+  points?: Json;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+/** public.cursor_calibrations */
+export interface CursorCalibrationsRow {
+  /** text - Note: This is a Primary Key. */
+  room_name: string;
+  /** double precision */
+  m00: number;
+  /** double precision */
+  m01: number;
+  /** double precision */
+  m02: number;
+  /** double precision */
+  m10: number;
+  /** double precision */
+  m11: number;
+  /** double precision */
+  m12: number;
+  /** double precision */
+  plane_distance: number;
+  /** integer */
+  point_count: number;
+  /** double precision */
+  rms_error: number;
+  /** text */
+  calibrated_by: string | null;
+  /** timestamp with time zone */
+  updated_at: string | null;
+}
+
+export interface CursorCalibrationsInsert {
+  /** text - Note: This is a Primary Key. */
+  room_name: string;
+  /** double precision */
+  m00: number;
+  /** double precision */
+  m01: number;
+  /** double precision */
+  m02: number;
+  /** double precision */
+  m10: number;
+  /** double precision */
+  m11: number;
+  /** double precision */
+  m12: number;
+  /** double precision */
+  plane_distance: number;
+  /** integer */
+  point_count: number;
+  /** double precision */
+  rms_error: number;
+  /** text */
+  calibrated_by?: string | null;
+  /** timestamp with time zone */
+  updated_at?: string | null;
+}
+
+export interface CursorCalibrationsUpdate {
+  /** text - Note: This is a Primary Key. */
+  room_name?: string;
+  /** double precision */
+  m00?: number;
+  /** double precision */
+  m01?: number;
+  /** double precision */
+  m02?: number;
+  /** double precision */
+  m10?: number;
+  /** double precision */
+  m11?: number;
+  /** double precision */
+  m12?: number;
+  /** double precision */
+  plane_distance?: number;
+  /** integer */
+  point_count?: number;
+  /** double precision */
+  rms_error?: number;
+  /** text */
+  calibrated_by?: string | null;
+  /** timestamp with time zone */
+  updated_at?: string | null;
+}
+
+/** public.cursor_control_locks */
+export interface CursorControlLocksRow {
+  /** text - Note: This is a Primary Key. */
+  room_name: string;
+  /** text */
+  owner_id: string;
+  /** uuid */
+  owner_uid: string | null;
+  /** text */
+  owner_name: string | null;
+  /** text */
+  device: string;
+  /** timestamp with time zone */
+  lease_expires_at: string;
+  /** timestamp with time zone */
+  updated_at: string | null;
+}
+
+export interface CursorControlLocksInsert {
+  /** text - Note: This is a Primary Key. */
+  room_name: string;
+  /** text */
+  owner_id: string;
+  /** uuid */
+  owner_uid?: string | null;
+  /** text */
+  owner_name?: string | null;
+  /** text */
+  device: string;
+  /** timestamp with time zone */
+  lease_expires_at: string;
+  /** timestamp with time zone */
+  updated_at?: string | null;
+}
+
+export interface CursorControlLocksUpdate {
+  /** text - Note: This is a Primary Key. */
+  room_name?: string;
+  /** text */
+  owner_id?: string;
+  /** uuid */
+  owner_uid?: string | null;
+  /** text */
+  owner_name?: string | null;
+  /** text */
+  device?: string;
+  /** timestamp with time zone */
+  lease_expires_at?: string;
+  /** timestamp with time zone */
+  updated_at?: string | null;
+}
+
+/** public.cursor_position_history */
+export interface CursorPositionHistoryRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  room_name: string;
+  /** text */
+  user_id: string;
+  /** text */
+  user_name: string;
+  /** double precision */
+  x: number;
+  /** double precision */
+  y: number;
+  /** text */
+  color: string | null;
+  /** bigint */
+  timestamp: number;
+  /** timestamp with time zone */
+  created_at: string | null;
+  /** real */
+  depth: number | null;
+  /** real */
+  world_x: number | null;
+  /** real */
+  world_y: number | null;
+  /** real */
+  world_z: number | null;
+  /** real */
+  rot_x: number | null;
+  /** real */
+  rot_y: number | null;
+  /** real */
+  rot_z: number | null;
+  /** real */
+  rot_w: number | null;
+}
+
+export interface CursorPositionHistoryInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  room_name: string;
+  /** text */
+  user_id: string;
+  /** text */
+  user_name: string;
+  /** double precision */
+  x: number;
+  /** double precision */
+  y: number;
+  /** text */
+  color?: string | null;
+  /** bigint */
+  timestamp: number;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** real */
+  depth?: number | null;
+  /** real */
+  world_x?: number | null;
+  /** real */
+  world_y?: number | null;
+  /** real */
+  world_z?: number | null;
+  /** real */
+  rot_x?: number | null;
+  /** real */
+  rot_y?: number | null;
+  /** real */
+  rot_z?: number | null;
+  /** real */
+  rot_w?: number | null;
+}
+
+export interface CursorPositionHistoryUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  room_name?: string;
+  /** text */
+  user_id?: string;
+  /** text */
+  user_name?: string;
+  /** double precision */
+  x?: number;
+  /** double precision */
+  y?: number;
+  /** text */
+  color?: string | null;
+  /** bigint */
+  timestamp?: number;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** real */
+  depth?: number | null;
+  /** real */
+  world_x?: number | null;
+  /** real */
+  world_y?: number | null;
+  /** real */
+  world_z?: number | null;
+  /** real */
+  rot_x?: number | null;
+  /** real */
+  rot_y?: number | null;
+  /** real */
+  rot_z?: number | null;
+  /** real */
+  rot_w?: number | null;
+}
+
+/** public.cursor_positions */
+export interface CursorPositionsRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  room_name: string;
+  /** text */
+  user_id: string;
+  /** text */
+  user_name: string;
+  /** double precision */
+  x: number;
+  /** double precision */
+  y: number;
+  /** text */
+  color: string | null;
+  /** bigint */
+  timestamp: number;
+  /** timestamp with time zone */
+  created_at: string | null;
+  /** real */
+  depth: number | null;
+  /** real */
+  world_x: number | null;
+  /** real */
+  world_y: number | null;
+  /** real */
+  world_z: number | null;
+  /** real */
+  rot_x: number | null;
+  /** real */
+  rot_y: number | null;
+  /** real */
+  rot_z: number | null;
+  /** real */
+  rot_w: number | null;
+}
+
+export interface CursorPositionsInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  room_name: string;
+  /** text */
+  user_id: string;
+  /** text */
+  user_name: string;
+  /** double precision */
+  x: number;
+  /** double precision */
+  y: number;
+  /** text */
+  color?: string | null;
+  /** bigint */
+  timestamp: number;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** real */
+  depth?: number | null;
+  /** real */
+  world_x?: number | null;
+  /** real */
+  world_y?: number | null;
+  /** real */
+  world_z?: number | null;
+  /** real */
+  rot_x?: number | null;
+  /** real */
+  rot_y?: number | null;
+  /** real */
+  rot_z?: number | null;
+  /** real */
+  rot_w?: number | null;
+}
+
+export interface CursorPositionsUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  room_name?: string;
+  /** text */
+  user_id?: string;
+  /** text */
+  user_name?: string;
+  /** double precision */
+  x?: number;
+  /** double precision */
+  y?: number;
+  /** text */
+  color?: string | null;
+  /** bigint */
+  timestamp?: number;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** real */
+  depth?: number | null;
+  /** real */
+  world_x?: number | null;
+  /** real */
+  world_y?: number | null;
+  /** real */
+  world_z?: number | null;
+  /** real */
+  rot_x?: number | null;
+  /** real */
+  rot_y?: number | null;
+  /** real */
+  rot_z?: number | null;
+  /** real */
+  rot_w?: number | null;
+}
+
+/** public.cursor_session_chunks */
+export interface CursorSessionChunksRow {
+  /** uuid - Note: This is a Primary Key. This is a Foreign Key to `cursor_sessions.id`. */
+  session_id: string;
+  /** integer - Note: This is a Primary Key. */
+  seq: number;
+  /** integer */
+  start_ms: number;
+  /** integer */
+  end_ms: number;
+  /** jsonb */
+  events: Json;
+}
+
+export interface CursorSessionChunksInsert {
+  /** uuid - Note: This is a Primary Key. This is a Foreign Key to `cursor_sessions.id`. */
+  session_id: string;
+  /** integer - Note: This is a Primary Key. */
+  seq: number;
+  /** integer */
+  start_ms: number;
+  /** integer */
+  end_ms: number;
+  /** jsonb */
+  events: Json;
+}
+
+export interface CursorSessionChunksUpdate {
+  /** uuid - Note: This is a Primary Key. This is a Foreign Key to `cursor_sessions.id`. */
+  session_id?: string;
+  /** integer - Note: This is a Primary Key. */
+  seq?: number;
+  /** integer */
+  start_ms?: number;
+  /** integer */
+  end_ms?: number;
+  /** jsonb */
+  events?: Json;
+}
+
+/** public.cursor_sessions */
+export interface CursorSessionsRow {
+  /** uuid - Note: This is a Primary Key. */
+  id: string;
+  /** text */
+  room_name: string;
+  /** text */
+  title: string | null;
+  /** uuid */
+  recorded_by: string | null;
+  /** timestamp with time zone */
+  started_at: string | null;
+  /** timestamp with time zone */
+  ended_at: string | null;
+  /** integer */
+  duration_ms: number | null;
+  /** integer */
+  event_count: number | null;
+}
+
+export interface CursorSessionsInsert {
+  /** uuid - Note: This is a Primary Key. */
+  id?: string;
+  /** text */
+  room_name: string;
+  /** text */
+  title?: string | null;
+  /** uuid */
+  recorded_by?: string | null;
+  /** timestamp with time zone */
+  started_at?: string | null;
+  /** timestamp with time zone */
+  ended_at?: string | null;
+  /** integer */
+  duration_ms?: number | null;
+  /** integer */
+  event_count?: number | null;
+}
+
+export interface CursorSessionsUpdate {
+  /** uuid - Note: This is a Primary Key. */
+  id?: string;
+  /** text */
+  room_name?: string;
+  /** text */
+  title?: string | null;
+  /** uuid */
+  recorded_by?: string | null;
+  /** timestamp with time zone */
+  started_at?: string | null;
+  /** timestamp with time zone */
+  ended_at?: string | null;
+  /** integer */
+  duration_ms?: number | null;
+  /** integer */
+  event_count?: number | null;
+}
+
+/** public.lens_logs */
+export interface LensLogsRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  level: string;
+  /** text */
+  tag: string;
+  /** text */
+  message: string;
+  /** timestamp with time zone */
+  logged_at: string;
+  /** text */
+  session_id: string;
+  /** uuid */
+  user_id: string | null;
+  /** timestamp with time zone */
+  created_at: string | null;
+}
+
+export interface LensLogsInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  level: string;
+  /** text */
+  tag: string;
+  /** text */
+  message: string;
+  /** timestamp with time zone */
+  logged_at: string;
+  /** text */
+  session_id: string;
+  /** uuid */
+  user_id?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface LensLogsUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  level?: string;
+  /** text */
+  tag?: string;
+  /** text */
+  message?: string;
+  /** timestamp with time zone */
+  logged_at?: string;
+  /** text */
+  session_id?: string;
+  /** uuid */
+  user_id?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+/** public.posts */
+export interface PostsRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** uuid - Note: This is a Foreign Key to `users.id`. */
+  user_id: string | null;
+  /** text */
+  original_image_url: string;
+  /** double precision */
+  latitude: number | null;
+  /** double precision */
+  longitude: number | null;
+  /** text */
+  location_name: string | null;
+  /** extensions.geography(Point,4326) */
+  location: string | null;
+  /** timestamp with time zone */
+  created_at: string | null;
+}
+
+export interface PostsInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** uuid - Note: This is a Foreign Key to `users.id`. */
+  user_id?: string | null;
+  /** text */
+  original_image_url: string;
+  /** double precision */
+  latitude?: number | null;
+  /** double precision */
+  longitude?: number | null;
+  /** text */
+  location_name?: string | null;
+  /** extensions.geography(Point,4326) */
+  location?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface PostsUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** uuid - Note: This is a Foreign Key to `users.id`. */
+  user_id?: string | null;
+  /** text */
+  original_image_url?: string;
+  /** double precision */
+  latitude?: number | null;
+  /** double precision */
+  longitude?: number | null;
+  /** text */
+  location_name?: string | null;
+  /** extensions.geography(Point,4326) */
+  location?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+/** public.realtime_messages */
+export interface RealtimeMessagesRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  channel: string;
+  /** text */
+  event: string;
+  /** text */
+  payload: string;
+  /** timestamp with time zone */
+  sent_at: string;
+  /** timestamp with time zone */
+  created_at: string | null;
+}
+
+export interface RealtimeMessagesInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  channel: string;
+  /** text */
+  event: string;
+  /** text */
+  payload: string;
+  /** timestamp with time zone */
+  sent_at: string;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface RealtimeMessagesUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  channel?: string;
+  /** text */
+  event?: string;
+  /** text */
+  payload?: string;
+  /** timestamp with time zone */
+  sent_at?: string;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+/** public.room_members */
+export interface RoomMembersRow {
+  /** text - Note: This is a Primary Key. This is a Foreign Key to `rooms.name`. */
+  room_name: string;
+  /** uuid - Note: This is a Primary Key. */
+  user_id: string;
+  /** timestamp with time zone */
+  joined_at: string | null;
+}
+
+export interface RoomMembersInsert {
+  /** text - Note: This is a Primary Key. This is a Foreign Key to `rooms.name`. */
+  room_name: string;
+  /** uuid - Note: This is a Primary Key. */
+  user_id?: string;
+  /** timestamp with time zone */
+  joined_at?: string | null;
+}
+
+export interface RoomMembersUpdate {
+  /** text - Note: This is a Primary Key. This is a Foreign Key to `rooms.name`. */
+  room_name?: string;
+  /** uuid - Note: This is a Primary Key. */
+  user_id?: string;
+  /** timestamp with time zone */
+  joined_at?: string | null;
+}
+
+/** public.room_presence */
+export interface RoomPresenceRow {
+  /** text - Note: This is a Primary Key. */
+  room_name: string;
+  /** text - Note: This is a Primary Key. */
+  user_id: string;
+  /** uuid */
+  auth_uid: string | null;
+  /** text */
+  user_name: string;
+  /** text */
+  device: string;
+  /** text */
+  color: string | null;
+  /** text */
+  role: string | null;
+  /** timestamp with time zone */
+  joined_at: string | null;
+  /** timestamp with time zone */
+  last_seen_at: string | null;
+}
+
+export interface RoomPresenceInsert {
+  /** text - Note: This is a Primary Key. */
+  room_name: string;
+  /** text - Note: This is a Primary Key. */
+  user_id: string;
+  /** uuid */
+  auth_uid?: string | null;
+  /** text */
+  user_name: string;
+  /** text */
+  device: string;
+  /** text */
+  color?: string | null;
+  /** text */
+  role?: string | null;
+  /** timestamp with time zone */
+  joined_at?: string | null;
+  /** timestamp with time zone */
+  last_seen_at?: string | null;
+}
+
+export interface RoomPresenceUpdate {
+  /** text - Note: This is a Primary Key. */
+  room_name?: string;
+  /** text - Note: This is a Primary Key. */
+  user_id?: string;
+  /** uuid */
+  auth_uid?: string | null;
+  /** text */
+  user_name?: string;
+  /** text */
+  device?: string;
+  /** text */
+  color?: string | null;
+  /** text */
+  role?: string | null;
+  /** timestamp with time zone */
+  joined_at?: string | null;
+  /** timestamp with time zone */
+  last_seen_at?: string | null;
+}
+
+/** public.rooms */
+export interface RoomsRow {
+  /** text - Note: This is a Primary Key. */
+  name: string;
+  /** text */
+  join_code: string;
+  /** uuid */
+  created_by: string | null;
+  /** boolean */
+  is_listed: boolean | null;
+  /** integer */
+  idle_minutes: number | null;
+  /** timestamp with time zone */
+  created_at: string | null;
+  /** timestamp with time zone */
+  last_active_at: string | null;
+}
+
+export interface RoomsInsert {
+  /** text - Note: This is a Primary Key. */
+  name: string;
+  /** text */
+  join_code: string;
+  /** uuid */
+  created_by?: string | null;
+  /** boolean */
+  is_listed?: boolean | null;
+  /** integer */
+  idle_minutes?: number | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** timestamp with time zone */
+  last_active_at?: string | null;
+}
+
+export interface RoomsUpdate {
+  /** text - Note: This is a Primary Key. */
+  name?: string;
+  /** text */
+  join_code?: string;
+  /** uuid */
+  created_by?: string | null;
+  /** boolean */
+  is_listed?: boolean | null;
+  /** integer */
+  idle_minutes?: number | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** timestamp with time zone */
+  last_active_at?: string | null;
+}
+
+/** public.test_messages */
+export interface TestMessagesRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  message: string;
+  /** text */
+  sender: string | null;
+  /** timestamp with time zone */
+  timestamp: string | null;
+  /** text */
+  lens_session_id: string | null;
+  /** timestamp with time zone */
+  created_at: string | null;
+}
+
+export interface TestMessagesInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  message: string;
+  /** text */
+  sender?: string | null;
+  /** timestamp with time zone */
+  timestamp?: string | null;
+  /** text */
+  lens_session_id?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface TestMessagesUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  message?: string;
+  /** text */
+  sender?: string | null;
+  /** timestamp with time zone */
+  timestamp?: string | null;
+  /** text */
+  lens_session_id?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+/** public.user_interactions */
+export interface UserInteractionsRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  action: string;
+  /** text */
+  data: string | null;
+  /** timestamp with time zone */
+  timestamp: string;
+  /** text */
+  session_id: string;
+  /** text */
+  idempotency_key: string | null;
+  /** timestamp with time zone */
+  created_at: string | null;
+  /** text */
+  category: string | null;
+  /** jsonb */
+  properties: Json | null;
+  /** integer */
+  sequence: number | null;
+  /** text */
+  platform: string | null;
+}
+
+export interface UserInteractionsInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  action: string;
+  /** text */
+  data?: string | null;
+  /** timestamp with time zone */
+  timestamp: string;
+  /** text */
+  session_id: string;
+  /** text */
+  idempotency_key?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** text */
+  category?: string | null;
+  /** jsonb */
+  properties?: Json | null;
+  /** integer */
+  sequence?: number | null;
+  /** text */
+  platform?: string | null;
+}
+
+export interface UserInteractionsUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  action?: string;
+  /** text */
+  data?: string | null;
+  /** timestamp with time zone */
+  timestamp?: string;
+  /** text */
+  session_id?: string;
+  /** text */
+  idempotency_key?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+  /** text */
+  category?: string | null;
+  /** jsonb */
+  properties?: Json | null;
+  /** integer */
+  sequence?: number | null;
+  /** text */
+  platform?: string | null;
+}
+
+/** public.user_preferences */
+export interface UserPreferencesRow {
+  /** bigint - Note: This is a Primary Key. */
+  id: number;
+  /** text */
+  user_id: string;
+  /** jsonb */
+  preferences: Json | null;
+  /** timestamp with time zone */
+  updated_at: string | null;
+  /** timestamp with time zone */
+  created_at: string | null;
+}
+
+export interface UserPreferencesInsert {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  user_id: string;
+  /** jsonb */
+  preferences?: Json | null;
+  /** timestamp with time zone */
+  updated_at?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface UserPreferencesUpdate {
+  /** bigint - Note: This is a Primary Key. */
+  id?: number;
+  /** text */
+  user_id?: string;
+  /** jsonb */
+  preferences?: Json | null;
+  /** timestamp with time zone */
+  updated_at?: string | null;
+  /** timestamp with time zone */
+  created_at?: string | null;
+}
+
+export interface Tables {
+  cursor_annotations: { Row: CursorAnnotationsRow; Insert: CursorAnnotationsInsert; Update: CursorAnnotationsUpdate };
+  cursor_calibrations: { Row: CursorCalibrationsRow; Insert: CursorCalibrationsInsert; Update: CursorCalibrationsUpdate };
+  cursor_control_locks: { Row: CursorControlLocksRow; Insert: CursorControlLocksInsert; Update: CursorControlLocksUpdate };
+  cursor_position_history: { Row: CursorPositionHistoryRow; Insert: CursorPositionHistoryInsert; Update: CursorPositionHistoryUpdate };
+  cursor_positions: { Row: CursorPositionsRow; Insert: CursorPositionsInsert; Update: CursorPositionsUpdate };
+  cursor_session_chunks: { Row: CursorSessionChunksRow; Insert: CursorSessionChunksInsert; Update: CursorSessionChunksUpdate };
+  cursor_sessions: { Row: CursorSessionsRow; Insert: CursorSessionsInsert; Update: CursorSessionsUpdate };
+  lens_logs: { Row: LensLogsRow; Insert: LensLogsInsert; Update: LensLogsUpdate };
+  posts: { Row: PostsRow; Insert: PostsInsert; Update: PostsUpdate };
+  realtime_messages: { Row: RealtimeMessagesRow; Insert: RealtimeMessagesInsert; Update: RealtimeMessagesUpdate };
+  room_members: { Row: RoomMembersRow; Insert: RoomMembersInsert; Update: RoomMembersUpdate };
+  room_presence: { Row: RoomPresenceRow; Insert: RoomPresenceInsert; Update: RoomPresenceUpdate };
+  rooms: { Row: RoomsRow; Insert: RoomsInsert; Update: RoomsUpdate };
+  test_messages: { Row: TestMessagesRow; Insert: TestMessagesInsert; Update: TestMessagesUpdate };
+  user_interactions: { Row: UserInteractionsRow; Insert: UserInteractionsInsert; Update: UserInteractionsUpdate };
+  user_preferences: { Row: UserPreferencesRow; Insert: UserPreferencesInsert; Update: UserPreferencesUpdate };
+}
+
+export type TableName = keyof Tables;
+
+/** e.g. TableRow<"posts"> */
+export type TableRow<T extends TableName> = Tables[T]["Row"];
+export type TableInsert<T extends TableName> = Tables[T]["Insert"];
+export type TableUpdate<T extends TableName> = Tables[T]["Update"];
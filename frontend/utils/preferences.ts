@@ -0,0 +1,136 @@
+// utils/preferences.ts
+// Reads and writes user_preferences the same way as the Lens
+// PreferencesService: stored values are merged over DEFAULT_PREFERENCES and
+// saves only match while updated_at still equals the value that was read, so
+// a change made on the glasses in the meantime is merged instead of lost.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import type { Json, UserPreferencesRow } from "./databaseTypes";
+
+export type ColorMode = "natural" | "vivid" | "muted";
+
+export interface UserPreferences {
+  audio: { volume: number; sound_effects: boolean };
+  display: { brightness: number; color_mode: ColorMode };
+  [key: string]: any;
+}
+
+export interface PreferencesPatch {
+  audio?: Partial<UserPreferences["audio"]>;
+  display?: Partial<UserPreferences["display"]>;
+  [key: string]: any;
+}
+
+/** Server state a save is based on */
+export interface PreferencesVersion {
+  hasRow: boolean;
+  updatedAt: string | null;
+}
+
+export const COLOR_MODES: ColorMode[] = ["natural", "vivid", "muted"];
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  audio: { volume: 0.8, sound_effects: true },
+  display: { brightness: 1, color_mode: "natural" },
+};
+
+const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * Deep merge: nested objects are merged key by key, everything else is replaced
+ */
+export function mergePreferences<T>(base: T, patch: Record<string, any> | null | undefined): T {
+  const merged: any = { ...(base as any) };
+  if (!patch) return merged;
+
+  Object.keys(patch).forEach((key) => {
+    const value = patch[key];
+    if (value === undefined) return;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergePreferences(merged[key], value) : value;
+  });
+  return merged;
+}
+
+/**
+ * Read the preferences column, which older rows store as a JSON encoded string
+ */
+export function parseStoredPreferences(value: Json | undefined): PreferencesPatch {
+  let parsed: any = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch (err) {
+      return {};
+    }
+  }
+  return isPlainObject(parsed) ? parsed : {};
+}
+
+export async function fetchPreferences(userId: string, client: SupabaseClient = supabase) {
+  const { data, error } = await client.from("user_preferences").select("*").eq("user_id", userId).limit(1);
+  if (error) return { row: null, error };
+
+  const rows = (data || []) as UserPreferencesRow[];
+  return { row: rows[0] ?? null, error: null };
+}
+
+export function toPreferences(row: UserPreferencesRow | null): UserPreferences {
+  return mergePreferences(DEFAULT_PREFERENCES, row ? parseStoredPreferences(row.preferences) : {});
+}
+
+export function toVersion(row: UserPreferencesRow | null): PreferencesVersion {
+  return { hasRow: row !== null, updatedAt: row ? row.updated_at : null };
+}
+
+/**
+ * Apply a patch on top of the row at `version`. On a conflict the latest
+ * row is fetched and the patch re-applied, up to MAX_CONFLICT_RETRIES times.
+ */
+export async function savePreferences(
+  userId: string,
+  preferences: UserPreferences,
+  patch: PreferencesPatch,
+  version: PreferencesVersion,
+  client: SupabaseClient = supabase
+) {
+  let current = preferences;
+  let base = version;
+
+  for (let attempt = 1; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+    const values = { preferences: current, updated_at: new Date().toISOString() };
+
+    const { data, error } = !base.hasRow
+      ? await client.from("user_preferences").insert({ user_id: userId, ...values }).select()
+      : base.updatedAt === null
+        ? await client.from("user_preferences").update(values).eq("user_id", userId).is("updated_at", null).select()
+        : await client.from("user_preferences").update(values).eq("user_id", userId).eq("updated_at", base.updatedAt).select();
+
+    // 23505: another device created the row first
+    if (error && error.code !== "23505") {
+      return { preferences: current, version: base, error };
+    }
+
+    const rows = (data || []) as UserPreferencesRow[];
+    if (!error && rows.length > 0) {
+      return { preferences: current, version: toVersion(rows[0] ?? null), error: null };
+    }
+
+    console.warn("⚠️ Preferences were changed on another device - merging and retrying");
+    const latest = await fetchPreferences(userId, client);
+    if (latest.error) {
+      return { preferences: current, version: base, error: latest.error };
+    }
+    current = mergePreferences(toPreferences(latest.row), patch);
+    base = toVersion(latest.row);
+  }
+
+  return {
+    preferences: current,
+    version: base,
+    error: new Error(`Preferences kept changing on another device - gave up after ${MAX_CONFLICT_RETRIES} attempts`),
+  };
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
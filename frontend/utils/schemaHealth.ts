@@ -0,0 +1,243 @@
+// utils/schemaHealth.ts
+// Compares the live database with the expected schema and reports exactly
+// which migration, table, column or policy is missing. Same checks as the
+// Lens SchemaHealthCheck: version from demo_schema_versions, columns from
+// PostgREST's OpenAPI output (or per-table probes), policies from
+// demo_schema_policies().
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase, SUPABASE_ANON_KEY, SUPABASE_URL } from "./supabase";
+import { DEMO_SCHEMA } from "./schemaManifest";
+import type { SchemaManifest, TableManifest } from "./schemaManifest";
+
+export type SchemaIssueKind =
+  | "outdated_version"
+  | "missing_table"
+  | "missing_column"
+  | "rls_disabled"
+  | "missing_policy"
+  | "check_failed";
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  table?: string;
+  column?: string;
+  policy?: string;
+  /** Migration that fixes the issue */
+  migration?: string;
+  message: string;
+}
+
+export interface SchemaHealthReport {
+  ok: boolean;
+  expectedVersion: number;
+  liveVersion: number | null;
+  columnSource: "openapi" | "probe";
+  issues: SchemaIssue[];
+}
+
+interface PolicyRow {
+  table_name: string;
+  rls_enabled: boolean;
+  policy_name: string | null;
+  command: string | null;
+}
+
+// Postgres / PostgREST codes for a table or function that does not exist
+const MISSING_CODES = ["42P01", "PGRST202", "PGRST205"];
+
+export async function checkSchemaHealth(
+  client: SupabaseClient = supabase,
+  manifest: SchemaManifest = DEMO_SCHEMA
+): Promise<SchemaHealthReport> {
+  const issues: SchemaIssue[] = [];
+
+  const liveVersion = await checkVersion(client, manifest, issues);
+  const columnSource = await checkTables(client, manifest, issues);
+  await checkPolicies(client, manifest, issues);
+
+  return {
+    ok: issues.length === 0,
+    expectedVersion: manifest.version,
+    liveVersion,
+    columnSource,
+    issues,
+  };
+}
+
+/**
+ * Print the report to the browser console (used in development)
+ */
+export async function logSchemaHealth(client: SupabaseClient = supabase) {
+  const report = await checkSchemaHealth(client);
+  if (report.ok) {
+    console.log(`✅ Schema is up to date (version ${report.liveVersion})`);
+    return report;
+  }
+
+  console.warn(
+    `⚠️ Schema check found ${report.issues.length} issue(s) (version ${report.liveVersion ?? "unknown"}, expected ${report.expectedVersion}):`
+  );
+  report.issues.forEach((issue) => {
+    console.warn(`  • ${issue.message}${issue.migration ? ` → supabase/migrations/${issue.migration}` : ""}`);
+  });
+  return report;
+}
+
+async function checkVersion(client: SupabaseClient, manifest: SchemaManifest, issues: SchemaIssue[]) {
+  const { data, error } = await client
+    .from("demo_schema_versions")
+    .select("version")
+    .order("version", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    issues.push(
+      MISSING_CODES.includes(error.code)
+        ? {
+            kind: "outdated_version",
+            migration: manifest.introspectionMigration,
+            message: "demo_schema_versions is missing - the migrations have not been applied",
+          }
+        : createFailure("schema version", error.message)
+    );
+    return null;
+  }
+
+  const liveVersion = data && data.length > 0 ? data[0].version : 0;
+  if (liveVersion < manifest.version) {
+    issues.push({
+      kind: "outdated_version",
+      message: `Schema version ${liveVersion} is older than the expected ${manifest.version} - apply the newer migrations`,
+    });
+  }
+  return liveVersion;
+}
+
+async function checkTables(client: SupabaseClient, manifest: SchemaManifest, issues: SchemaIssue[]) {
+  const spec = await fetchOpenApiSpec();
+
+  if (spec && spec.definitions) {
+    manifest.tables.forEach((table) => {
+      const definition = spec.definitions[table.name];
+      if (!definition) {
+        issues.push(createMissingTable(table));
+        return;
+      }
+      const properties = definition.properties || {};
+      table.columns
+        .filter((column) => !properties[column])
+        .forEach((column) => issues.push(createMissingColumn(table, column)));
+    });
+    return "openapi" as const;
+  }
+
+  // Newer projects may restrict the OpenAPI endpoint to secret keys
+  for (const table of manifest.tables) {
+    await probeTable(client, table, issues);
+  }
+  return "probe" as const;
+}
+
+async function fetchOpenApiSpec(): Promise<any | null> {
+  try {
+    const response = await fetch(`${SUPABASE_URL}/rest/v1/`, {
+      headers: {
+        apikey: SUPABASE_ANON_KEY,
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        Accept: "application/openapi+json",
+      },
+    });
+    return response.ok ? await response.json() : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+async function probeTable(client: SupabaseClient, table: TableManifest, issues: SchemaIssue[]) {
+  const { error } = await client.from(table.name).select(table.columns.join(",")).limit(0);
+  if (!error) return;
+
+  if (error.code !== "42703") {
+    issues.push(MISSING_CODES.includes(error.code) ? createMissingTable(table) : createFailure(table.name, error.message));
+    return;
+  }
+
+  // Probe the columns one by one to name all of the missing ones
+  for (const column of table.columns) {
+    const { error: columnError } = await client.from(table.name).select(column).limit(0);
+    if (columnError && columnError.code === "42703") {
+      issues.push(createMissingColumn(table, column));
+    }
+  }
+}
+
+async function checkPolicies(client: SupabaseClient, manifest: SchemaManifest, issues: SchemaIssue[]) {
+  const { data, error } = await client.rpc("demo_schema_policies");
+
+  if (error) {
+    issues.push(
+      MISSING_CODES.includes(error.code)
+        ? {
+            kind: "check_failed",
+            migration: manifest.introspectionMigration,
+            message: "demo_schema_policies() is missing - RLS policies could not be checked",
+          }
+        : createFailure("policies", error.message)
+    );
+    return;
+  }
+
+  const rows = (data || []) as PolicyRow[];
+  manifest.tables.forEach((table) => {
+    const tableRows = rows.filter((row) => row.table_name === table.name);
+    // A missing table is reported by checkTables
+    if (tableRows.length === 0) return;
+
+    if (table.policies.length > 0 && !tableRows[0].rls_enabled) {
+      issues.push({
+        kind: "rls_disabled",
+        table: table.name,
+        migration: table.policyMigration || manifest.policyMigration,
+        message: `Row level security is disabled on '${table.name}'`,
+      });
+    }
+
+    table.policies
+      .filter((policy) => !tableRows.some((row) => row.policy_name === policy))
+      .forEach((policy) =>
+        issues.push({
+          kind: "missing_policy",
+          table: table.name,
+          policy,
+          migration: table.policyMigration || manifest.policyMigration,
+          message: `Policy "${policy}" is missing on '${table.name}'`,
+        })
+      );
+  });
+}
+
+function createMissingTable(table: TableManifest): SchemaIssue {
+  return {
+    kind: "missing_table",
+    table: table.name,
+    migration: table.migration,
+    message: `Table '${table.name}' does not exist`,
+  };
+}
+
+function createMissingColumn(table: TableManifest, column: string): SchemaIssue {
+  return {
+    kind: "missing_column",
+    table: table.name,
+    column,
+    migration: table.columnMigrations?.[column] ?? table.migration,
+    message: `Column '${table.name}.${column}' does not exist`,
+  };
+}
+
+function createFailure(subject: string, message: string): SchemaIssue {
+  return {
+    kind: "check_failed",
+    message: `Could not check ${subject}: ${message}`,
+  };
+}
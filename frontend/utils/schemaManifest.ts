@@ -0,0 +1,176 @@
+// utils/schemaManifest.ts
+// Expected schema for the demo tables. Mirrors supabase/migrations at the
+// repository root and lens-studio-project/Assets/Supabase/Core/SchemaManifest.ts;
+// when adding a migration, bump `version` and update both files.
+
+export interface TableManifest {
+  name: string;
+  columns: string[];
+  /** Policy names that must exist (RLS must be enabled when any are listed) */
+  policies: string[];
+  /** Migration file that creates the table */
+  migration: string;
+  /** Columns added to the table by later migrations */
+  columnMigrations?: { [column: string]: string };
+  /** Migration that adds the table's policies (default: the manifest policyMigration) */
+  policyMigration?: string;
+}
+
+export interface SchemaManifest {
+  /** Highest version recorded in demo_schema_versions */
+  version: number;
+  tables: TableManifest[];
+  /** Migration that adds the version table and demo_schema_policies() */
+  introspectionMigration: string;
+  /** Migration that adds the RLS policies */
+  policyMigration: string;
+}
+
+export const DEMO_SCHEMA: SchemaManifest = {
+  version: 15,
+  introspectionMigration: "20251020000001_schema_versions.sql",
+  policyMigration: "20251020000006_rls_policies.sql",
+  tables: [
+    {
+      name: "test_messages",
+      columns: ["id", "message", "sender", "timestamp", "lens_session_id", "created_at"],
+      policies: ["Allow anonymous access"],
+      migration: "20251020000002_example_tables.sql"
+    },
+    {
+      name: "realtime_messages",
+      columns: ["id", "channel", "event", "payload", "sent_at", "created_at"],
+      policies: ["Allow anonymous access"],
+      migration: "20251020000002_example_tables.sql"
+    },
+    {
+      name: "user_interactions",
+      columns: [
+        "id", "action", "data", "timestamp", "session_id", "idempotency_key", "created_at",
+        "category", "properties", "sequence", "platform",
+      ],
+      policies: ["Allow anonymous access"],
+      migration: "20251020000002_example_tables.sql",
+      columnMigrations: {
+        category: "20251020000007_analytics_events.sql",
+        properties: "20251020000007_analytics_events.sql",
+        sequence: "20251020000007_analytics_events.sql",
+        platform: "20251020000007_analytics_events.sql",
+      },
+    },
+    {
+      name: "user_preferences",
+      columns: ["id", "user_id", "preferences", "updated_at", "created_at"],
+      policies: ["Allow anonymous access"],
+      migration: "20251020000002_example_tables.sql"
+    },
+    {
+      name: "cursor_positions",
+      columns: [
+        "id", "room_name", "user_id", "user_name", "x", "y", "color", "timestamp", "created_at",
+        "depth", "world_x", "world_y", "world_z", "rot_x", "rot_y", "rot_z", "rot_w",
+      ],
+      policies: ["Room members can use cursors"],
+      migration: "20251020000003_cursor_positions.sql",
+      columnMigrations: {
+        depth: "20251020000014_cursor_depth.sql",
+        world_x: "20251020000014_cursor_depth.sql",
+        world_y: "20251020000014_cursor_depth.sql",
+        world_z: "20251020000014_cursor_depth.sql",
+        rot_x: "20251020000014_cursor_depth.sql",
+        rot_y: "20251020000014_cursor_depth.sql",
+        rot_z: "20251020000014_cursor_depth.sql",
+        rot_w: "20251020000014_cursor_depth.sql",
+      },
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "cursor_position_history",
+      columns: [
+        "id", "room_name", "user_id", "user_name", "x", "y", "color", "timestamp", "created_at",
+        "depth", "world_x", "world_y", "world_z", "rot_x", "rot_y", "rot_z", "rot_w",
+      ],
+      policies: ["Room members can use cursor history"],
+      migration: "20251020000009_cursor_latest_positions.sql",
+      columnMigrations: {
+        depth: "20251020000014_cursor_depth.sql",
+        world_x: "20251020000014_cursor_depth.sql",
+        world_y: "20251020000014_cursor_depth.sql",
+        world_z: "20251020000014_cursor_depth.sql",
+        rot_x: "20251020000014_cursor_depth.sql",
+        rot_y: "20251020000014_cursor_depth.sql",
+        rot_z: "20251020000014_cursor_depth.sql",
+        rot_w: "20251020000014_cursor_depth.sql",
+      },
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "cursor_control_locks",
+      columns: ["room_name", "owner_id", "owner_uid", "owner_name", "device", "lease_expires_at", "updated_at"],
+      policies: ["Room members can read control locks"],
+      migration: "20251020000008_control_locks.sql",
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "cursor_calibrations",
+      columns: ["room_name", "m00", "m01", "m02", "m10", "m11", "m12", "plane_distance", "point_count", "rms_error", "calibrated_by", "updated_at"],
+      policies: ["Room members can read calibrations", "Room members can add calibrations", "Room members can update calibrations", "Room members can reset calibrations"],
+      migration: "20251020000010_cursor_calibrations.sql",
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "room_presence",
+      columns: ["room_name", "user_id", "auth_uid", "user_name", "device", "color", "role", "joined_at", "last_seen_at"],
+      policies: ["Room members can read room presence", "Room members can add their presence"],
+      migration: "20251020000011_room_presence.sql",
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "rooms",
+      columns: ["name", "join_code", "created_by", "is_listed", "idle_minutes", "created_at", "last_active_at"],
+      policies: ["Members can read their rooms"],
+      migration: "20251020000012_rooms.sql",
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "room_members",
+      columns: ["room_name", "user_id", "joined_at"],
+      policies: ["Members can read room members"],
+      migration: "20251020000012_rooms.sql",
+      policyMigration: "20251020000012_rooms.sql"
+    },
+    {
+      name: "cursor_sessions",
+      columns: ["id", "room_name", "title", "recorded_by", "started_at", "ended_at", "duration_ms", "event_count"],
+      policies: ["Room members can read sessions", "Room members can record sessions", "Recorders manage their sessions", "Recorders delete their sessions"],
+      migration: "20251020000013_cursor_sessions.sql",
+      policyMigration: "20251020000013_cursor_sessions.sql"
+    },
+    {
+      name: "cursor_session_chunks",
+      columns: ["session_id", "seq", "start_ms", "end_ms", "events"],
+      policies: ["Readers of a session can read its chunks", "Recorders append chunks"],
+      migration: "20251020000013_cursor_sessions.sql",
+      policyMigration: "20251020000013_cursor_sessions.sql"
+    },
+    {
+      name: "cursor_annotations",
+      columns: ["id", "room_name", "user_id", "user_name", "color", "width", "depth", "points", "created_at"],
+      policies: ["Room members can use annotations"],
+      migration: "20251020000015_cursor_annotations.sql",
+      policyMigration: "20251020000015_cursor_annotations.sql"
+    },
+    {
+      name: "posts",
+      columns: ["id", "user_id", "original_image_url", "latitude", "longitude", "location_name", "location", "created_at"],
+      policies: ["Anyone can read posts", "Users manage their own posts"],
+      migration: "20251020000004_posts.sql"
+    },
+    {
+      name: "lens_logs",
+      columns: ["id", "level", "tag", "message", "logged_at", "session_id", "user_id", "created_at"],
+      policies: ["Lens can insert logs"],
+      migration: "20251020000005_lens_logs.sql"
+    }
+  ]
+};
@@ -0,0 +1,248 @@
+/**
+ * Interaction Analytics for Lens Studio
+ *
+ * Records user actions as rows in user_interactions with one stable session
+ * id per Lens session:
+ *
+ *   session_start -> track("tap") -> track("menu_open") -> ... -> session_end
+ *
+ * Events are buffered and inserted in batches every few seconds, when a batch
+ * is full and when the session ends. Failed batches are kept and retried on
+ * the next flush while the failure is retryable (offline, timeout, 5xx); every
+ * row carries an idempotency key (session id + sequence), so a retry after a
+ * lost response never stores an event twice.
+ *
+ * Sampling is decided once per session, so sampled sessions are complete;
+ * noisy actions can be thinned out further with actionSampleRates.
+ */
+
+import { Json, UserInteractionsInsert } from "./DatabaseTypes";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { Logger } from "./Logger";
+import { SupabaseError } from "./SupabaseError";
+
+/** Event properties; nested values are stored as JSON */
+export type AnalyticsProperties = { [key: string]: Json | undefined };
+
+export interface AnalyticsOptions {
+  rest: PostgrestClient;
+  /** Component used to create the flush timer */
+  host: BaseScriptComponent;
+  /** Default "user_interactions" */
+  table?: string;
+  /** Stored in the platform column (default "spectacles") */
+  platform?: string;
+  /** Share of sessions recorded, 0 - 1 (default 1) */
+  sampleRate?: number;
+  /** Per-action share of events kept within a recorded session, e.g. { cursor_move: 0.1 } */
+  actionSampleRates?: { [action: string]: number };
+  /** Rows per insert request (default 25) */
+  batchSize?: number;
+  flushIntervalSeconds?: number;
+  /** Oldest unsent events are dropped beyond this many (default 500) */
+  maxPending?: number;
+}
+
+export interface AnalyticsSession {
+  id: string;
+  /** Unix time in milliseconds */
+  startedAt: number;
+  /** False when the session was not picked by sampleRate */
+  isSampled: boolean;
+  eventCount: number;
+}
+
+/** Events every session records; session_* events are never sampled out */
+export const SESSION_START = "session_start";
+export const SESSION_END = "session_end";
+
+export class Analytics {
+  private options: AnalyticsOptions;
+  private table: string;
+  private session: AnalyticsSession | null = null;
+  private sequence: number = 0;
+  private pending: UserInteractionsInsert[] = [];
+  private isFlushing: boolean = false;
+  /** Set after a retryable failure so new events wait for the regular interval */
+  private isBackingOff: boolean = false;
+  private flushTimer: DelayedCallbackEvent;
+  private logger = new Logger("Analytics");
+
+  constructor(options: AnalyticsOptions) {
+    this.options = options;
+    this.table = options.table || "user_interactions";
+
+    this.flushTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.flushTimer.bind(() => {
+      this.flush().then(() => this.scheduleFlush(this.getFlushInterval()));
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sessions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Start a new session (ending the current one) and record session_start
+   */
+  public startSession(properties: AnalyticsProperties = {}): AnalyticsSession {
+    if (this.session) {
+      this.endSession("restarted");
+    }
+
+    const sampleRate = this.options.sampleRate === undefined ? 1 : this.options.sampleRate;
+    this.session = {
+      id: `lens_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 5)}`,
+      startedAt: Date.now(),
+      isSampled: Math.random() < sampleRate,
+      eventCount: 0
+    };
+    this.sequence = 0;
+
+    if (!this.session.isSampled) {
+      this.logger.debug(`🎲 Session ${this.session.id} not sampled (rate ${sampleRate})`);
+    }
+    this.record(SESSION_START, "session", properties);
+    this.scheduleFlush(this.getFlushInterval());
+    return { ...this.session };
+  }
+
+  /**
+   * Record session_end with the duration and event count, then flush
+   */
+  public async endSession(reason: string = "ended"): Promise<SupabaseError | null> {
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+
+    this.record(SESSION_END, "session", {
+      reason: reason,
+      duration_ms: Date.now() - session.startedAt,
+      event_count: session.eventCount
+    });
+    this.session = null;
+    this.flushTimer.enabled = false;
+    return this.flush();
+  }
+
+  public getSession(): AnalyticsSession | null {
+    return this.session ? { ...this.session } : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Record an action; starts a session when none is running
+   *
+   *   analytics.track("button_press", { button: "retrieve" }, "ui");
+   */
+  public track(action: string, properties: AnalyticsProperties = {}, category: string = "interaction") {
+    if (!this.session) {
+      this.startSession();
+    }
+
+    const rate = this.options.actionSampleRates ? this.options.actionSampleRates[action] : undefined;
+    if (rate !== undefined && Math.random() >= rate) {
+      return;
+    }
+    this.record(action, category, properties);
+  }
+
+  /**
+   * Send pending events now, one batch at a time
+   * Returns the error that stopped the flush, or null
+   */
+  public async flush(): Promise<SupabaseError | null> {
+    if (this.isFlushing) {
+      return null;
+    }
+    this.isFlushing = true;
+
+    try {
+      while (this.pending.length > 0) {
+        const batch = this.pending.slice(0, this.getBatchSize());
+        const { error } = await this.options.rest.from(this.table).upsert(batch, {
+          onConflict: "idempotency_key",
+          ignoreDuplicates: true,
+          returning: "minimal"
+        });
+
+        if (error && error.isRetryable()) {
+          this.isBackingOff = true;
+          this.logger.warn(`⚠️ ${this.pending.length} analytics event(s) waiting: ${error.toString()}`);
+          return error;
+        }
+        this.isBackingOff = false;
+        // Non-retryable errors (missing column, RLS) would fail the same way again
+        this.pending.splice(0, batch.length);
+        if (error) {
+          this.logger.error(`❌ Dropped ${batch.length} analytics event(s): ${error.toString()}`);
+          return error;
+        }
+      }
+      return null;
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private record(action: string, category: string, properties: AnalyticsProperties) {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    session.eventCount++;
+    const sequence = this.sequence++;
+
+    if (!session.isSampled) {
+      return;
+    }
+
+    this.pending.push({
+      action: action,
+      category: category,
+      properties: properties as Json,
+      timestamp: new Date().toISOString(),
+      session_id: session.id,
+      sequence: sequence,
+      platform: this.options.platform || "spectacles",
+      idempotency_key: `${session.id}:${sequence}`
+    });
+
+    const maxPending = this.options.maxPending || 500;
+    if (this.pending.length > maxPending) {
+      this.pending.splice(0, this.pending.length - maxPending);
+    }
+
+    if (!this.isBackingOff && this.pending.length >= this.getBatchSize()) {
+      this.scheduleFlush(0.5);
+    }
+  }
+
+  private scheduleFlush(delaySeconds: number) {
+    if (!this.session) {
+      return;
+    }
+    this.flushTimer.enabled = true;
+    this.flushTimer.reset(delaySeconds);
+  }
+
+  private getBatchSize(): number {
+    return Math.max(1, Math.floor(this.options.batchSize || 25));
+  }
+
+  private getFlushInterval(): number {
+    return Math.max(1, this.options.flushIntervalSeconds || 10);
+  }
+}
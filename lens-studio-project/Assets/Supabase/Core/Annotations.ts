@@ -0,0 +1,309 @@
+/**
+ * Annotation Strokes for Lens Studio
+ *
+ * Follows the strokes drawn on the web controller's cursor area
+ * (supabase/migrations/20251020000015_cursor_annotations.sql). A stroke is
+ * a polyline in web percentages (0-100) with a color, a width in percent of
+ * the drawing area's width and an optional depth, like a cursor row.
+ *
+ * While a stroke is drawn, its points arrive in batches as
+ * `annotation-points` broadcasts on `cursor-annotations-<room>`; the
+ * finished stroke comes as `annotation-end` and is stored in
+ * cursor_annotations, which is read on start and whenever the channel
+ * (re)joins, so strokes drawn before we joined or without Realtime show up.
+ * `annotation-undo` removes one stroke, `annotation-clear` all of them.
+ */
+
+import { CursorAnnotationsRow } from "./DatabaseTypes";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { BroadcastMessage, RealtimeChannel, RealtimeClient } from "./RealtimeClient";
+import { SupabaseError } from "./SupabaseError";
+
+export const ANNOTATION_POINTS = "annotation-points";
+export const ANNOTATION_END = "annotation-end";
+export const ANNOTATION_UNDO = "annotation-undo";
+export const ANNOTATION_CLEAR = "annotation-clear";
+
+export interface AnnotationStroke {
+  id: string;
+  userId: string;
+  userName: string;
+  /** "#RRGGBB" */
+  color: string;
+  /** Percent of the drawing area's width */
+  width: number;
+  /** Forward distance from the camera; null to use the renderer's default */
+  depth: number | null;
+  /** Web percentages, in drawing order */
+  points: { x: number; y: number }[];
+  /** False while the stroke is still being drawn */
+  complete: boolean;
+}
+
+export type AnnotationChange =
+  | { type: "stroke"; stroke: AnnotationStroke }
+  | { type: "remove"; strokeId: string }
+  | { type: "clear" };
+
+export interface AnnotationStreamOptions {
+  rest: PostgrestClient;
+  realtime: RealtimeClient;
+  roomName: string;
+  logger?: (message: string) => void;
+}
+
+/** Payload of the annotation broadcasts, shared with the web controller */
+interface AnnotationPayload {
+  room_name: string;
+  stroke_id: string;
+  user_id?: string;
+  user_name?: string;
+  color?: string;
+  width?: number;
+  depth?: number | null;
+  /** annotation-points: the new points; annotation-end: all of them */
+  points?: number[][];
+  /** annotation-points: index of the first new point in the stroke */
+  start_index?: number;
+}
+
+/**
+ * Realtime channel carrying the annotations of a room
+ * (the web controller joins the same one)
+ */
+export function annotationChannelName(roomName: string): string {
+  return `cursor-annotations-${roomName}`;
+}
+
+export class AnnotationStream {
+  private options: AnnotationStreamOptions;
+  private channel: RealtimeChannel | null = null;
+  /** Strokes by id, in the order they started */
+  private strokes: Map<string, AnnotationStroke> = new Map();
+  private listeners: ((change: AnnotationChange) => void)[] = [];
+  private isStarted: boolean = false;
+  private onPoints = (message: BroadcastMessage) => this.handlePoints(message.payload);
+  private onEnd = (message: BroadcastMessage) => this.handleEnd(message.payload);
+  private onUndo = (message: BroadcastMessage) => this.handleUndo(message.payload);
+  private onClear = (message: BroadcastMessage) => this.handleClear(message.payload);
+
+  constructor(options: AnnotationStreamOptions) {
+    this.options = options;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Load the stored strokes and follow new ones
+   */
+  public start() {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+
+    this.channel = this.options.realtime.channel(annotationChannelName(this.options.roomName), { private: true })
+      .on("broadcast", { event: ANNOTATION_POINTS }, this.onPoints)
+      .on("broadcast", { event: ANNOTATION_END }, this.onEnd)
+      .on("broadcast", { event: ANNOTATION_UNDO }, this.onUndo)
+      .on("broadcast", { event: ANNOTATION_CLEAR }, this.onClear)
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          this.log("✏️ Following annotations");
+          // Strokes finished while we were joining
+          this.load();
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          this.log(`⚠️ Annotation channel unavailable (${status}) - call load() to refresh`);
+        }
+      });
+
+    this.load();
+  }
+
+  public stop() {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+
+    if (this.channel) {
+      this.channel.off("broadcast", this.onPoints);
+      this.channel.off("broadcast", this.onEnd);
+      this.channel.off("broadcast", this.onUndo);
+      this.channel.off("broadcast", this.onClear);
+      if (!this.channel.hasBindings()) {
+        this.options.realtime.removeChannel(this.channel);
+      }
+      this.channel = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Strokes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * All strokes, oldest first
+   */
+  public getStrokes(): AnnotationStroke[] {
+    return Array.from(this.strokes.values());
+  }
+
+  /**
+   * Called for every stroke update, removal and clear; returns an unsubscribe function
+   */
+  public onChange(listener: (change: AnnotationChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Replace the finished strokes with the stored ones; strokes still being
+   * drawn are kept
+   */
+  public async load(): Promise<{ error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.from("cursor_annotations")
+      .select("*")
+      .eq("room_name", this.options.roomName)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      this.log(`⚠️ Could not load annotations: ${error.message}`);
+      return { error: error };
+    }
+
+    const stored: { [id: string]: boolean } = {};
+    (data || []).forEach(row => {
+      stored[row.id] = true;
+      const existing = this.strokes.get(row.id);
+      if (!existing || !existing.complete || existing.points.length !== (row.points as number[][]).length) {
+        this.setStroke(this.fromRow(row));
+      }
+    });
+
+    this.getStrokes().forEach(stroke => {
+      if (stroke.complete && !stored[stroke.id]) {
+        this.removeStroke(stroke.id);
+      }
+    });
+    return { error: null };
+  }
+
+  /**
+   * Delete every stroke of the room, for everyone
+   */
+  public async clear(): Promise<{ error: SupabaseError | null }> {
+    const { error } = await this.options.rest.from("cursor_annotations")
+      .delete()
+      .eq("room_name", this.options.roomName);
+
+    if (error) {
+      return { error: error };
+    }
+
+    if (this.channel) {
+      this.channel.send({ type: "broadcast", event: ANNOTATION_CLEAR, payload: { room_name: this.options.roomName } });
+    }
+    this.handleClear({ room_name: this.options.roomName, stroke_id: "" });
+    return { error: null };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Broadcasts
+  // ---------------------------------------------------------------------------
+
+  private handlePoints(payload: AnnotationPayload) {
+    if (!this.isForRoom(payload) || !payload.points) {
+      return;
+    }
+
+    const stroke = this.strokes.get(payload.stroke_id) || this.fromPayload(payload, false);
+    if (stroke.complete) {
+      return;
+    }
+
+    // Batches may overlap or arrive out of order; later ones overwrite by index
+    const start = payload.start_index || 0;
+    payload.points.forEach((point, offset) => {
+      stroke.points[start + offset] = { x: point[0], y: point[1] };
+    });
+    stroke.points = stroke.points.filter(point => !!point);
+    this.setStroke(stroke);
+  }
+
+  private handleEnd(payload: AnnotationPayload) {
+    if (!this.isForRoom(payload) || !payload.points) {
+      return;
+    }
+    this.setStroke(this.fromPayload(payload, true));
+  }
+
+  private handleUndo(payload: AnnotationPayload) {
+    if (this.isForRoom(payload)) {
+      this.removeStroke(payload.stroke_id);
+    }
+  }
+
+  private handleClear(payload: AnnotationPayload) {
+    if (!payload || payload.room_name !== this.options.roomName) {
+      return;
+    }
+    this.strokes.clear();
+    this.notify({ type: "clear" });
+  }
+
+  private isForRoom(payload: AnnotationPayload): boolean {
+    return !!payload && payload.room_name === this.options.roomName && !!payload.stroke_id;
+  }
+
+  private setStroke(stroke: AnnotationStroke) {
+    this.strokes.set(stroke.id, stroke);
+    this.notify({ type: "stroke", stroke: stroke });
+  }
+
+  private removeStroke(strokeId: string) {
+    if (this.strokes.delete(strokeId)) {
+      this.notify({ type: "remove", strokeId: strokeId });
+    }
+  }
+
+  private fromPayload(payload: AnnotationPayload, complete: boolean): AnnotationStroke {
+    return {
+      id: payload.stroke_id,
+      userId: payload.user_id || "",
+      userName: payload.user_name || payload.user_id || "",
+      color: payload.color || "#FF6B6B",
+      width: payload.width || 0.5,
+      depth: payload.depth != null ? payload.depth : null,
+      points: complete ? (payload.points || []).map(point => ({ x: point[0], y: point[1] })) : [],
+      complete: complete
+    };
+  }
+
+  private fromRow(row: CursorAnnotationsRow): AnnotationStroke {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userName: row.user_name || row.user_id,
+      color: row.color || "#FF6B6B",
+      width: row.width || 0.5,
+      depth: row.depth,
+      points: (row.points as number[][]).map(point => ({ x: point[0], y: point[1] })),
+      complete: true
+    };
+  }
+
+  private notify(change: AnnotationChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * Control Lock for Lens Studio
+ *
+ * Decides which device leads a cursor room (moves the shared cursor) so a PC
+ * and a pair of Spectacles never both think they are in control. The lock is
+ * a row in cursor_control_locks, changed only through Postgres functions
+ * (supabase/migrations/20251020000008_control_locks.sql):
+ *
+ *   request()  -> acquire_control_lock   granted when the room is free or expired
+ *   (holder)   -> acquire_control_lock   renews the lease every leaseSeconds / 3
+ *   release()  -> release_control_lock   frees the room, optionally handing it over
+ *   getOwner() -> control_lock_owner     current owner, or null
+ *
+ * When the room is taken, request() broadcasts `control-request` on the
+ * `cursor-control-<room>` channel and keeps retrying; the holder grants it by
+ * releasing (grantRequests), or the request succeeds once the holder's lease
+ * runs out. The holder stops leading before it releases, and a lease is
+ * counted from before the request was sent, so the local lease always ends
+ * before the server's: there is never a moment with two leaders.
+ *
+ * Lock changes are broadcast as `control-changed` so other devices update
+ * immediately; observers without an ownerId (followers) also poll the owner.
+ *
+ * The functions need a signed-in user (an anonymous session is enough): the
+ * lock is bound to auth.uid(), so only the user who took it renews or frees it.
+ */
+
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { BroadcastMessage, RealtimeChannel, RealtimeClient } from "./RealtimeClient";
+import { SupabaseError } from "./SupabaseError";
+
+export type ControlDevice = "pc" | "spectacles";
+
+export interface ControlOwner {
+  ownerId: string;
+  ownerName: string | null;
+  device: string;
+  /** Local time (ms) the lease runs out unless it is renewed */
+  expiresAt: number;
+}
+
+/**
+ * Why the owner changed:
+ * - acquired / released / granted / lost / expired: this device's own lock
+ * - remote: another device took or freed the room
+ */
+export type ControlChangeReason = "acquired" | "released" | "granted" | "lost" | "expired" | "remote";
+
+export interface ControlChange {
+  owner: ControlOwner | null;
+  reason: ControlChangeReason;
+  /** Device the previous owner handed the room to, when it was released */
+  handoffTo?: string;
+}
+
+export interface ControlLockOptions {
+  rest: PostgrestClient;
+  realtime: RealtimeClient;
+  /** Component used to create the lease and retry timers */
+  host: BaseScriptComponent;
+  roomName: string;
+  /** Our identity; leave empty to only observe the lock */
+  ownerId?: string;
+  ownerName?: string;
+  device?: ControlDevice;
+  /** Lease length in seconds, 2 - 60 (default 10) */
+  leaseSeconds?: number;
+  /** Release the lock when another device requests it (default true) */
+  grantRequests?: boolean;
+  /** How long request() keeps trying (default lease + 2 seconds) */
+  requestTimeoutSeconds?: number;
+  logger?: (message: string) => void;
+}
+
+/** Row returned by control_lock_owner / acquire_control_lock */
+interface ControlLockOwnerRow {
+  owner_id: string;
+  owner_name: string | null;
+  device: string;
+  expires_in_ms: number;
+}
+
+export const CONTROL_CHANGED = "control-changed";
+export const CONTROL_REQUEST = "control-request";
+
+/**
+ * Realtime channel carrying the control events of a room
+ * (the web controller joins the same one)
+ */
+export function controlChannelName(roomName: string): string {
+  return `cursor-control-${roomName}`;
+}
+
+export class ControlLock {
+  private options: ControlLockOptions;
+  private leaseSeconds: number;
+  private owner: ControlOwner | null = null;
+  private channel: RealtimeChannel | null = null;
+  private listeners: ((change: ControlChange) => void)[] = [];
+  private renewTimer: DelayedCallbackEvent;
+  private watchTimer: DelayedCallbackEvent;
+  private requestTimer: DelayedCallbackEvent;
+  /** Local time the pending request gives up; 0 when no request is pending */
+  private requestDeadline: number = 0;
+  private requestResolvers: ((granted: boolean) => void)[] = [];
+  private isStarted: boolean = false;
+  private onChangedMessage = (message: BroadcastMessage) => this.handleChanged(message.payload);
+  private onRequestMessage = (message: BroadcastMessage) => this.handleRequest(message.payload);
+
+  constructor(options: ControlLockOptions) {
+    this.options = options;
+    this.leaseSeconds = Math.max(2, Math.min(60, options.leaseSeconds || 10));
+
+    this.renewTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.renewTimer.bind(() => this.renew());
+
+    this.watchTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.watchTimer.bind(() => this.watch());
+
+    this.requestTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.requestTimer.bind(() => this.retryRequest());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Join the control channel and read the current owner
+   */
+  public start() {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+
+    // The channel may be shared with another script in the same Lens
+    this.channel = this.options.realtime.channel(controlChannelName(this.options.roomName), { private: true })
+      .on("broadcast", { event: CONTROL_CHANGED }, this.onChangedMessage)
+      .on("broadcast", { event: CONTROL_REQUEST }, this.onRequestMessage)
+      .subscribe();
+
+    this.watch();
+  }
+
+  /**
+   * Release the lock if we hold it and leave the control channel
+   */
+  public async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+    this.finishRequest(false);
+    this.watchTimer.enabled = false;
+
+    if (this.isOwner()) {
+      await this.release();
+    }
+    this.renewTimer.enabled = false;
+
+    if (this.channel) {
+      this.channel.off("broadcast", this.onChangedMessage).off("broadcast", this.onRequestMessage);
+      if (!this.channel.hasBindings()) {
+        this.options.realtime.removeChannel(this.channel);
+      }
+      this.channel = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Owner
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Whether this device holds the lock right now (lease not run out)
+   */
+  public isOwner(): boolean {
+    return this.owner !== null && this.owner.ownerId === this.options.ownerId && Date.now() < this.owner.expiresAt;
+  }
+
+  /**
+   * Last known owner, without asking the server
+   */
+  public getCurrentOwner(): ControlOwner | null {
+    return this.owner && Date.now() < this.owner.expiresAt ? { ...this.owner } : null;
+  }
+
+  /**
+   * Ask the server who holds the room
+   */
+  public async getOwner(): Promise<{ owner: ControlOwner | null; error: SupabaseError | null }> {
+    const requestedAt = Date.now();
+    const { data, error } = await this.options.rest.rpc<ControlLockOwnerRow>("control_lock_owner", {
+      p_room: this.options.roomName
+    });
+
+    if (error) {
+      return { owner: this.getCurrentOwner(), error: error };
+    }
+
+    const row = (data || [])[0];
+    const owner = row ? this.toOwner(row, requestedAt) : null;
+    // Our own lease is only started and extended by acquire()
+    if (owner && owner.ownerId === this.options.ownerId) {
+      return { owner: this.getCurrentOwner(), error: null };
+    }
+    // A read racing our renewal must not end our lease; another owner does
+    if (!this.isOwner() || owner) {
+      this.setOwner(owner, this.isOwner() ? "lost" : "remote");
+    }
+    return { owner: owner, error: null };
+  }
+
+  /**
+   * Listen for owner changes; returns an unsubscribe function
+   */
+  public onChange(listener: (change: ControlChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(entry => entry !== listener);
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Request / release
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Take the lock, asking the current holder to hand it over when the room
+   * is taken. Resolves true once granted, false after requestTimeoutSeconds.
+   */
+  public request(): Promise<boolean> {
+    if (!this.options.ownerId) {
+      this.log("❌ Cannot request control without an ownerId");
+      return Promise.resolve(false);
+    }
+    if (this.isOwner()) {
+      return Promise.resolve(true);
+    }
+
+    const promise = new Promise<boolean>(resolve => this.requestResolvers.push(resolve));
+    if (this.requestDeadline === 0) {
+      const timeout = this.options.requestTimeoutSeconds || this.leaseSeconds + 2;
+      this.requestDeadline = Date.now() + timeout * 1000;
+      this.attemptRequest(true);
+    }
+    return promise;
+  }
+
+  /**
+   * Stop leading and free the room; handoffTo tells the other devices which
+   * of them should take over
+   */
+  public async release(handoffTo?: ControlDevice): Promise<SupabaseError | null> {
+    return this.releaseAs("released", handoffTo);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async attemptRequest(announce: boolean) {
+    const granted = await this.acquire();
+    if (this.requestDeadline === 0) {
+      return;
+    }
+    if (granted) {
+      this.finishRequest(true);
+      return;
+    }
+
+    if (announce && this.owner) {
+      this.log(`🙋 Requesting control from ${this.owner.ownerName || this.owner.ownerId}`);
+      this.send(CONTROL_REQUEST, {
+        requester_id: this.options.ownerId,
+        requester_name: this.options.ownerName || null,
+        device: this.options.device || null
+      });
+    }
+
+    if (Date.now() >= this.requestDeadline) {
+      this.log("⏱️ Control request timed out");
+      this.finishRequest(false);
+      return;
+    }
+    this.requestTimer.enabled = true;
+    this.requestTimer.reset(1);
+  }
+
+  private retryRequest() {
+    if (this.requestDeadline !== 0) {
+      this.attemptRequest(false);
+    }
+  }
+
+  private finishRequest(granted: boolean) {
+    this.requestDeadline = 0;
+    this.requestTimer.enabled = false;
+    const resolvers = this.requestResolvers;
+    this.requestResolvers = [];
+    resolvers.forEach(resolve => resolve(granted));
+  }
+
+  /**
+   * Take a free lock or renew ours; true when we hold it afterwards
+   */
+  private async acquire(): Promise<boolean> {
+    // Counted from before the request, so our lease ends before the server's
+    const requestedAt = Date.now();
+    const { data, error } = await this.options.rest.rpc<ControlLockOwnerRow>("acquire_control_lock", {
+      p_room: this.options.roomName,
+      p_owner_id: this.options.ownerId,
+      p_owner_name: this.options.ownerName || null,
+      p_device: this.options.device || "spectacles",
+      p_lease_seconds: this.leaseSeconds
+    });
+
+    if (error) {
+      this.log(`⚠️ Control lock request failed: ${error.toString()}`);
+      return false;
+    }
+
+    const row = (data || [])[0];
+    if (row && row.owner_id === this.options.ownerId) {
+      const wasOwner = this.isOwner();
+      this.owner = {
+        ownerId: row.owner_id,
+        ownerName: row.owner_name,
+        device: row.device,
+        expiresAt: requestedAt + this.leaseSeconds * 1000
+      };
+      this.renewTimer.enabled = true;
+      this.renewTimer.reset(this.leaseSeconds / 3);
+
+      if (!wasOwner) {
+        this.log("👑 Control granted");
+        this.notify({ owner: { ...this.owner }, reason: "acquired" });
+        this.send(CONTROL_CHANGED, { ...row, expires_in_ms: this.leaseSeconds * 1000 });
+      }
+      return true;
+    }
+
+    this.setOwner(row ? this.toOwner(row, requestedAt) : null, this.isOwner() ? "lost" : "remote");
+    return false;
+  }
+
+  private async renew() {
+    if (!this.owner || this.owner.ownerId !== this.options.ownerId) {
+      return;
+    }
+
+    const renewed = await this.acquire();
+    if (renewed || !this.owner || this.owner.ownerId !== this.options.ownerId) {
+      return;
+    }
+
+    // The renewal failed without anyone else taking over (e.g. offline):
+    // keep leading until our lease runs out, retrying meanwhile
+    if (Date.now() >= this.owner.expiresAt) {
+      this.log("⏱️ Control lease expired");
+      this.setOwner(null, "expired");
+    } else {
+      this.renewTimer.enabled = true;
+      this.renewTimer.reset(1);
+    }
+  }
+
+  /**
+   * Expire stale owners and, when we do not lead, poll the server
+   */
+  private watch() {
+    if (!this.isStarted) {
+      return;
+    }
+
+    if (this.owner && Date.now() >= this.owner.expiresAt) {
+      this.setOwner(null, this.owner.ownerId === this.options.ownerId ? "expired" : "remote");
+    }
+    if (!this.isOwner()) {
+      this.getOwner();
+    }
+
+    this.watchTimer.enabled = true;
+    this.watchTimer.reset(Math.max(1, this.leaseSeconds / 2));
+  }
+
+  private async releaseAs(reason: ControlChangeReason, handoffTo?: string): Promise<SupabaseError | null> {
+    if (!this.owner || this.owner.ownerId !== this.options.ownerId) {
+      return null;
+    }
+
+    // Stop leading before the room becomes free
+    this.renewTimer.enabled = false;
+    this.setOwner(null, reason, handoffTo);
+
+    const { error } = await this.options.rest.rpc<boolean>("release_control_lock", {
+      p_room: this.options.roomName,
+      p_owner_id: this.options.ownerId
+    });
+    if (error) {
+      // The lease still runs out on its own
+      this.log(`⚠️ Control release failed: ${error.toString()}`);
+      return error;
+    }
+
+    this.send(CONTROL_CHANGED, {
+      owner_id: null,
+      released_by: this.options.ownerId,
+      handoff_to: handoffTo || null
+    });
+    return null;
+  }
+
+  private handleChanged(payload: any) {
+    if (!payload) {
+      return;
+    }
+
+    if (payload.owner_id) {
+      if (payload.owner_id !== this.options.ownerId) {
+        this.setOwner(this.toOwner(payload, Date.now()), this.isOwner() ? "lost" : "remote");
+      }
+      return;
+    }
+
+    // Released: retry a pending request right away
+    if (this.owner && this.owner.ownerId === payload.released_by) {
+      this.setOwner(null, "remote", payload.handoff_to || undefined);
+    }
+    if (this.requestDeadline !== 0) {
+      this.requestTimer.enabled = false;
+      this.attemptRequest(false);
+    }
+  }
+
+  private handleRequest(payload: any) {
+    if (!payload || payload.requester_id === this.options.ownerId || !this.isOwner()) {
+      return;
+    }
+    if (this.options.grantRequests === false) {
+      this.log(`🚫 Ignoring control request from ${payload.requester_name || payload.requester_id}`);
+      return;
+    }
+
+    this.log(`🤝 Handing control to ${payload.requester_name || payload.requester_id}`);
+    this.releaseAs("granted", payload.device || undefined);
+  }
+
+  private setOwner(owner: ControlOwner | null, reason: ControlChangeReason, handoffTo?: string) {
+    const previousId = this.owner && Date.now() < this.owner.expiresAt ? this.owner.ownerId : null;
+    this.owner = owner;
+
+    const currentId = owner ? owner.ownerId : null;
+    if (previousId !== currentId || handoffTo) {
+      this.notify({ owner: owner ? { ...owner } : null, reason: reason, handoffTo: handoffTo });
+    }
+  }
+
+  private toOwner(row: ControlLockOwnerRow, receivedAt: number): ControlOwner {
+    return {
+      ownerId: row.owner_id,
+      ownerName: row.owner_name || null,
+      device: row.device,
+      expiresAt: receivedAt + Math.max(0, Number(row.expires_in_ms) || 0)
+    };
+  }
+
+  private send(event: string, payload: { [key: string]: any }) {
+    if (this.channel) {
+      this.channel.send({ type: "broadcast", event: event, payload: { room_name: this.options.roomName, ...payload } });
+    }
+  }
+
+  private notify(change: ControlChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
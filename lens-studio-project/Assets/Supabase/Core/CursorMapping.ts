@@ -0,0 +1,522 @@
+/**
+ * Cursor Mapping for Lens Studio
+ *
+ * One mapping between web cursor percentages (0-100, top-left to
+ * bottom-right) and Spectacles space, shared by every cursor component in a
+ * room. The web page maps to a plane planeDistance in front of the camera,
+ * facing it:
+ *
+ *   lens_x = m00 * web_x + m01 * web_y + m02
+ *   lens_y = m10 * web_x + m11 * web_y + m12
+ *
+ * where (lens_x, lens_y, planeDistance) is a point in the camera's local
+ * space. Going back, a 3D point is first projected along its view ray onto
+ * the plane, so a cursor shows at the same web position at any depth.
+ *
+ * Until a room is calibrated, DEFAULT_CURSOR_TRANSFORM applies. The
+ * calibration wizard (Example2-RealTimeCursor/CursorCalibrationWizard.ts)
+ * fits the transform to corner targets with CursorMapping.fit and saves it
+ * in cursor_calibrations (supabase/migrations/20251020000010_cursor_calibrations.sql)
+ * through CursorMappingStore, which every component loads and which follows
+ * `calibration-updated` broadcasts on `cursor-calibration-<room>`.
+ */
+
+import { CursorCalibrationsInsert, CursorCalibrationsRow } from "./DatabaseTypes";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { BroadcastMessage, RealtimeChannel, RealtimeClient } from "./RealtimeClient";
+import { SupabaseError } from "./SupabaseError";
+
+export interface AffineTransform {
+  m00: number;
+  m01: number;
+  m02: number;
+  m10: number;
+  m11: number;
+  m12: number;
+}
+
+/** A web target and where the Spectacles cursor was when it pointed at it */
+export interface CalibrationPoint {
+  webX: number;
+  webY: number;
+  lensX: number;
+  lensY: number;
+}
+
+export interface CalibrationFit {
+  mapping: CursorMapping;
+  /** Root mean square distance between targets and fitted points, in web percent */
+  rmsError: number;
+  pointCount: number;
+}
+
+/** Where the current mapping came from */
+export type MappingSource = "default" | "cache" | "server";
+
+/** Distance of the web plane from the camera when uncalibrated */
+export const DEFAULT_PLANE_DISTANCE = 2;
+
+/**
+ * Uncalibrated mapping: the web page spans -1.5 to +1.5 on both axes, y up
+ */
+export const DEFAULT_CURSOR_TRANSFORM: AffineTransform = {
+  m00: 0.03, m01: 0, m02: -1.5,
+  m10: 0, m11: -0.03, m12: 1.5
+};
+
+/** Calibration wizard events, on the same channel as CALIBRATION_UPDATED */
+export const CALIBRATION_START = "calibration-start";
+export const CALIBRATION_TARGET = "calibration-target";
+export const CALIBRATION_CAPTURE = "calibration-capture";
+export const CALIBRATION_FINISHED = "calibration-finished";
+export const CALIBRATION_CANCEL = "calibration-cancel";
+export const CALIBRATION_UPDATED = "calibration-updated";
+
+/**
+ * Realtime channel carrying the calibration events of a room
+ * (the web controller joins the same one)
+ */
+export function calibrationChannelName(roomName: string): string {
+  return `cursor-calibration-${roomName}`;
+}
+
+/** Closest a point may be to the camera plane when projected */
+const MIN_DEPTH = 0.01;
+
+export class CursorMapping {
+  public readonly transform: AffineTransform;
+  public readonly planeDistance: number;
+  /** Inverse of the 2x2 part; null when the transform is degenerate */
+  private inverse: { i00: number; i01: number; i10: number; i11: number } | null;
+
+  constructor(transform: AffineTransform = DEFAULT_CURSOR_TRANSFORM, planeDistance: number = DEFAULT_PLANE_DISTANCE) {
+    this.transform = { ...transform };
+    this.planeDistance = planeDistance > 0 ? planeDistance : DEFAULT_PLANE_DISTANCE;
+
+    const t = this.transform;
+    const determinant = t.m00 * t.m11 - t.m01 * t.m10;
+    this.inverse = Math.abs(determinant) < 1e-12 ? null : {
+      i00: t.m11 / determinant,
+      i01: -t.m01 / determinant,
+      i10: -t.m10 / determinant,
+      i11: t.m00 / determinant
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Web <-> plane
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Web percentages -> point on the plane (camera-local x and y)
+   */
+  public webToPlane(webX: number, webY: number): { x: number; y: number } {
+    const t = this.transform;
+    return {
+      x: t.m00 * webX + t.m01 * webY + t.m02,
+      y: t.m10 * webX + t.m11 * webY + t.m12
+    };
+  }
+
+  /**
+   * Point on the plane -> web percentages (unclamped)
+   */
+  public planeToWeb(planeX: number, planeY: number): { x: number; y: number } {
+    if (!this.inverse) {
+      return { x: 50, y: 50 };
+    }
+    const dx = planeX - this.transform.m02;
+    const dy = planeY - this.transform.m12;
+    return {
+      x: this.inverse.i00 * dx + this.inverse.i01 * dy,
+      y: this.inverse.i10 * dx + this.inverse.i11 * dy
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Web <-> camera space
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Web percentages -> camera-local position, `distance` along the view ray
+   * through the plane point (the plane itself by default)
+   */
+  public webToCamera(webX: number, webY: number, distance: number = this.planeDistance): vec3 {
+    const plane = this.webToPlane(webX, webY);
+    const scale = distance / this.planeDistance;
+    return new vec3(plane.x * scale, plane.y * scale, distance);
+  }
+
+  /**
+   * Camera-local position -> point on the plane along its view ray
+   */
+  public cameraToPlane(local: vec3): { x: number; y: number } {
+    const scale = this.planeDistance / Math.max(Math.abs(local.z), MIN_DEPTH);
+    return { x: local.x * scale, y: local.y * scale };
+  }
+
+  /**
+   * Camera-local position -> web percentages, clamped to 0-100
+   */
+  public cameraToWeb(local: vec3): { x: number; y: number } {
+    const plane = this.cameraToPlane(local);
+    const web = this.planeToWeb(plane.x, plane.y);
+    return { x: clampPercent(web.x), y: clampPercent(web.y) };
+  }
+
+  /**
+   * Web percentages -> world position for the given camera
+   */
+  public webToWorld(webX: number, webY: number, camera: Transform, distance: number = this.planeDistance): vec3 {
+    return camera.getWorldPosition().add(camera.getWorldRotation().multiplyVec3(this.webToCamera(webX, webY, distance)));
+  }
+
+  /**
+   * World position -> web percentages for the given camera, clamped to 0-100
+   */
+  public worldToWeb(worldPosition: vec3, camera: Transform): { x: number; y: number } {
+    return this.cameraToWeb(CursorMapping.toCameraSpace(worldPosition, camera));
+  }
+
+  /**
+   * World position -> the camera's local space
+   */
+  public static toCameraSpace(worldPosition: vec3, camera: Transform): vec3 {
+    return camera.getWorldRotation().invert().multiplyVec3(worldPosition.sub(camera.getWorldPosition()));
+  }
+
+  /**
+   * Forward distance of a camera-local position: the `distance` webToCamera
+   * takes to put it back, and the `depth` cursors broadcast
+   */
+  public static cameraDepth(local: vec3): number {
+    return Math.max(Math.abs(local.z), MIN_DEPTH);
+  }
+
+  /**
+   * World rotation -> rotation relative to the camera
+   */
+  public static toCameraRotation(worldRotation: quat, camera: Transform): quat {
+    return camera.getWorldRotation().invert().multiply(worldRotation);
+  }
+
+  /**
+   * Rotation relative to the camera -> world rotation
+   */
+  public static fromCameraRotation(localRotation: quat, camera: Transform): quat {
+    return camera.getWorldRotation().multiply(localRotation);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Calibration
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Least squares affine fit of web targets to plane points; null when the
+   * points do not span the page (fewer than 3, or all on one line)
+   */
+  public static fit(points: CalibrationPoint[], planeDistance: number = DEFAULT_PLANE_DISTANCE): CalibrationFit | null {
+    if (points.length < 3) {
+      return null;
+    }
+
+    // Normal equations, shared by both rows: [sxx sxy sx; sxy syy sy; sx sy n]
+    let sxx = 0, sxy = 0, syy = 0, sx = 0, sy = 0;
+    let sxu = 0, syu = 0, su = 0, sxv = 0, syv = 0, sv = 0;
+    points.forEach(point => {
+      sxx += point.webX * point.webX;
+      sxy += point.webX * point.webY;
+      syy += point.webY * point.webY;
+      sx += point.webX;
+      sy += point.webY;
+      sxu += point.webX * point.lensX;
+      syu += point.webY * point.lensX;
+      su += point.lensX;
+      sxv += point.webX * point.lensY;
+      syv += point.webY * point.lensY;
+      sv += point.lensY;
+    });
+    const n = points.length;
+
+    const rowX = solve3([sxx, sxy, sx, sxy, syy, sy, sx, sy, n], [sxu, syu, su]);
+    const rowY = solve3([sxx, sxy, sx, sxy, syy, sy, sx, sy, n], [sxv, syv, sv]);
+    if (!rowX || !rowY) {
+      return null;
+    }
+
+    const mapping = new CursorMapping({
+      m00: rowX[0], m01: rowX[1], m02: rowX[2],
+      m10: rowY[0], m11: rowY[1], m12: rowY[2]
+    }, planeDistance);
+    if (!mapping.inverse) {
+      return null;
+    }
+
+    // Error measured where the user looks: on the web page
+    let squaredError = 0;
+    points.forEach(point => {
+      const web = mapping.planeToWeb(point.lensX, point.lensY);
+      squaredError += (web.x - point.webX) * (web.x - point.webX) + (web.y - point.webY) * (web.y - point.webY);
+    });
+
+    return { mapping: mapping, rmsError: Math.sqrt(squaredError / n), pointCount: n };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rows
+  // ---------------------------------------------------------------------------
+
+  public static fromRow(row: CursorCalibrationsRow): CursorMapping {
+    return new CursorMapping({
+      m00: row.m00, m01: row.m01, m02: row.m02,
+      m10: row.m10, m11: row.m11, m12: row.m12
+    }, row.plane_distance);
+  }
+
+  public toRow(roomName: string, fit: { rmsError: number; pointCount: number }, calibratedBy: string | null): CursorCalibrationsInsert {
+    return {
+      room_name: roomName,
+      ...this.transform,
+      plane_distance: this.planeDistance,
+      point_count: fit.pointCount,
+      rms_error: fit.rmsError,
+      calibrated_by: calibratedBy,
+      updated_at: new Date().toISOString()
+    };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+export interface CursorMappingStoreOptions {
+  rest: PostgrestClient;
+  realtime: RealtimeClient;
+  roomName: string;
+  /** Prefix of the persistent storage key; the room name is appended */
+  storageKey?: string;
+  logger?: (message: string) => void;
+}
+
+const DEFAULT_STORAGE_KEY = "supabase-cursor-mapping";
+
+/**
+ * The room's mapping: cached value on creation, the server row after load(),
+ * and every later calibration while started
+ */
+export class CursorMappingStore {
+  private options: CursorMappingStoreOptions;
+  private mapping: CursorMapping = new CursorMapping();
+  private source: MappingSource = "default";
+  private channel: RealtimeChannel | null = null;
+  private listeners: ((mapping: CursorMapping, source: MappingSource) => void)[] = [];
+  private onUpdatedMessage = (message: BroadcastMessage) => this.handleUpdated(message.payload);
+
+  constructor(options: CursorMappingStoreOptions) {
+    this.options = options;
+
+    const cached = this.readCache();
+    if (cached) {
+      this.mapping = CursorMapping.fromRow(cached);
+      this.source = "cache";
+    }
+  }
+
+  /**
+   * Load the room's calibration and follow new ones
+   */
+  public start() {
+    if (this.channel) {
+      return;
+    }
+
+    // The channel may be shared with the calibration wizard in the same Lens
+    this.channel = this.options.realtime.channel(calibrationChannelName(this.options.roomName), { private: true })
+      .on("broadcast", { event: CALIBRATION_UPDATED }, this.onUpdatedMessage)
+      .subscribe();
+
+    this.load();
+  }
+
+  public stop() {
+    if (!this.channel) {
+      return;
+    }
+    this.channel.off("broadcast", this.onUpdatedMessage);
+    if (!this.channel.hasBindings()) {
+      this.options.realtime.removeChannel(this.channel);
+    }
+    this.channel = null;
+  }
+
+  public getMapping(): CursorMapping {
+    return this.mapping;
+  }
+
+  public getSource(): MappingSource {
+    return this.source;
+  }
+
+  /**
+   * Called with the new mapping whenever it changes; returns an unsubscribe function
+   */
+  public onChange(listener: (mapping: CursorMapping, source: MappingSource) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Read the room's row; an uncalibrated room gets the default mapping
+   */
+  public async load(): Promise<{ mapping: CursorMapping; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.from("cursor_calibrations")
+      .select("*")
+      .eq("room_name", this.options.roomName)
+      .maybeSingle();
+
+    if (error) {
+      this.log(`⚠️ Could not load the cursor calibration, keeping the ${this.source} mapping: ${error.message}`);
+      return { mapping: this.mapping, error: error };
+    }
+
+    if (data) {
+      this.apply(data, "server");
+    } else {
+      this.clearCache();
+      this.setMapping(new CursorMapping(), "default");
+    }
+    return { mapping: this.mapping, error: null };
+  }
+
+  /**
+   * Save a fitted calibration for the room and tell the other devices
+   */
+  public async save(fit: CalibrationFit, calibratedBy: string | null = null): Promise<{ error: SupabaseError | null }> {
+    const row = fit.mapping.toRow(this.options.roomName, fit, calibratedBy);
+    const { error } = await this.options.rest.from("cursor_calibrations").upsert(row, { onConflict: "room_name" });
+    if (error) {
+      return { error: error };
+    }
+
+    this.apply(row as CursorCalibrationsRow, "server");
+    if (this.channel) {
+      this.channel.send({ type: "broadcast", event: CALIBRATION_UPDATED, payload: row });
+    }
+    return { error: null };
+  }
+
+  /**
+   * Delete the room's calibration, back to the default mapping
+   */
+  public async reset(): Promise<{ error: SupabaseError | null }> {
+    const { error } = await this.options.rest.from("cursor_calibrations")
+      .delete()
+      .eq("room_name", this.options.roomName);
+    if (error) {
+      return { error: error };
+    }
+
+    this.clearCache();
+    this.setMapping(new CursorMapping(), "default");
+    if (this.channel) {
+      this.channel.send({ type: "broadcast", event: CALIBRATION_UPDATED, payload: { room_name: this.options.roomName } });
+    }
+    return { error: null };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Another device calibrated (payload is the row) or reset the room (no m00)
+   */
+  private handleUpdated(payload: any) {
+    if (!payload || payload.room_name !== this.options.roomName) {
+      return;
+    }
+    if (typeof payload.m00 === "number") {
+      this.apply(payload, "server");
+    } else {
+      this.clearCache();
+      this.setMapping(new CursorMapping(), "default");
+    }
+  }
+
+  private apply(row: CursorCalibrationsRow, source: MappingSource) {
+    global.persistentStorageSystem.store.putString(this.storageKey(), JSON.stringify(row));
+    this.setMapping(CursorMapping.fromRow(row), source);
+  }
+
+  private setMapping(mapping: CursorMapping, source: MappingSource) {
+    this.mapping = mapping;
+    this.source = source;
+    this.log(source === "default"
+      ? `📐 Room ${this.options.roomName} is not calibrated - using the default cursor mapping`
+      : `📐 Cursor mapping loaded for room ${this.options.roomName}`);
+    this.listeners.forEach(listener => listener(mapping, source));
+  }
+
+  private readCache(): CursorCalibrationsRow | null {
+    const store = global.persistentStorageSystem.store;
+    const key = this.storageKey();
+    if (!store.has(key)) {
+      return null;
+    }
+
+    try {
+      const cached = JSON.parse(store.getString(key));
+      return cached && typeof cached.m00 === "number" ? cached : null;
+    } catch (error) {
+      this.log(`⚠️ Ignoring corrupt cursor mapping cache: ${error}`);
+      store.remove(key);
+      return null;
+    }
+  }
+
+  private clearCache() {
+    global.persistentStorageSystem.store.remove(this.storageKey());
+  }
+
+  private storageKey(): string {
+    return `${this.options.storageKey || DEFAULT_STORAGE_KEY}:${this.options.roomName}`;
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
+
+function clampPercent(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+/**
+ * Solve a 3x3 system (row-major matrix) with Cramer's rule; null when singular
+ */
+function solve3(m: number[], b: number[]): number[] | null {
+  const det = (a: number[]) =>
+    a[0] * (a[4] * a[8] - a[5] * a[7]) -
+    a[1] * (a[3] * a[8] - a[5] * a[6]) +
+    a[2] * (a[3] * a[7] - a[4] * a[6]);
+
+  const determinant = det(m);
+  if (Math.abs(determinant) < 1e-9) {
+    return null;
+  }
+
+  const result: number[] = [];
+  for (let column = 0; column < 3; column++) {
+    const replaced = m.slice();
+    for (let row = 0; row < 3; row++) {
+      replaced[row * 3 + column] = b[row];
+    }
+    result.push(det(replaced) / determinant);
+  }
+  return result;
+}
@@ -0,0 +1,294 @@
+/**
+ * Recorded Cursor Sessions for Lens Studio
+ *
+ * Loads sessions recorded by the web controller's SessionRecorder
+ * (supabase/migrations/20251020000013_cursor_sessions.sql) and plays them
+ * back with play / pause / seek and speed control. A session is a list of
+ * compact events, each an array starting with its time in ms since the
+ * recording started:
+ *
+ *   [t, "u", user_id, user_name, color]               cursor identity
+ *   [t, "m", user_id, x, y, depth?]                   cursor move (web percent; depth when sent)
+ *   [t, "c", owner_id | null, device | null]          control owner changed
+ *   [t, "j", user_id, user_name, device, color, role] presence join or update
+ *   [t, "l", user_id]                                 presence leave
+ *
+ * The player is driven by the caller's clock: update(now) returns the events
+ * played since the last call. After a seek it reports a reset instead, and
+ * getState() holds the room as it was at the new position.
+ *
+ * web-cursor-controller/session-recorder.js has the same player for the browser.
+ */
+
+import { CursorSessionsRow } from "./DatabaseTypes";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { SupabaseError } from "./SupabaseError";
+
+export const SESSION_EVENT_USER = "u";
+export const SESSION_EVENT_MOVE = "m";
+export const SESSION_EVENT_CONTROL = "c";
+export const SESSION_EVENT_JOIN = "j";
+export const SESSION_EVENT_LEAVE = "l";
+
+/** [t, type, ...fields]; see the header for the fields of each type */
+export type SessionEvent = any[];
+
+export interface CursorSessionRecording {
+  session: CursorSessionsRow;
+  /** All events in time order */
+  events: SessionEvent[];
+  /** Length of the recording in ms */
+  durationMs: number;
+}
+
+export interface ReplayCursor {
+  userId: string;
+  userName: string;
+  color: string | null;
+  x: number;
+  y: number;
+  /** Forward distance from the sender's camera, null when it sent none */
+  depth: number | null;
+  /** Session time (ms) of the cursor's latest move */
+  movedAtMs: number;
+}
+
+export interface ReplayMember {
+  userId: string;
+  userName: string;
+  device: string;
+  color: string | null;
+  role: string;
+}
+
+/** The room at a point of the recording */
+export interface ReplayState {
+  positionMs: number;
+  /** Cursors that have moved, by user id */
+  cursors: { [userId: string]: ReplayCursor };
+  controlOwner: { ownerId: string; device: string } | null;
+  /** Presence roster, by user id */
+  members: { [userId: string]: ReplayMember };
+}
+
+export interface ReplayUpdate {
+  /** True after a seek (or the first update): rebuild from getState() instead of applying events */
+  reset: boolean;
+  /** Events played since the last update, in order */
+  events: SessionEvent[];
+}
+
+/**
+ * Recorded sessions of a room, newest first
+ */
+export async function listCursorSessions(rest: PostgrestClient, roomName: string, limit: number = 20): Promise<{ sessions: CursorSessionsRow[]; error: SupabaseError | null }> {
+  const { data, error } = await rest.from("cursor_sessions")
+    .select("*")
+    .eq("room_name", roomName)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  return { sessions: data || [], error: error };
+}
+
+/**
+ * A session with all of its events, ready for a SessionPlayer
+ */
+export async function loadCursorSession(rest: PostgrestClient, sessionId: string): Promise<{ recording: CursorSessionRecording | null; error: SupabaseError | null }> {
+  const { data: session, error } = await rest.from("cursor_sessions")
+    .select("*")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (error || !session) {
+    return { recording: null, error: error };
+  }
+
+  const { data: chunks, error: chunkError } = await rest.from("cursor_session_chunks")
+    .select("seq,end_ms,events")
+    .eq("session_id", sessionId)
+    .order("seq", { ascending: true });
+
+  if (chunkError) {
+    return { recording: null, error: chunkError };
+  }
+
+  let events: SessionEvent[] = [];
+  let durationMs = session.duration_ms || 0;
+  (chunks || []).forEach(chunk => {
+    events = events.concat(chunk.events as SessionEvent[]);
+    durationMs = Math.max(durationMs, chunk.end_ms);
+  });
+
+  return { recording: { session: session, events: events, durationMs: durationMs }, error: null };
+}
+
+export class SessionPlayer {
+  private recording: CursorSessionRecording;
+  private state: ReplayState;
+  /** Next event to play */
+  private index: number = 0;
+  private speed: number = 1;
+  private playing: boolean = false;
+  /** Session position at baseTime */
+  private basePositionMs: number = 0;
+  private baseTime: number = 0;
+  private pendingReset: boolean = true;
+
+  constructor(recording: CursorSessionRecording) {
+    this.recording = recording;
+    this.state = SessionPlayer.emptyState();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transport
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Play from the current position (from the start once the end was reached)
+   */
+  public play(now: number = Date.now()) {
+    if (this.getPosition(now) >= this.recording.durationMs) {
+      this.seek(0, now);
+    }
+    this.basePositionMs = this.getPosition(now);
+    this.baseTime = now;
+    this.playing = true;
+  }
+
+  public pause(now: number = Date.now()) {
+    this.basePositionMs = this.getPosition(now);
+    this.baseTime = now;
+    this.playing = false;
+  }
+
+  /**
+   * Jump to a session time in ms; the next update() reports a reset
+   */
+  public seek(positionMs: number, now: number = Date.now()) {
+    const target = Math.max(0, Math.min(this.recording.durationMs, positionMs));
+    if (target < this.state.positionMs) {
+      this.state = SessionPlayer.emptyState();
+      this.index = 0;
+    }
+    this.advanceTo(target);
+
+    this.basePositionMs = target;
+    this.baseTime = now;
+    this.pendingReset = true;
+  }
+
+  /**
+   * Playback speed, 0.1 - 16 (1 = real time)
+   */
+  public setSpeed(speed: number, now: number = Date.now()) {
+    this.basePositionMs = this.getPosition(now);
+    this.baseTime = now;
+    this.speed = Math.max(0.1, Math.min(16, speed));
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public getDuration(): number {
+    return this.recording.durationMs;
+  }
+
+  public getRecording(): CursorSessionRecording {
+    return this.recording;
+  }
+
+  /**
+   * Session time in ms at `now`
+   */
+  public getPosition(now: number = Date.now()): number {
+    if (!this.playing) {
+      return this.basePositionMs;
+    }
+    return Math.min(this.recording.durationMs, this.basePositionMs + (now - this.baseTime) * this.speed);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Playback
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Play the events up to `now`; stops at the end of the recording
+   */
+  public update(now: number = Date.now()): ReplayUpdate {
+    const position = this.getPosition(now);
+    const events = this.advanceTo(position);
+
+    if (this.playing && position >= this.recording.durationMs) {
+      this.pause(now);
+    }
+
+    if (this.pendingReset) {
+      this.pendingReset = false;
+      return { reset: true, events: [] };
+    }
+    return { reset: false, events: events };
+  }
+
+  /**
+   * The room at the last update or seek
+   */
+  public getState(): ReplayState {
+    return this.state;
+  }
+
+  private advanceTo(positionMs: number): SessionEvent[] {
+    const played: SessionEvent[] = [];
+    const events = this.recording.events;
+    while (this.index < events.length && events[this.index][0] <= positionMs) {
+      SessionPlayer.applyEvent(this.state, events[this.index]);
+      played.push(events[this.index]);
+      this.index++;
+    }
+    this.state.positionMs = positionMs;
+    return played;
+  }
+
+  private static emptyState(): ReplayState {
+    return { positionMs: 0, cursors: {}, controlOwner: null, members: {} };
+  }
+
+  private static applyEvent(state: ReplayState, event: SessionEvent) {
+    const t: number = event[0];
+    switch (event[1]) {
+      case SESSION_EVENT_USER: {
+        const cursor = state.cursors[event[2]];
+        if (cursor) {
+          cursor.userName = event[3];
+          cursor.color = event[4];
+        } else {
+          state.cursors[event[2]] = { userId: event[2], userName: event[3], color: event[4], x: 50, y: 50, depth: null, movedAtMs: -1 };
+        }
+        break;
+      }
+      case SESSION_EVENT_MOVE: {
+        const cursor = state.cursors[event[2]] ||
+          (state.cursors[event[2]] = { userId: event[2], userName: event[2], color: null, x: 50, y: 50, depth: null, movedAtMs: -1 });
+        cursor.x = event[3];
+        cursor.y = event[4];
+        cursor.depth = event[5] != null ? event[5] : null;
+        cursor.movedAtMs = t;
+        break;
+      }
+      case SESSION_EVENT_CONTROL:
+        state.controlOwner = event[2] ? { ownerId: event[2], device: event[3] } : null;
+        break;
+      case SESSION_EVENT_JOIN:
+        state.members[event[2]] = { userId: event[2], userName: event[3], device: event[4], color: event[5], role: event[6] };
+        break;
+      case SESSION_EVENT_LEAVE:
+        delete state.members[event[2]];
+        break;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Supabase Edge Functions Client for Lens Studio
+ *
+ * Invokes functions under /functions/v1/<name> with the project's auth headers
+ * and parses JSON or text responses.
+ */
+
+import { createHttpError, createNetworkError, SupabaseError } from "./SupabaseError";
+
+export type FunctionsError = SupabaseError;
+
+export interface FunctionsResponse<T> {
+  data: T | null;
+  error: FunctionsError | null;
+  status: number;
+}
+
+export interface FunctionInvokeOptions {
+  body?: any;
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  headers?: { [key: string]: string };
+}
+
+export interface FunctionsClientConfig {
+  /** Functions endpoint, e.g. https://your-project.supabase.co/functions/v1 */
+  functionsUrl: string;
+  internetModule: InternetModule;
+  /** Called for every request so token changes are picked up immediately */
+  getHeaders: () => { [key: string]: string };
+}
+
+export class FunctionsClient {
+  private config: FunctionsClientConfig;
+
+  constructor(config: FunctionsClientConfig) {
+    this.config = {
+      ...config,
+      functionsUrl: config.functionsUrl.replace(/\/$/, "")
+    };
+  }
+
+  /**
+   * Full endpoint URL of a function
+   */
+  public getUrl(functionName: string): string {
+    return `${this.config.functionsUrl}/${functionName}`;
+  }
+
+  /**
+   * Headers a function call needs (for callers using RemoteServiceHttpRequest)
+   */
+  public getHeaders(): { [key: string]: string } {
+    return { "Content-Type": "application/json", ...this.config.getHeaders() };
+  }
+
+  /**
+   * Call a function; objects are sent as JSON, strings as-is
+   */
+  public async invoke<T = any>(functionName: string, options: FunctionInvokeOptions = {}): Promise<FunctionsResponse<T>> {
+    const init: any = {
+      method: options.method || "POST",
+      headers: { ...this.getHeaders(), ...(options.headers || {}) }
+    };
+    if (options.body !== undefined) {
+      init.body = typeof options.body === "string" ? options.body : JSON.stringify(options.body);
+    }
+
+    try {
+      const response = await this.config.internetModule.fetch(new Request(this.getUrl(functionName), init));
+      const text = await response.text();
+      let data: any = text;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch (parseError) {
+        // Not JSON - keep the raw text
+      }
+
+      if (!response.ok) {
+        return { data: null, error: createHttpError("functions", response.status, text, response.headers.get("retry-after")), status: response.status };
+      }
+      return { data: data, error: null, status: response.status };
+    } catch (error) {
+      return { data: null, error: createNetworkError("functions", error), status: 0 };
+    }
+  }
+}
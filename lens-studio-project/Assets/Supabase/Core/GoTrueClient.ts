@@ -0,0 +1,364 @@
+/**
+ * GoTrue (Supabase Auth) Client for Lens Studio
+ *
+ * Handles anonymous sign-in, email OTP sign-in and refresh-token rotation
+ * against the Supabase Auth REST API, and keeps the session in
+ * persistent storage so users stay signed in between Lens sessions.
+ *
+ * Access tokens are refreshed automatically one minute before they expire.
+ */
+
+import { createHttpError, createNetworkError, SupabaseError } from "./SupabaseError";
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  is_anonymous?: boolean;
+  role?: string;
+  user_metadata?: { [key: string]: any };
+  [key: string]: any;
+}
+
+export interface AuthSession {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in: number;
+  /** Unix time in seconds */
+  expires_at: number;
+  user: AuthUser;
+}
+
+export type AuthError = SupabaseError;
+
+export interface AuthResponse {
+  session: AuthSession | null;
+  error: AuthError | null;
+}
+
+export type AuthChangeEvent = "SIGNED_IN" | "SIGNED_OUT" | "TOKEN_REFRESHED" | "SESSION_RESTORED";
+
+export interface GoTrueClientOptions {
+  /** Supabase project URL, e.g. https://your-project.supabase.co */
+  supabaseUrl: string;
+  apiKey: string;
+  internetModule: InternetModule;
+  /** Component used to create the refresh timer */
+  host: BaseScriptComponent;
+  /** Key used in persistent storage; one per Supabase project */
+  storageKey?: string;
+  persistSession?: boolean;
+  autoRefreshToken?: boolean;
+  logger?: (message: string) => void;
+}
+
+const REFRESH_MARGIN_SECONDS = 60;
+const RETRY_REFRESH_SECONDS = 10;
+
+export class GoTrueClient {
+  private options: GoTrueClientOptions;
+  private authUrl: string;
+  private storageKey: string;
+  private session: AuthSession | null = null;
+  private listeners: ((event: AuthChangeEvent, session: AuthSession | null) => void)[] = [];
+  private refreshTimer: DelayedCallbackEvent;
+  private refreshInFlight: Promise<AuthResponse> | null = null;
+
+  constructor(options: GoTrueClientOptions) {
+    this.options = options;
+    this.authUrl = options.supabaseUrl.replace(/\/$/, "") + "/auth/v1/";
+
+    // Derive a per-project key from the project ref (https://<ref>.supabase.co)
+    const projectRef = options.supabaseUrl.replace(/^https?:\/\//, "").split(".")[0];
+    this.storageKey = options.storageKey || `sb-${projectRef}-auth-token`;
+
+    this.refreshTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.refreshTimer.bind(() => {
+      this.refreshSession();
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sign-in flows
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create an anonymous user (requires "Allow anonymous sign-ins" in the dashboard)
+   */
+  public async signInAnonymously(data: { [key: string]: any } = {}): Promise<AuthResponse> {
+    const result = await this.request("signup", { data: data });
+    return this.handleSessionResponse(result, "SIGNED_IN");
+  }
+
+  /**
+   * Email a one-time code to the user
+   */
+  public async signInWithOtp(email: string, createUser: boolean = true): Promise<{ error: AuthError | null }> {
+    const result = await this.request("otp", { email: email, create_user: createUser });
+    return { error: result.error };
+  }
+
+  /**
+   * Exchange the emailed one-time code for a session
+   */
+  public async verifyOtp(email: string, token: string): Promise<AuthResponse> {
+    const result = await this.request("verify", { type: "email", email: email, token: token });
+    return this.handleSessionResponse(result, "SIGNED_IN");
+  }
+
+  /**
+   * Rotate the refresh token and obtain a new access token
+   */
+  public refreshSession(): Promise<AuthResponse> {
+    // Refresh tokens are single-use, so concurrent callers must share one request
+    if (this.refreshInFlight) {
+      return this.refreshInFlight;
+    }
+
+    this.refreshInFlight = this.performRefresh().then(result => {
+      this.refreshInFlight = null;
+      return result;
+    });
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Revoke the session on the server and forget it locally
+   */
+  public async signOut(): Promise<{ error: AuthError | null }> {
+    let error: AuthError | null = null;
+
+    if (this.session) {
+      const result = await this.request("logout", {}, this.session.access_token);
+      error = result.error;
+    }
+
+    this.setSession(null, "SIGNED_OUT");
+    return { error: error };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Session access
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Load a previously persisted session and refresh it if needed
+   */
+  public async restoreSession(): Promise<AuthResponse> {
+    const stored = this.readStoredSession();
+    if (!stored) {
+      return { session: null, error: null };
+    }
+
+    this.session = stored;
+    this.log(`🔑 Restored session for ${stored.user.email || stored.user.id}`);
+
+    if (this.isExpiringSoon(stored)) {
+      return await this.refreshSession();
+    }
+
+    this.notify("SESSION_RESTORED");
+    this.scheduleRefresh();
+    return { session: stored, error: null };
+  }
+
+  public getSession(): AuthSession | null {
+    return this.session;
+  }
+
+  public getUser(): AuthUser | null {
+    return this.session ? this.session.user : null;
+  }
+
+  /**
+   * User JWT when signed in, otherwise null
+   */
+  public getAccessToken(): string | null {
+    return this.session ? this.session.access_token : null;
+  }
+
+  /**
+   * Headers for PostgREST / Storage / Functions requests
+   */
+  public getAuthHeaders(): { [key: string]: string } {
+    const token = this.getAccessToken() || this.options.apiKey;
+    return {
+      "apikey": this.options.apiKey,
+      "Authorization": `Bearer ${token}`
+    };
+  }
+
+  /**
+   * Listen for sign-in, sign-out and token refresh; returns an unsubscribe function
+   */
+  public onAuthStateChange(callback: (event: AuthChangeEvent, session: AuthSession | null) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  public stopAutoRefresh() {
+    this.refreshTimer.enabled = false;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async performRefresh(): Promise<AuthResponse> {
+    if (!this.session || !this.session.refresh_token) {
+      return { session: null, error: new SupabaseError("unauthorized", { message: "No session to refresh", service: "auth" }) };
+    }
+
+    const result = await this.request("token?grant_type=refresh_token", { refresh_token: this.session.refresh_token });
+
+    // A rejected refresh token means the session is gone; network errors and rate limits are retried
+    if (result.error && !result.error.isRetryable()) {
+      this.log(`❌ Session expired: ${result.error.message}`);
+      this.setSession(null, "SIGNED_OUT");
+      return { session: null, error: result.error };
+    }
+    if (result.error) {
+      this.log(`⚠️ Token refresh failed, retrying in ${RETRY_REFRESH_SECONDS}s: ${result.error.message}`);
+      this.refreshTimer.enabled = true;
+      this.refreshTimer.reset(RETRY_REFRESH_SECONDS);
+      return { session: this.session, error: result.error };
+    }
+
+    return this.handleSessionResponse(result, "TOKEN_REFRESHED");
+  }
+
+  private handleSessionResponse(result: { data: any; error: AuthError | null }, event: AuthChangeEvent): AuthResponse {
+    if (result.error) {
+      return { session: null, error: result.error };
+    }
+
+    const data = result.data || {};
+    if (!data.access_token) {
+      return { session: null, error: new SupabaseError("unknown", { message: "Auth response did not contain a session", service: "auth", status: 200 }) };
+    }
+
+    const expiresIn = data.expires_in || 3600;
+    const session: AuthSession = {
+      access_token: data.access_token,
+      refresh_token: data.refresh_token,
+      token_type: data.token_type || "bearer",
+      expires_in: expiresIn,
+      expires_at: data.expires_at || Math.floor(Date.now() / 1000) + expiresIn,
+      user: data.user
+    };
+
+    this.setSession(session, event);
+    return { session: session, error: null };
+  }
+
+  private setSession(session: AuthSession | null, event: AuthChangeEvent) {
+    this.session = session;
+    this.persist();
+
+    if (session) {
+      this.scheduleRefresh();
+    } else {
+      this.refreshTimer.enabled = false;
+    }
+
+    this.log(`🔑 Auth event: ${event}`);
+    this.notify(event);
+  }
+
+  private notify(event: AuthChangeEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event, this.session);
+      } catch (error) {
+        this.log(`❌ Auth listener error: ${error}`);
+      }
+    });
+  }
+
+  private scheduleRefresh() {
+    if (!this.session || this.options.autoRefreshToken === false) {
+      return;
+    }
+
+    const secondsLeft = this.session.expires_at - Date.now() / 1000;
+    const delay = Math.max(1, secondsLeft - REFRESH_MARGIN_SECONDS);
+    this.refreshTimer.enabled = true;
+    this.refreshTimer.reset(delay);
+  }
+
+  private isExpiringSoon(session: AuthSession): boolean {
+    return session.expires_at - Date.now() / 1000 < REFRESH_MARGIN_SECONDS;
+  }
+
+  private persist() {
+    if (this.options.persistSession === false) {
+      return;
+    }
+
+    const store = global.persistentStorageSystem.store;
+    if (this.session) {
+      store.putString(this.storageKey, JSON.stringify(this.session));
+    } else {
+      store.remove(this.storageKey);
+    }
+  }
+
+  private readStoredSession(): AuthSession | null {
+    if (this.options.persistSession === false) {
+      return null;
+    }
+
+    const store = global.persistentStorageSystem.store;
+    if (!store.has(this.storageKey)) {
+      return null;
+    }
+
+    try {
+      const session = JSON.parse(store.getString(this.storageKey));
+      return session && session.access_token ? session : null;
+    } catch (error) {
+      this.log(`⚠️ Ignoring corrupt stored session: ${error}`);
+      store.remove(this.storageKey);
+      return null;
+    }
+  }
+
+  private async request(path: string, body: any, accessToken?: string): Promise<{ data: any; error: AuthError | null }> {
+    const request = new Request(this.authUrl + path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "apikey": this.options.apiKey,
+        "Authorization": `Bearer ${accessToken || this.options.apiKey}`
+      },
+      body: JSON.stringify(body)
+    });
+
+    try {
+      const response = await this.options.internetModule.fetch(request);
+      const text = await response.text();
+
+      if (!response.ok) {
+        return { data: null, error: createHttpError("auth", response.status, text, response.headers.get("retry-after")) };
+      }
+
+      let data: any = null;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch (parseError) {
+        data = { message: text };
+      }
+      return { data: data, error: null };
+    } catch (error) {
+      return { data: null, error: createNetworkError("auth", error) };
+    }
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
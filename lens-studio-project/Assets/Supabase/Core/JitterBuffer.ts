@@ -0,0 +1,168 @@
+/**
+ * Jitter Buffer for Lens Studio
+ *
+ * Smooths a stream of timestamped 2D positions (e.g. remote cursor moves)
+ * that arrive late, in bursts or out of order:
+ *
+ * - Samples are kept sorted by their sender timestamp
+ * - Playback runs playoutDelayMs behind the newest sample time, so there is
+ *   usually a sample on both sides of the playback time to interpolate between
+ * - When the stream stalls, the last velocity is extrapolated for up to
+ *   maxExtrapolationMs, then the position holds until samples resume
+ *
+ * Sender and receiver clocks differ, so the sender's clock is mapped to ours
+ * with the smallest (arrival - timestamp) seen recently, i.e. the offset of the
+ * fastest delivery.
+ *
+ * web-cursor-controller/jitter-buffer.js is the same algorithm for the browser.
+ */
+
+export interface JitterSample {
+  x: number;
+  y: number;
+  /** Sender time in milliseconds */
+  timestamp: number;
+}
+
+export interface JitterBufferOptions {
+  /** How far playback trails the sender, in ms (default 100) */
+  playoutDelayMs?: number;
+  /** Longest prediction while no samples arrive, in ms (default 250) */
+  maxExtrapolationMs?: number;
+  /** Samples kept, oldest dropped first (default 32) */
+  maxSamples?: number;
+}
+
+/**
+ * - waiting: playback has not reached the first sample yet
+ * - interpolating: between two samples
+ * - extrapolating: past the newest sample, predicted from its velocity
+ * - holding: prediction limit reached, position frozen
+ */
+export type PlayoutState = "waiting" | "interpolating" | "extrapolating" | "holding";
+
+export interface PlayoutPosition {
+  x: number;
+  y: number;
+  state: PlayoutState;
+}
+
+/** Arrivals used to estimate the clock offset */
+const OFFSET_WINDOW = 32;
+
+export class JitterBuffer {
+  private options: JitterBufferOptions;
+  private samples: JitterSample[] = [];
+  private offsets: number[] = [];
+  private clockOffset: number = 0;
+  /** Sender time of the last playback, -Infinity before the first one */
+  private playedUntil: number = -Infinity;
+
+  constructor(options: JitterBufferOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Add a sample; returns false when it is older than what has been played
+   */
+  public push(sample: JitterSample, arrivalTime: number = Date.now()): boolean {
+    if (sample.timestamp <= this.playedUntil) {
+      return false;
+    }
+
+    this.offsets.push(arrivalTime - sample.timestamp);
+    if (this.offsets.length > OFFSET_WINDOW) {
+      this.offsets.shift();
+    }
+    this.clockOffset = Math.min(...this.offsets);
+
+    // Insert in timestamp order; a repeated timestamp replaces the sample
+    let index = this.samples.length;
+    while (index > 0 && this.samples[index - 1].timestamp > sample.timestamp) {
+      index--;
+    }
+    if (index > 0 && this.samples[index - 1].timestamp === sample.timestamp) {
+      this.samples[index - 1] = { x: sample.x, y: sample.y, timestamp: sample.timestamp };
+      return true;
+    }
+    this.samples.splice(index, 0, { x: sample.x, y: sample.y, timestamp: sample.timestamp });
+
+    const maxSamples = Math.max(2, this.options.maxSamples || 32);
+    if (this.samples.length > maxSamples) {
+      this.samples.splice(0, this.samples.length - maxSamples);
+    }
+    return true;
+  }
+
+  /**
+   * Position to show at local time `now`, or null before the first sample
+   */
+  public sample(now: number = Date.now()): PlayoutPosition | null {
+    const count = this.samples.length;
+    if (count === 0) {
+      return null;
+    }
+
+    const playoutDelay = this.options.playoutDelayMs === undefined ? 100 : this.options.playoutDelayMs;
+    const playTime = now - this.clockOffset - playoutDelay;
+    this.playedUntil = Math.max(this.playedUntil, playTime);
+
+    const first = this.samples[0];
+    if (playTime <= first.timestamp) {
+      return { x: first.x, y: first.y, state: "waiting" };
+    }
+
+    // Between two samples: interpolate, and forget everything before them
+    for (let i = 0; i < count - 1; i++) {
+      const from = this.samples[i];
+      const to = this.samples[i + 1];
+      if (playTime < to.timestamp) {
+        const t = (playTime - from.timestamp) / (to.timestamp - from.timestamp);
+        this.samples.splice(0, i);
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          state: "interpolating"
+        };
+      }
+    }
+
+    // Past the newest sample: keep the last two for the velocity
+    this.samples.splice(0, Math.max(0, count - 2));
+    const last = this.samples[this.samples.length - 1];
+    if (this.samples.length < 2) {
+      return { x: last.x, y: last.y, state: "holding" };
+    }
+
+    const previous = this.samples[0];
+    const elapsed = playTime - last.timestamp;
+    const maxExtrapolation = this.options.maxExtrapolationMs === undefined ? 250 : this.options.maxExtrapolationMs;
+    const ahead = Math.min(elapsed, maxExtrapolation);
+    const velocityX = (last.x - previous.x) / (last.timestamp - previous.timestamp);
+    const velocityY = (last.y - previous.y) / (last.timestamp - previous.timestamp);
+
+    return {
+      x: last.x + velocityX * ahead,
+      y: last.y + velocityY * ahead,
+      state: elapsed > maxExtrapolation ? "holding" : "extrapolating"
+    };
+  }
+
+  /**
+   * Forget all samples and the clock estimate (e.g. when the sender changes)
+   */
+  public reset() {
+    this.samples = [];
+    this.offsets = [];
+    this.clockOffset = 0;
+    this.playedUntil = -Infinity;
+  }
+
+  public getBufferedCount(): number {
+    return this.samples.length;
+  }
+
+  public setPlayoutDelay(playoutDelayMs: number) {
+    this.options.playoutDelayMs = playoutDelayMs;
+  }
+}
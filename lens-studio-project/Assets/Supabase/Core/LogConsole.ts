@@ -0,0 +1,344 @@
+/**
+ * On-device Log Console for Lens Studio
+ *
+ * A scrollable Spectacles panel showing entries from the shared LogStore,
+ * filtered by level and tag, with optional shipping of log batches to a
+ * Supabase table (see RemoteLogShipper).
+ *
+ * LogView is the reusable part: it renders the store into any Text component
+ * and is what the example scripts use for their own "logText" inputs.
+ */
+
+import { InteractorEvent } from "SpectaclesInteractionKit.lspkg/Core/Interactor/InteractorEvent";
+import { Interactable } from "SpectaclesInteractionKit.lspkg/Components/Interaction/Interactable/Interactable";
+import { formatLogEntry, LOG_LEVELS, LogFilter, Logger, LogLevel, LogStore, logStore, matchesLogFilter, parseLogLevel, parseLogTags } from "./Logger";
+import { RemoteLogShipper } from "./RemoteLogShipper";
+import { SupabaseClient } from "./SupabaseClient";
+
+export interface LogViewOptions {
+  filter?: LogFilter;
+  /** Lines shown at once (default 10) */
+  maxLines?: number;
+  showTimestamps?: boolean;
+  /** Prefix each line with its [tag] (default true) */
+  showTags?: boolean;
+  /** Text shown above the entries, re-read on every render */
+  header?: () => string;
+  store?: LogStore;
+}
+
+/**
+ * Renders log entries into a Text component and keeps it up to date
+ */
+export class LogView {
+  private text: Text;
+  private options: LogViewOptions;
+  private filter: LogFilter;
+  /** Lines scrolled up from the newest entry; 0 follows new entries */
+  private scrollOffset: number = 0;
+  private unsubscribe: () => void;
+
+  constructor(text: Text, options: LogViewOptions = {}) {
+    this.text = text;
+    this.options = options;
+    this.filter = options.filter || {};
+    this.unsubscribe = this.getStore().onEntry((entry) => {
+      if (!matchesLogFilter(entry, this.filter)) {
+        return;
+      }
+      // Keep the visible lines in place while scrolled back
+      if (this.scrollOffset > 0) {
+        this.scrollOffset++;
+      }
+      this.render();
+    });
+    this.render();
+  }
+
+  public render() {
+    if (!this.text) {
+      return;
+    }
+
+    const maxLines = this.getMaxLines();
+    const entries = this.getStore().getEntries(this.filter);
+    this.scrollOffset = Math.max(0, Math.min(this.scrollOffset, entries.length - maxLines));
+
+    const end = entries.length - this.scrollOffset;
+    const lines = entries.slice(Math.max(0, end - maxLines), end).map(entry => formatLogEntry(entry, {
+      timestamps: this.options.showTimestamps,
+      tags: this.options.showTags
+    }));
+    if (this.scrollOffset > 0) {
+      lines.push(`⬇️ ${this.scrollOffset} newer`);
+    }
+
+    const header = this.options.header ? this.options.header() : "";
+    this.text.text = header + lines.join("\n");
+  }
+
+  /**
+   * Scroll towards older entries (default: one page)
+   */
+  public scrollUp(lines?: number) {
+    this.scrollOffset += lines || Math.max(1, this.getMaxLines() - 1);
+    this.render();
+  }
+
+  /**
+   * Scroll towards newer entries (default: one page)
+   */
+  public scrollDown(lines?: number) {
+    this.scrollOffset = Math.max(0, this.scrollOffset - (lines || Math.max(1, this.getMaxLines() - 1)));
+    this.render();
+  }
+
+  public scrollToLatest() {
+    this.scrollOffset = 0;
+    this.render();
+  }
+
+  public getFilter(): LogFilter {
+    return { ...this.filter };
+  }
+
+  public setFilter(filter: LogFilter) {
+    this.filter = filter;
+    this.scrollOffset = 0;
+    this.render();
+  }
+
+  /**
+   * Stop following the store
+   */
+  public destroy() {
+    this.unsubscribe();
+  }
+
+  private getStore(): LogStore {
+    return this.options.store || logStore;
+  }
+
+  private getMaxLines(): number {
+    return Math.max(1, Math.floor(this.options.maxLines || 10));
+  }
+}
+
+@component
+export class LogConsole extends BaseScriptComponent {
+
+  // Display
+  @input
+  @hint("Text component the log panel is rendered into")
+  public logText: Text;
+
+  @input
+  @hint("Lowest level shown: debug, info, warn or error")
+  public minLevel: string = "info";
+
+  @input
+  @hint("Comma-separated tags to show, e.g. SupabaseConnector,Realtime (empty shows all)")
+  public tagFilter: string = "";
+
+  @input
+  @hint("Lines visible at once")
+  @widget(new SliderWidget(3, 40, 1))
+  public visibleLines: number = 12;
+
+  @input
+  @hint("Prefix lines with the time they were logged")
+  public showTimestamps: boolean = true;
+
+  @input
+  @hint("Entries kept in memory across all scripts")
+  @widget(new SliderWidget(50, 2000, 50))
+  public bufferSize: number = 500;
+
+  // Controls
+  @input
+  @allowUndefined
+  @hint("Optional: Button that scrolls to older entries")
+  public scrollUpButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that scrolls to newer entries")
+  public scrollDownButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that cycles the minimum level shown")
+  public levelButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that clears the log")
+  public clearButton: Interactable;
+
+  // Remote Shipping
+  @input
+  @hint("Send log batches to a Supabase table for field debugging")
+  public shipLogs: boolean = false;
+
+  @input
+  @allowUndefined
+  @hint("SupabaseClient used to ship logs (required when Ship Logs is on)")
+  public supabaseClient: SupabaseClient;
+
+  @input
+  @hint("Table the logs are inserted into")
+  public shipTable: string = "lens_logs";
+
+  @input
+  @hint("Lowest level shipped: debug, info, warn or error")
+  public shipMinLevel: string = "warn";
+
+  @input
+  @hint("Seconds between log batches")
+  @widget(new SliderWidget(2, 60, 1))
+  public shipIntervalSeconds: number = 10;
+
+  private view: LogView;
+  private shipper: RemoteLogShipper;
+  private logger = new Logger("LogConsole");
+
+  onAwake() {
+    logStore.setCapacity(this.bufferSize);
+
+    if (this.logText) {
+      this.view = new LogView(this.logText, {
+        filter: { minLevel: parseLogLevel(this.minLevel), tags: parseLogTags(this.tagFilter) },
+        maxLines: this.visibleLines,
+        showTimestamps: this.showTimestamps,
+        header: () => `📋 Logs (${parseLogLevel(this.minLevel)}+)\n`
+      });
+    }
+
+    this.bindButton(this.scrollUpButton, () => this.scrollUp());
+    this.bindButton(this.scrollDownButton, () => this.scrollDown());
+    this.bindButton(this.levelButton, () => this.cycleMinLevel());
+    this.bindButton(this.clearButton, () => this.clear());
+
+    this.createEvent("OnStartEvent").bind(() => {
+      if (this.shipLogs) {
+        this.startShipping();
+      }
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      if (this.view) {
+        this.view.destroy();
+      }
+      if (this.shipper) {
+        this.shipper.stop();
+        this.shipper.flush();
+      }
+    });
+  }
+
+  public scrollUp() {
+    if (this.view) {
+      this.view.scrollUp();
+    }
+  }
+
+  public scrollDown() {
+    if (this.view) {
+      this.view.scrollDown();
+    }
+  }
+
+  public scrollToLatest() {
+    if (this.view) {
+      this.view.scrollToLatest();
+    }
+  }
+
+  /**
+   * debug -> info -> warn -> error -> debug
+   */
+  public cycleMinLevel() {
+    const current = parseLogLevel(this.minLevel);
+    this.setMinLevel(LOG_LEVELS[(LOG_LEVELS.indexOf(current) + 1) % LOG_LEVELS.length]);
+  }
+
+  public setMinLevel(level: LogLevel) {
+    this.minLevel = level;
+    this.updateFilter({ minLevel: level });
+  }
+
+  public setTagFilter(tags: string[]) {
+    this.tagFilter = tags.join(",");
+    this.updateFilter({ tags: tags });
+  }
+
+  /**
+   * Only show entries containing this text (empty shows all)
+   */
+  public setSearch(search: string) {
+    this.updateFilter({ search: search || undefined });
+  }
+
+  public clear() {
+    logStore.clear();
+    if (this.view) {
+      this.view.scrollToLatest();
+    }
+  }
+
+  /**
+   * Send pending log entries now (no-op when shipping is off)
+   */
+  public async flushRemoteLogs() {
+    if (this.shipper) {
+      await this.shipper.flush();
+    }
+  }
+
+  private startShipping() {
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.logger.error("❌ Ship Logs needs a configured SupabaseClient");
+      return;
+    }
+
+    this.shipper = new RemoteLogShipper({
+      rest: this.supabaseClient.rest,
+      host: this,
+      table: this.shipTable,
+      minLevel: parseLogLevel(this.shipMinLevel, "warn"),
+      flushIntervalSeconds: this.shipIntervalSeconds
+    });
+    this.shipper.start();
+  }
+
+  private updateFilter(changes: LogFilter) {
+    if (this.view) {
+      this.view.setFilter({ ...this.view.getFilter(), ...changes });
+    }
+  }
+
+  private bindButton(button: Interactable, action: () => void) {
+    if (button) {
+      button.onInteractorTriggerStart((event: InteractorEvent) => action());
+    }
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * 1. Add a Text component to a panel in front of the user
+ * 2. Attach LogConsole to a Scene Object and assign the Text component
+ * 3. Optional: Assign Interactable buttons to scroll, change level and clear
+ * 4. Optional: Turn on Ship Logs, assign the SupabaseClient and create the
+ *    lens_logs table (see Core/README.md)
+ *
+ * In your own scripts:
+ *
+ *   import { Logger } from "../Core/Logger";
+ *
+ *   private logger = new Logger("MyScript", { printToConsole: () => this.enableDebugLogs });
+ *
+ *   this.logger.info("🔧 Starting");
+ *   this.logger.error(`❌ Request failed: ${error.toString()}`);
+ */
@@ -0,0 +1,244 @@
+/**
+ * Logging for Lens Studio
+ *
+ * Every Supabase script logs through a tagged Logger into one shared LogStore
+ * (a ring buffer of recent entries). The store feeds the console, on-device
+ * LogConsole panels and the optional RemoteLogShipper, so field debugging on
+ * Spectacles looks the same for every script.
+ *
+ *   const logger = new Logger("MyScript");
+ *   logger.info("🔧 Starting");
+ *   logger.error("❌ Request failed");
+ *   logger.log("⚠️ Emoji-prefixed messages pick their level automatically");
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Levels from least to most severe */
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogEntry {
+  level: LogLevel;
+  /** Name of the script or subsystem that logged, e.g. "SupabaseConnector" */
+  tag: string;
+  message: string;
+  /** Date.now() when logged */
+  timestamp: number;
+}
+
+export interface LogFilter {
+  /** Hide entries below this level */
+  minLevel?: LogLevel;
+  /** Only show these tags; empty or missing shows all */
+  tags?: string[];
+  /** Case-insensitive text the message must contain */
+  search?: string;
+}
+
+/**
+ * Parse a level name typed into an inspector field, e.g. "Warn" or "error"
+ */
+export function parseLogLevel(value: string, fallback: LogLevel = "info"): LogLevel {
+  const level = (value || "").trim().toLowerCase();
+  if (level === "warning") {
+    return "warn";
+  }
+  return LOG_LEVELS.indexOf(level as LogLevel) >= 0 ? level as LogLevel : fallback;
+}
+
+/**
+ * Split a comma-separated tag list from an inspector field
+ */
+export function parseLogTags(value: string): string[] {
+  return (value || "").split(",").map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
+
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.minLevel && !isLevelEnabled(entry.level, filter.minLevel)) {
+    return false;
+  }
+  if (filter.tags && filter.tags.length > 0 && filter.tags.indexOf(entry.tag) < 0) {
+    return false;
+  }
+  if (filter.search && entry.message.toLowerCase().indexOf(filter.search.toLowerCase()) < 0) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * One line of text, e.g. "12:04:31 [SupabaseConnector] ✅ Connected"
+ */
+export function formatLogEntry(entry: LogEntry, options: { timestamps?: boolean; tags?: boolean } = {}): string {
+  let line = entry.message;
+  if (options.tags !== false) {
+    line = `[${entry.tag}] ${line}`;
+  }
+  if (options.timestamps) {
+    line = `${formatTime(entry.timestamp)} ${line}`;
+  }
+  return line;
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Ring buffer of recent log entries shared by every Logger
+ */
+export class LogStore {
+  private entries: LogEntry[] = [];
+  private capacity: number;
+  private tagLevels: { [tag: string]: LogLevel } = {};
+  private listeners: ((entry: LogEntry) => void)[] = [];
+
+  constructor(capacity: number = 500) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+  }
+
+  /**
+   * Record an entry; entries below the tag's level are dropped
+   */
+  public add(entry: LogEntry): boolean {
+    const tagLevel = this.tagLevels[entry.tag];
+    if (tagLevel && !isLevelEnabled(entry.level, tagLevel)) {
+      return false;
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(entry);
+      } catch (error) {
+        // Logging here could recurse into the failing listener
+        print(`[LogStore] ❌ Log listener error: ${error}`);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Entries matching the filter, oldest first; limit keeps the newest
+   */
+  public getEntries(filter: LogFilter = {}, limit?: number): LogEntry[] {
+    const entries = this.entries.filter(entry => matchesLogFilter(entry, filter));
+    return limit !== undefined && entries.length > limit ? entries.slice(entries.length - limit) : entries;
+  }
+
+  public clear() {
+    this.entries = [];
+  }
+
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  public setCapacity(capacity: number) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+    if (this.entries.length > this.capacity) {
+      this.entries = this.entries.slice(-this.capacity);
+    }
+  }
+
+  /**
+   * Minimum level recorded for one tag (null restores "record everything")
+   */
+  public setTagLevel(tag: string, level: LogLevel | null) {
+    if (level) {
+      this.tagLevels[tag] = level;
+    } else {
+      delete this.tagLevels[tag];
+    }
+  }
+
+  /**
+   * Called for every recorded entry; returns an unsubscribe function
+   */
+  public onEntry(callback: (entry: LogEntry) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+}
+
+/** The store every Logger writes to unless given its own */
+export const logStore = new LogStore();
+
+export interface LoggerOptions {
+  /** Print to the Lens Studio console (a function is read on every call, e.g. () => this.enableDebugLogs) */
+  printToConsole?: boolean | (() => boolean);
+  store?: LogStore;
+}
+
+/**
+ * Tagged handle for writing log entries
+ */
+export class Logger {
+  public readonly tag: string;
+  private options: LoggerOptions;
+
+  constructor(tag: string, options: LoggerOptions = {}) {
+    this.tag = tag;
+    this.options = options;
+  }
+
+  public debug(message: string) {
+    this.write("debug", message);
+  }
+
+  public info(message: string) {
+    this.write("info", message);
+  }
+
+  public warn(message: string) {
+    this.write("warn", message);
+  }
+
+  public error(message: string) {
+    this.write("error", message);
+  }
+
+  /**
+   * Log with the level implied by the message's emoji prefix:
+   * ❌ is an error, ⚠️ a warning, anything else uses the fallback level
+   */
+  public log(message: string, fallbackLevel: LogLevel = "info") {
+    const text = message.trim();
+    if (text.indexOf("❌") === 0) {
+      this.write("error", message);
+    } else if (text.indexOf("⚠️") === 0 || text.indexOf("⚠") === 0) {
+      this.write("warn", message);
+    } else {
+      this.write(fallbackLevel, message);
+    }
+  }
+
+  private write(level: LogLevel, message: string) {
+    const entry: LogEntry = { level: level, tag: this.tag, message: message, timestamp: Date.now() };
+    const recorded = (this.options.store || logStore).add(entry);
+
+    if (recorded && this.shouldPrint()) {
+      print(`[${this.tag}] ${message}`);
+    }
+  }
+
+  private shouldPrint(): boolean {
+    const printToConsole = this.options.printToConsole;
+    if (typeof printToConsole === "function") {
+      return printToConsole();
+    }
+    return printToConsole !== false;
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Offline Write Queue for Lens Studio
+ *
+ * Durable outbound queue for PostgREST inserts. Writes that fail because the
+ * device is offline (network errors, 408, 429, 5xx) are kept in persistent
+ * storage and retried with exponential backoff, and the queue is flushed as
+ * soon as deviceInfoSystem reports that the internet is back.
+ *
+ * Every write carries an idempotency key that stays the same across retries.
+ * When the target table has a unique column for it (idempotency_key by
+ * default), the insert is sent as "on conflict do nothing", so a retry of a
+ * write whose response was lost never creates a duplicate row.
+ *
+ * Timers are created on the host script component (DelayedCallbackEvent),
+ * so the queue must be constructed from inside a component.
+ */
+
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+
+export type WriteQueueStatus = "idle" | "sending" | "waiting" | "offline";
+
+export interface QueuedWrite {
+  /** Idempotency key, reused for every attempt */
+  id: string;
+  table: string;
+  row: { [key: string]: any };
+  attempts: number;
+  /** Unix time in milliseconds */
+  createdAt: number;
+  /** Unix time in milliseconds */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface WriteQueueState {
+  status: WriteQueueStatus;
+  depth: number;
+  lastError: string | null;
+}
+
+export interface WriteQueueResult {
+  /** sent: stored on the server; queued: will be retried; failed: rejected and dropped */
+  status: "sent" | "queued" | "failed";
+  id: string;
+  error: string | null;
+}
+
+export interface OfflineWriteQueueOptions {
+  /** REST endpoint, e.g. https://your-project.supabase.co/rest/v1/ */
+  restUrl: string;
+  internetModule: InternetModule;
+  /** Component used to create the retry timer */
+  host: BaseScriptComponent;
+  /** Called for every attempt so token changes are picked up immediately */
+  getHeaders: () => { [key: string]: string };
+  /** Key used in persistent storage */
+  storageKey?: string;
+  /** Unique column holding the idempotency key; empty to disable server-side dedupe */
+  idempotencyColumn?: string;
+  /** Oldest writes are dropped beyond this many entries */
+  maxQueueSize?: number;
+  /** Writes are dropped after this many failed attempts */
+  maxAttempts?: number;
+  baseDelaySeconds?: number;
+  maxDelaySeconds?: number;
+  logger?: (message: string) => void;
+}
+
+const DEFAULT_STORAGE_KEY = "supabase-offline-write-queue";
+
+export class OfflineWriteQueue {
+  private options: OfflineWriteQueueOptions;
+  private rest: PostgrestClient;
+  private storageKey: string;
+  private idempotencyColumn: string;
+  private queue: QueuedWrite[] = [];
+  private status: WriteQueueStatus = "idle";
+  private lastError: string | null = null;
+  private isFlushing: boolean = false;
+  private retryTimer: DelayedCallbackEvent;
+  private internetStatusRegistration: EventRegistration;
+  private tablesWithoutIdempotency: { [table: string]: boolean } = {};
+  private statusListeners: ((state: WriteQueueState) => void)[] = [];
+  private dropListeners: ((write: QueuedWrite, reason: string) => void)[] = [];
+
+  constructor(options: OfflineWriteQueueOptions) {
+    this.options = options;
+    this.rest = new PostgrestClient({
+      restUrl: options.restUrl,
+      internetModule: options.internetModule,
+      getHeaders: options.getHeaders
+    });
+    this.storageKey = options.storageKey || DEFAULT_STORAGE_KEY;
+    this.idempotencyColumn = options.idempotencyColumn === undefined ? "idempotency_key" : options.idempotencyColumn;
+
+    this.retryTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.retryTimer.bind(() => {
+      this.flush();
+    });
+
+    this.queue = this.readStoredQueue();
+    if (this.queue.length > 0) {
+      this.log(`📦 Restored ${this.queue.length} queued write(s)`);
+    }
+
+    this.internetStatusRegistration = global.deviceInfoSystem.onInternetStatusChanged.add((args) => {
+      if (args.isInternetAvailable) {
+        this.log("🌐 Back online - flushing write queue");
+        // Connectivity is back, so the backoff no longer applies
+        this.queue.forEach(write => write.nextAttemptAt = 0);
+        this.flush();
+      } else {
+        this.retryTimer.enabled = false;
+        this.setStatus("offline");
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Writing
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Insert a row now, or queue it for retry if the device is offline
+   */
+  public async insert(table: string, row: { [key: string]: any }, idempotencyKey?: string): Promise<WriteQueueResult> {
+    const write = this.createWrite(table, row, idempotencyKey);
+
+    if (this.hasWrite(write.id)) {
+      return { status: "queued", id: write.id, error: null };
+    }
+
+    // Keep writes in order: anything queued earlier goes first
+    if (this.queue.length > 0 || !this.isOnline()) {
+      this.push(write);
+      this.flush();
+      return { status: "queued", id: write.id, error: null };
+    }
+
+    const result = await this.send(write);
+    if (result.ok) {
+      return { status: "sent", id: write.id, error: null };
+    }
+    write.attempts = 1;
+    write.lastError = result.error;
+    if (!result.retryable) {
+      this.notifyDropped(write, result.error);
+      return { status: "failed", id: write.id, error: result.error };
+    }
+
+    write.nextAttemptAt = Date.now() + this.getBackoffSeconds(1) * 1000;
+    this.push(write);
+    this.scheduleRetry();
+    return { status: "queued", id: write.id, error: result.error };
+  }
+
+  /**
+   * Queue a row without trying to send it first (e.g. after a fetch already failed)
+   */
+  public enqueue(table: string, row: { [key: string]: any }, idempotencyKey?: string): string {
+    const write = this.createWrite(table, row, idempotencyKey);
+    if (!this.hasWrite(write.id)) {
+      this.push(write);
+      this.flush();
+    }
+    return write.id;
+  }
+
+  /**
+   * Send every write that is due, oldest first
+   */
+  public async flush(): Promise<void> {
+    if (this.isFlushing || this.queue.length === 0) {
+      this.updateIdleStatus();
+      return;
+    }
+    if (!this.isOnline()) {
+      this.setStatus("offline");
+      return;
+    }
+
+    this.isFlushing = true;
+    this.retryTimer.enabled = false;
+    this.setStatus("sending");
+
+    while (this.queue.length > 0) {
+      const write = this.queue[0];
+      if (write.nextAttemptAt > Date.now()) {
+        break;
+      }
+
+      const result = await this.send(write);
+      if (result.ok) {
+        this.queue.shift();
+        this.persist();
+        continue;
+      }
+
+      write.attempts++;
+      write.lastError = result.error;
+      if (!result.retryable || write.attempts >= this.getMaxAttempts()) {
+        this.queue.shift();
+        this.persist();
+        this.notifyDropped(write, result.error);
+        continue;
+      }
+
+      // Stop at the first retryable failure; the rest will fail the same way
+      const delay = this.getBackoffSeconds(write.attempts);
+      write.nextAttemptAt = Date.now() + delay * 1000;
+      this.lastError = result.error;
+      this.persist();
+      this.log(`⏳ Write to '${write.table}' failed (${result.error}), retry #${write.attempts} in ${delay.toFixed(1)}s`);
+      break;
+    }
+
+    this.isFlushing = false;
+    this.scheduleRetry();
+  }
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+
+  public getDepth(): number {
+    return this.queue.length;
+  }
+
+  public getState(): WriteQueueState {
+    return { status: this.status, depth: this.queue.length, lastError: this.lastError };
+  }
+
+  /**
+   * Copy of the pending writes, oldest first
+   */
+  public getPendingWrites(): QueuedWrite[] {
+    return this.queue.map(write => ({ ...write }));
+  }
+
+  /**
+   * Forget every pending write
+   */
+  public clear() {
+    this.queue = [];
+    this.retryTimer.enabled = false;
+    this.persist();
+    this.setStatus(this.isOnline() ? "idle" : "offline");
+  }
+
+  /**
+   * Listen for status and depth changes; returns an unsubscribe function
+   */
+  public onStatusChange(callback: (state: WriteQueueState) => void): () => void {
+    this.statusListeners.push(callback);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(listener => listener !== callback);
+    };
+  }
+
+  /**
+   * Listen for writes that were rejected or ran out of attempts; returns an unsubscribe function
+   */
+  public onWriteDropped(callback: (write: QueuedWrite, reason: string) => void): () => void {
+    this.dropListeners.push(callback);
+    return () => {
+      this.dropListeners = this.dropListeners.filter(listener => listener !== callback);
+    };
+  }
+
+  /**
+   * Stop retrying and listening for connectivity changes (pending writes stay persisted)
+   */
+  public stop() {
+    this.retryTimer.enabled = false;
+    global.deviceInfoSystem.onInternetStatusChanged.remove(this.internetStatusRegistration);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async send(write: QueuedWrite): Promise<{ ok: boolean; retryable: boolean; error: string | null }> {
+    const useIdempotency = !!this.idempotencyColumn && !this.tablesWithoutIdempotency[write.table];
+
+    const builder = this.rest.from(write.table);
+    if (useIdempotency) {
+      builder.upsert({ ...write.row, [this.idempotencyColumn]: write.id }, {
+        onConflict: this.idempotencyColumn,
+        ignoreDuplicates: true,
+        returning: "minimal"
+      });
+    } else {
+      builder.insert(write.row, { returning: "minimal" });
+    }
+
+    const { error } = await builder;
+    if (!error) {
+      return { ok: true, retryable: false, error: null };
+    }
+
+    // The table has no (unique) idempotency column: fall back to plain inserts
+    if (useIdempotency && (error.code === "PGRST204" || error.code === "42P10")) {
+      this.tablesWithoutIdempotency[write.table] = true;
+      this.log(`ℹ️ '${write.table}' has no unique '${this.idempotencyColumn}' column - retries may duplicate rows`);
+      return this.send(write);
+    }
+
+    // Network failures, timeouts, rate limits and 5xx are worth another attempt
+    return { ok: false, retryable: error.isRetryable(), error: error.toString() };
+  }
+
+  private createWrite(table: string, row: { [key: string]: any }, idempotencyKey?: string): QueuedWrite {
+    return {
+      id: idempotencyKey || `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`,
+      table: table,
+      row: row,
+      attempts: 0,
+      createdAt: Date.now(),
+      nextAttemptAt: 0
+    };
+  }
+
+  private hasWrite(id: string): boolean {
+    return this.queue.some(write => write.id === id);
+  }
+
+  private push(write: QueuedWrite) {
+    this.queue.push(write);
+
+    const maxSize = this.options.maxQueueSize || 200;
+    while (this.queue.length > maxSize) {
+      const dropped = this.queue.shift();
+      this.notifyDropped(dropped, "Queue full");
+    }
+
+    this.persist();
+    this.notifyStatus();
+  }
+
+  private scheduleRetry() {
+    if (this.queue.length === 0) {
+      this.updateIdleStatus();
+      return;
+    }
+    if (!this.isOnline()) {
+      this.setStatus("offline");
+      return;
+    }
+
+    const delay = Math.max(0.1, (this.queue[0].nextAttemptAt - Date.now()) / 1000);
+    this.retryTimer.enabled = true;
+    this.retryTimer.reset(delay);
+    this.setStatus("waiting");
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at maxDelaySeconds
+   */
+  private getBackoffSeconds(attempts: number): number {
+    const base = this.options.baseDelaySeconds || 2;
+    const max = this.options.maxDelaySeconds || 300;
+    const delay = Math.min(max, base * Math.pow(2, attempts - 1));
+    return delay * (0.8 + Math.random() * 0.4);
+  }
+
+  private getMaxAttempts(): number {
+    return this.options.maxAttempts || 10;
+  }
+
+  private isOnline(): boolean {
+    return global.deviceInfoSystem.isInternetAvailable();
+  }
+
+  private updateIdleStatus() {
+    if (this.queue.length === 0 && !this.isFlushing) {
+      this.lastError = null;
+      this.setStatus("idle");
+    }
+  }
+
+  private setStatus(status: WriteQueueStatus) {
+    this.status = status;
+    this.notifyStatus();
+  }
+
+  private notifyStatus() {
+    const state = this.getState();
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        this.log(`❌ Write queue listener error: ${error}`);
+      }
+    });
+  }
+
+  private notifyDropped(write: QueuedWrite, reason: string) {
+    this.log(`🗑️ Dropped write to '${write.table}' after ${write.attempts} attempt(s): ${reason}`);
+    this.dropListeners.forEach(listener => {
+      try {
+        listener(write, reason);
+      } catch (error) {
+        this.log(`❌ Write queue listener error: ${error}`);
+      }
+    });
+  }
+
+  private persist() {
+    global.persistentStorageSystem.store.putString(this.storageKey, JSON.stringify(this.queue));
+  }
+
+  private readStoredQueue(): QueuedWrite[] {
+    const store = global.persistentStorageSystem.store;
+    if (!store.has(this.storageKey)) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(store.getString(this.storageKey));
+      return Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      this.log(`⚠️ Ignoring corrupt write queue: ${error}`);
+      store.remove(this.storageKey);
+      return [];
+    }
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
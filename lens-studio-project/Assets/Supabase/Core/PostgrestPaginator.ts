@@ -0,0 +1,310 @@
+/**
+ * PostgREST Paginator for Lens Studio
+ *
+ * Pages through a table with next() / prev() handles, for on-glasses list UIs
+ * that scroll through thousands of rows.
+ *
+ * Two modes:
+ * - "keyset" (default): each page continues after the last row of the previous
+ *   one (WHERE timestamp < last.timestamp), so deep pages stay fast and rows
+ *   inserted while scrolling do not shift the pages.
+ * - "offset": pages are requested with a Range header (0-19, 20-39, ...),
+ *   which allows jumping straight to any page with goTo().
+ *
+ * In both modes the total row count is read from the Content-Range header.
+ */
+
+import { CountOption, PostgrestClient, PostgrestError, PostgrestQueryBuilder } from "./PostgrestQueryBuilder";
+import { SupabaseError } from "./SupabaseError";
+
+export type PaginationMode = "keyset" | "offset";
+
+export interface PaginatorOptions<T> {
+  /** Columns to select (PostgREST syntax) */
+  columns?: string;
+  pageSize?: number;
+  /** Column the pages are sorted by, e.g. "timestamp" (should be NOT NULL) */
+  orderBy: string;
+  /** Default false: newest first */
+  ascending?: boolean;
+  /** Unique column that breaks ties between rows with the same orderBy value (keyset mode) */
+  tieBreaker?: string;
+  mode?: PaginationMode;
+  /** How the total is counted; null skips counting */
+  count?: CountOption | null;
+  /** Extra filters applied to every page, e.g. q => q.eq("room_name", "lobby") */
+  filter?: (query: PostgrestQueryBuilder<T>) => PostgrestQueryBuilder<T>;
+}
+
+export interface Page<T> {
+  rows: T[];
+  /** Zero-based page number */
+  pageIndex: number;
+  /** Total rows matching the filters, when counted */
+  total: number | null;
+  /** Total pages, when counted */
+  pageCount: number | null;
+  hasNext: boolean;
+  hasPrev: boolean;
+  error: PostgrestError | null;
+}
+
+/**
+ * First and last row of a loaded page (keyset cursors)
+ */
+interface PageBounds {
+  first: any;
+  last: any;
+}
+
+export class PostgrestPaginator<T = any> {
+  private client: PostgrestClient;
+  private table: string;
+  private options: PaginatorOptions<T>;
+  private pageSize: number;
+  private mode: PaginationMode;
+  private tieBreaker: string;
+  private total: number | null = null;
+  private current: Page<T> | null = null;
+  private bounds: PageBounds | null = null;
+
+  constructor(client: PostgrestClient, table: string, options: PaginatorOptions<T>) {
+    this.client = client;
+    this.table = table;
+    this.options = options;
+    this.pageSize = Math.max(1, Math.floor(options.pageSize || 20));
+    this.mode = options.mode || "keyset";
+    this.tieBreaker = options.tieBreaker || "id";
+  }
+
+  // ---------------------------------------------------------------------------
+  // Navigation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Load the first page (also refreshes the total count)
+   */
+  public async first(): Promise<Page<T>> {
+    this.total = null;
+    if (this.mode === "offset") {
+      return this.loadOffsetPage(0);
+    }
+    return this.loadKeysetPage(0, null, "forward");
+  }
+
+  /**
+   * Load the page after the current one; stays on the last page when there is none
+   */
+  public async next(): Promise<Page<T>> {
+    if (!this.current) {
+      return this.first();
+    }
+    if (!this.current.hasNext) {
+      return this.current;
+    }
+    if (this.mode === "offset") {
+      return this.loadOffsetPage(this.current.pageIndex + 1);
+    }
+    return this.loadKeysetPage(this.current.pageIndex + 1, this.bounds ? this.bounds.last : null, "forward");
+  }
+
+  /**
+   * Load the page before the current one; stays on the first page when there is none
+   */
+  public async prev(): Promise<Page<T>> {
+    if (!this.current) {
+      return this.first();
+    }
+    if (!this.current.hasPrev) {
+      return this.current;
+    }
+    if (this.mode === "offset") {
+      return this.loadOffsetPage(this.current.pageIndex - 1);
+    }
+    return this.loadKeysetPage(this.current.pageIndex - 1, this.bounds ? this.bounds.first : null, "backward");
+  }
+
+  /**
+   * Jump to a page by number (offset mode only)
+   */
+  public async goTo(pageIndex: number): Promise<Page<T>> {
+    if (this.mode !== "offset") {
+      return this.createErrorPage(pageIndex, "goTo() needs mode: \"offset\"; keyset pages can only be walked with next() / prev()");
+    }
+    return this.loadOffsetPage(Math.max(0, Math.floor(pageIndex)));
+  }
+
+  /**
+   * Last loaded page, or null before first()
+   */
+  public getCurrentPage(): Page<T> | null {
+    return this.current;
+  }
+
+  public getTotal(): number | null {
+    return this.total;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Offset mode
+  // ---------------------------------------------------------------------------
+
+  private async loadOffsetPage(pageIndex: number): Promise<Page<T>> {
+    const from = pageIndex * this.pageSize;
+    const query = this.createQuery()
+      .order(this.options.orderBy, { ascending: this.isAscending() })
+      .rangeHeader(from, from + this.pageSize - 1);
+
+    const { data, error, count, status } = await query;
+
+    // 416: the page starts past the last row
+    if (status === 416) {
+      return this.setPage({
+        rows: [],
+        pageIndex: pageIndex,
+        total: this.updateTotal(count),
+        pageCount: this.getPageCount(),
+        hasNext: false,
+        hasPrev: pageIndex > 0,
+        error: null
+      });
+    }
+    if (error) {
+      return this.createErrorPage(pageIndex, error.message, error);
+    }
+
+    const rows = (data || []) as T[];
+    const total = this.updateTotal(count);
+    const hasNext = total !== null ? from + rows.length < total : rows.length === this.pageSize;
+
+    return this.setPage({
+      rows: rows,
+      pageIndex: pageIndex,
+      total: total,
+      pageCount: this.getPageCount(),
+      hasNext: hasNext,
+      hasPrev: pageIndex > 0,
+      error: null
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Keyset mode
+  // ---------------------------------------------------------------------------
+
+  private async loadKeysetPage(pageIndex: number, cursor: any, direction: "forward" | "backward"): Promise<Page<T>> {
+    const ascending = this.isAscending();
+    // Walking backwards reverses the sort, then the rows are flipped back
+    const queryAscending = direction === "forward" ? ascending : !ascending;
+
+    let query = this.createQuery()
+      .order(this.options.orderBy, { ascending: queryAscending });
+    if (this.tieBreaker !== this.options.orderBy) {
+      query = query.order(this.tieBreaker, { ascending: queryAscending });
+    }
+    if (cursor) {
+      query = query.or(this.buildCursorFilter(cursor, queryAscending ? "gt" : "lt"));
+    }
+
+    // One extra row tells us whether there is another page in this direction
+    const { data, error, count } = await query.limit(this.pageSize + 1);
+    if (error) {
+      return this.createErrorPage(pageIndex, error.message, error);
+    }
+
+    let rows = (data || []) as T[];
+    const hasMore = rows.length > this.pageSize;
+    rows = rows.slice(0, this.pageSize);
+    if (direction === "backward") {
+      rows.reverse();
+    }
+
+    const total = this.updateTotal(count);
+    if (rows.length > 0) {
+      this.bounds = { first: rows[0], last: rows[rows.length - 1] };
+    }
+
+    return this.setPage({
+      rows: rows,
+      pageIndex: pageIndex,
+      total: total,
+      pageCount: this.getPageCount(),
+      hasNext: direction === "forward" ? hasMore : true,
+      hasPrev: direction === "backward" ? hasMore : pageIndex > 0,
+      error: null
+    });
+  }
+
+  /**
+   * Rows strictly after the cursor row in the query's sort order:
+   * orderBy past the cursor value, or equal and tieBreaker past the cursor's
+   */
+  private buildCursorFilter(cursor: any, operator: "gt" | "lt"): string {
+    const orderBy = this.options.orderBy;
+    const orderValue = this.quote(cursor[orderBy]);
+
+    if (this.tieBreaker === orderBy) {
+      return `${orderBy}.${operator}.${orderValue}`;
+    }
+
+    const tieValue = this.quote(cursor[this.tieBreaker]);
+    return `${orderBy}.${operator}.${orderValue},and(${orderBy}.eq.${orderValue},${this.tieBreaker}.${operator}.${tieValue})`;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private createQuery(): PostgrestQueryBuilder<T> {
+    // Counting is only needed once; later pages reuse the total
+    const count = this.options.count === undefined ? "exact" : this.options.count;
+    const query = this.client.from<T>(this.table)
+      .select(this.options.columns || "*", this.total === null && count ? { count: count } : {});
+    return this.options.filter ? this.options.filter(query) : query;
+  }
+
+  private updateTotal(count: number | null): number | null {
+    if (count !== null) {
+      this.total = count;
+    }
+    return this.total;
+  }
+
+  private getPageCount(): number | null {
+    return this.total === null ? null : Math.ceil(this.total / this.pageSize);
+  }
+
+  private isAscending(): boolean {
+    return this.options.ascending === true;
+  }
+
+  /**
+   * Values inside or=(...) are double-quoted so timestamps, commas and spaces are safe
+   */
+  private quote(value: any): string {
+    if (typeof value === "number" || typeof value === "boolean") {
+      return `${value}`;
+    }
+    return `"${`${value}`.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  }
+
+  private setPage(page: Page<T>): Page<T> {
+    this.current = page;
+    return page;
+  }
+
+  /**
+   * Errors do not move the paginator; the previous page stays current
+   */
+  private createErrorPage(pageIndex: number, message: string, error?: PostgrestError): Page<T> {
+    return {
+      rows: [],
+      pageIndex: pageIndex,
+      total: this.total,
+      pageCount: this.getPageCount(),
+      hasNext: false,
+      hasPrev: false,
+      error: error || new SupabaseError("bad_request", { message: message, service: "rest" })
+    };
+  }
+}
@@ -0,0 +1,647 @@
+/**
+ * PostgREST Query Builder for Lens Studio
+ *
+ * A small, chainable query builder that turns calls like
+ *
+ *   client.from("test_messages")
+ *     .select("message,sender")
+ *     .eq("sender", "Spectacles User")
+ *     .order("timestamp", { ascending: false })
+ *     .limit(5)
+ *
+ * into correctly URL-encoded PostgREST requests, sends them through the
+ * InternetModule and resolves to a parsed `{ data, error, count }` result.
+ *
+ * Builders are thenable, so they can be awaited directly or run with execute().
+ *
+ * Postgres functions are called the same way through rpc():
+ *
+ *   client.rpc("nearest_posts", { lat: 37.77, lng: -122.42, max_results: 5 })
+ */
+
+import { TableName, TableRow } from "./DatabaseTypes";
+import { createHttpError, createNetworkError, SupabaseError } from "./SupabaseError";
+
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PATCH" | "DELETE";
+
+export type CountOption = "exact" | "planned" | "estimated";
+
+export type FilterOperator =
+  | "eq" | "neq" | "gt" | "gte" | "lt" | "lte"
+  | "like" | "ilike" | "is" | "in" | "cs" | "cd";
+
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Error returned by PostgREST (or synthesized for network failures);
+ * branch on `kind`, the raw SQLSTATE / PGRST code is in `code`
+ */
+export type PostgrestError = SupabaseError;
+
+/**
+ * Result shape returned by every builder
+ */
+export interface PostgrestResponse<T> {
+  data: T | null;
+  error: PostgrestError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+/**
+ * Connection settings shared by every builder created from a client
+ */
+export interface PostgrestClientConfig {
+  /** REST endpoint, e.g. https://your-project.supabase.co/rest/v1/ */
+  restUrl: string;
+  internetModule: InternetModule;
+  /** Called for every request so token changes are picked up immediately */
+  getHeaders: () => { [key: string]: string };
+}
+
+export interface OrderOptions {
+  ascending?: boolean;
+  nullsFirst?: boolean;
+}
+
+export interface SelectOptions {
+  count?: CountOption;
+  head?: boolean;
+}
+
+export type ReturnMode = "minimal" | "representation";
+
+export interface InsertOptions {
+  /** minimal: no rows in the response (faster, works without SELECT permission) */
+  returning?: ReturnMode;
+  count?: CountOption;
+}
+
+export interface UpsertOptions extends InsertOptions {
+  /** Comma separated unique columns used to detect conflicts, e.g. "user_id" */
+  onConflict?: string;
+  /** true: keep existing rows (resolution=ignore-duplicates); false: update them (merge-duplicates) */
+  ignoreDuplicates?: boolean;
+}
+
+export interface RpcOptions {
+  /** Send the arguments as query parameters (only for STABLE / IMMUTABLE functions) */
+  get?: boolean;
+  /** Only return the count, no rows */
+  head?: boolean;
+  count?: CountOption;
+}
+
+/**
+ * Entry point: one client per Supabase project, one builder per query
+ */
+export class PostgrestClient {
+  private config: PostgrestClientConfig;
+
+  constructor(config: PostgrestClientConfig) {
+    this.config = {
+      ...config,
+      restUrl: config.restUrl.replace(/\/?$/, "/")
+    };
+  }
+
+  /**
+   * Start a query against a table or view
+   *
+   * Known tables are typed with their generated row model (DatabaseTypes.ts);
+   * pass a type argument for views, RPC results or partial selects.
+   */
+  public from<K extends TableName>(table: K): PostgrestQueryBuilder<TableRow<K>>;
+  public from<T = any>(table: string): PostgrestQueryBuilder<T>;
+  public from<T = any>(table: string): PostgrestQueryBuilder<T> {
+    return new PostgrestQueryBuilder<T>(this.config, table);
+  }
+
+  /**
+   * Call a Postgres function through /rest/v1/rpc/<name>
+   *
+   * Set-returning functions resolve to an array and accept filters and modifiers
+   * like a table; chain single() / maybeSingle() for functions that return one
+   * row or a scalar.
+   */
+  public rpc<T = any>(functionName: string, args: { [key: string]: any } = {}, options: RpcOptions = {}): PostgrestQueryBuilder<T> {
+    return new PostgrestQueryBuilder<T>(this.config, functionName).rpcCall(args, options);
+  }
+
+  /**
+   * OpenAPI (Swagger 2.0) description of the tables, views and functions
+   * the current role can access; `definitions` maps table names to columns
+   */
+  public async getOpenApiSpec(): Promise<{ data: any; error: PostgrestError | null }> {
+    const request = new Request(this.config.restUrl, {
+      method: "GET",
+      headers: { ...this.config.getHeaders(), "Accept": "application/openapi+json" }
+    });
+
+    try {
+      const response = await this.config.internetModule.fetch(request);
+      const text = await response.text();
+      if (!response.ok) {
+        return { data: null, error: createHttpError("rest", response.status, text, response.headers.get("retry-after")) };
+      }
+      const spec = this.parseSpec(text);
+      if (!spec) {
+        return { data: null, error: new SupabaseError("unknown", { message: "OpenAPI response was not JSON", service: "rest", status: response.status }) };
+      }
+      return { data: spec, error: null };
+    } catch (error) {
+      return { data: null, error: createNetworkError("rest", error) };
+    }
+  }
+
+  private parseSpec(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch (parseError) {
+      return null;
+    }
+  }
+
+  public getRestUrl(): string {
+    return this.config.restUrl;
+  }
+}
+
+/**
+ * Chainable builder for a single PostgREST request; R is the shape of `data`
+ * (rows by default, one row after single() / maybeSingle())
+ */
+export class PostgrestQueryBuilder<T = any, R = T[]> implements PromiseLike<PostgrestResponse<R>> {
+  private config: PostgrestClientConfig;
+  private table: string;
+  private method: HttpMethod = "GET";
+  private params: string[] = [];
+  private orderParts: string[] = [];
+  private body: any = undefined;
+  private prefer: string[] = [];
+  private expectSingle: "none" | "single" | "maybe" = "none";
+  private isRpc: boolean = false;
+  private rangeHeaderValue: string | null = null;
+
+  constructor(config: PostgrestClientConfig, table: string) {
+    this.config = config;
+    this.table = table;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Operations
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Select columns (comma separated, PostgREST syntax)
+   */
+  public select(columns: string = "*", options: SelectOptions = {}): this {
+    // Whitespace is not significant in PostgREST column lists
+    const cleaned = columns.split(",").map(column => column.trim()).join(",");
+    this.setParam("select", cleaned);
+
+    if (this.method === "GET" && options.head) {
+      this.method = "HEAD";
+    }
+    if (options.count) {
+      this.prefer.push(`count=${options.count}`);
+    }
+    if (this.method !== "GET" && this.method !== "HEAD" && !this.isRpc) {
+      this.setReturn("representation");
+    }
+    return this;
+  }
+
+  /**
+   * Insert one row, or many rows in a single request when given an array
+   */
+  public insert(values: Partial<T> | { [key: string]: any } | (Partial<T> | { [key: string]: any })[], options: InsertOptions = {}): this {
+    this.method = "POST";
+    this.setBody(values);
+    this.setReturn(options.returning || "representation");
+    if (options.count) {
+      this.prefer.push(`count=${options.count}`);
+    }
+    return this;
+  }
+
+  /**
+   * Insert rows, updating (or skipping) the ones that conflict on a unique column
+   */
+  public upsert(values: Partial<T> | { [key: string]: any } | (Partial<T> | { [key: string]: any })[], options: UpsertOptions = {}): this {
+    this.insert(values, options);
+    this.prefer.push(`resolution=${options.ignoreDuplicates ? "ignore-duplicates" : "merge-duplicates"}`);
+    if (options.onConflict) {
+      this.setParam("on_conflict", options.onConflict.split(",").map(column => column.trim()).join(","));
+    }
+    return this;
+  }
+
+  /**
+   * Update rows matching the filters
+   */
+  public update(values: Partial<T> | { [key: string]: any }, options: InsertOptions = {}): this {
+    this.method = "PATCH";
+    this.body = values;
+    this.setReturn(options.returning || "representation");
+    if (options.count) {
+      this.prefer.push(`count=${options.count}`);
+    }
+    return this;
+  }
+
+  /**
+   * Delete rows matching the filters
+   */
+  public delete(): this {
+    this.method = "DELETE";
+    return this;
+  }
+
+  /**
+   * Turn this builder into a function call (used by PostgrestClient.rpc)
+   */
+  public rpcCall(args: { [key: string]: any }, options: RpcOptions = {}): this {
+    this.isRpc = true;
+
+    if (options.head || options.get) {
+      this.method = options.head ? "HEAD" : "GET";
+      Object.keys(args).forEach(name => {
+        const value = args[name];
+        if (value === undefined) {
+          return;
+        }
+        // Arrays use the Postgres array literal syntax {a,b,c}
+        const text = Array.isArray(value) ? `{${value.join(",")}}` : `${value}`;
+        this.params.push(`${this.encode(name)}=${this.encode(text)}`);
+      });
+    } else {
+      this.method = "POST";
+      this.body = args;
+    }
+
+    if (options.count) {
+      this.prefer.push(`count=${options.count}`);
+    }
+    return this;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Filters
+  // ---------------------------------------------------------------------------
+
+  public eq(column: string, value: FilterValue): this {
+    return this.filter(column, "eq", value);
+  }
+
+  public neq(column: string, value: FilterValue): this {
+    return this.filter(column, "neq", value);
+  }
+
+  public gt(column: string, value: FilterValue): this {
+    return this.filter(column, "gt", value);
+  }
+
+  public gte(column: string, value: FilterValue): this {
+    return this.filter(column, "gte", value);
+  }
+
+  public lt(column: string, value: FilterValue): this {
+    return this.filter(column, "lt", value);
+  }
+
+  public lte(column: string, value: FilterValue): this {
+    return this.filter(column, "lte", value);
+  }
+
+  /**
+   * Case-sensitive pattern match, use % as the wildcard
+   */
+  public like(column: string, pattern: string): this {
+    return this.filter(column, "like", pattern);
+  }
+
+  /**
+   * Case-insensitive pattern match, use % as the wildcard
+   */
+  public ilike(column: string, pattern: string): this {
+    return this.filter(column, "ilike", pattern);
+  }
+
+  /**
+   * IS check for null / true / false
+   */
+  public is(column: string, value: null | boolean): this {
+    return this.filter(column, "is", value);
+  }
+
+  /**
+   * Column value is one of the given values
+   */
+  public in(column: string, values: FilterValue[]): this {
+    const list = values.map(value => this.quoteListValue(value)).join(",");
+    this.params.push(`${this.encode(column)}=in.(${this.encode(list)})`);
+    return this;
+  }
+
+  /**
+   * Shorthand for several eq filters
+   */
+  public match(query: { [column: string]: FilterValue }): this {
+    Object.keys(query).forEach(column => this.eq(column, query[column]));
+    return this;
+  }
+
+  /**
+   * Negate any operator, e.g. not("user_id", "like", "pc_%")
+   */
+  public not(column: string, operator: FilterOperator, value: FilterValue): this {
+    this.params.push(`${this.encode(column)}=not.${operator}.${this.encode(this.formatValue(value))}`);
+    return this;
+  }
+
+  /**
+   * Match any of several filters, in PostgREST syntax without the outer parentheses,
+   * e.g. or("sender.eq.Web,and(sender.eq.Lens,timestamp.gt.2024-01-01)")
+   */
+  public or(filters: string): this {
+    this.params.push(`or=(${this.encode(filters)})`);
+    return this;
+  }
+
+  /**
+   * Generic filter for operators without a dedicated method
+   */
+  public filter(column: string, operator: FilterOperator, value: FilterValue): this {
+    this.params.push(`${this.encode(column)}=${operator}.${this.encode(this.formatValue(value))}`);
+    return this;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Modifiers
+  // ---------------------------------------------------------------------------
+
+  public order(column: string, options: OrderOptions = {}): this {
+    let part = `${column}.${options.ascending === false ? "desc" : "asc"}`;
+    if (options.nullsFirst !== undefined) {
+      part += options.nullsFirst ? ".nullsfirst" : ".nullslast";
+    }
+    this.orderParts.push(part);
+    return this;
+  }
+
+  public limit(count: number): this {
+    this.setParam("limit", `${Math.max(0, Math.floor(count))}`);
+    return this;
+  }
+
+  public offset(count: number): this {
+    this.setParam("offset", `${Math.max(0, Math.floor(count))}`);
+    return this;
+  }
+
+  /**
+   * Inclusive row range, e.g. range(0, 9) returns the first ten rows
+   */
+  public range(from: number, to: number): this {
+    this.offset(from);
+    this.limit(to - from + 1);
+    return this;
+  }
+
+  /**
+   * Inclusive row range sent as a Range header instead of limit/offset;
+   * the total (with a count option) comes back in Content-Range
+   */
+  public rangeHeader(from: number, to: number): this {
+    this.rangeHeaderValue = `${Math.max(0, Math.floor(from))}-${Math.max(0, Math.floor(to))}`;
+    return this;
+  }
+
+  /**
+   * Expect exactly one row; data becomes an object instead of an array
+   */
+  public single(): PostgrestQueryBuilder<T, T> {
+    this.expectSingle = "single";
+    return this.withResult<T>();
+  }
+
+  /**
+   * Expect zero or one row; data is null when nothing matched
+   */
+  public maybeSingle(): PostgrestQueryBuilder<T, T | null> {
+    this.expectSingle = "maybe";
+    return this.withResult<T | null>();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Execution
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Full request URL, useful for debugging
+   */
+  public toUrl(): string {
+    const parts = this.params.slice();
+    if (this.orderParts.length > 0) {
+      parts.push(`order=${this.encode(this.orderParts.join(","))}`);
+    }
+
+    const path = this.isRpc ? `rpc/${this.encode(this.table)}` : this.encode(this.table);
+    const base = `${this.config.restUrl}${path}`;
+    return parts.length > 0 ? `${base}?${parts.join("&")}` : base;
+  }
+
+  /**
+   * Send the request and parse the response
+   */
+  public async execute(): Promise<PostgrestResponse<R>> {
+    const headers = { ...this.config.getHeaders() };
+    delete headers["Prefer"];
+
+    if (this.prefer.length > 0) {
+      headers["Prefer"] = this.prefer.join(",");
+    }
+    // Function results are unwrapped client-side, since scalar results are not arrays
+    if (this.expectSingle !== "none" && !this.isRpc) {
+      headers["Accept"] = "application/vnd.pgrst.object+json";
+    }
+
+    if (this.rangeHeaderValue) {
+      headers["Range-Unit"] = "items";
+      headers["Range"] = this.rangeHeaderValue;
+    }
+
+    const init: any = { method: this.method, headers: headers };
+    if (this.body !== undefined) {
+      init.body = JSON.stringify(this.body);
+      headers["Content-Type"] = headers["Content-Type"] || "application/json";
+    }
+
+    let response: Response;
+    try {
+      response = await this.config.internetModule.fetch(new Request(this.toUrl(), init));
+    } catch (error) {
+      return {
+        data: null,
+        error: createNetworkError("rest", error),
+        count: null,
+        status: 0,
+        statusText: ""
+      };
+    }
+
+    const count = this.parseCount(response.headers.get("content-range"));
+    const text = this.method === "HEAD" ? "" : await response.text();
+    const parsed = this.parseJson(text);
+
+    if (!response.ok) {
+      // Zero rows for maybeSingle() is not an error
+      if (this.expectSingle === "maybe" && response.status === 406 && parsed && parsed.details && `${parsed.details}`.indexOf("0 rows") >= 0) {
+        return { data: null, error: null, count: count, status: 200, statusText: "OK" };
+      }
+
+      const error = createHttpError("rest", response.status, text || response.statusText, response.headers.get("retry-after"));
+
+      return { data: null, error: error, count: count, status: response.status, statusText: response.statusText };
+    }
+
+    if (this.isRpc && this.expectSingle !== "none") {
+      return this.unwrapSingleResult(parsed, count, response);
+    }
+
+    return {
+      data: parsed === undefined ? null : parsed,
+      error: null,
+      count: count,
+      status: response.status,
+      statusText: response.statusText
+    };
+  }
+
+  public then<TResult1 = PostgrestResponse<R>, TResult2 = never>(
+    onfulfilled?: ((value: PostgrestResponse<R>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The same request with another result shape (single() / maybeSingle())
+   */
+  private withResult<S>(): PostgrestQueryBuilder<T, S> {
+    return Object.assign(new PostgrestQueryBuilder<T, S>(this.config, this.table), this);
+  }
+
+  /**
+   * single() / maybeSingle() for function calls: one-row sets become the row,
+   * scalars and composite results pass through unchanged
+   */
+  private unwrapSingleResult(parsed: any, count: number | null, response: Response): PostgrestResponse<any> {
+    let data = parsed === undefined ? null : parsed;
+
+    if (Array.isArray(data)) {
+      if (data.length > 1 || (data.length === 0 && this.expectSingle === "single")) {
+        return {
+          data: null,
+          error: new SupabaseError("bad_request", {
+            message: "JSON object requested, multiple (or no) rows returned",
+            service: "rest",
+            status: 406,
+            code: "PGRST116",
+            details: `The result contains ${data.length} rows`
+          }),
+          count: count,
+          status: 406,
+          statusText: "Not Acceptable"
+        };
+      }
+      data = data.length === 1 ? data[0] : null;
+    }
+
+    return { data: data, error: null, count: count, status: response.status, statusText: response.statusText };
+  }
+
+  private setParam(key: string, value: string) {
+    const prefix = `${key}=`;
+    this.params = this.params.filter(param => param.indexOf(prefix) !== 0);
+    this.params.push(`${prefix}${this.encode(value)}`);
+  }
+
+  /**
+   * Bulk payloads list every column used by any row, so rows missing a key
+   * get the column default instead of failing
+   */
+  private setBody(values: any) {
+    this.body = values;
+
+    if (Array.isArray(values) && values.length > 0) {
+      const columns: string[] = [];
+      values.forEach(row => Object.keys(row).forEach(column => {
+        if (columns.indexOf(column) < 0) {
+          columns.push(column);
+        }
+      }));
+      this.setParam("columns", columns.map(column => `"${column}"`).join(","));
+      this.prefer.push("missing=default");
+    }
+  }
+
+  private setReturn(mode: ReturnMode) {
+    this.prefer = this.prefer.filter(entry => entry.indexOf("return=") !== 0);
+    this.prefer.push(`return=${mode}`);
+  }
+
+  private formatValue(value: FilterValue): string {
+    if (value === null) {
+      return "null";
+    }
+    return `${value}`;
+  }
+
+  /**
+   * Values inside in.(...) lists must be quoted when they contain reserved characters
+   */
+  private quoteListValue(value: FilterValue): string {
+    const text = this.formatValue(value);
+    if (/[,()"\\:]/.test(text) || /^\s|\s$/.test(text)) {
+      return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+    }
+    return text;
+  }
+
+  private encode(value: string): string {
+    return encodeURIComponent(value);
+  }
+
+  private parseJson(text: string): any {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return text;
+    }
+  }
+
+  /**
+   * Content-Range looks like "0-4/123" or "*\/0"; the total is after the slash
+   */
+  private parseCount(contentRange: string | null): number | null {
+    if (!contentRange) {
+      return null;
+    }
+    const total = contentRange.split("/")[1];
+    if (!total || total === "*") {
+      return null;
+    }
+    const parsed = parseInt(total, 10);
+    return isNaN(parsed) ? null : parsed;
+  }
+}
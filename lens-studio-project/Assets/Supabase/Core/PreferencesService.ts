@@ -0,0 +1,419 @@
+/**
+ * User Preferences Service for Lens Studio
+ *
+ * Loads a user's row from user_preferences, merges it over
+ * DEFAULT_PREFERENCES and keeps a copy in persistent storage, so the last
+ * known settings apply on launch (and offline) before the server answers.
+ *
+ * Changes are written back with optimistic concurrency: the update only
+ * matches while updated_at still equals the value this device last read.
+ * When another device or the web app saved in between, the latest row is
+ * fetched, the local changes are re-applied on top of it and the write is
+ * retried, so neither side silently overwrites the other.
+ *
+ * Changes that could not be sent stay pending in the cache and are sent by
+ * sync(), on the next load() or when the internet comes back.
+ */
+
+import { Json, UserPreferencesRow } from "./DatabaseTypes";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { SupabaseError } from "./SupabaseError";
+
+export type ColorMode = "natural" | "vivid" | "muted";
+
+export interface AudioPreferences {
+  /** 0 - 1 */
+  volume: number;
+  sound_effects: boolean;
+}
+
+export interface DisplayPreferences {
+  /** 0 - 1, multiplies the base color of the display targets */
+  brightness: number;
+  color_mode: ColorMode;
+}
+
+export interface UserPreferences {
+  audio: AudioPreferences;
+  display: DisplayPreferences;
+  /** Other apps may store their own keys; they are kept on save */
+  [key: string]: any;
+}
+
+export interface PreferencesPatch {
+  audio?: Partial<AudioPreferences>;
+  display?: Partial<DisplayPreferences>;
+  [key: string]: any;
+}
+
+/** Where the current preferences came from */
+export type PreferencesSource = "defaults" | "cache" | "server" | "local";
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  audio: { volume: 0.8, sound_effects: true },
+  display: { brightness: 1, color_mode: "natural" }
+};
+
+export interface PreferencesServiceOptions {
+  rest: PostgrestClient;
+  /** Prefix of the persistent storage key; the user id is appended */
+  storageKey?: string;
+  /** Save attempts while other devices keep winning the race (default 3) */
+  maxConflictRetries?: number;
+  logger?: (message: string) => void;
+}
+
+interface CachedPreferences {
+  preferences: UserPreferences;
+  /** Whether the user has a row on the server */
+  hasRow: boolean;
+  /** updated_at of the server row the preferences are based on */
+  version: string | null;
+  /** Local changes the server has not confirmed yet */
+  pending: PreferencesPatch | null;
+}
+
+const DEFAULT_STORAGE_KEY = "supabase-user-preferences";
+
+/**
+ * Deep merge: nested objects are merged key by key, everything else
+ * (including arrays) is replaced by the patch value
+ */
+export function mergePreferences<T>(base: T, patch: { [key: string]: any } | null | undefined): T {
+  const merged: { [key: string]: any } = { ...base };
+  if (!patch) {
+    return merged as T;
+  }
+
+  Object.keys(patch).forEach(key => {
+    const value = patch[key];
+    if (value === undefined) {
+      return;
+    }
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergePreferences(merged[key], value)
+      : value;
+  });
+  return merged as T;
+}
+
+/**
+ * Read the preferences column, which older rows store as a JSON encoded string
+ */
+export function parseStoredPreferences(value: Json | undefined): PreferencesPatch {
+  let parsed: any = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      return {};
+    }
+  }
+  return isPlainObject(parsed) ? parsed : {};
+}
+
+function isPlainObject(value: any): value is { [key: string]: any } {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+export class PreferencesService {
+  private options: PreferencesServiceOptions;
+  private storageKey: string;
+  private userId: string | null = null;
+  private preferences: UserPreferences = mergePreferences(DEFAULT_PREFERENCES, {});
+  private hasRow: boolean = false;
+  private version: string | null = null;
+  private pending: PreferencesPatch | null = null;
+  private isSaving: boolean = false;
+  /** Set when update() is called during a save, so the new changes follow it */
+  private saveAgain: boolean = false;
+  private changeListeners: ((preferences: UserPreferences, source: PreferencesSource) => void)[] = [];
+  private internetStatusRegistration: EventRegistration;
+
+  constructor(options: PreferencesServiceOptions) {
+    this.options = options;
+    this.storageKey = options.storageKey || DEFAULT_STORAGE_KEY;
+
+    this.internetStatusRegistration = global.deviceInfoSystem.onInternetStatusChanged.add((args) => {
+      if (args.isInternetAvailable && this.pending) {
+        this.log("🌐 Back online - syncing preferences");
+        this.sync();
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reading
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Apply the cached preferences of a user immediately, then the server row
+   * Returns the error when the server could not be read (the cache stays applied)
+   */
+  public async load(userId: string): Promise<SupabaseError | null> {
+    this.userId = userId;
+
+    const cached = this.readCache(userId);
+    if (cached) {
+      this.preferences = mergePreferences(DEFAULT_PREFERENCES, cached.preferences);
+      this.hasRow = cached.hasRow;
+      this.version = cached.version;
+      this.pending = cached.pending;
+      this.notify("cache");
+    } else {
+      this.preferences = mergePreferences(DEFAULT_PREFERENCES, {});
+      this.hasRow = false;
+      this.version = null;
+      this.pending = null;
+      this.notify("defaults");
+    }
+
+    const { row, error } = await this.fetchRow(userId);
+    if (error) {
+      this.log(`⚠️ Could not load preferences, using ${cached ? "cached" : "default"} settings: ${error.toString()}`);
+      return error;
+    }
+    // Another load() for a different user started meanwhile
+    if (this.userId !== userId) {
+      return null;
+    }
+
+    this.applyServerRow(row);
+    this.persist();
+    this.notify("server");
+    this.log(row ? `⚙️ Loaded preferences for '${userId}'` : `⚙️ No saved preferences for '${userId}' - using defaults`);
+
+    return this.pending ? this.save() : null;
+  }
+
+  /**
+   * Current preferences (defaults merged with the saved and pending values)
+   */
+  public getPreferences(): UserPreferences {
+    return mergePreferences(this.preferences, {});
+  }
+
+  public getUserId(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * True while local changes have not reached the server
+   */
+  public hasPendingChanges(): boolean {
+    return this.pending !== null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Writing
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Change some preferences, apply them locally right away and save them
+   *
+   *   service.update({ audio: { volume: 0.5 } });
+   */
+  public async update(patch: PreferencesPatch): Promise<SupabaseError | null> {
+    if (!this.userId) {
+      throw new Error("PreferencesService: call load(userId) before update()");
+    }
+
+    this.preferences = mergePreferences(this.preferences, patch);
+    this.pending = mergePreferences(this.pending || {}, patch);
+    this.persist();
+    this.notify("local");
+
+    return this.save();
+  }
+
+  /**
+   * Send pending changes (e.g. after coming back online)
+   */
+  public async sync(): Promise<SupabaseError | null> {
+    return this.pending ? this.save() : null;
+  }
+
+  /**
+   * Listen for preference changes; returns an unsubscribe function
+   */
+  public onChange(callback: (preferences: UserPreferences, source: PreferencesSource) => void): () => void {
+    this.changeListeners.push(callback);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(listener => listener !== callback);
+    };
+  }
+
+  /**
+   * Stop listening for connectivity changes (pending changes stay cached)
+   */
+  public stop() {
+    global.deviceInfoSystem.onInternetStatusChanged.remove(this.internetStatusRegistration);
+  }
+
+  private async save(): Promise<SupabaseError | null> {
+    if (this.isSaving) {
+      this.saveAgain = true;
+      return null;
+    }
+
+    this.isSaving = true;
+    try {
+      let error = await this.writePending();
+      while (!error && this.saveAgain) {
+        this.saveAgain = false;
+        error = this.pending ? await this.writePending() : null;
+      }
+      return error;
+    } finally {
+      this.isSaving = false;
+      this.saveAgain = false;
+    }
+  }
+
+  /**
+   * Write the merged preferences if the row is still at the version we read;
+   * on a conflict, rebase the pending changes onto the latest row and retry
+   */
+  private async writePending(): Promise<SupabaseError | null> {
+    const userId = this.userId;
+    const maxAttempts = this.options.maxConflictRetries || 3;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const sent = this.pending;
+      const { rows, error } = await this.writeRow(userId);
+
+      if (this.userId !== userId) {
+        return null;
+      }
+
+      // A unique violation means another device created the row first
+      const isConflict = !error || (error.kind === "constraint_violation" && error.code === "23505");
+      if (!isConflict) {
+        this.log(error.isRetryable()
+          ? `📦 Preferences saved locally, will sync when online: ${error.toString()}`
+          : `❌ Failed to save preferences: ${error.toString()}`);
+        return error;
+      }
+
+      if (!error && rows.length > 0) {
+        this.hasRow = true;
+        this.version = rows[0].updated_at;
+        // Changes made while the request was in flight stay pending
+        if (this.pending === sent) {
+          this.pending = null;
+        }
+        this.persist();
+        this.log("✅ Preferences saved");
+        return null;
+      }
+
+      this.log("⚠️ Preferences were changed on another device - merging and retrying");
+      const { row, error: fetchError } = await this.fetchRow(userId);
+      if (fetchError) {
+        return fetchError;
+      }
+      this.applyServerRow(row);
+      this.persist();
+      this.notify("server");
+    }
+
+    this.log(`❌ Preferences kept changing on another device - gave up after ${maxAttempts} attempts`);
+    return new SupabaseError("constraint_violation", {
+      message: "Preferences were changed concurrently",
+      service: "rest",
+      status: 409
+    });
+  }
+
+  private async writeRow(userId: string): Promise<{ rows: UserPreferencesRow[]; error: SupabaseError | null }> {
+    const values = {
+      preferences: this.preferences,
+      updated_at: new Date().toISOString()
+    };
+
+    if (!this.hasRow) {
+      const { data, error } = await this.options.rest.from("user_preferences").insert({ user_id: userId, ...values });
+      return { rows: data || [], error: error };
+    }
+
+    const query = this.options.rest.from("user_preferences").update(values).eq("user_id", userId);
+    const { data, error } = this.version === null
+      ? await query.is("updated_at", null)
+      : await query.eq("updated_at", this.version);
+    return { rows: data || [], error: error };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private async fetchRow(userId: string): Promise<{ row: UserPreferencesRow | null; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.from("user_preferences")
+      .select("*")
+      .eq("user_id", userId)
+      .limit(1);
+
+    if (error) {
+      return { row: null, error: error };
+    }
+    return { row: data && data.length > 0 ? data[0] : null, error: null };
+  }
+
+  /**
+   * Adopt the server row, keeping pending local changes on top of it
+   */
+  private applyServerRow(row: UserPreferencesRow | null) {
+    const server = mergePreferences(DEFAULT_PREFERENCES, row ? parseStoredPreferences(row.preferences) : {});
+    this.preferences = mergePreferences(server, this.pending);
+    this.hasRow = row !== null;
+    this.version = row ? row.updated_at : null;
+  }
+
+  private notify(source: PreferencesSource) {
+    const preferences = this.getPreferences();
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(preferences, source);
+      } catch (error) {
+        this.log(`❌ Preferences listener error: ${error}`);
+      }
+    });
+  }
+
+  private persist() {
+    if (!this.userId) {
+      return;
+    }
+
+    const cached: CachedPreferences = {
+      preferences: this.preferences,
+      hasRow: this.hasRow,
+      version: this.version,
+      pending: this.pending
+    };
+    global.persistentStorageSystem.store.putString(`${this.storageKey}:${this.userId}`, JSON.stringify(cached));
+  }
+
+  private readCache(userId: string): CachedPreferences | null {
+    const store = global.persistentStorageSystem.store;
+    const key = `${this.storageKey}:${userId}`;
+    if (!store.has(key)) {
+      return null;
+    }
+
+    try {
+      const cached = JSON.parse(store.getString(key));
+      return isPlainObject(cached) && isPlainObject(cached.preferences) ? cached as CachedPreferences : null;
+    } catch (error) {
+      this.log(`⚠️ Ignoring corrupt preferences cache: ${error}`);
+      store.remove(key);
+      return null;
+    }
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
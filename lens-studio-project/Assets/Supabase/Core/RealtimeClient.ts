@@ -0,0 +1,791 @@
+/**
+ * Supabase Realtime Client for Lens Studio
+ *
+ * Speaks the Phoenix channel protocol used by Supabase Realtime over the
+ * InternetModule WebSocket, so Lens scripts can receive broadcasts, presence
+ * and postgres_changes events without polling the REST API.
+ *
+ * Supported:
+ * - Channel join / leave with automatic rejoin after reconnects, server-side
+ *   channel errors and join timeouts
+ * - Heartbeats to keep the socket alive
+ * - Broadcast (send and receive)
+ * - Presence (track / untrack, sync / join / leave callbacks)
+ * - postgres_changes (INSERT / UPDATE / DELETE / *)
+ *
+ * Timers are created on the host script component (DelayedCallbackEvent),
+ * so the client must be constructed from inside a component.
+ */
+
+export type RealtimeChannelStatus = "SUBSCRIBED" | "CHANNEL_ERROR" | "TIMED_OUT" | "CLOSED";
+
+export type PostgresChangeEvent = "INSERT" | "UPDATE" | "DELETE" | "*";
+
+export type PresenceEvent = "sync" | "join" | "leave";
+
+/**
+ * Raw Phoenix message
+ */
+export interface PhoenixMessage {
+  topic: string;
+  event: string;
+  payload: any;
+  ref: string | null;
+  join_ref?: string | null;
+}
+
+export interface RealtimeClientOptions {
+  /** Supabase project URL, e.g. https://your-project.supabase.co */
+  supabaseUrl: string;
+  apiKey: string;
+  internetModule: InternetModule;
+  /** Component used to create timer events */
+  host: BaseScriptComponent;
+  /** Optional user JWT provider; falls back to the API key */
+  getAccessToken?: () => string;
+  heartbeatIntervalSeconds?: number;
+  /** Seconds to wait for a join reply before reporting TIMED_OUT */
+  timeoutSeconds?: number;
+  logger?: (message: string) => void;
+}
+
+export interface RealtimeChannelConfig {
+  broadcast?: { self?: boolean; ack?: boolean };
+  presence?: { key?: string };
+  private?: boolean;
+}
+
+export interface BroadcastMessage {
+  type: "broadcast";
+  event: string;
+  payload: any;
+}
+
+export interface PostgresChangesFilter {
+  event: PostgresChangeEvent;
+  schema?: string;
+  table?: string;
+  /** PostgREST-style filter, e.g. "room_name=eq.spectacles-demo-room" */
+  filter?: string;
+}
+
+export interface PostgresChangesPayload<T = any> {
+  schema: string;
+  table: string;
+  commit_timestamp: string;
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: T | {};
+  old: Partial<T> | {};
+  errors: any;
+}
+
+export interface PresenceMeta {
+  phx_ref?: string;
+  [key: string]: any;
+}
+
+export type PresenceState = { [key: string]: PresenceMeta[] };
+
+export interface PresenceChange {
+  key: string;
+  currentPresences: PresenceMeta[];
+  newPresences?: PresenceMeta[];
+  leftPresences?: PresenceMeta[];
+}
+
+/** Presence as the server sends it in presence_state / presence_diff */
+type ServerPresenceState = { [key: string]: { metas: PresenceMeta[] } };
+
+interface Binding {
+  type: string;
+  filter: { [key: string]: any };
+  callback: (payload: any) => void;
+  /** Server-assigned id for postgres_changes bindings */
+  id?: number;
+}
+
+const PHOENIX_TOPIC = "phoenix";
+const DEFAULT_HEARTBEAT_SECONDS = 25;
+const DEFAULT_TIMEOUT_SECONDS = 10;
+const RECONNECT_DELAYS_SECONDS = [1, 2, 5, 10];
+
+/**
+ * One WebSocket connection, shared by any number of channels
+ */
+export class RealtimeClient {
+  private options: RealtimeClientOptions;
+  private socket: WebSocket | null = null;
+  private channels: RealtimeChannel[] = [];
+  private sendBuffer: string[] = [];
+  private refCounter: number = 0;
+  private pendingHeartbeatRef: string | null = null;
+  private heartbeatTimer: DelayedCallbackEvent;
+  private reconnectTimer: DelayedCallbackEvent;
+  private reconnectAttempts: number = 0;
+  private manuallyClosed: boolean = false;
+  private connected: boolean = false;
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = options;
+
+    this.heartbeatTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.heartbeatTimer.bind(() => this.sendHeartbeat());
+
+    this.reconnectTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.reconnectTimer.bind(() => this.connect());
+  }
+
+  /**
+   * Open the WebSocket (called automatically by channel.subscribe())
+   */
+  public connect() {
+    if (this.socket) {
+      return;
+    }
+
+    this.manuallyClosed = false;
+    const url = this.getEndpointUrl();
+    this.log(`🔌 Opening realtime socket: ${url.split("?")[0]}`);
+
+    const socket = this.options.internetModule.createWebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.log("✅ Realtime socket open");
+
+      this.flushSendBuffer();
+      // handleClose() disabled the timer when the previous socket dropped
+      this.heartbeatTimer.enabled = true;
+      this.heartbeatTimer.reset(this.getHeartbeatInterval());
+
+      this.channels.forEach(channel => channel.rejoin());
+    };
+
+    socket.onmessage = async (event: WebSocketMessageEvent) => {
+      const text = typeof event.data === "string" ? event.data : await (event.data as Blob).text();
+      this.handleMessage(text);
+    };
+
+    socket.onerror = () => {
+      this.log("⚠️ Realtime socket error");
+    };
+
+    socket.onclose = () => {
+      this.handleClose();
+    };
+  }
+
+  /**
+   * Close the socket and stop reconnecting
+   */
+  public disconnect() {
+    this.manuallyClosed = true;
+    this.heartbeatTimer.enabled = false;
+    this.reconnectTimer.enabled = false;
+
+    if (this.socket) {
+      this.socket.close();
+    }
+    this.socket = null;
+    this.connected = false;
+    this.channels.forEach(channel => channel.markClosed());
+  }
+
+  /**
+   * Create (or reuse) a channel; the topic is prefixed with "realtime:"
+   */
+  public channel(name: string, config: RealtimeChannelConfig = {}): RealtimeChannel {
+    const topic = `realtime:${name}`;
+    const existing = this.channels.filter(channel => channel.topic === topic)[0];
+    if (existing) {
+      return existing;
+    }
+
+    const channel = new RealtimeChannel(this, topic, config);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  /**
+   * Leave and forget a channel; the socket closes when no channels remain
+   */
+  public removeChannel(channel: RealtimeChannel) {
+    channel.unsubscribe();
+    this.channels = this.channels.filter(entry => entry !== channel);
+
+    if (this.channels.length === 0) {
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Push a fresh user JWT to every joined channel
+   */
+  public setAuth(accessToken: string) {
+    this.channels.forEach(channel => {
+      if (channel.isJoined()) {
+        this.push({
+          topic: channel.topic,
+          event: "access_token",
+          payload: { access_token: accessToken },
+          ref: this.makeRef()
+        });
+      }
+    });
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public getChannels(): RealtimeChannel[] {
+    return this.channels.slice();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal API used by RealtimeChannel
+  // ---------------------------------------------------------------------------
+
+  public makeRef(): string {
+    this.refCounter++;
+    return `${this.refCounter}`;
+  }
+
+  public push(message: PhoenixMessage) {
+    const text = JSON.stringify(message);
+    if (this.connected && this.socket) {
+      this.socket.send(text);
+    } else {
+      this.sendBuffer.push(text);
+    }
+  }
+
+  public getAccessToken(): string {
+    const token = this.options.getAccessToken ? this.options.getAccessToken() : "";
+    return token || this.options.apiKey;
+  }
+
+  public getTimeoutSeconds(): number {
+    return this.options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+  }
+
+  public getHost(): BaseScriptComponent {
+    return this.options.host;
+  }
+
+  public log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Socket handling
+  // ---------------------------------------------------------------------------
+
+  private getEndpointUrl(): string {
+    const base = this.options.supabaseUrl.replace(/\/$/, "").replace(/^http/, "ws");
+    return `${base}/realtime/v1/websocket?apikey=${encodeURIComponent(this.options.apiKey)}&vsn=1.0.0`;
+  }
+
+  private getHeartbeatInterval(): number {
+    return this.options.heartbeatIntervalSeconds || DEFAULT_HEARTBEAT_SECONDS;
+  }
+
+  private handleMessage(text: string) {
+    let message: PhoenixMessage;
+    try {
+      message = JSON.parse(text);
+    } catch (error) {
+      this.log(`⚠️ Ignoring malformed realtime message: ${text.substring(0, 80)}`);
+      return;
+    }
+
+    if (message.topic === PHOENIX_TOPIC) {
+      if (message.ref === this.pendingHeartbeatRef) {
+        this.pendingHeartbeatRef = null;
+      }
+      return;
+    }
+
+    this.channels
+      .filter(channel => channel.topic === message.topic)
+      .forEach(channel => channel.handleMessage(message));
+  }
+
+  private handleClose() {
+    const wasConnected = this.connected;
+    this.socket = null;
+    this.connected = false;
+    this.heartbeatTimer.enabled = false;
+    this.pendingHeartbeatRef = null;
+
+    this.channels.forEach(channel => channel.markClosed());
+
+    if (this.manuallyClosed) {
+      this.log("🛑 Realtime socket closed");
+      return;
+    }
+
+    const delay = RECONNECT_DELAYS_SECONDS[Math.min(this.reconnectAttempts, RECONNECT_DELAYS_SECONDS.length - 1)];
+    this.reconnectAttempts++;
+    this.log(`${wasConnected ? "⚠️ Realtime socket lost" : "❌ Realtime socket failed"} - reconnecting in ${delay}s`);
+
+    this.reconnectTimer.enabled = true;
+    this.reconnectTimer.reset(delay);
+  }
+
+  private sendHeartbeat() {
+    if (!this.connected || !this.socket) {
+      return;
+    }
+
+    // The previous heartbeat was never answered - treat the socket as dead
+    if (this.pendingHeartbeatRef) {
+      this.log("⚠️ Realtime heartbeat timeout");
+      this.pendingHeartbeatRef = null;
+      this.socket.close();
+      return;
+    }
+
+    this.pendingHeartbeatRef = this.makeRef();
+    this.push({ topic: PHOENIX_TOPIC, event: "heartbeat", payload: {}, ref: this.pendingHeartbeatRef });
+
+    this.heartbeatTimer.enabled = true;
+    this.heartbeatTimer.reset(this.getHeartbeatInterval());
+  }
+
+  private flushSendBuffer() {
+    if (!this.socket) {
+      return;
+    }
+    const buffered = this.sendBuffer;
+    this.sendBuffer = [];
+    buffered.forEach(text => this.socket.send(text));
+  }
+}
+
+/**
+ * A single Realtime topic with its broadcast / presence / postgres_changes bindings
+ */
+export class RealtimeChannel {
+  public readonly topic: string;
+
+  private client: RealtimeClient;
+  private config: RealtimeChannelConfig;
+  private bindings: Binding[] = [];
+  private joinRef: string | null = null;
+  private state: "closed" | "joining" | "joined" | "leaving" = "closed";
+  private wantsJoin: boolean = false;
+  private statusCallback: ((status: RealtimeChannelStatus, error?: string) => void) | null = null;
+  private joinTimer: DelayedCallbackEvent;
+  private rejoinTimer: DelayedCallbackEvent;
+  private rejoinAttempts: number = 0;
+  private presenceState: PresenceState = {};
+  private trackedPayload: any = null;
+
+  constructor(client: RealtimeClient, topic: string, config: RealtimeChannelConfig) {
+    this.client = client;
+    this.topic = topic;
+    this.config = config;
+
+    this.joinTimer = client.getHost().createEvent("DelayedCallbackEvent");
+    this.joinTimer.bind(() => {
+      if (this.state === "joining") {
+        this.client.log(`⏱️ Join timed out: ${this.topic}`);
+        this.state = "closed";
+        this.notifyStatus("TIMED_OUT");
+        this.scheduleRejoin();
+      }
+    });
+
+    this.rejoinTimer = client.getHost().createEvent("DelayedCallbackEvent");
+    this.rejoinTimer.bind(() => {
+      // Without a socket, the reconnect rejoins every channel anyway
+      if (this.client.isConnected()) {
+        this.rejoin();
+      }
+    });
+  }
+
+  /**
+   * Listen for broadcast, presence or postgres_changes events
+   */
+  public on(type: "broadcast", filter: { event: string }, callback: (message: BroadcastMessage) => void): this;
+  public on(type: "presence", filter: { event: PresenceEvent }, callback: (change: PresenceChange | PresenceState) => void): this;
+  public on<T = any>(type: "postgres_changes", filter: PostgresChangesFilter, callback: (payload: PostgresChangesPayload<T>) => void): this;
+  public on(type: "system", filter: {}, callback: (payload: any) => void): this;
+  public on(type: string, filter: { [key: string]: any }, callback: (payload: any) => void): this {
+    this.bindings.push({ type: type, filter: filter, callback: callback });
+    return this;
+  }
+
+  /**
+   * Remove listeners of a type (optionally only those with a matching callback)
+   */
+  public off(type: string, callback?: (payload: any) => void): this {
+    this.bindings = this.bindings.filter(binding =>
+      binding.type !== type || (callback !== undefined && binding.callback !== callback));
+    return this;
+  }
+
+  /**
+   * Join the channel; the callback receives SUBSCRIBED / CHANNEL_ERROR / TIMED_OUT / CLOSED
+   */
+  public subscribe(callback?: (status: RealtimeChannelStatus, error?: string) => void): this {
+    if (callback) {
+      this.statusCallback = callback;
+    }
+    this.wantsJoin = true;
+
+    // Subscribing again (e.g. from a second script sharing the channel) keeps the current join
+    this.client.connect();
+    if (this.client.isConnected() && this.state === "closed") {
+      this.join();
+    }
+    return this;
+  }
+
+  /**
+   * Leave the channel
+   */
+  public unsubscribe() {
+    this.wantsJoin = false;
+    this.joinTimer.enabled = false;
+
+    if (this.state === "joined" || this.state === "joining") {
+      this.state = "leaving";
+      this.client.push({ topic: this.topic, event: "phx_leave", payload: {}, ref: this.client.makeRef(), join_ref: this.joinRef });
+    }
+    this.markClosed();
+  }
+
+  /**
+   * Send a broadcast message to everyone on the channel
+   */
+  public send(message: BroadcastMessage): boolean {
+    if (this.state !== "joined") {
+      return false;
+    }
+
+    this.client.push({
+      topic: this.topic,
+      event: "broadcast",
+      payload: { type: "broadcast", event: message.event, payload: message.payload },
+      ref: this.client.makeRef(),
+      join_ref: this.joinRef
+    });
+    return true;
+  }
+
+  /**
+   * Announce this client in the channel presence state
+   */
+  public track(payload: { [key: string]: any }) {
+    this.trackedPayload = payload;
+    if (this.state !== "joined") {
+      return;
+    }
+
+    this.client.push({
+      topic: this.topic,
+      event: "presence",
+      payload: { type: "presence", event: "track", payload: payload },
+      ref: this.client.makeRef(),
+      join_ref: this.joinRef
+    });
+  }
+
+  /**
+   * Remove this client from the channel presence state
+   */
+  public untrack() {
+    this.trackedPayload = null;
+    if (this.state !== "joined") {
+      return;
+    }
+
+    this.client.push({
+      topic: this.topic,
+      event: "presence",
+      payload: { type: "presence", event: "untrack" },
+      ref: this.client.makeRef(),
+      join_ref: this.joinRef
+    });
+  }
+
+  /**
+   * Current presence state keyed by presence key
+   */
+  public getPresenceState(): PresenceState {
+    const copy: PresenceState = {};
+    Object.keys(this.presenceState).forEach(key => {
+      copy[key] = this.presenceState[key].slice();
+    });
+    return copy;
+  }
+
+  public isJoined(): boolean {
+    return this.state === "joined";
+  }
+
+  /**
+   * Whether any script still listens on this channel
+   */
+  public hasBindings(): boolean {
+    return this.bindings.length > 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal API used by RealtimeClient
+  // ---------------------------------------------------------------------------
+
+  public rejoin() {
+    if (this.wantsJoin && this.state !== "joined" && this.state !== "joining") {
+      this.join();
+    }
+  }
+
+  public markClosed() {
+    const wasOpen = this.state !== "closed";
+    this.state = "closed";
+    this.joinTimer.enabled = false;
+    this.rejoinTimer.enabled = false;
+    this.presenceState = {};
+
+    if (wasOpen) {
+      this.notifyStatus("CLOSED");
+    }
+  }
+
+  public handleMessage(message: PhoenixMessage) {
+    // Ignore replies belonging to a previous join
+    if (message.join_ref && this.joinRef && message.join_ref !== this.joinRef) {
+      return;
+    }
+
+    switch (message.event) {
+      case "phx_reply":
+        this.handleReply(message);
+        break;
+      case "phx_error":
+        this.state = "closed";
+        this.notifyStatus("CHANNEL_ERROR", "Channel crashed on the server");
+        this.scheduleRejoin();
+        break;
+      case "phx_close":
+        this.markClosed();
+        this.scheduleRejoin();
+        break;
+      case "broadcast":
+        this.dispatch("broadcast", message.payload, binding => binding.filter.event === message.payload.event || binding.filter.event === "*");
+        break;
+      case "presence_state":
+        this.syncPresenceState(message.payload);
+        break;
+      case "presence_diff":
+        this.syncPresenceDiff(message.payload);
+        break;
+      case "postgres_changes":
+        this.handlePostgresChanges(message.payload);
+        break;
+      case "system":
+        this.dispatch("system", message.payload, () => true);
+        break;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Joining
+  // ---------------------------------------------------------------------------
+
+  private join() {
+    this.state = "joining";
+    this.joinRef = this.client.makeRef();
+
+    const postgresChanges = this.bindings
+      .filter(binding => binding.type === "postgres_changes")
+      .map(binding => {
+        const change: { [key: string]: string } = {
+          event: binding.filter.event,
+          schema: binding.filter.schema || "public"
+        };
+        if (binding.filter.table) {
+          change.table = binding.filter.table;
+        }
+        if (binding.filter.filter) {
+          change.filter = binding.filter.filter;
+        }
+        return change;
+      });
+
+    const payload = {
+      config: {
+        broadcast: { self: false, ack: false, ...(this.config.broadcast || {}) },
+        presence: { key: "", ...(this.config.presence || {}) },
+        postgres_changes: postgresChanges,
+        private: this.config.private === true
+      },
+      access_token: this.client.getAccessToken()
+    };
+
+    this.client.push({ topic: this.topic, event: "phx_join", payload: payload, ref: this.joinRef, join_ref: this.joinRef });
+
+    this.joinTimer.enabled = true;
+    this.joinTimer.reset(this.client.getTimeoutSeconds());
+  }
+
+  private handleReply(message: PhoenixMessage) {
+    if (message.ref !== this.joinRef || this.state !== "joining") {
+      return;
+    }
+
+    this.joinTimer.enabled = false;
+    const status = message.payload ? message.payload.status : "error";
+
+    if (status !== "ok") {
+      this.state = "closed";
+      const reason = message.payload && message.payload.response ? JSON.stringify(message.payload.response) : "unknown";
+      this.client.log(`❌ Join failed for ${this.topic}: ${reason}`);
+      this.notifyStatus("CHANNEL_ERROR", reason);
+      return;
+    }
+
+    // Match server ids to postgres_changes bindings in order
+    const serverChanges: any[] = (message.payload.response && message.payload.response.postgres_changes) || [];
+    const postgresBindings = this.bindings.filter(binding => binding.type === "postgres_changes");
+    postgresBindings.forEach((binding, index) => {
+      binding.id = serverChanges[index] ? serverChanges[index].id : undefined;
+    });
+
+    this.state = "joined";
+    this.rejoinAttempts = 0;
+    this.client.log(`✅ Joined ${this.topic}`);
+    this.notifyStatus("SUBSCRIBED");
+
+    if (this.trackedPayload) {
+      this.track(this.trackedPayload);
+    }
+  }
+
+  /**
+   * Join again after the server closed or crashed the channel (or a join
+   * timed out), backing off like the socket reconnect
+   */
+  private scheduleRejoin() {
+    if (!this.wantsJoin) {
+      return;
+    }
+
+    const delay = RECONNECT_DELAYS_SECONDS[Math.min(this.rejoinAttempts, RECONNECT_DELAYS_SECONDS.length - 1)];
+    this.rejoinAttempts++;
+    this.client.log(`🔁 Rejoining ${this.topic} in ${delay}s`);
+
+    this.rejoinTimer.enabled = true;
+    this.rejoinTimer.reset(delay);
+  }
+
+  private notifyStatus(status: RealtimeChannelStatus, error?: string) {
+    if (this.statusCallback) {
+      this.statusCallback(status, error);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Event dispatch
+  // ---------------------------------------------------------------------------
+
+  private dispatch(type: string, payload: any, matches: (binding: Binding) => boolean) {
+    this.bindings
+      .filter(binding => binding.type === type && matches(binding))
+      .forEach(binding => {
+        try {
+          binding.callback(payload);
+        } catch (error) {
+          this.client.log(`❌ Realtime callback error (${type}): ${error}`);
+        }
+      });
+  }
+
+  private handlePostgresChanges(payload: any) {
+    const ids: number[] = payload.ids || [];
+    const data = payload.data || {};
+    const eventType = data.type || data.eventType;
+
+    const change: PostgresChangesPayload = {
+      schema: data.schema,
+      table: data.table,
+      commit_timestamp: data.commit_timestamp,
+      eventType: eventType,
+      new: data.record || {},
+      old: data.old_record || {},
+      errors: data.errors || null
+    };
+
+    this.dispatch("postgres_changes", change, binding =>
+      binding.id !== undefined
+        ? ids.indexOf(binding.id) >= 0
+        : (binding.filter.event === "*" || binding.filter.event === eventType) &&
+          (!binding.filter.table || binding.filter.table === data.table));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Presence
+  // ---------------------------------------------------------------------------
+
+  private syncPresenceState(state: ServerPresenceState) {
+    const previous = this.presenceState;
+    this.presenceState = {};
+
+    Object.keys(state || {}).forEach(key => {
+      this.presenceState[key] = state[key].metas || [];
+    });
+
+    Object.keys(this.presenceState).forEach(key => {
+      if (!previous[key]) {
+        this.dispatchPresence("join", { key: key, currentPresences: this.presenceState[key], newPresences: this.presenceState[key] });
+      }
+    });
+    Object.keys(previous).forEach(key => {
+      if (!this.presenceState[key]) {
+        this.dispatchPresence("leave", { key: key, currentPresences: [], leftPresences: previous[key] });
+      }
+    });
+
+    this.dispatchPresence("sync", this.getPresenceState());
+  }
+
+  private syncPresenceDiff(diff: { joins: ServerPresenceState; leaves: ServerPresenceState }) {
+    const joins = diff.joins || {};
+    const leaves = diff.leaves || {};
+
+    Object.keys(joins).forEach(key => {
+      const metas: PresenceMeta[] = joins[key].metas || [];
+      const current = (this.presenceState[key] || []).filter(meta =>
+        metas.filter(joined => joined.phx_ref === meta.phx_ref).length === 0);
+      this.presenceState[key] = current.concat(metas);
+      this.dispatchPresence("join", { key: key, currentPresences: this.presenceState[key], newPresences: metas });
+    });
+
+    Object.keys(leaves).forEach(key => {
+      const metas: PresenceMeta[] = leaves[key].metas || [];
+      const leftRefs = metas.map(meta => meta.phx_ref);
+      const remaining = (this.presenceState[key] || []).filter(meta => leftRefs.indexOf(meta.phx_ref) < 0);
+
+      if (remaining.length > 0) {
+        this.presenceState[key] = remaining;
+      } else {
+        delete this.presenceState[key];
+      }
+      this.dispatchPresence("leave", { key: key, currentPresences: remaining, leftPresences: metas });
+    });
+
+    this.dispatchPresence("sync", this.getPresenceState());
+  }
+
+  private dispatchPresence(event: PresenceEvent, payload: any) {
+    this.dispatch("presence", payload, binding => binding.filter.event === event);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Remote Log Shipper for Lens Studio
+ *
+ * Collects log entries from a LogStore and inserts them in batches into a
+ * Supabase table (lens_logs by default), so logs from glasses in the field
+ * can be read from the dashboard afterwards.
+ *
+ * Entries are sent every few seconds, or as soon as an error is logged.
+ * Failed batches are kept and retried on the next flush while the failure is
+ * retryable (offline, timeout, 5xx); the oldest entries are dropped beyond
+ * maxPending.
+ */
+
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { isLevelEnabled, LogEntry, Logger, LogLevel, LogStore, logStore } from "./Logger";
+import { SupabaseError } from "./SupabaseError";
+
+/** Row written for each shipped entry */
+export interface LensLogRow {
+  level: LogLevel;
+  tag: string;
+  message: string;
+  logged_at: string;
+  session_id: string;
+}
+
+export interface RemoteLogShipperOptions {
+  rest: PostgrestClient;
+  /** Component used to create the flush timer */
+  host: BaseScriptComponent;
+  /** Default "lens_logs" */
+  table?: string;
+  /** Entries below this level are not shipped (default "warn") */
+  minLevel?: LogLevel;
+  /** Rows per insert request (default 25) */
+  batchSize?: number;
+  flushIntervalSeconds?: number;
+  /** Oldest unsent entries are dropped beyond this many (default 200) */
+  maxPending?: number;
+  /** Groups the rows of one Lens session; generated when missing */
+  sessionId?: string;
+  store?: LogStore;
+}
+
+const SHIPPER_TAG = "RemoteLogShipper";
+
+export class RemoteLogShipper {
+  private options: RemoteLogShipperOptions;
+  private table: string;
+  private minLevel: LogLevel;
+  private sessionId: string;
+  private pending: LensLogRow[] = [];
+  private droppedCount: number = 0;
+  private isFlushing: boolean = false;
+  private hasStarted: boolean = false;
+  /** Set after a retryable failure so new entries wait for the regular interval */
+  private isBackingOff: boolean = false;
+  private flushTimer: DelayedCallbackEvent;
+  private unsubscribe: (() => void) | null = null;
+  /** Entries with this tag are never shipped, so failures cannot feed back into the queue */
+  private logger = new Logger(SHIPPER_TAG);
+
+  constructor(options: RemoteLogShipperOptions) {
+    this.options = options;
+    this.table = options.table || "lens_logs";
+    this.minLevel = options.minLevel || "warn";
+    this.sessionId = options.sessionId || `lens_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 5)}`;
+
+    this.flushTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.flushTimer.bind(() => {
+      this.flush().then(() => this.scheduleFlush(this.getFlushInterval()));
+    });
+  }
+
+  /**
+   * Start collecting entries and flushing them periodically
+   * The first start also ships entries already in the store (startup errors)
+   */
+  public start() {
+    if (this.unsubscribe) {
+      return;
+    }
+    const store = this.options.store || logStore;
+    this.unsubscribe = store.onEntry(entry => this.collect(entry));
+    this.scheduleFlush(this.getFlushInterval());
+
+    if (!this.hasStarted) {
+      this.hasStarted = true;
+      store.getEntries({ minLevel: this.minLevel }).forEach(entry => this.collect(entry));
+    }
+  }
+
+  /**
+   * Stop collecting; entries not yet sent stay pending until flush() or start()
+   */
+  public stop() {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    this.flushTimer.enabled = false;
+  }
+
+  /**
+   * Send pending entries now, one batch at a time
+   * Returns the error that stopped the flush, or null
+   */
+  public async flush(): Promise<SupabaseError | null> {
+    if (this.isFlushing) {
+      return null;
+    }
+    this.isFlushing = true;
+
+    try {
+      this.addDroppedNotice();
+
+      while (this.pending.length > 0) {
+        const batch = this.pending.slice(0, this.getBatchSize());
+        const { error } = await this.options.rest.from(this.table).insert(batch, { returning: "minimal" });
+
+        if (error && error.isRetryable()) {
+          this.isBackingOff = true;
+          return error;
+        }
+        this.isBackingOff = false;
+        // Non-retryable errors (missing table, RLS) would fail the same way again
+        this.pending.splice(0, batch.length);
+        if (error) {
+          this.logger.error(`❌ Dropped ${batch.length} log entries: ${error.toString()}`);
+          return error;
+        }
+      }
+      return null;
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  public getSessionId(): string {
+    return this.sessionId;
+  }
+
+  public setMinLevel(level: LogLevel) {
+    this.minLevel = level;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private collect(entry: LogEntry) {
+    if (entry.tag === SHIPPER_TAG || !isLevelEnabled(entry.level, this.minLevel)) {
+      return;
+    }
+
+    this.pending.push({
+      level: entry.level,
+      tag: entry.tag,
+      message: entry.message,
+      logged_at: new Date(entry.timestamp).toISOString(),
+      session_id: this.sessionId
+    });
+
+    const maxPending = this.options.maxPending || 200;
+    if (this.pending.length > maxPending) {
+      const overflow = this.pending.length - maxPending;
+      this.pending.splice(0, overflow);
+      this.droppedCount += overflow;
+    }
+
+    // Errors are what we most want to see if the Lens closes right after
+    if (!this.isBackingOff && (entry.level === "error" || this.pending.length >= this.getBatchSize())) {
+      this.scheduleFlush(0.5);
+    }
+  }
+
+  /**
+   * Tell the dashboard reader that entries were lost while the queue was full
+   */
+  private addDroppedNotice() {
+    if (this.droppedCount === 0) {
+      return;
+    }
+    this.pending.unshift({
+      level: "warn",
+      tag: SHIPPER_TAG,
+      message: `⚠️ ${this.droppedCount} log entries dropped while offline`,
+      logged_at: new Date().toISOString(),
+      session_id: this.sessionId
+    });
+    this.droppedCount = 0;
+  }
+
+  private scheduleFlush(delaySeconds: number) {
+    if (!this.unsubscribe) {
+      return;
+    }
+    this.flushTimer.enabled = true;
+    this.flushTimer.reset(delaySeconds);
+  }
+
+  private getBatchSize(): number {
+    return Math.max(1, Math.floor(this.options.batchSize || 25));
+  }
+
+  private getFlushInterval(): number {
+    return Math.max(1, this.options.flushIntervalSeconds || 10);
+  }
+}
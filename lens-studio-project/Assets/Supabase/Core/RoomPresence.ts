@@ -0,0 +1,367 @@
+/**
+ * Room Presence for Lens Studio
+ *
+ * Tracks who is in a cursor room - name, device, color and role - for a
+ * live roster. The source of truth is Realtime presence on the channel
+ * `cursor-presence-<room>` (presence key = user id), which drops a member
+ * the moment their socket goes away.
+ *
+ * When the channel cannot be joined (no socket on this device), the member
+ * falls back to a REST heartbeat: its row in room_presence
+ * (supabase/migrations/20251020000011_room_presence.sql) is upserted every
+ * heartbeatSeconds. The table is also read every heartbeat, so members that
+ * are only reachable through it (and, in fallback, everyone) still show up;
+ * rows older than staleSeconds are ignored. The web controller always
+ * heartbeats, so a Lens in fallback still sees the PC users.
+ *
+ * Leave out `self` to only observe the room.
+ */
+
+import { ControlDevice } from "./ControlLock";
+import { RoomPresenceInsert, RoomPresenceRow } from "./DatabaseTypes";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { PresenceMeta, RealtimeChannel, RealtimeClient } from "./RealtimeClient";
+
+/**
+ * - leader: holds the room's control lock and moves the shared cursor
+ * - follower: mirrors the leader
+ * - viewer: only watches
+ */
+export type PresenceRole = "leader" | "follower" | "viewer";
+
+export interface PresenceIdentity {
+  userId: string;
+  userName: string;
+  device: ControlDevice;
+  /** "#RRGGBB" */
+  color: string;
+  role: PresenceRole;
+}
+
+export interface RoomMember extends PresenceIdentity {
+  /** Local time (ms) the member joined the room */
+  joinedAt: number;
+  /** Whether the member is seen over Realtime presence or only through heartbeats */
+  source: "realtime" | "heartbeat";
+  /** Whether this is our own entry */
+  isSelf: boolean;
+}
+
+export interface RoomPresenceOptions {
+  rest: PostgrestClient;
+  realtime: RealtimeClient;
+  /** Component used to create the heartbeat timer */
+  host: BaseScriptComponent;
+  roomName: string;
+  /** Our entry in the roster; leave empty to only observe */
+  self?: PresenceIdentity;
+  /** Seconds between heartbeats and roster reads (default 5) */
+  heartbeatSeconds?: number;
+  /** Seconds after which a heartbeat row no longer counts (default 3 heartbeats) */
+  staleSeconds?: number;
+  logger?: (message: string) => void;
+}
+
+/** Presence payload, shared with the web controller */
+interface PresencePayload {
+  user_id: string;
+  user_name: string;
+  device: string;
+  color: string | null;
+  role: string;
+  joined_at: string;
+}
+
+/**
+ * Realtime channel carrying the presence of a room
+ * (the web controller joins the same one)
+ */
+export function presenceChannelName(roomName: string): string {
+  return `cursor-presence-${roomName}`;
+}
+
+export class RoomPresence {
+  private options: RoomPresenceOptions;
+  private heartbeatSeconds: number;
+  private staleSeconds: number;
+  private self: PresenceIdentity | null;
+  private joinedAt: string = new Date().toISOString();
+  private channel: RealtimeChannel | null = null;
+  private heartbeatTimer: DelayedCallbackEvent;
+  /** Fresh room_presence rows from the last read, keyed by user id */
+  private heartbeatRows: { [userId: string]: RoomPresenceRow } = {};
+  /** Whether our own heartbeat row exists and must be deleted on stop */
+  private hasHeartbeatRow: boolean = false;
+  private members: RoomMember[] = [];
+  private listeners: ((members: RoomMember[]) => void)[] = [];
+  private isStarted: boolean = false;
+  private onSync = () => this.refresh();
+
+  constructor(options: RoomPresenceOptions) {
+    this.options = options;
+    this.self = options.self ? { ...options.self } : null;
+    this.heartbeatSeconds = Math.max(1, options.heartbeatSeconds || 5);
+    this.staleSeconds = Math.max(this.heartbeatSeconds * 2, options.staleSeconds || this.heartbeatSeconds * 3);
+
+    this.heartbeatTimer = options.host.createEvent("DelayedCallbackEvent");
+    this.heartbeatTimer.bind(() => this.heartbeat());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Join the room's presence and start the heartbeat
+   */
+  public start() {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+
+    const key = this.self ? this.self.userId : "";
+    this.channel = this.options.realtime.channel(presenceChannelName(this.options.roomName), { presence: { key: key }, private: true })
+      .on("presence", { event: "sync" }, this.onSync)
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          this.log("👥 Joined room presence");
+          this.track();
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          this.log(`⚠️ Presence channel unavailable (${status}) - using heartbeats`);
+        }
+      });
+
+    this.refresh();
+    this.heartbeat();
+  }
+
+  /**
+   * Leave the roster and stop the heartbeat
+   */
+  public async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+    this.heartbeatTimer.enabled = false;
+
+    if (this.channel) {
+      if (this.self) {
+        this.channel.untrack();
+      }
+      this.channel.off("presence", this.onSync);
+      if (!this.channel.hasBindings()) {
+        this.options.realtime.removeChannel(this.channel);
+      }
+      this.channel = null;
+    }
+
+    if (this.self && this.hasHeartbeatRow) {
+      this.hasHeartbeatRow = false;
+      await this.options.rest.from("room_presence")
+        .delete()
+        .eq("room_name", this.options.roomName)
+        .eq("user_id", this.self.userId);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Roster
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Everyone in the room, ourselves included, oldest first
+   */
+  public getMembers(): RoomMember[] {
+    return this.members.map(member => ({ ...member }));
+  }
+
+  /**
+   * Called with the roster whenever it changes; returns an unsubscribe function
+   */
+  public onChange(listener: (members: RoomMember[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Whether the roster comes from Realtime presence (false while on heartbeats)
+   */
+  public isRealtime(): boolean {
+    return !!this.channel && this.channel.isJoined();
+  }
+
+  /**
+   * Change our entry (e.g. the role when control moves); sent right away
+   */
+  public update(changes: Partial<Pick<PresenceIdentity, "userName" | "color" | "role">>) {
+    if (!this.self) {
+      return;
+    }
+
+    const next = { ...this.self, ...changes };
+    if (next.userName === this.self.userName && next.color === this.self.color && next.role === this.self.role) {
+      return;
+    }
+    this.self = next;
+
+    this.track();
+    if (!this.isRealtime() && this.isStarted) {
+      this.sendHeartbeat();
+    }
+    this.refresh();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private track() {
+    if (this.self && this.channel) {
+      this.channel.track(this.toPayload(this.self));
+    }
+  }
+
+  /**
+   * Write our heartbeat while presence is down, then read everyone's
+   */
+  private async heartbeat() {
+    if (!this.isStarted) {
+      return;
+    }
+
+    if (this.self && !this.isRealtime()) {
+      await this.sendHeartbeat();
+    }
+    await this.readHeartbeats();
+
+    if (this.isStarted) {
+      this.heartbeatTimer.reset(this.heartbeatSeconds);
+    }
+  }
+
+  private async sendHeartbeat() {
+    const row: RoomPresenceInsert = {
+      room_name: this.options.roomName,
+      ...this.toPayload(this.self),
+      last_seen_at: new Date().toISOString()
+    };
+
+    const { error } = await this.options.rest.from("room_presence").upsert(row, { onConflict: "room_name,user_id" });
+    if (error) {
+      this.log(`⚠️ Presence heartbeat failed: ${error.message}`);
+      return;
+    }
+    this.hasHeartbeatRow = true;
+  }
+
+  private async readHeartbeats() {
+    const since = new Date(Date.now() - this.staleSeconds * 1000).toISOString();
+    const { data, error } = await this.options.rest.from("room_presence")
+      .select("*")
+      .eq("room_name", this.options.roomName)
+      .gte("last_seen_at", since);
+
+    if (error) {
+      this.log(`⚠️ Could not read the room roster: ${error.message}`);
+      return;
+    }
+
+    this.heartbeatRows = {};
+    (data || []).forEach(row => {
+      this.heartbeatRows[row.user_id] = row;
+    });
+    this.refresh();
+  }
+
+  /**
+   * Merge presence, heartbeat rows and ourselves into the roster
+   */
+  private refresh() {
+    const byUser: { [userId: string]: RoomMember } = {};
+
+    Object.keys(this.heartbeatRows).forEach(userId => {
+      byUser[userId] = this.toMember(this.heartbeatRows[userId], "heartbeat");
+    });
+
+    // Presence wins over a heartbeat row of the same user
+    const state = this.channel ? this.channel.getPresenceState() : {};
+    Object.keys(state).forEach(key => {
+      const metas = state[key];
+      const latest: PresenceMeta = metas[metas.length - 1];
+      if (latest && latest.user_id) {
+        byUser[latest.user_id] = this.toMember(latest as PresencePayload, "realtime");
+      }
+    });
+
+    if (this.self && this.isStarted) {
+      byUser[this.self.userId] = {
+        ...this.self,
+        joinedAt: new Date(this.joinedAt).getTime(),
+        source: this.isRealtime() ? "realtime" : "heartbeat",
+        isSelf: true
+      };
+    }
+
+    const members = Object.keys(byUser).map(userId => byUser[userId]).sort((a, b) => a.joinedAt - b.joinedAt);
+    if (this.isSameRoster(members)) {
+      return;
+    }
+
+    const joined = members.filter(member => !this.members.some(existing => existing.userId === member.userId));
+    const left = this.members.filter(existing => !members.some(member => member.userId === existing.userId));
+    joined.filter(member => !member.isSelf).forEach(member => this.log(`👋 ${member.userName} (${member.device}) joined`));
+    left.forEach(member => this.log(`👋 ${member.userName} (${member.device}) left`));
+
+    this.members = members;
+    this.listeners.forEach(listener => listener(this.getMembers()));
+  }
+
+  private isSameRoster(members: RoomMember[]): boolean {
+    if (members.length !== this.members.length) {
+      return false;
+    }
+    return members.every((member, index) => {
+      const existing = this.members[index];
+      return existing.userId === member.userId && existing.userName === member.userName &&
+        existing.role === member.role && existing.color === member.color && existing.source === member.source;
+    });
+  }
+
+  private toMember(entry: PresencePayload, source: "realtime" | "heartbeat"): RoomMember {
+    return {
+      userId: entry.user_id,
+      userName: entry.user_name || entry.user_id,
+      device: entry.device === "spectacles" ? "spectacles" : "pc",
+      color: entry.color || "#FFFFFF",
+      role: isRole(entry.role) ? entry.role : "viewer",
+      joinedAt: new Date(entry.joined_at).getTime() || Date.now(),
+      source: source,
+      isSelf: !!this.self && entry.user_id === this.self.userId
+    };
+  }
+
+  private toPayload(identity: PresenceIdentity): PresencePayload {
+    return {
+      user_id: identity.userId,
+      user_name: identity.userName,
+      device: identity.device,
+      color: identity.color,
+      role: identity.role,
+      joined_at: this.joinedAt
+    };
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
+
+function isRole(role: string): role is PresenceRole {
+  return role === "leader" || role === "follower" || role === "viewer";
+}
@@ -0,0 +1,211 @@
+/**
+ * Cursor Rooms for Lens Studio
+ *
+ * Creates, lists, joins and leaves the cursor rooms of
+ * supabase/migrations/20251020000012_rooms.sql. A room has a short join code;
+ * only its members can read and write its cursor_positions rows, so every
+ * cursor component has to be a member of its room before it broadcasts or
+ * polls. Membership belongs to the signed-in user (SupabaseClient signs in
+ * anonymously on start), so it survives Lens restarts while the session does.
+ *
+ * Rooms expire after idle_minutes without joins or cursor moves; their rows
+ * are deleted by expire_idle_rooms(), which create_room() also runs.
+ */
+
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { SupabaseError } from "./SupabaseError";
+
+/** A room we are a member of */
+export interface RoomInfo {
+  name: string;
+  joinCode: string;
+  isListed: boolean;
+  idleMinutes: number;
+  createdAt: string;
+  lastActiveAt: string;
+}
+
+/** A listed room from list_active_rooms() (without its join code) */
+export interface ActiveRoom {
+  name: string;
+  memberCount: number;
+  isMember: boolean;
+  lastActiveAt: string;
+  /** When the room expires unless someone joins or moves a cursor */
+  expiresAt: string;
+}
+
+export interface RoomServiceOptions {
+  rest: PostgrestClient;
+  logger?: (message: string) => void;
+}
+
+export interface CreateRoomOptions {
+  /** Minutes without activity before the room expires, 5 - 10080 (default 60) */
+  idleMinutes?: number;
+  /** Show the room in list_active_rooms() (default true) */
+  listed?: boolean;
+}
+
+/** Row returned by create_room / join_room */
+interface RoomRow {
+  name: string;
+  join_code: string;
+  is_listed: boolean;
+  idle_minutes: number;
+  created_at: string;
+  last_active_at: string;
+}
+
+/** Row returned by list_active_rooms */
+interface ActiveRoomRow {
+  name: string;
+  member_count: number;
+  is_member: boolean;
+  created_at: string;
+  last_active_at: string;
+  expires_at: string;
+}
+
+/** Postgres unique_violation: the room name is taken */
+const UNIQUE_VIOLATION = "23505";
+
+export class RoomService {
+  private options: RoomServiceOptions;
+
+  constructor(options: RoomServiceOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Create a room and join it; the result carries the join code to share
+   */
+  public async createRoom(name: string, options: CreateRoomOptions = {}): Promise<{ room: RoomInfo | null; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.rpc<RoomRow>("create_room", {
+      p_name: name,
+      p_idle_minutes: options.idleMinutes || 60,
+      p_listed: options.listed !== false
+    });
+
+    if (error) {
+      return { room: null, error: error };
+    }
+
+    const room = this.toRoom((data || [])[0]);
+    this.log(`🏠 Created room ${room.name} - join code ${room.joinCode}`);
+    return { room: room, error: null };
+  }
+
+  /**
+   * Join the room with this code; room is null for an unknown or expired code
+   */
+  public async joinRoom(joinCode: string): Promise<{ room: RoomInfo | null; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.rpc<RoomRow>("join_room", { p_join_code: joinCode });
+
+    if (error) {
+      return { room: null, error: error };
+    }
+
+    const row = (data || [])[0];
+    if (!row) {
+      this.log(`⚠️ No active room with join code ${joinCode}`);
+      return { room: null, error: null };
+    }
+
+    const room = this.toRoom(row);
+    this.log(`🚪 Joined room ${room.name}`);
+    return { room: room, error: null };
+  }
+
+  /**
+   * Stop being a member; true when we were one
+   */
+  public async leaveRoom(name: string): Promise<{ left: boolean; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.rpc<boolean>("leave_room", { p_room: name }).single();
+    return { left: !error && data === true, error: error };
+  }
+
+  /**
+   * The room if we are a member of it and it has not expired, otherwise null
+   */
+  public async getRoom(name: string): Promise<{ room: RoomInfo | null; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.from("rooms")
+      .select("*")
+      .eq("name", name)
+      .maybeSingle();
+
+    if (error) {
+      return { room: null, error: error };
+    }
+    return { room: data ? this.toRoom(data) : null, error: null };
+  }
+
+  /**
+   * Make sure we are a member of a room: join it by code when one is given,
+   * else use the named room when we are already in it, else create it.
+   * Fails when the name belongs to someone else's active room (join it by code).
+   */
+  public async enterRoom(name: string, joinCode: string = "", options: CreateRoomOptions = {}): Promise<{ room: RoomInfo | null; error: SupabaseError | null }> {
+    if (joinCode) {
+      return this.joinRoom(joinCode);
+    }
+
+    const existing = await this.getRoom(name);
+    if (existing.error || existing.room) {
+      return existing;
+    }
+
+    const created = await this.createRoom(name, options);
+    if (created.error && created.error.code === UNIQUE_VIOLATION) {
+      this.log(`🔒 Room ${name} belongs to someone else - join it with its code`);
+    }
+    return created;
+  }
+
+  /**
+   * Listed rooms that have not expired, most recently active first
+   */
+  public async listActiveRooms(): Promise<{ rooms: ActiveRoom[]; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.rpc<ActiveRoomRow>("list_active_rooms");
+
+    if (error) {
+      return { rooms: [], error: error };
+    }
+
+    return {
+      rooms: (data || []).map(row => ({
+        name: row.name,
+        memberCount: Number(row.member_count),
+        isMember: row.is_member,
+        lastActiveAt: row.last_active_at,
+        expiresAt: row.expires_at
+      })),
+      error: null
+    };
+  }
+
+  /**
+   * Delete idle rooms now (create_room also does); returns how many expired
+   */
+  public async expireIdleRooms(): Promise<{ expired: number; error: SupabaseError | null }> {
+    const { data, error } = await this.options.rest.rpc<number>("expire_idle_rooms").single();
+    return { expired: error ? 0 : Number(data) || 0, error: error };
+  }
+
+  private toRoom(row: RoomRow): RoomInfo {
+    return {
+      name: row.name,
+      joinCode: row.join_code,
+      isListed: row.is_listed,
+      idleMinutes: row.idle_minutes,
+      createdAt: row.created_at,
+      lastActiveAt: row.last_active_at
+    };
+  }
+
+  private log(message: string) {
+    if (this.options.logger) {
+      this.options.logger(message);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Schema Health Check for Lens Studio
+ *
+ * Compares the live database against the expected schema (SchemaManifest)
+ * and reports exactly which migration, table, column or policy is missing:
+ *
+ * - Version: highest row in demo_schema_versions
+ * - Tables / columns: PostgREST's OpenAPI description, or one probe request
+ *   per table when the OpenAPI endpoint is not available to this key
+ * - RLS / policies: the demo_schema_policies() function
+ */
+
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { DEMO_SCHEMA, SchemaManifest, TableManifest } from "./SchemaManifest";
+import { SupabaseError } from "./SupabaseError";
+
+export type SchemaIssueKind =
+  | "outdated_version"
+  | "missing_table"
+  | "missing_column"
+  | "rls_disabled"
+  | "missing_policy"
+  | "check_failed";
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  table?: string;
+  column?: string;
+  policy?: string;
+  /** Migration that fixes the issue */
+  migration?: string;
+  message: string;
+}
+
+export interface SchemaHealthReport {
+  ok: boolean;
+  expectedVersion: number;
+  /** null when demo_schema_versions could not be read */
+  liveVersion: number | null;
+  /** How tables and columns were inspected */
+  columnSource: "openapi" | "probe";
+  issues: SchemaIssue[];
+}
+
+interface PolicyRow {
+  table_name: string;
+  rls_enabled: boolean;
+  policy_name: string | null;
+  command: string | null;
+}
+
+export class SchemaHealthCheck {
+  private rest: PostgrestClient;
+  private manifest: SchemaManifest;
+
+  constructor(rest: PostgrestClient, manifest: SchemaManifest = DEMO_SCHEMA) {
+    this.rest = rest;
+    this.manifest = manifest;
+  }
+
+  /**
+   * Inspect the live schema; never rejects, failures become check_failed issues
+   */
+  public async run(): Promise<SchemaHealthReport> {
+    const issues: SchemaIssue[] = [];
+
+    const liveVersion = await this.checkVersion(issues);
+    const columnSource = await this.checkTables(issues);
+    await this.checkPolicies(issues);
+
+    return {
+      ok: issues.length === 0,
+      expectedVersion: this.manifest.version,
+      liveVersion: liveVersion,
+      columnSource: columnSource,
+      issues: issues
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Version
+  // ---------------------------------------------------------------------------
+
+  private async checkVersion(issues: SchemaIssue[]): Promise<number | null> {
+    const { data, error } = await this.rest.from<{ version: number }>("demo_schema_versions")
+      .select("version")
+      .order("version", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      issues.push(error.kind === "missing_relation"
+        ? {
+          kind: "outdated_version",
+          migration: this.manifest.introspectionMigration,
+          message: "demo_schema_versions is missing - the migrations have not been applied"
+        }
+        : this.createFailure("schema version", error));
+      return null;
+    }
+
+    const liveVersion = data && data.length > 0 ? data[0].version : 0;
+    if (liveVersion < this.manifest.version) {
+      issues.push({
+        kind: "outdated_version",
+        message: `Schema version ${liveVersion} is older than the expected ${this.manifest.version} - apply the newer migrations`
+      });
+    }
+    return liveVersion;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tables and columns
+  // ---------------------------------------------------------------------------
+
+  private async checkTables(issues: SchemaIssue[]): Promise<"openapi" | "probe"> {
+    const { data: spec, error } = await this.rest.getOpenApiSpec();
+
+    if (!error && spec && spec.definitions) {
+      this.manifest.tables.forEach(table => {
+        const definition = spec.definitions[table.name];
+        if (!definition) {
+          issues.push(this.createMissingTable(table));
+          return;
+        }
+        const properties = definition.properties || {};
+        table.columns
+          .filter(column => !properties[column])
+          .forEach(column => issues.push(this.createMissingColumn(table, column)));
+      });
+      return "openapi";
+    }
+
+    // Newer projects may restrict the OpenAPI endpoint to secret keys
+    for (const table of this.manifest.tables) {
+      await this.probeTable(table, issues);
+    }
+    return "probe";
+  }
+
+  /**
+   * Select every expected column with limit 0; on an unknown column,
+   * probe the columns one by one to name all of the missing ones
+   */
+  private async probeTable(table: TableManifest, issues: SchemaIssue[]) {
+    const { error } = await this.rest.from(table.name).select(table.columns.join(",")).limit(0);
+    if (!error) {
+      return;
+    }
+    if (error.kind !== "missing_relation") {
+      issues.push(this.createFailure(table.name, error));
+      return;
+    }
+    if (error.code !== "42703") {
+      issues.push(this.createMissingTable(table));
+      return;
+    }
+
+    for (const column of table.columns) {
+      const { error: columnError } = await this.rest.from(table.name).select(column).limit(0);
+      if (columnError && columnError.code === "42703") {
+        issues.push(this.createMissingColumn(table, column));
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // RLS policies
+  // ---------------------------------------------------------------------------
+
+  private async checkPolicies(issues: SchemaIssue[]) {
+    const { data, error } = await this.rest.rpc<PolicyRow>("demo_schema_policies");
+
+    if (error) {
+      issues.push(error.kind === "missing_relation"
+        ? {
+          kind: "check_failed",
+          migration: this.manifest.introspectionMigration,
+          message: "demo_schema_policies() is missing - RLS policies could not be checked"
+        }
+        : this.createFailure("policies", error));
+      return;
+    }
+
+    const rows = data || [];
+    this.manifest.tables.forEach(table => {
+      const tableRows = rows.filter(row => row.table_name === table.name);
+      if (tableRows.length === 0) {
+        // Reported as missing_table already
+        return;
+      }
+
+      if (table.policies.length > 0 && !tableRows[0].rls_enabled) {
+        issues.push({
+          kind: "rls_disabled",
+          table: table.name,
+          migration: table.policyMigration || this.manifest.policyMigration,
+          message: `Row level security is disabled on '${table.name}'`
+        });
+      }
+
+      table.policies
+        .filter(policy => !tableRows.some(row => row.policy_name === policy))
+        .forEach(policy => issues.push({
+          kind: "missing_policy",
+          table: table.name,
+          policy: policy,
+          migration: table.policyMigration || this.manifest.policyMigration,
+          message: `Policy "${policy}" is missing on '${table.name}'`
+        }));
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private createMissingTable(table: TableManifest): SchemaIssue {
+    return {
+      kind: "missing_table",
+      table: table.name,
+      migration: table.migration,
+      message: `Table '${table.name}' does not exist`
+    };
+  }
+
+  private createMissingColumn(table: TableManifest, column: string): SchemaIssue {
+    return {
+      kind: "missing_column",
+      table: table.name,
+      column: column,
+      migration: (table.columnMigrations && table.columnMigrations[column]) || table.migration,
+      message: `Column '${table.name}.${column}' does not exist`
+    };
+  }
+
+  private createFailure(subject: string, error: SupabaseError): SchemaIssue {
+    return {
+      kind: "check_failed",
+      message: `Could not check ${subject}: ${error.toString()}`
+    };
+  }
+}
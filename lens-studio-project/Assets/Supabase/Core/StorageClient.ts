@@ -0,0 +1,90 @@
+/**
+ * Supabase Storage Client for Lens Studio
+ *
+ * Builds public and signed object URLs for Supabase Storage buckets.
+ * Lens Studio loads remote media from URLs (RemoteServiceModule.makeResourceFromUrl),
+ * so signed URLs are how private buckets and RLS policies are honored.
+ */
+
+import { createHttpError, createNetworkError, SupabaseError } from "./SupabaseError";
+
+export type StorageError = SupabaseError;
+
+export interface StorageClientConfig {
+  /** Storage endpoint, e.g. https://your-project.supabase.co/storage/v1 */
+  storageUrl: string;
+  internetModule: InternetModule;
+  /** Called for every request so token changes are picked up immediately */
+  getHeaders: () => { [key: string]: string };
+}
+
+export class StorageClient {
+  private config: StorageClientConfig;
+
+  constructor(config: StorageClientConfig) {
+    this.config = {
+      ...config,
+      storageUrl: config.storageUrl.replace(/\/$/, "")
+    };
+  }
+
+  /**
+   * Operations on a single bucket
+   */
+  public from(bucket: string): StorageBucketApi {
+    return new StorageBucketApi(this.config, bucket);
+  }
+
+  public getStorageUrl(): string {
+    return this.config.storageUrl;
+  }
+}
+
+export class StorageBucketApi {
+  private config: StorageClientConfig;
+  private bucket: string;
+
+  constructor(config: StorageClientConfig, bucket: string) {
+    this.config = config;
+    this.bucket = bucket;
+  }
+
+  /**
+   * URL of an object in a public bucket (no request is made)
+   */
+  public getPublicUrl(path: string): string {
+    return `${this.config.storageUrl}/object/public/${this.encodePath(this.bucket)}/${this.encodePath(path)}`;
+  }
+
+  /**
+   * Ask Storage to sign an object URL for the current user
+   */
+  public async createSignedUrl(path: string, expiresInSeconds: number = 3600): Promise<{ signedUrl: string | null; error: StorageError | null }> {
+    const request = new Request(`${this.config.storageUrl}/object/sign/${this.encodePath(this.bucket)}/${this.encodePath(path)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.config.getHeaders() },
+      body: JSON.stringify({ expiresIn: expiresInSeconds })
+    });
+
+    try {
+      const response = await this.config.internetModule.fetch(request);
+      const text = await response.text();
+
+      if (!response.ok) {
+        return { signedUrl: null, error: createHttpError("storage", response.status, text, response.headers.get("retry-after")) };
+      }
+
+      const result = JSON.parse(text);
+      return { signedUrl: `${this.config.storageUrl}${result.signedURL}`, error: null };
+    } catch (error) {
+      return { signedUrl: null, error: createNetworkError("storage", error) };
+    }
+  }
+
+  /**
+   * Encode each path segment but keep the slashes
+   */
+  private encodePath(path: string): string {
+    return path.split("/").map(segment => encodeURIComponent(segment)).join("/");
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * SupabaseClient for Lens Studio
+ *
+ * One scene-level component that holds the Supabase project configuration
+ * and exposes the sub-clients every example script uses:
+ *
+ * - rest      PostgREST query builder (tables, views)
+ * - storage   Public / signed Storage URLs
+ * - functions Edge Function calls
+ * - auth      Supabase Auth session (anonymous or email OTP)
+ * - realtime  Realtime WebSocket (broadcast, presence, postgres_changes)
+ *
+ * Other components reference this object through their "supabaseClient" input,
+ * so switching between dev / staging / prod projects means swapping one object.
+ *
+ * Prerequisites:
+ * 1. Add InternetModule to your project
+ * 2. Enable "Allow anonymous sign-ins" (Authentication > Providers) for anonymous users
+ * 3. Enable the Email provider for OTP sign-in
+ */
+
+import { AuthChangeEvent, AuthError, AuthSession, AuthUser, GoTrueClient } from "./GoTrueClient";
+import { FunctionsClient } from "./FunctionsClient";
+import { Logger } from "./Logger";
+import { PostgrestClient } from "./PostgrestQueryBuilder";
+import { RealtimeClient } from "./RealtimeClient";
+import { StorageClient } from "./StorageClient";
+
+@component
+export class SupabaseClient extends BaseScriptComponent {
+
+  // Supabase Configuration
+  @input
+  @hint("Your Supabase project URL (e.g., https://your-project.supabase.co)")
+  public supabaseUrl: string = "";
+
+  @input
+  @hint("Your Supabase anon/public API key from the dashboard")
+  public supabaseAnonKey: string = "";
+
+  @input
+  @hint("Internet Module for making HTTP requests")
+  public internetModule: InternetModule;
+
+  // Auth Behaviour
+  @input
+  @hint("Sign in anonymously on start so requests carry a user JWT (RLS can tell users apart)")
+  public signInAnonymouslyOnStart: boolean = true;
+
+  @input
+  @hint("Keep the auth session in persistent storage between Lens sessions")
+  public persistSession: boolean = true;
+
+  // Debug
+  @input
+  @hint("Show debug information in console")
+  public enableDebugLogs: boolean = true;
+
+  private initialized: boolean = false;
+  private restClient: PostgrestClient;
+  private storageClient: StorageClient;
+  private functionsClient: FunctionsClient;
+  private authClient: GoTrueClient;
+  private realtimeClient: RealtimeClient;
+  private readyPromise: Promise<AuthSession | null>;
+  private logger = new Logger("SupabaseClient", { printToConsole: () => this.enableDebugLogs });
+  private authLogger = new Logger("Auth", { printToConsole: () => this.enableDebugLogs });
+  private realtimeLogger = new Logger("Realtime", { printToConsole: () => this.enableDebugLogs });
+
+  onAwake() {
+    if (!this.isConfigured()) {
+      this.log("❌ Missing Supabase credentials");
+      return;
+    }
+
+    this.initialize();
+    this.log(`✅ Supabase client ready for ${this.getUrl()}`);
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.authClient.stopAutoRefresh();
+      this.realtimeClient.disconnect();
+    });
+  }
+
+  /**
+   * Sub-clients are created lazily so components can use them
+   * regardless of onAwake order in the scene hierarchy
+   */
+  private initialize() {
+    if (this.initialized) {
+      return;
+    }
+    this.initialized = true;
+
+    const baseUrl = this.getUrl();
+    const getHeaders = () => this.getAuthHeaders();
+
+    this.authClient = new GoTrueClient({
+      supabaseUrl: baseUrl,
+      apiKey: this.supabaseAnonKey,
+      internetModule: this.internetModule,
+      host: this,
+      persistSession: this.persistSession,
+      logger: (message) => this.authLogger.log(message)
+    });
+
+    this.restClient = new PostgrestClient({
+      restUrl: `${baseUrl}/rest/v1/`,
+      internetModule: this.internetModule,
+      getHeaders: getHeaders
+    });
+
+    this.storageClient = new StorageClient({
+      storageUrl: `${baseUrl}/storage/v1`,
+      internetModule: this.internetModule,
+      getHeaders: getHeaders
+    });
+
+    this.functionsClient = new FunctionsClient({
+      functionsUrl: `${baseUrl}/functions/v1`,
+      internetModule: this.internetModule,
+      getHeaders: getHeaders
+    });
+
+    this.realtimeClient = new RealtimeClient({
+      supabaseUrl: baseUrl,
+      apiKey: this.supabaseAnonKey,
+      internetModule: this.internetModule,
+      host: this,
+      getAccessToken: () => this.authClient.getAccessToken(),
+      logger: (message) => this.realtimeLogger.log(message)
+    });
+
+    // Keep joined channels authorized after token rotation
+    this.authClient.onAuthStateChange((event, session) => {
+      this.realtimeClient.setAuth(session ? session.access_token : this.supabaseAnonKey);
+    });
+
+    this.readyPromise = this.initializeSession();
+  }
+
+  /**
+   * Restore the stored session, falling back to anonymous sign-in
+   */
+  private async initializeSession(): Promise<AuthSession | null> {
+    const restored = await this.authClient.restoreSession();
+    if (restored.session) {
+      return restored.session;
+    }
+
+    if (!this.signInAnonymouslyOnStart) {
+      return null;
+    }
+
+    this.log("👤 Signing in anonymously...");
+    const { session, error } = await this.authClient.signInAnonymously();
+    if (error) {
+      this.log(`⚠️ Anonymous sign-in failed: ${error.message} - using the anon key`);
+      this.log("💡 Enable anonymous sign-ins under Authentication > Providers");
+      return null;
+    }
+
+    this.log(`✅ Signed in anonymously as ${session.user.id}`);
+    return session;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sub-clients
+  // ---------------------------------------------------------------------------
+
+  public get rest(): PostgrestClient {
+    this.initialize();
+    return this.restClient;
+  }
+
+  public get storage(): StorageClient {
+    this.initialize();
+    return this.storageClient;
+  }
+
+  public get functions(): FunctionsClient {
+    this.initialize();
+    return this.functionsClient;
+  }
+
+  public get auth(): GoTrueClient {
+    this.initialize();
+    return this.authClient;
+  }
+
+  public get realtime(): RealtimeClient {
+    this.initialize();
+    return this.realtimeClient;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Configuration helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * True when the URL and anon key are set
+   */
+  public isConfigured(): boolean {
+    return !!this.supabaseUrl && !!this.supabaseAnonKey;
+  }
+
+  /**
+   * Resolves once the initial session restore / anonymous sign-in has finished
+   */
+  public ready(): Promise<AuthSession | null> {
+    if (!this.isConfigured()) {
+      return Promise.resolve(null);
+    }
+    this.initialize();
+    return this.readyPromise;
+  }
+
+  /**
+   * Project URL without trailing slash
+   */
+  public getUrl(): string {
+    return this.supabaseUrl.replace(/\/$/, "");
+  }
+
+  public getRestUrl(): string {
+    return this.rest.getRestUrl();
+  }
+
+  public getAnonKey(): string {
+    return this.supabaseAnonKey;
+  }
+
+  /**
+   * apikey + Authorization headers (user JWT when signed in, anon key otherwise)
+   */
+  public getAuthHeaders(): { [key: string]: string } {
+    return this.auth.getAuthHeaders();
+  }
+
+  /**
+   * JSON request headers including auth, for scripts building their own requests
+   */
+  public getRequestHeaders(): { [key: string]: string } {
+    return { "Content-Type": "application/json", ...this.getAuthHeaders() };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Auth shortcuts
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Step 1 of email sign-in: send a one-time code to the address
+   */
+  public async signInWithEmailOtp(email: string): Promise<AuthError | null> {
+    const { error } = await this.auth.signInWithOtp(email);
+    if (error) {
+      this.log(`❌ Could not send code: ${error.message}`);
+    } else {
+      this.log(`📧 Sign-in code sent to ${email}`);
+    }
+    return error;
+  }
+
+  /**
+   * Step 2 of email sign-in: verify the code the user received
+   */
+  public async verifyEmailOtp(email: string, code: string): Promise<AuthError | null> {
+    const { session, error } = await this.auth.verifyOtp(email, code);
+    if (error) {
+      this.log(`❌ Code verification failed: ${error.message}`);
+    } else {
+      this.log(`✅ Signed in as ${session.user.email}`);
+    }
+    return error;
+  }
+
+  public async signOut() {
+    await this.auth.signOut();
+  }
+
+  public getUser(): AuthUser | null {
+    return this.auth.getUser();
+  }
+
+  public isSignedIn(): boolean {
+    return !!this.auth.getAccessToken();
+  }
+
+  public onAuthStateChange(callback: (event: AuthChangeEvent, session: AuthSession | null) => void): () => void {
+    return this.auth.onAuthStateChange(callback);
+  }
+
+  /**
+   * Logging helper
+   */
+  private log(message: string) {
+    this.logger.log(message);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Structured Supabase Errors for Lens Studio
+ *
+ * Every Core client (PostgREST, Storage, Functions, Auth) turns failed
+ * requests into a SupabaseError with a `kind`, so scripts can branch on what
+ * went wrong instead of string-matching status codes and response bodies:
+ *
+ *   const { error } = await client.rest.from("posts").insert(row);
+ *   if (error && error.kind === "permission_denied") {
+ *     print("Blocked by an RLS policy");
+ *   }
+ *
+ * Subclasses exist for the common cases, so `error instanceof RateLimitError`
+ * works as well.
+ */
+
+export type SupabaseErrorKind =
+  | "network"
+  | "timeout"
+  | "unauthorized"
+  | "permission_denied"
+  | "missing_relation"
+  | "constraint_violation"
+  | "rate_limit"
+  | "not_found"
+  | "bad_request"
+  | "server"
+  | "unknown";
+
+export type SupabaseService = "rest" | "storage" | "functions" | "auth" | "realtime";
+
+export interface SupabaseErrorInit {
+  message: string;
+  service: SupabaseService;
+  /** HTTP status, 0 when no response was received */
+  status?: number;
+  /** Postgres SQLSTATE, PostgREST PGRST code or service error code */
+  code?: string;
+  details?: string;
+  hint?: string;
+}
+
+export class SupabaseError extends Error {
+  public readonly kind: SupabaseErrorKind;
+  public readonly service: SupabaseService;
+  public readonly status: number;
+  public readonly code?: string;
+  public readonly details?: string;
+  public readonly hint?: string;
+
+  constructor(kind: SupabaseErrorKind, init: SupabaseErrorInit) {
+    super(init.message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.service = init.service;
+    this.status = init.status || 0;
+    this.code = init.code;
+    this.details = init.details;
+    this.hint = init.hint;
+  }
+
+  /**
+   * True when sending the same request again later may succeed
+   */
+  public isRetryable(): boolean {
+    return this.kind === "network" || this.kind === "timeout" || this.kind === "rate_limit" || this.kind === "server";
+  }
+
+  /**
+   * One-line summary for logs, e.g. "[rest] permission_denied 42501: new row violates row-level security policy"
+   */
+  public toString(): string {
+    const code = this.code ? ` ${this.code}` : this.status ? ` ${this.status}` : "";
+    return `[${this.service}] ${this.kind}${code}: ${this.message}`;
+  }
+}
+
+/** No response: offline, DNS failure, connection reset */
+export class NetworkError extends SupabaseError {
+  constructor(init: SupabaseErrorInit) {
+    super("network", init);
+  }
+}
+
+/** 408 / 504, or Postgres cancelled the statement (57014) */
+export class TimeoutError extends SupabaseError {
+  constructor(init: SupabaseErrorInit) {
+    super("timeout", init);
+  }
+}
+
+/** 401: missing, invalid or expired JWT / API key */
+export class UnauthorizedError extends SupabaseError {
+  constructor(init: SupabaseErrorInit) {
+    super("unauthorized", init);
+  }
+}
+
+/** 403 / 42501: blocked by a row level security policy or missing grant */
+export class PermissionDeniedError extends SupabaseError {
+  constructor(init: SupabaseErrorInit) {
+    super("permission_denied", init);
+  }
+}
+
+/** 42P01 and friends: the table, view, column or function does not exist */
+export class MissingRelationError extends SupabaseError {
+  constructor(init: SupabaseErrorInit) {
+    super("missing_relation", init);
+  }
+}
+
+/** 23xxx: unique, foreign key, not-null or check constraint violated */
+export class ConstraintViolationError extends SupabaseError {
+  /** e.g. "unique", "foreign_key", "not_null", "check" */
+  public readonly constraint: string;
+
+  constructor(init: SupabaseErrorInit) {
+    super("constraint_violation", init);
+    this.constraint = (init.code && CONSTRAINT_CODES[init.code]) || "other";
+  }
+}
+
+/** 429: too many requests */
+export class RateLimitError extends SupabaseError {
+  /** Seconds from the Retry-After header, when sent */
+  public readonly retryAfterSeconds: number | null;
+
+  constructor(init: SupabaseErrorInit, retryAfterSeconds: number | null = null) {
+    super("rate_limit", init);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const CONSTRAINT_CODES: { [code: string]: string } = {
+  "23505": "unique",
+  "23503": "foreign_key",
+  "23502": "not_null",
+  "23514": "check",
+  "23P01": "exclusion"
+};
+
+/** Postgres / PostgREST codes for objects that do not exist */
+const MISSING_RELATION_CODES = ["42P01", "42703", "42883", "PGRST200", "PGRST202", "PGRST204", "PGRST205"];
+
+/** PostgREST JWT errors */
+const UNAUTHORIZED_CODES = ["PGRST300", "PGRST301", "PGRST302", "PGRST303"];
+
+/**
+ * Wrap an exception thrown by InternetModule.fetch (no HTTP response)
+ */
+export function createNetworkError(service: SupabaseService, error: any): SupabaseError {
+  const message = `${error}`;
+  if (/time(d)?\s*out/i.test(message)) {
+    return new TimeoutError({ message: `Request timed out: ${message}`, service: service, code: "TIMEOUT" });
+  }
+  return new NetworkError({ message: `Network error: ${message}`, service: service, code: "NETWORK_ERROR" });
+}
+
+/**
+ * Classify a failed HTTP response from any Supabase service
+ *
+ * Understands PostgREST ({ code, message, details, hint }), Storage
+ * ({ statusCode, error, message }), Auth ({ error_code, msg }) and
+ * Functions ({ error } or plain text) bodies.
+ */
+export function createHttpError(service: SupabaseService, status: number, bodyText: string, retryAfter?: string | null): SupabaseError {
+  let body: any = null;
+  try {
+    body = bodyText ? JSON.parse(bodyText) : null;
+  } catch (parseError) {
+    // Not JSON - keep the raw text as the message
+  }
+
+  const fields = body && typeof body === "object" ? body : {};
+  const rawMessage = fields.message || fields.msg || fields.error_description || fields.error;
+  const message = typeof rawMessage === "string" && rawMessage ? rawMessage : bodyText || `HTTP ${status}`;
+  // Auth sends a numeric code plus error_code; PostgREST sends a string code
+  const code = fields.error_code || (fields.code !== undefined ? `${fields.code}` : typeof fields.error === "string" ? fields.error : undefined);
+
+  // Storage sometimes answers 400 with the real status in the body
+  const effectiveStatus = fields.statusCode && !isNaN(parseInt(fields.statusCode, 10)) ? parseInt(fields.statusCode, 10) : status;
+
+  const init: SupabaseErrorInit = {
+    message: message,
+    service: service,
+    status: status,
+    code: code,
+    details: fields.details || undefined,
+    hint: fields.hint || undefined
+  };
+
+  // SQLSTATE class 23 is integrity_constraint_violation
+  if (code && /^23[0-9A-Z]{3}$/.test(code)) {
+    return new ConstraintViolationError(init);
+  }
+  if (code && MISSING_RELATION_CODES.indexOf(code) >= 0) {
+    return new MissingRelationError(init);
+  }
+  if (code === "42501" || /row-level security/i.test(message)) {
+    return new PermissionDeniedError(init);
+  }
+  if (code === "57014" || effectiveStatus === 408 || effectiveStatus === 504) {
+    return new TimeoutError(init);
+  }
+  if (effectiveStatus === 429 || code === "over_request_rate_limit" || code === "over_email_send_rate_limit") {
+    const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+    return new RateLimitError(init, isNaN(seconds) ? null : seconds);
+  }
+  if (effectiveStatus === 401 || (code && UNAUTHORIZED_CODES.indexOf(code) >= 0)) {
+    return new UnauthorizedError(init);
+  }
+  if (effectiveStatus === 403) {
+    return new PermissionDeniedError(init);
+  }
+  if (effectiveStatus === 404) {
+    // PostgREST answers 404 for unknown tables without always sending a code
+    return service === "rest" ? new MissingRelationError(init) : new SupabaseError("not_found", init);
+  }
+  if (effectiveStatus === 409) {
+    return new ConstraintViolationError(init);
+  }
+  if (effectiveStatus >= 500) {
+    return new SupabaseError("server", init);
+  }
+  if (effectiveStatus >= 400) {
+    return new SupabaseError("bad_request", init);
+  }
+  return new SupabaseError("unknown", init);
+}
+
+/**
+ * Read and classify a failed Response (for scripts that call fetch directly)
+ */
+export async function createErrorFromResponse(service: SupabaseService, response: Response): Promise<SupabaseError> {
+  const text = await response.text();
+  return createHttpError(service, response.status, text, response.headers.get("retry-after"));
+}
@@ -5,38 +5,74 @@
  * for basic database operations and realtime features.
  *
  * Prerequisites:
- * 1. Add InternetModule to your project
- * 2. Get your Supabase project URL and API key from the dashboard
- * 3. Create a simple table in your Supabase database for testing
+ * 1. Add a SupabaseClient component to your scene and configure it
+ * 2. Create a simple table in your Supabase database for testing
  */
 
 import { InteractorEvent } from "SpectaclesInteractionKit.lspkg/Core/Interactor/InteractorEvent";
 import { Interactable } from "SpectaclesInteractionKit.lspkg/Components/Interaction/Interactable/Interactable";
+import { Analytics, AnalyticsProperties } from "../Core/Analytics";
+import { OfflineWriteQueue, WriteQueueResult, WriteQueueState } from "../Core/OfflineWriteQueue";
+import { LogView } from "../Core/LogConsole";
+import { Logger, logStore } from "../Core/Logger";
+import { RealtimeMessagesInsert, TableName, TableRow, TestMessagesInsert, UserInteractionsInsert, UserPreferencesInsert } from "../Core/DatabaseTypes";
+import { FilterValue, InsertOptions, PostgrestQueryBuilder, PostgrestResponse, RpcOptions, UpsertOptions } from "../Core/PostgrestQueryBuilder";
+import { Page, PaginatorOptions, PostgrestPaginator } from "../Core/PostgrestPaginator";
+import { parseStoredPreferences } from "../Core/PreferencesService";
+import { PostgresChangeEvent, PostgresChangesPayload } from "../Core/RealtimeClient";
+import { SchemaHealthCheck, SchemaHealthReport } from "../Core/SchemaHealthCheck";
+import { SupabaseClient } from "../Core/SupabaseClient";
+import { SupabaseError } from "../Core/SupabaseError";
 
 @component
 export class SupabaseConnector extends BaseScriptComponent {
-  // Supabase Configuration - Get these from your Supabase Dashboard
+  // Supabase Configuration - shared by every Supabase script in the scene
   @input
-  @hint("Your Supabase project URL (e.g., https://your-project.supabase.co)")
-  public supabaseUrl: string = "";
-
-  @input
-  @hint("Your Supabase anon/public API key from the dashboard")
-  public supabaseAnonKey: string = "";
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
 
   @input
   @hint("Table name to test database operations")
   public tableName: string = "test_messages";
 
   @input
-  @hint("Internet Module for making HTTP requests")
-  public internetModule: InternetModule;
+  @hint("Rows per page when listing records (use nextRecordsPage() / previousRecordsPage() to scroll)")
+  @widget(new SliderWidget(1, 50, 1))
+  public pageSize: number = 5;
 
   // Realtime configuration
   @input
   @hint("Channel name for realtime messaging")
   public channelName: string = "test_channel";
 
+  @input
+  @hint("Log INSERT/UPDATE/DELETE events on the test table as they happen")
+  public listenForTableChanges: boolean = true;
+
+  // Offline Writes
+  @input
+  @hint("Keep inserts that fail while offline and retry them when the internet is back")
+  public queueOfflineWrites: boolean = true;
+
+  @input
+  @hint("Unique column that stores each queued write's idempotency key (leave empty to disable server-side dedupe)")
+  public idempotencyColumn: string = "idempotency_key";
+
+  // Analytics
+  @input
+  @hint("Record interactions in batches under one session id per Lens session (needs migration 7)")
+  public trackAnalytics: boolean = true;
+
+  @input
+  @hint("Share of sessions recorded (1 = every session)")
+  @widget(new SliderWidget(0, 1, 0.05))
+  public analyticsSampleRate: number = 1;
+
+  @input
+  @hint("Seconds between analytics batches")
+  @widget(new SliderWidget(2, 60, 1))
+  public analyticsFlushSeconds: number = 10;
+
   // Interactive Elements
   @input
   @allowUndefined
@@ -48,50 +84,80 @@ export class SupabaseConnector extends BaseScriptComponent {
   @hint("Optional: Text component to display logs on device")
   public logText: Text;
 
-  
 
   private apiUrl: string;
-  private headers: { [key: string]: string };
+  private changeSubscriptionCount: number = 0;
+  private changeSubscriptions: (() => void)[] = [];
+  private writeQueue: OfflineWriteQueue;
+  private analytics: Analytics;
+  /** Used by logUserInteraction when analytics is off */
+  private interactionSessionId: string = `lens_${Date.now()}`;
+  private recordsPaginator: PostgrestPaginator;
   private isConnected: boolean = false;
-  private logMessages: string[] = [];
-  private maxLogMessages: number = 20;
+  private logger = new Logger("SupabaseConnector");
+  private logView: LogView;
 
   onAwake() {
+    if (this.logText) {
+      this.logView = new LogView(this.logText, { filter: { tags: [this.logger.tag] }, maxLines: 20, showTags: false });
+    }
     this.initializeSupabase();
     this.setupInteractions();
-    this.createEvent("OnStartEvent").bind(() => {
+    this.createEvent("OnStartEvent").bind(async () => {
+      if (!this.apiUrl) {
+        return;
+      }
+      await this.supabaseClient.ready();
+
+      // Send anything left over from a previous offline session
+      if (this.writeQueue) {
+        this.writeQueue.flush();
+      }
+      if (this.analytics) {
+        this.analytics.startSession({ table: this.tableName });
+      }
+
       this.testConnection();
+
+      if (this.listenForTableChanges) {
+        this.onTableChange(this.tableName, { event: "*" }, (change) => {
+          const row: any = change.eventType === "DELETE" ? change.old : change.new;
+          this.log(`🔔 ${change.eventType} on '${change.table}': ${JSON.stringify(row).substring(0, 80)}`);
+        });
+      }
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      // The realtime socket is shared, so only drop this script's channels
+      this.changeSubscriptions.forEach(unsubscribe => unsubscribe());
+      this.changeSubscriptions = [];
+
+      if (this.writeQueue) {
+        this.writeQueue.stop();
+      }
+      if (this.analytics) {
+        this.analytics.endSession("destroyed");
+      }
+      if (this.logView) {
+        this.logView.destroy();
+      }
     });
   }
 
   /**
-   * Custom logging method that outputs to both console and UI text
+   * Log to the console, the shared log store and the logText panel
    */
   private log(message: string) {
-    // Always log to console
-    print(message);
-    
-    // Also log to UI if text component is available
-    if (this.logText) {
-      this.logMessages.push(message);
-      
-      // Keep only the most recent messages
-      if (this.logMessages.length > this.maxLogMessages) {
-        this.logMessages = this.logMessages.slice(-this.maxLogMessages);
-      }
-      
-      // Update the text component
-      this.logText.text = this.logMessages.join('\n');
-    }
+    this.logger.log(message);
   }
 
   /**
-   * Clear the log display
+   * Clear the log display (clears the shared log store)
    */
   public clearLogs() {
-    this.logMessages = [];
-    if (this.logText) {
-      this.logText.text = "";
+    logStore.clear();
+    if (this.logView) {
+      this.logView.scrollToLatest();
     }
   }
 
@@ -99,26 +165,80 @@ export class SupabaseConnector extends BaseScriptComponent {
    * Initialize Supabase connection parameters
    */
   private initializeSupabase() {
-    if (!this.supabaseUrl || !this.supabaseAnonKey) {
-      this.log("ERROR: Please set your Supabase URL and API key in the inspector");
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("ERROR: Please assign a configured SupabaseClient in the inspector");
       return;
     }
 
-    // Ensure URL has no trailing slash
-    this.apiUrl = this.supabaseUrl.replace(/\/$/, '') + "/rest/v1/";
+    this.apiUrl = this.supabaseClient.getRestUrl();
 
-    // Set up common headers for Supabase requests
-    this.headers = {
-      "Content-Type": "application/json",
-      "apikey": this.supabaseAnonKey,
-      "Authorization": `Bearer ${this.supabaseAnonKey}`,
-      "Prefer": "return=representation"
-    };
+    if (this.queueOfflineWrites) {
+      this.writeQueue = new OfflineWriteQueue({
+        restUrl: this.apiUrl,
+        internetModule: this.supabaseClient.internetModule,
+        host: this,
+        getHeaders: () => this.supabaseClient.getAuthHeaders(),
+        idempotencyColumn: this.idempotencyColumn,
+        logger: (message) => this.log(message)
+      });
+
+      this.writeQueue.onStatusChange((state) => {
+        if (state.status === "offline" && state.depth > 0) {
+          this.log(`📴 Offline - ${state.depth} write(s) waiting`);
+        }
+      });
+    }
+
+    if (this.trackAnalytics) {
+      this.analytics = new Analytics({
+        rest: this.supabaseClient.rest,
+        host: this,
+        sampleRate: this.analyticsSampleRate,
+        flushIntervalSeconds: this.analyticsFlushSeconds
+      });
+    }
 
     this.log("✅ Supabase connector initialized");
     this.log(`📡 API URL: ${this.apiUrl}`);
   }
 
+  /**
+   * Suggest a fix for the common setup mistakes, based on the error kind
+   */
+  private logErrorHint(error: SupabaseError, table: string) {
+    switch (error.kind) {
+      case "missing_relation":
+        this.log(`   💡 Apply supabase/migrations (or the README SQL) to create '${table}', or check the column names`);
+        break;
+      case "permission_denied":
+        this.log(`   💡 Add an RLS policy on '${table}' that allows this operation`);
+        break;
+      case "unauthorized":
+        this.log("   💡 Check the anon key on the SupabaseClient, or sign in again");
+        break;
+      case "constraint_violation":
+        this.log(`   💡 The row breaks a constraint on '${table}'${error.details ? `: ${error.details}` : ""}`);
+        break;
+      case "network":
+      case "timeout":
+        this.log("   💡 Check the device's internet connection and the project URL");
+        break;
+      case "rate_limit":
+        this.log("   💡 Too many requests - slow down and try again later");
+        break;
+    }
+    if (error.hint) {
+      this.log(`   Hint: ${error.hint}`);
+    }
+  }
+
+  /**
+   * Common headers for the raw fetch helpers below
+   */
+  private getRequestHeaders(): { [key: string]: string } {
+    return { ...this.supabaseClient.getRequestHeaders(), "Prefer": "return=representation" };
+  }
+
   /**
    * Setup interactive elements (button only)
    */
@@ -127,6 +247,7 @@ export class SupabaseConnector extends BaseScriptComponent {
     if (this.dataRetrievalButton) {
       const onButtonTrigger = (event: InteractorEvent) => {
         this.log("🔘 Data retrieval button pressed!");
+        this.track("button_press", { button: "data_retrieval" }, "ui");
         this.retrieveLatestData();
       };
       this.dataRetrievalButton.onInteractorTriggerStart(onButtonTrigger);
@@ -144,9 +265,9 @@ export class SupabaseConnector extends BaseScriptComponent {
 
     try {
       // Try to fetch from the main table (this will work even if table is empty)
-      const response = await this.selectFromTable(this.tableName, "*", "limit=1");
+      const { error } = await this.from(this.tableName).select("*").limit(1);
 
-      if (response.ok) {
+      if (!error) {
         this.isConnected = true;
         this.log("✅ Successfully connected to Supabase!");
         this.log(`📊 Table '${this.tableName}' is accessible`);
@@ -161,9 +282,8 @@ export class SupabaseConnector extends BaseScriptComponent {
         await this.testAllTables();
 
       } else {
-        this.log(`❌ Connection failed: ${response.status} - ${response.statusText}`);
-        const errorText = await response.text();
-        this.log(`Error details: ${errorText}`);
+        this.log(`❌ Connection failed: ${error.toString()}`);
+        this.logErrorHint(error, this.tableName);
       }
     } catch (error) {
       this.log(`❌ Connection error: ${error}`);
@@ -176,14 +296,15 @@ export class SupabaseConnector extends BaseScriptComponent {
   public async testAllTables() {
     this.log("🔍 Testing all database tables...");
 
+    await this.checkSchema();
+
     const tables = ["realtime_messages", "user_interactions", "user_preferences"];
 
     for (const table of tables) {
       try {
-        const response = await this.selectFromTable(table, "*", "limit=3");
+        const { data: records, error } = await this.from(table).select("*").limit(3);
 
-        if (response.ok) {
-          const records = await response.json();
+        if (!error) {
           this.log(`✅ Table '${table}': ${records.length} records found`);
 
           // Show sample data if available
@@ -193,7 +314,8 @@ export class SupabaseConnector extends BaseScriptComponent {
             this.log(`   Sample: ${keys.map(key => `${key}=${JSON.stringify(sample[key]).substring(0, 30)}`).join(', ')}`);
           }
         } else {
-          this.log(`⚠️  Table '${table}': ${response.status} - May not exist or need RLS policies`);
+          this.log(`⚠️  Table '${table}': ${error.kind} (${error.code || error.status})`);
+          this.logErrorHint(error, table);
         }
       } catch (error) {
         this.log(`❌ Table '${table}': Error - ${error}`);
@@ -204,6 +326,26 @@ export class SupabaseConnector extends BaseScriptComponent {
     await this.testOtherTableInserts();
   }
 
+  /**
+   * Compare the live schema with supabase/migrations and log every missing
+   * table, column or policy together with the migration that adds it
+   */
+  public async checkSchema(): Promise<SchemaHealthReport> {
+    const report = await new SchemaHealthCheck(this.supabaseClient.rest).run();
+
+    if (report.ok) {
+      this.log(`✅ Schema is up to date (version ${report.liveVersion})`);
+      return report;
+    }
+
+    const version = report.liveVersion === null ? "unknown" : `${report.liveVersion}`;
+    this.log(`⚠️ Schema check found ${report.issues.length} issue(s) (version ${version}, expected ${report.expectedVersion}):`);
+    report.issues.forEach(issue => {
+      this.log(`   • ${issue.message}${issue.migration ? ` → supabase/migrations/${issue.migration}` : ""}`);
+    });
+    return report;
+  }
+
   /**
    * Test inserting data into other tables
    */
@@ -230,25 +372,31 @@ export class SupabaseConnector extends BaseScriptComponent {
       this.log(`❌ User interaction test failed: ${error}`);
     }
 
-    // Test user_preferences (if not exists, create sample)
+    // Test user_preferences (one stable test user, updated on every run)
     try {
-      const testUserId = `test_user_${Date.now()}`;
+      const testUserId = "test_user_lens_studio";
       const preferences = {
         audio: { volume: 0.7, sound_effects: true },
         display: { brightness: 0.8, color_mode: "vivid" },
         test_mode: true
       };
 
-      const response = await this.insertIntoTable("user_preferences", {
+      const row: UserPreferencesInsert = {
         user_id: testUserId,
-        preferences: JSON.stringify(preferences),
+        preferences: preferences,
         updated_at: new Date().toISOString()
-      });
+      };
+      const { error } = await this.from("user_preferences").upsert(row, { onConflict: "user_id", returning: "minimal" });
 
-      if (response.ok) {
-        this.log(`✅ User preferences test: Sample user created`);
+      if (!error) {
+        this.log(`✅ User preferences test: '${testUserId}' saved`);
       } else {
-        this.log(`⚠️  User preferences test: ${response.status}`);
+        this.log(`⚠️  User preferences test: ${error.toString()}`);
+        if (error.code === "42P10") {
+          this.log("   💡 Add a unique constraint: ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_user_id_key UNIQUE (user_id);");
+        } else {
+          this.logErrorHint(error, "user_preferences");
+        }
       }
     } catch (error) {
       this.log(`❌ User preferences test failed: ${error}`);
@@ -257,165 +405,303 @@ export class SupabaseConnector extends BaseScriptComponent {
 
   /**
    * Insert a test record to verify database write access
+   * Returns the error, or null on success
    */
-  public async insertTestRecord() {
+  public async insertTestRecord(): Promise<SupabaseError | null> {
     this.log("📝 Inserting test record...");
 
-    const testData = {
+    const testData: TestMessagesInsert = {
       message: "Hello from Lens Studio!",
       sender: "Spectacles User",
       timestamp: new Date().toISOString(),
       lens_session_id: `session_${Date.now()}`
     };
 
-    try {
-      const response = await this.insertIntoTable(this.tableName, testData);
+    const { data: result, error } = await this.from(this.tableName).insert(testData);
 
-      if (response.ok) {
-        const result = await response.json();
-        this.log("✅ Test record inserted successfully!");
-        this.log(`📄 Inserted data: ${JSON.stringify(result)}`);
-      } else {
-        this.log(`❌ Insert failed: ${response.status}`);
-        const errorText = await response.text();
-        this.log(`Error: ${errorText}`);
-      }
-    } catch (error) {
-      this.log(`❌ Insert error: ${error}`);
+    if (!error) {
+      this.log("✅ Test record inserted successfully!");
+      this.log(`📄 Inserted data: ${JSON.stringify(result)}`);
+    } else {
+      this.log(`❌ Insert failed: ${error.toString()}`);
+      this.logErrorHint(error, this.tableName);
     }
+    return error;
   }
 
   /**
-   * Retrieve all records from the test table
+   * Retrieve the first page of records from the test table
    */
   public async getAllRecords() {
-    this.log("📚 Fetching all records...");
+    this.log("📚 Fetching records...");
 
-    try {
-      const response = await this.selectFromTable(this.tableName, "*", "order=timestamp.desc&limit=5");
-
-      if (response.ok) {
-        const records = await response.json();
-        this.log(`✅ Retrieved ${records.length} records:`);
+    this.recordsPaginator = this.paginate(this.tableName, { orderBy: "timestamp", pageSize: this.pageSize });
+    this.logRecordsPage(await this.recordsPaginator.first());
+  }
 
-        records.forEach((record: any, index: number) => {
-          this.log(`  ${index + 1}. ${record.message} (${record.sender})`);
-        });
-      } else {
-        this.log(`❌ Select failed: ${response.status}`);
-        const errorText = await response.text();
-        this.log(`   Error details: ${errorText}`);
-      }
-    } catch (error) {
-      this.log(`❌ Select error: ${error}`);
+  /**
+   * Scroll the test table forward by one page
+   */
+  public async nextRecordsPage() {
+    if (!this.recordsPaginator) {
+      return this.getAllRecords();
     }
+    this.logRecordsPage(await this.recordsPaginator.next());
   }
 
   /**
-   * Generic method to insert data into any table
+   * Scroll the test table back by one page
    */
-  public async insertIntoTable(table: string, data: any): Promise<Response> {
-    const url = `${this.apiUrl}${table}`;
+  public async previousRecordsPage() {
+    if (!this.recordsPaginator) {
+      return this.getAllRecords();
+    }
+    this.logRecordsPage(await this.recordsPaginator.prev());
+  }
+
+  private logRecordsPage(page: Page<any>) {
+    if (page.error) {
+      this.log(`❌ Select failed: ${page.error.message}`);
+      return;
+    }
 
-    const request = new Request(url, {
-      method: "POST",
-      headers: this.headers,
-      body: JSON.stringify(data)
+    const pageLabel = page.pageCount !== null ? `${page.pageIndex + 1}/${Math.max(1, page.pageCount)}` : `${page.pageIndex + 1}`;
+    this.log(`✅ Page ${pageLabel} - ${page.rows.length} of ${page.total !== null ? page.total : "?"} records:`);
+
+    page.rows.forEach((record: any, index: number) => {
+      this.log(`  ${page.pageIndex * this.pageSize + index + 1}. ${record.message} (${record.sender})`);
     });
+  }
 
-    return await this.internetModule.fetch(request);
+  /**
+   * Start a typed, chainable query against any table
+   *
+   * Example:
+   *   const { data, error } = await connector.from("test_messages")
+   *     .select("message,sender")
+   *     .eq("sender", "Spectacles User")
+   *     .order("timestamp", { ascending: false })
+   *     .limit(5);
+   */
+  public from<K extends TableName>(table: K): PostgrestQueryBuilder<TableRow<K>>;
+  public from<T = any>(table: string): PostgrestQueryBuilder<T>;
+  public from<T = any>(table: string): PostgrestQueryBuilder<T> {
+    return this.supabaseClient.rest.from<T>(table);
   }
 
   /**
-   * Generic method to select data from any table
+   * Page through a table with next() / prev() and a total count
+   *
+   * Example:
+   *   const posts = connector.paginate("posts", { orderBy: "created_at", pageSize: 10 });
+   *   const page = await posts.first();   // page.rows, page.total, page.hasNext
+   *   const more = await posts.next();
    */
-  public async selectFromTable(table: string, columns: string = "*", query: string = ""): Promise<Response> {
-    let url = `${this.apiUrl}${table}?select=${columns}`;
+  public paginate<T = any>(table: string, options: PaginatorOptions<T>): PostgrestPaginator<T> {
+    return new PostgrestPaginator<T>(this.supabaseClient.rest, table, options);
+  }
 
-    if (query) {
-      url += `&${query}`;
-    }
+  /**
+   * Call a Postgres function (POST /rest/v1/rpc/<name>)
+   *
+   * Example:
+   *   const { data: posts } = await connector.rpc("nearest_posts", { lat: 37.77, lng: -122.42, max_results: 5 });
+   *   const { data: total } = await connector.rpc<number>("count_interactions", { action_name: "tap" }).single();
+   *   const { data: top } = await connector.rpc("leaderboard", {}, { get: true }).limit(10);
+   */
+  public rpc<T = any>(functionName: string, args: { [key: string]: any } = {}, options: RpcOptions = {}): PostgrestQueryBuilder<T> {
+    return this.supabaseClient.rest.rpc<T>(functionName, args, options);
+  }
 
-    const request = new Request(url, {
-      method: "GET",
-      headers: this.headers
-    });
+  /**
+   * Generic method to insert data into any table
+   * Pass an array to insert many rows in one request
+   * When the request could not be sent (network / timeout error) the rows are queued for retry
+   */
+  public async insertIntoTable(table: string, data: any, options: InsertOptions = {}): Promise<PostgrestResponse<any[]>> {
+    const response = await this.from(table).insert(data, options);
+
+    const error = response.error;
+    if (error && this.writeQueue && (error.kind === "network" || error.kind === "timeout")) {
+      const rows = Array.isArray(data) ? data : [data];
+      rows.forEach(row => this.writeQueue.enqueue(table, row));
+      this.log(`📦 Insert of ${rows.length} row(s) into '${table}' queued for retry: ${error.message}`);
+    }
+    return response;
+  }
 
-    return await this.internetModule.fetch(request);
+  /**
+   * Generic method to insert-or-update rows in any table
+   * onConflict names the unique column(s); ignoreDuplicates keeps existing rows untouched
+   * Upserts are not queued: a stale retry could overwrite newer data
+   */
+  public async upsertIntoTable(table: string, data: any, options: UpsertOptions = {}): Promise<PostgrestResponse<any[]>> {
+    return await this.from(table).upsert(data, options);
   }
 
   /**
-   * Generic method to update data in any table
+   * Insert a row, queueing it for retry when the device is offline
+   * Pass the same idempotency key for the same logical event to avoid duplicates
    */
-  public async updateTable(table: string, data: any, condition: string): Promise<Response> {
-    const url = `${this.apiUrl}${table}?${condition}`;
+  public async insertWithRetry(table: string, data: any, idempotencyKey?: string): Promise<WriteQueueResult> {
+    if (!this.writeQueue) {
+      const { error } = await this.from(table).insert(data);
+      return { status: error ? "failed" : "sent", id: idempotencyKey || "", error: error ? error.toString() : null };
+    }
+    return await this.writeQueue.insert(table, data, idempotencyKey);
+  }
 
-    const request = new Request(url, {
-      method: "PATCH",
-      headers: this.headers,
-      body: JSON.stringify(data)
-    });
+  /**
+   * Queue depth and status (idle / sending / waiting / offline)
+   */
+  public getWriteQueueState(): WriteQueueState | null {
+    return this.writeQueue ? this.writeQueue.getState() : null;
+  }
 
-    return await this.internetModule.fetch(request);
+  /**
+   * Listen for queue depth and status changes; returns an unsubscribe function
+   */
+  public onWriteQueueChange(callback: (state: WriteQueueState) => void): () => void {
+    if (!this.writeQueue) {
+      return () => {};
+    }
+    return this.writeQueue.onStatusChange(callback);
   }
 
   /**
-   * Generic method to delete data from any table
+   * Generic method to select data from any table
+   * filters are column = value pairs, e.g. { sender: "Spectacles User" }; use from(table) for other operators
    */
-  public async deleteFromTable(table: string, condition: string): Promise<Response> {
-    const url = `${this.apiUrl}${table}?${condition}`;
+  public async selectFromTable(table: string, columns: string = "*", filters: { [column: string]: FilterValue } = {}): Promise<PostgrestResponse<any[]>> {
+    return await this.from(table).select(columns).match(filters);
+  }
 
-    const request = new Request(url, {
-      method: "DELETE",
-      headers: this.headers
-    });
+  /**
+   * Generic method to update the rows matching the filters in any table
+   */
+  public async updateTable(table: string, data: any, filters: { [column: string]: FilterValue }): Promise<PostgrestResponse<any[]>> {
+    return await this.from(table).update(data).match(filters);
+  }
 
-    return await this.internetModule.fetch(request);
+  /**
+   * Generic method to delete the rows matching the filters from any table
+   */
+  public async deleteFromTable(table: string, filters: { [column: string]: FilterValue }): Promise<PostgrestResponse<any[]>> {
+    return await this.from(table).delete().match(filters);
   }
 
   /**
    * Send a realtime message using Supabase Realtime
    * Note: This is a basic implementation for sending messages to a broadcast channel
+   * Returns the error, or null on success
    */
-  public async sendRealtimeMessage(channel: string, event: string, payload: any) {
+  public async sendRealtimeMessage(channel: string, event: string, payload: any): Promise<SupabaseError | null> {
     this.log(`📡 Sending realtime message to channel: ${channel}`);
 
     // For basic realtime messaging, we can use the REST API to insert into a messages table
     // and use Supabase's realtime subscriptions on the frontend
-    const messageData = {
+    const messageData: RealtimeMessagesInsert = {
       channel: channel,
       event: event,
       payload: JSON.stringify(payload),
       sent_at: new Date().toISOString()
     };
 
-    try {
-      const response = await this.insertIntoTable("realtime_messages", messageData);
+    const { error } = await this.from("realtime_messages").insert(messageData);
 
-      if (response.ok) {
-        this.log("✅ Realtime message sent successfully!");
-      } else {
-        this.log(`❌ Failed to send realtime message: ${response.status}`);
-      }
-    } catch (error) {
-      this.log(`❌ Realtime message error: ${error}`);
+    if (!error) {
+      this.log("✅ Realtime message sent successfully!");
+    } else {
+      this.log(`❌ Failed to send realtime message: ${error.toString()}`);
+      this.logErrorHint(error, "realtime_messages");
+    }
+    return error;
+  }
+
+  /**
+   * Subscribe to INSERT / UPDATE / DELETE events on a table via Supabase Realtime
+   *
+   * The table must be part of the supabase_realtime publication:
+   *   ALTER PUBLICATION supabase_realtime ADD TABLE test_messages;
+   *
+   * Returns a function that removes the subscription.
+   */
+  public onTableChange<T = any>(
+    table: string,
+    options: { event?: PostgresChangeEvent; filter?: string; schema?: string },
+    callback: (change: PostgresChangesPayload<T>) => void
+  ): () => void {
+    const realtime = this.supabaseClient.realtime;
+    const event = options.event || "*";
+
+    this.changeSubscriptionCount++;
+    const channel = realtime.channel(`db-changes:${table}:${this.changeSubscriptionCount}`);
+
+    channel
+      .on<T>("postgres_changes", {
+        event: event,
+        schema: options.schema || "public",
+        table: table,
+        filter: options.filter
+      }, callback)
+      .subscribe((status, error) => {
+        if (status === "SUBSCRIBED") {
+          this.log(`👂 Listening for ${event} changes on '${table}'${options.filter ? ` (${options.filter})` : ""}`);
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          this.log(`❌ Could not subscribe to '${table}' changes: ${error || status}`);
+        }
+      });
+
+    const unsubscribe = () => {
+      this.changeSubscriptions = this.changeSubscriptions.filter(entry => entry !== unsubscribe);
+      realtime.removeChannel(channel);
+    };
+    this.changeSubscriptions.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  /**
+   * Record an analytics event in the current session (batched, see Core/Analytics.ts)
+   * No-op when Track Analytics is off
+   */
+  public track(action: string, properties: AnalyticsProperties = {}, category?: string) {
+    if (this.analytics) {
+      this.analytics.track(action, properties, category);
     }
   }
 
+  /**
+   * The analytics recorder, or undefined when Track Analytics is off
+   */
+  public getAnalytics(): Analytics {
+    return this.analytics;
+  }
+
   /**
    * Example: Log user interaction for analytics
+   * Batched through track() when Track Analytics is on, otherwise inserted directly
    */
   public async logUserInteraction(action: string, data: any = {}) {
-    const interactionData = {
+    if (this.analytics) {
+      this.analytics.track(action, data);
+      this.log(`📊 Tracked interaction: ${action} (session ${this.analytics.getSession().id})`);
+      return;
+    }
+
+    const interactionData: UserInteractionsInsert = {
       action: action,
       data: JSON.stringify(data),
       timestamp: new Date().toISOString(),
-      session_id: `lens_${Date.now()}`
+      session_id: this.interactionSessionId
     };
 
     try {
-      await this.insertIntoTable("user_interactions", interactionData);
-      this.log(`📊 Logged interaction: ${action}`);
+      const result = await this.insertWithRetry("user_interactions", interactionData);
+      if (result.status === "failed") {
+        this.log(`❌ Failed to log interaction: ${result.error}`);
+        return;
+      }
+      this.log(result.status === "queued" ? `📦 Interaction queued: ${action}` : `📊 Logged interaction: ${action}`);
     } catch (error) {
       this.log(`❌ Failed to log interaction: ${error}`);
     }
@@ -423,20 +709,20 @@ export class SupabaseConnector extends BaseScriptComponent {
 
   /**
    * Example: Get user preferences
+   * data is null when the user has no saved preferences; UserPreferencesSync
+   * loads, caches, applies and saves them
    */
-  public async getUserPreferences(userId: string): Promise<any> {
-    try {
-      const response = await this.selectFromTable("user_preferences", "*", `user_id=eq.${userId}`);
-
-      if (response.ok) {
-        const preferences = await response.json();
-        return preferences.length > 0 ? preferences[0] : null;
-      }
-    } catch (error) {
-      this.log(`❌ Failed to get user preferences: ${error}`);
+  public async getUserPreferences(userId: string): Promise<{ data: TableRow<"user_preferences"> | null; error: SupabaseError | null }> {
+    const { data: preferences, error } = await this.from("user_preferences")
+      .select("*")
+      .eq("user_id", userId)
+      .limit(1);
+
+    if (error) {
+      this.log(`❌ Failed to get user preferences: ${error.toString()}`);
+      return { data: null, error: error };
     }
-
-    return null;
+    return { data: preferences.length > 0 ? preferences[0] : null, error: null };
   }
 
   /**
@@ -470,19 +756,20 @@ export class SupabaseConnector extends BaseScriptComponent {
    */
   private async getLatestMessages() {
     try {
-      const response = await this.selectFromTable("test_messages", "*", "order=timestamp.desc&limit=3");
+      const { data: messages, error } = await this.from("test_messages")
+        .select("*")
+        .order("timestamp", { ascending: false })
+        .limit(this.pageSize);
 
-      if (response.ok) {
-        const messages = await response.json();
+      if (!error) {
         this.log(`📝 Latest Messages (${messages.length}):`);
 
-        messages.forEach((msg: any, index: number) => {
+        messages.forEach((msg, index) => {
           this.log(`  ${index + 1}. "${msg.message}" by ${msg.sender || 'Unknown'}`);
         });
       } else {
-        this.log(`⚠️ Could not retrieve messages: ${response.status}`);
-        const errorText = await response.text();
-        this.log(`   Error details: ${errorText}`);
+        this.log(`⚠️ Could not retrieve messages: ${error.toString()}`);
+        this.logErrorHint(error, "test_messages");
       }
     } catch (error) {
       this.log(`❌ Error retrieving messages: ${error}`);
@@ -494,20 +781,20 @@ export class SupabaseConnector extends BaseScriptComponent {
    */
   private async getRecentInteractions() {
     try {
-      const response = await this.selectFromTable("user_interactions", "*", "order=timestamp.desc&limit=3");
+      const { data: interactions, error } = await this.from("user_interactions")
+        .select("*")
+        .order("timestamp", { ascending: false })
+        .limit(this.pageSize);
 
-      if (response.ok) {
-        const interactions = await response.json();
+      if (!error) {
         this.log(`📊 Recent Interactions (${interactions.length}):`);
 
-        interactions.forEach((interaction: any, index: number) => {
+        interactions.forEach((interaction, index) => {
           this.log(`  ${index + 1}. ${interaction.action} at ${interaction.timestamp}`);
         });
       } else {
-        this.log(`⚠️ Could not retrieve interactions: ${response.status}`);
-        if (response.status === 404) {
-          this.log(`   💡 Create the 'user_interactions' table using the provided CSV data`);
-        }
+        this.log(`⚠️ Could not retrieve interactions: ${error.toString()}`);
+        this.logErrorHint(error, "user_interactions");
       }
     } catch (error) {
       this.log(`❌ Error retrieving interactions: ${error}`);
@@ -519,19 +806,20 @@ export class SupabaseConnector extends BaseScriptComponent {
    */
   private async getLatestRealtimeMessages() {
     try {
-      const response = await this.selectFromTable("realtime_messages", "*", "order=sent_at.desc&limit=3");
+      const { data: messages, error } = await this.from("realtime_messages")
+        .select("*")
+        .order("sent_at", { ascending: false })
+        .limit(this.pageSize);
 
-      if (response.ok) {
-        const messages = await response.json();
+      if (!error) {
         this.log(`📡 Latest Realtime Events (${messages.length}):`);
 
-        messages.forEach((msg: any, index: number) => {
+        messages.forEach((msg, index) => {
           this.log(`  ${index + 1}. [${msg.channel}] ${msg.event}`);
         });
       } else {
-        this.log(`⚠️ Could not retrieve realtime messages: ${response.status}`);
-        const errorText = await response.text();
-        this.log(`   Error details: ${errorText}`);
+        this.log(`⚠️ Could not retrieve realtime messages: ${error.toString()}`);
+        this.logErrorHint(error, "realtime_messages");
       }
     } catch (error) {
       this.log(`❌ Error retrieving realtime messages: ${error}`);
@@ -543,31 +831,27 @@ export class SupabaseConnector extends BaseScriptComponent {
    */
   private async getRandomUserPreferences() {
     try {
-      const response = await this.selectFromTable("user_preferences", "*", "limit=1");
+      const { data: users, error } = await this.from("user_preferences").select("*").limit(1);
 
-      if (response.ok) {
-        const users = await response.json();
+      if (!error) {
         if (users.length > 0) {
           const user = users[0];
           this.log(`⚙️ Sample User Preferences:`);
           this.log(`  User: ${user.user_id}`);
 
-          try {
-            const prefs = JSON.parse(user.preferences);
-            if (prefs.audio) {
-              this.log(`  Audio: Volume ${prefs.audio.volume}, SFX ${prefs.audio.sound_effects}`);
-            }
-            if (prefs.display) {
-              this.log(`  Display: Brightness ${prefs.display.brightness}, Mode ${prefs.display.color_mode}`);
-            }
-          } catch (parseError) {
-            this.log(`  Preferences: ${user.preferences.substring(0, 100)}...`);
+          const prefs = parseStoredPreferences(user.preferences);
+          if (prefs.audio) {
+            this.log(`  Audio: Volume ${prefs.audio.volume}, SFX ${prefs.audio.sound_effects}`);
+          }
+          if (prefs.display) {
+            this.log(`  Display: Brightness ${prefs.display.brightness}, Mode ${prefs.display.color_mode}`);
           }
         } else {
           this.log(`⚠️ No user preferences found`);
         }
       } else {
-        this.log(`⚠️ Could not retrieve user preferences: ${response.status}`);
+        this.log(`⚠️ Could not retrieve user preferences: ${error.toString()}`);
+        this.logErrorHint(error, "user_preferences");
       }
     } catch (error) {
       this.log(`❌ Error retrieving user preferences: ${error}`);
@@ -586,7 +870,7 @@ export class SupabaseConnector extends BaseScriptComponent {
   }
 
   public getHeaders(): { [key: string]: string } {
-    return { ...this.headers }; // Return a copy
+    return { ...this.getRequestHeaders() }; // Return a copy
   }
 
   /**
@@ -600,7 +884,7 @@ export class SupabaseConnector extends BaseScriptComponent {
    * Get current log messages as a string
    */
   public getLogMessages(): string {
-    return this.logMessages.join('\n');
+    return logStore.getEntries({ tags: [this.logger.tag] }).map(entry => entry.message).join('\n');
   }
 }
 
@@ -608,12 +892,11 @@ export class SupabaseConnector extends BaseScriptComponent {
  * Usage Example:
  *
  * 1. Attach this script to a Scene Object
- * 2. Assign the InternetModule in the inspector
- * 3. Set your Supabase URL and API key
- * 4. Set the table name you want to test with
- * 5. Optional: Assign an Interactable button for data retrieval
- * 6. Optional: Assign a Text component to display logs on device
- * 7. The script will automatically test the connection on start
+ * 2. Assign the scene's SupabaseClient in the inspector
+ * 3. Set the table name you want to test with
+ * 4. Optional: Assign an Interactable button for data retrieval
+ * 5. Optional: Assign a Text component to display logs on device
+ * 6. The script will automatically test the connection on start
  *
  * Interactive Features:
  * - Button press: Retrieves latest data from all tables
@@ -631,10 +914,40 @@ export class SupabaseConnector extends BaseScriptComponent {
  *   // Manually retrieve data
  *   await this.supabaseConnector.manualDataRetrieval();
  *
+ *   // Insert analytics that survive going offline
+ *   await this.supabaseConnector.insertWithRetry("user_interactions", { action: "tap" });
+ *
  *   // Insert custom data
- *   await this.supabaseConnector.insertIntoTable("test_messages", {
+ *   await this.supabaseConnector.from("test_messages").insert({
  *     message: "Custom message",
  *     sender: "My Script"
  *   });
+ *
+ *   // Insert many rows at once, without reading them back
+ *   await this.supabaseConnector.from("test_messages").insert([
+ *     { message: "First", sender: "My Script" },
+ *     { message: "Second", sender: "My Script" }
+ *   ], { returning: "minimal" });
+ *
+ *   // Create or update by a unique column
+ *   await this.supabaseConnector.from("user_preferences").upsert(
+ *     { user_id: "player_1", preferences: JSON.stringify({ volume: 0.5 }) },
+ *     { onConflict: "user_id" }
+ *   );
+ *
+ *   // React to new rows without polling
+ *   const stopListening = this.supabaseConnector.onTableChange("posts", { event: "INSERT" }, (change) => {
+ *     print(`New post: ${JSON.stringify(change.new)}`);
+ *   });
+ *
+ *   // Call a Postgres function
+ *   const { data: nearby } = await this.supabaseConnector.rpc("nearest_posts", { lat: 37.77, lng: -122.42, max_results: 5 });
+ *
+ *   // Query with the typed builder
+ *   const { data, error, count } = await this.supabaseConnector.from("test_messages")
+ *     .select("message,sender", { count: "exact" })
+ *     .eq("sender", "My Script")
+ *     .order("timestamp", { ascending: false })
+ *     .limit(5);
  * }
  */
\ No newline at end of file
@@ -0,0 +1,264 @@
+/**
+ * UserPreferencesSync for Lens Studio
+ *
+ * Loads the signed-in user's settings from user_preferences (through
+ * PreferencesService), applies them to the scene and saves changes back,
+ * so the same settings follow the user between Spectacles sessions and the
+ * web app:
+ *
+ * - audio.volume / audio.sound_effects: volume of the assigned AudioComponents
+ * - display.brightness / display.color_mode: base color of the assigned visuals
+ *
+ * The cached settings are applied immediately on start, the server row as
+ * soon as it arrives.
+ */
+
+import { InteractorEvent } from "SpectaclesInteractionKit.lspkg/Core/Interactor/InteractorEvent";
+import { Interactable } from "SpectaclesInteractionKit.lspkg/Components/Interaction/Interactable/Interactable";
+import { Logger } from "../Core/Logger";
+import { ColorMode, PreferencesPatch, PreferencesService, PreferencesSource, UserPreferences } from "../Core/PreferencesService";
+import { SupabaseClient } from "../Core/SupabaseClient";
+import { SupabaseError } from "../Core/SupabaseError";
+
+const COLOR_MODES: ColorMode[] = ["natural", "vivid", "muted"];
+
+// Saturation applied to the display targets for each color mode
+const COLOR_MODE_SATURATION: { [mode: string]: number } = {
+  natural: 1,
+  vivid: 1.3,
+  muted: 0.5
+};
+
+@component
+export class UserPreferencesSync extends BaseScriptComponent {
+  @input
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
+
+  @input
+  @hint("Preferences row used when nobody is signed in (the signed-in user's id wins)")
+  public fallbackUserId: string = "test_user_lens_studio";
+
+  // Scene targets
+  @input
+  @allowUndefined
+  @hint("Music / ambience audio, follows audio.volume")
+  public audioComponents: AudioComponent[] = [];
+
+  @input
+  @allowUndefined
+  @hint("Sound effects, follow audio.volume and are muted when audio.sound_effects is off")
+  public soundEffectComponents: AudioComponent[] = [];
+
+  @input
+  @allowUndefined
+  @hint("Visuals whose base color follows display.brightness and display.color_mode")
+  public displayVisuals: RenderMeshVisual[] = [];
+
+  @input
+  @allowUndefined
+  @hint("Optional: Text component showing the current settings")
+  public statusText: Text;
+
+  // Controls
+  @input
+  @allowUndefined
+  @hint("Optional: Button that raises the volume by 10%")
+  public volumeUpButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that lowers the volume by 10%")
+  public volumeDownButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that toggles sound effects")
+  public soundEffectsButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that cycles the color mode")
+  public colorModeButton: Interactable;
+
+  @input
+  @hint("Enable detailed logging")
+  public enableDebugLogs: boolean = true;
+
+  private service: PreferencesService;
+  private baseColors: vec4[] = [];
+  private removeChangeListener: (() => void) | null = null;
+  private removeAuthListener: (() => void) | null = null;
+  private logger = new Logger("UserPreferencesSync", { printToConsole: () => this.enableDebugLogs });
+
+  onAwake() {
+    this.bindButton(this.volumeUpButton, () => this.changeVolume(0.1));
+    this.bindButton(this.volumeDownButton, () => this.changeVolume(-0.1));
+    this.bindButton(this.soundEffectsButton, () => this.toggleSoundEffects());
+    this.bindButton(this.colorModeButton, () => this.cycleColorMode());
+
+    this.createEvent("OnStartEvent").bind(() => {
+      this.initialize();
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      if (this.removeChangeListener) {
+        this.removeChangeListener();
+      }
+      if (this.removeAuthListener) {
+        this.removeAuthListener();
+      }
+      if (this.service) {
+        this.service.stop();
+      }
+    });
+  }
+
+  private initialize() {
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Assign a configured SupabaseClient");
+      return;
+    }
+
+    // Remember the authored colors so brightness is never applied twice
+    this.baseColors = (this.displayVisuals || []).map(visual => visual.mainPass.baseColor);
+
+    this.service = new PreferencesService({
+      rest: this.supabaseClient.rest,
+      logger: (message) => this.log(message)
+    });
+    this.removeChangeListener = this.service.onChange((preferences, source) => this.applyPreferences(preferences, source));
+
+    // Switch to the user's own row when they sign in or out
+    this.removeAuthListener = this.supabaseClient.onAuthStateChange((event) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
+        this.service.load(this.resolveUserId());
+      }
+    });
+
+    this.service.load(this.resolveUserId());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public API
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Current settings (cached or default values until the server answers)
+   */
+  public getPreferences(): UserPreferences | null {
+    return this.service ? this.service.getPreferences() : null;
+  }
+
+  /**
+   * Change settings from other scripts:
+   *   preferencesSync.setPreferences({ display: { brightness: 0.6 } });
+   */
+  public async setPreferences(patch: PreferencesPatch): Promise<SupabaseError | null> {
+    if (!this.service || !this.service.getUserId()) {
+      this.log("⚠️ Preferences are not loaded yet");
+      return null;
+    }
+    return this.service.update(patch);
+  }
+
+  public changeVolume(delta: number) {
+    const preferences = this.getPreferences();
+    if (preferences) {
+      const volume = Math.round(MathUtils.clamp(preferences.audio.volume + delta, 0, 1) * 10) / 10;
+      this.setPreferences({ audio: { volume: volume } });
+    }
+  }
+
+  public toggleSoundEffects() {
+    const preferences = this.getPreferences();
+    if (preferences) {
+      this.setPreferences({ audio: { sound_effects: !preferences.audio.sound_effects } });
+    }
+  }
+
+  /**
+   * natural -> vivid -> muted -> natural
+   */
+  public cycleColorMode() {
+    const preferences = this.getPreferences();
+    if (preferences) {
+      const index = COLOR_MODES.indexOf(preferences.display.color_mode);
+      this.setPreferences({ display: { color_mode: COLOR_MODES[(index + 1) % COLOR_MODES.length] } });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Applying
+  // ---------------------------------------------------------------------------
+
+  private applyPreferences(preferences: UserPreferences, source: PreferencesSource) {
+    const volume = MathUtils.clamp(preferences.audio.volume, 0, 1);
+    (this.audioComponents || []).forEach(audio => {
+      audio.volume = volume;
+    });
+    (this.soundEffectComponents || []).forEach(audio => {
+      audio.volume = preferences.audio.sound_effects ? volume : 0;
+    });
+
+    const brightness = MathUtils.clamp(preferences.display.brightness, 0, 1);
+    const saturation = COLOR_MODE_SATURATION[preferences.display.color_mode] || 1;
+    (this.displayVisuals || []).forEach((visual, index) => {
+      visual.mainPass.baseColor = this.adjustColor(this.baseColors[index], brightness, saturation);
+    });
+
+    const summary = `🔊 ${Math.round(volume * 100)}%${preferences.audio.sound_effects ? "" : " (SFX off)"}  ☀️ ${Math.round(brightness * 100)}%  🎨 ${preferences.display.color_mode}`;
+    this.log(`⚙️ Applied ${source} preferences: ${summary}`);
+    if (this.statusText) {
+      const pending = this.service && this.service.hasPendingChanges() ? "\n📦 Not synced yet" : "";
+      this.statusText.text = `${summary}${pending}`;
+    }
+  }
+
+  /**
+   * Scale saturation around the luminance, then brightness; alpha is kept
+   */
+  private adjustColor(color: vec4, brightness: number, saturation: number): vec4 {
+    const luminance = color.x * 0.299 + color.y * 0.587 + color.z * 0.114;
+    const channel = (value: number) => MathUtils.clamp((luminance + (value - luminance) * saturation) * brightness, 0, 1);
+    return new vec4(channel(color.x), channel(color.y), channel(color.z), color.w);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private resolveUserId(): string {
+    const user = this.supabaseClient.getUser();
+    return user ? user.id : this.fallbackUserId;
+  }
+
+  private bindButton(button: Interactable, action: () => void) {
+    if (button) {
+      button.onInteractorTriggerStart((event: InteractorEvent) => action());
+    }
+  }
+
+  private log(message: string) {
+    this.logger.log(message);
+  }
+}
+
+/**
+ * Usage Example:
+ *
+ * 1. Apply supabase/migrations (user_preferences) and add a SupabaseClient to the scene
+ * 2. Attach UserPreferencesSync to a Scene Object and assign the SupabaseClient
+ * 3. Assign the AudioComponents and RenderMeshVisuals the settings should control
+ * 4. Optional: Assign buttons for volume, sound effects and color mode
+ *
+ * From other scripts:
+ *
+ *   @input preferencesSync: UserPreferencesSync;
+ *
+ *   this.preferencesSync.setPreferences({ audio: { volume: 0.5 } });
+ *   const brightness = this.preferencesSync.getPreferences().display.brightness;
+ *
+ * Settings changed in the web app are picked up on the next start; changes
+ * made on both sides in between are merged instead of overwritten.
+ */
@@ -0,0 +1,340 @@
+/**
+ * AnnotationRenderer for Lens Studio
+ *
+ * Draws the strokes the web controller's annotation mode sends
+ * (Core/Annotations.ts) as 3D lines in front of the wearer. Points map
+ * through the room's cursor mapping, like cursors, at the depth they were
+ * drawn with (Distance From Camera when they have none).
+ *
+ * A stroke is anchored where the camera was when it first arrived, so it
+ * stays put in the world while the wearer looks around. Each stroke is a
+ * flat ribbon mesh facing that camera pose, tinted with the stroke's color;
+ * the line material should be unlit and double sided.
+ *
+ * With a RealtimeCursorBroadcaster assigned, this follows the broadcaster's
+ * room, which may have been joined by code.
+ */
+
+import { AnnotationChange, AnnotationStream, AnnotationStroke } from "../Core/Annotations";
+import { CursorMapping, CursorMappingStore } from "../Core/CursorMapping";
+import { Logger } from "../Core/Logger";
+import { SupabaseClient } from "../Core/SupabaseClient";
+import { RealtimeCursorBroadcaster } from "./RealtimeCursorBroadcaster";
+
+/** UInt16 indices: two vertices per point */
+const MAX_STROKE_POINTS = 30000;
+
+interface DrawnStroke {
+  stroke: AnnotationStroke;
+  sceneObject: SceneObject;
+  visual: RenderMeshVisual;
+}
+
+@component
+export class AnnotationRenderer extends BaseScriptComponent {
+
+  // Supabase Configuration
+  @input
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
+
+  @input
+  @hint("Room name for cursor synchronization")
+  public roomName: string = "spectacles-demo-room";
+
+  @input
+  @allowUndefined
+  @hint("Optional: Broadcaster whose room (possibly joined by code) the annotations follow")
+  public broadcaster: RealtimeCursorBroadcaster;
+
+  // Display
+  @input
+  @hint("Material for the lines (unlit, double sided); each stroke gets a tinted copy")
+  public lineMaterial: Material;
+
+  @input
+  @hint("Distance from camera for strokes drawn without a depth")
+  public distanceFromCamera: number = 2.0;
+
+  @input
+  @hint("Multiplier for the width the strokes were drawn with")
+  @widget(new SliderWidget(0.1, 5, 0.1))
+  public widthScale: number = 1.0;
+
+  @input
+  @hint("Most strokes kept in the scene; the oldest are removed first")
+  public maxStrokes: number = 100;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Text component showing the annotation status")
+  public statusText: Text;
+
+  @input
+  @hint("Show debug information in console")
+  public enableDebugLogs: boolean = true;
+
+  private stream: AnnotationStream;
+  private mappingStore: CursorMappingStore;
+  private cameraTransform: Transform;
+  private drawn: Map<string, DrawnStroke> = new Map();
+  private unsubscribeStream: () => void = null;
+  private logger = new Logger("AnnotationRenderer", { printToConsole: () => this.enableDebugLogs });
+
+  onAwake() {
+    // Get camera reference
+    this.cameraTransform = this.getSceneObject().getParent()?.getTransform() ||
+                          this.getSceneObject().getTransform();
+
+    this.createEvent("OnStartEvent").bind(() => {
+      this.initialize();
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      if (this.unsubscribeStream) {
+        this.unsubscribeStream();
+      }
+      if (this.stream) {
+        this.stream.stop();
+      }
+      if (this.mappingStore) {
+        this.mappingStore.stop();
+      }
+      this.removeAll();
+    });
+  }
+
+  private async initialize() {
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
+      this.updateStatusText("❌ Missing Supabase credentials");
+      return;
+    }
+
+    if (!this.lineMaterial) {
+      this.log("❌ No line material assigned");
+      this.updateStatusText("❌ No line material assigned");
+      return;
+    }
+
+    await this.supabaseClient.ready();
+
+    // The broadcaster may join a different room by its join code
+    if (this.broadcaster && await this.broadcaster.roomReady()) {
+      this.roomName = this.broadcaster.getRoomName();
+    }
+
+    this.mappingStore = new CursorMappingStore({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      roomName: this.roomName,
+      logger: (message) => this.log(message)
+    });
+    this.mappingStore.start();
+
+    this.stream = new AnnotationStream({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      roomName: this.roomName,
+      logger: (message) => this.log(message)
+    });
+    this.unsubscribeStream = this.stream.onChange((change) => this.handleChange(change));
+    this.stream.start();
+
+    this.log(`✏️ Drawing annotations of ${this.roomName}`);
+    this.updateStatus();
+  }
+
+  private handleChange(change: AnnotationChange) {
+    switch (change.type) {
+      case "stroke":
+        this.drawStroke(change.stroke);
+        break;
+      case "remove":
+        this.removeStroke(change.strokeId);
+        break;
+      case "clear":
+        this.removeAll();
+        this.log("🧹 Annotations cleared");
+        break;
+    }
+    this.updateStatus();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Strokes
+  // ---------------------------------------------------------------------------
+
+  private drawStroke(stroke: AnnotationStroke) {
+    let drawn = this.drawn.get(stroke.id);
+    if (!drawn) {
+      drawn = this.createStroke(stroke);
+      this.drawn.set(stroke.id, drawn);
+      this.trimStrokes();
+    }
+    drawn.stroke = stroke;
+    drawn.visual.mesh = this.buildMesh(stroke);
+  }
+
+  /**
+   * A root object at the camera's current pose, so the stroke stays in the world
+   */
+  private createStroke(stroke: AnnotationStroke): DrawnStroke {
+    const sceneObject = global.scene.createSceneObject(`Annotation ${stroke.userName}`);
+    const transform = sceneObject.getTransform();
+    transform.setWorldPosition(this.cameraTransform.getWorldPosition());
+    transform.setWorldRotation(this.cameraTransform.getWorldRotation());
+
+    const visual = sceneObject.createComponent("Component.RenderMeshVisual") as RenderMeshVisual;
+    visual.mainMaterial = this.lineMaterial.clone();
+    visual.mainPass.baseColor = this.parseColor(stroke.color);
+
+    this.log(`✏️ ${stroke.userName || "Someone"} is drawing`);
+    return { stroke: stroke, sceneObject: sceneObject, visual: visual };
+  }
+
+  /**
+   * Flat ribbon through the stroke's points in the anchor's local space
+   */
+  private buildMesh(stroke: AnnotationStroke): RenderMesh {
+    const mapping = this.getMapping();
+    const depth = stroke.depth != null && stroke.depth > 0 ? stroke.depth : this.distanceFromCamera;
+    const halfWidth = this.toLocalWidth(mapping, stroke.width, depth) * this.widthScale / 2;
+    const points = stroke.points.slice(0, MAX_STROKE_POINTS).map(point => mapping.webToCamera(point.x, point.y, depth));
+
+    const builder = new MeshBuilder([
+      { name: "position", components: 3 },
+      { name: "normal", components: 3 }
+    ]);
+    builder.topology = MeshTopology.Triangles;
+    builder.indexType = MeshIndexType.UInt16;
+
+    // A single point is a square dot
+    if (points.length === 1) {
+      const offset = new vec3(halfWidth, 0, 0);
+      points.splice(0, 1, points[0].sub(offset), points[0].add(offset));
+    }
+
+    for (let i = 0; i < points.length; i++) {
+      const previous = points[Math.max(0, i - 1)];
+      const next = points[Math.min(points.length - 1, i + 1)];
+      const direction = new vec3(next.x - previous.x, next.y - previous.y, 0);
+      const side = direction.length > 1e-6
+        ? new vec3(-direction.y, direction.x, 0).normalize().uniformScale(halfWidth)
+        : new vec3(0, halfWidth, 0);
+
+      const left = points[i].add(side);
+      const right = points[i].sub(side);
+      builder.appendVerticesInterleaved([
+        left.x, left.y, left.z, 0, 0, -1,
+        right.x, right.y, right.z, 0, 0, -1
+      ]);
+
+      if (i > 0) {
+        const base = (i - 1) * 2;
+        builder.appendIndices([base, base + 1, base + 2, base + 1, base + 3, base + 2]);
+      }
+    }
+
+    builder.updateMesh();
+    return builder.getMesh();
+  }
+
+  /**
+   * Width in percent of the web area's width -> camera-local width at `depth`
+   */
+  private toLocalWidth(mapping: CursorMapping, widthPercent: number, depth: number): number {
+    return mapping.webToCamera(widthPercent, 0, depth).sub(mapping.webToCamera(0, 0, depth)).length;
+  }
+
+  private trimStrokes() {
+    while (this.drawn.size > Math.max(1, this.maxStrokes)) {
+      this.removeStroke(this.drawn.keys().next().value);
+    }
+  }
+
+  private removeStroke(strokeId: string) {
+    const drawn = this.drawn.get(strokeId);
+    if (drawn) {
+      drawn.sceneObject.destroy();
+      this.drawn.delete(strokeId);
+    }
+  }
+
+  private removeAll() {
+    this.drawn.forEach(drawn => drawn.sceneObject.destroy());
+    this.drawn.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public API
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Delete every annotation of the room, for everyone
+   */
+  public async clearAnnotations(): Promise<boolean> {
+    if (!this.stream) {
+      return false;
+    }
+    const { error } = await this.stream.clear();
+    if (error) {
+      this.log(`❌ Could not clear annotations: ${error.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Strokes currently drawn, oldest first
+   */
+  public getStrokes(): AnnotationStroke[] {
+    return Array.from(this.drawn.values()).map(drawn => drawn.stroke);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private getMapping(): CursorMapping {
+    return this.mappingStore ? this.mappingStore.getMapping() : new CursorMapping();
+  }
+
+  /**
+   * "#RRGGBB" -> vec4 (default color when missing or malformed)
+   */
+  private parseColor(hex: string | null | undefined): vec4 {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex || "");
+    if (!match) {
+      return new vec4(1, 0.42, 0.42, 1);
+    }
+    return new vec4(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255, 1);
+  }
+
+  private updateStatus() {
+    this.updateStatusText(`✏️ ${this.drawn.size} annotation${this.drawn.size === 1 ? "" : "s"} in ${this.roomName}`);
+  }
+
+  private log(message: string) {
+    this.logger.log(message);
+  }
+
+  private updateStatusText(text: string) {
+    if (this.statusText) {
+      this.statusText.text = text;
+    }
+  }
+}
+
+/**
+ * Usage Instructions:
+ *
+ * 1. Apply supabase/migrations (cursor_annotations) and add a SupabaseClient to the scene
+ * 2. Attach this script to a child of the Camera object and assign an unlit, double sided line material
+ * 3. Assign the SupabaseClient and the room name used by the cursor components
+ * 4. Optional: Assign the RealtimeCursorBroadcaster to follow the room it joined
+ * 5. Turn on Annotate in the web controller and drag in the cursor area to draw
+ *
+ * Undo on the web removes that user's last stroke; Clear removes all of them,
+ * as does clearAnnotations() here.
+ */
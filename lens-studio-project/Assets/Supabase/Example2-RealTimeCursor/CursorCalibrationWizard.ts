@@ -0,0 +1,338 @@
+/**
+ * CursorCalibrationWizard for Lens Studio
+ *
+ * Fits the room's web-to-Lens cursor mapping (Core/CursorMapping.ts) to the
+ * user's real setup: the web controller shows a target in each corner of its
+ * cursor area and one in the middle, one at a time; for each, the user points
+ * the Spectacles cursor at the target on the PC screen and captures (the
+ * Capture button here, or "Capture" on the web page).
+ *
+ * Each capture pairs the target's web position with the cursor's position
+ * projected onto the mapping plane. After the last target, an affine
+ * transform is fitted, saved in cursor_calibrations for the room, and every
+ * RealtimeCursorFollower, RealtimeCursorBroadcaster and SimpleCursorBroadcaster
+ * in the room switches to it.
+ *
+ * The wizard runs over `cursor-calibration-<roomName>`:
+ *   calibration-start    web -> Lens   start the wizard
+ *   calibration-target   Lens -> web   show target { step, count, x, y }
+ *   calibration-capture  web -> Lens   capture the current target { step }
+ *   calibration-finished Lens -> web   { saved, rms_error, point_count, message }
+ *   calibration-cancel   both          stop without saving
+ */
+
+import { InteractorEvent } from "SpectaclesInteractionKit.lspkg/Core/Interactor/InteractorEvent";
+import { Interactable } from "SpectaclesInteractionKit.lspkg/Components/Interaction/Interactable/Interactable";
+import {
+  CALIBRATION_CANCEL,
+  CALIBRATION_CAPTURE,
+  CALIBRATION_FINISHED,
+  CALIBRATION_START,
+  CALIBRATION_TARGET,
+  CalibrationPoint,
+  CursorMapping,
+  CursorMappingStore,
+  calibrationChannelName
+} from "../Core/CursorMapping";
+import { Logger } from "../Core/Logger";
+import { BroadcastMessage, RealtimeChannel } from "../Core/RealtimeClient";
+import { SupabaseClient } from "../Core/SupabaseClient";
+
+/** Web positions of the targets, in the order they are shown */
+const CALIBRATION_TARGETS = [
+  { x: 10, y: 10, name: "top-left" },
+  { x: 90, y: 10, name: "top-right" },
+  { x: 90, y: 90, name: "bottom-right" },
+  { x: 10, y: 90, name: "bottom-left" },
+  { x: 50, y: 50, name: "center" }
+];
+
+@component
+export class CursorCalibrationWizard extends BaseScriptComponent {
+
+  // Supabase Configuration
+  @input
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
+
+  @input
+  @hint("Room name for cursor synchronization (the calibration is saved for this room)")
+  public roomName: string = "spectacles-demo-room";
+
+  // Calibration
+  @input
+  @hint("The Spectacles cursor the user points at the targets (e.g. the broadcaster's cursor object)")
+  public cursorObject: SceneObject;
+
+  @input
+  @hint("Distance of the mapping plane from the camera; remote cursors appear on it")
+  @widget(new SliderWidget(0.5, 10.0, 0.1))
+  public planeDistance: number = 2.0;
+
+  @input
+  @hint("Refuse to save a fit whose average error is above this, in percent of the web page")
+  @widget(new SliderWidget(1, 25, 1))
+  public maxErrorPercent: number = 8;
+
+  // Controls
+  @input
+  @allowUndefined
+  @hint("Optional: Button that starts the wizard (or cancels it while running)")
+  public startButton: Interactable;
+
+  @input
+  @allowUndefined
+  @hint("Optional: Button that captures the current target")
+  public captureButton: Interactable;
+
+  // Status Display
+  @input
+  @allowUndefined
+  @hint("Optional: Text component showing the wizard's instructions")
+  public statusText: Text;
+
+  @input
+  @hint("Show debug information in console")
+  public enableDebugLogs: boolean = true;
+
+  private store: CursorMappingStore;
+  private channel: RealtimeChannel;
+  private cameraTransform: Transform;
+  private points: CalibrationPoint[] = [];
+  /** Index of the target being captured; -1 when the wizard is not running */
+  private step: number = -1;
+  private logger = new Logger("CursorCalibration", { printToConsole: () => this.enableDebugLogs });
+
+  onAwake() {
+    this.cameraTransform = this.getSceneObject().getParent()?.getTransform() ||
+                          this.getSceneObject().getTransform();
+
+    this.bindButton(this.startButton, () => this.isRunning() ? this.cancel() : this.start());
+    this.bindButton(this.captureButton, () => this.capture());
+
+    this.createEvent("OnStartEvent").bind(() => {
+      this.initialize();
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      if (this.isRunning()) {
+        this.cancel();
+      }
+      if (this.channel) {
+        this.channel
+          .off("broadcast", this.onStartMessage)
+          .off("broadcast", this.onCaptureMessage)
+          .off("broadcast", this.onCancelMessage);
+        if (!this.channel.hasBindings()) {
+          this.supabaseClient.realtime.removeChannel(this.channel);
+        }
+      }
+      if (this.store) {
+        this.store.stop();
+      }
+    });
+
+    this.updateStatusText("📐 Calibration: press Start, or Calibrate on the web page");
+  }
+
+  private async initialize() {
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
+      this.updateStatusText("❌ Missing Supabase credentials");
+      return;
+    }
+
+    if (!this.cursorObject) {
+      this.log("❌ No cursor object assigned to point with");
+      this.updateStatusText("❌ No cursor object assigned");
+      return;
+    }
+
+    await this.supabaseClient.ready();
+
+    this.store = new CursorMappingStore({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      roomName: this.roomName,
+      logger: (message) => this.log(message)
+    });
+    this.store.start();
+
+    this.channel = this.supabaseClient.realtime.channel(calibrationChannelName(this.roomName), { private: true })
+      .on("broadcast", { event: CALIBRATION_START }, this.onStartMessage)
+      .on("broadcast", { event: CALIBRATION_CAPTURE }, this.onCaptureMessage)
+      .on("broadcast", { event: CALIBRATION_CANCEL }, this.onCancelMessage)
+      .subscribe();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Wizard
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Start (or restart) the wizard at the first target
+   */
+  public start() {
+    if (!this.store) {
+      this.log("❌ Cannot calibrate - not connected");
+      return;
+    }
+
+    this.points = [];
+    this.step = 0;
+    this.log("📐 Calibration started");
+    this.showTarget();
+  }
+
+  /**
+   * Pair the current target with where the cursor points now
+   */
+  public capture() {
+    if (!this.isRunning()) {
+      this.log("⚠️ Start the calibration before capturing");
+      return;
+    }
+
+    const target = CALIBRATION_TARGETS[this.step];
+    const local = CursorMapping.toCameraSpace(this.cursorObject.getTransform().getWorldPosition(), this.cameraTransform);
+    const plane = new CursorMapping(undefined, this.planeDistance).cameraToPlane(local);
+
+    this.points.push({ webX: target.x, webY: target.y, lensX: plane.x, lensY: plane.y });
+    this.log(`🎯 Captured ${target.name}: Web(${target.x}, ${target.y}) -> Plane(${plane.x.toFixed(2)}, ${plane.y.toFixed(2)})`);
+
+    this.step++;
+    if (this.step < CALIBRATION_TARGETS.length) {
+      this.showTarget();
+    } else {
+      this.finish();
+    }
+  }
+
+  /**
+   * Stop without saving; the room keeps its current mapping
+   */
+  public cancel(notify: boolean = true) {
+    if (!this.isRunning()) {
+      return;
+    }
+
+    this.step = -1;
+    this.points = [];
+    if (notify) {
+      this.send(CALIBRATION_CANCEL, {});
+    }
+    this.log("⏹️ Calibration cancelled");
+    this.updateStatusText("⏹️ Calibration cancelled - the previous mapping is kept");
+  }
+
+  public isRunning(): boolean {
+    return this.step >= 0;
+  }
+
+  private showTarget() {
+    const target = CALIBRATION_TARGETS[this.step];
+    this.send(CALIBRATION_TARGET, {
+      step: this.step,
+      count: CALIBRATION_TARGETS.length,
+      x: target.x,
+      y: target.y
+    });
+    this.updateStatusText(`📐 ${this.step + 1}/${CALIBRATION_TARGETS.length}: point the cursor at the ${target.name} target on the PC screen, then capture`);
+  }
+
+  /**
+   * Fit the captured points and save the mapping for the room
+   */
+  private async finish() {
+    const points = this.points;
+    this.step = -1;
+    this.points = [];
+
+    const fit = CursorMapping.fit(points, this.planeDistance);
+    if (!fit || fit.rmsError > this.maxErrorPercent) {
+      const message = fit
+        ? `Average error ${fit.rmsError.toFixed(1)}% is above ${this.maxErrorPercent}% - try again, holding the cursor still on each target`
+        : "The captured points do not span the screen - try again";
+      this.log(`❌ Calibration rejected: ${message}`);
+      this.updateStatusText(`❌ ${message}`);
+      this.send(CALIBRATION_FINISHED, { saved: false, message: message });
+      return;
+    }
+
+    const { error } = await this.store.save(fit, `spectacles:${this.getSceneObject().name}`);
+    if (error) {
+      this.log(`❌ Could not save the calibration: ${error.message}`);
+      this.updateStatusText("❌ Could not save the calibration");
+      this.send(CALIBRATION_FINISHED, { saved: false, message: error.message });
+      return;
+    }
+
+    this.log(`✅ Calibration saved: ${fit.pointCount} points, average error ${fit.rmsError.toFixed(1)}%`);
+    this.updateStatusText(`✅ Calibrated (average error ${fit.rmsError.toFixed(1)}%)`);
+    this.send(CALIBRATION_FINISHED, {
+      saved: true,
+      rms_error: fit.rmsError,
+      point_count: fit.pointCount
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Web controller events
+  // ---------------------------------------------------------------------------
+
+  private onStartMessage = (message: BroadcastMessage) => {
+    this.log("📐 Calibration requested from the web controller");
+    this.start();
+  };
+
+  private onCaptureMessage = (message: BroadcastMessage) => {
+    const payload = message.payload || {};
+    // A capture for a target we have moved past (e.g. a double click) is ignored
+    if (this.isRunning() && payload.step === this.step) {
+      this.capture();
+    }
+  };
+
+  private onCancelMessage = (message: BroadcastMessage) => {
+    this.cancel(false);
+  };
+
+  private send(event: string, payload: { [key: string]: any }) {
+    if (this.channel) {
+      this.channel.send({ type: "broadcast", event: event, payload: { room_name: this.roomName, ...payload } });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private bindButton(button: Interactable, action: () => void) {
+    if (button) {
+      button.onInteractorTriggerStart((event: InteractorEvent) => action());
+    }
+  }
+
+  private log(message: string) {
+    this.logger.log(message);
+  }
+
+  private updateStatusText(status: string) {
+    if (this.statusText) {
+      this.statusText.text = status;
+    }
+  }
+}
+
+/**
+ * Usage Instructions:
+ *
+ * 1. Apply supabase/migrations (cursor_calibrations) and add a SupabaseClient to the scene
+ * 2. Attach this script to a child of the camera (like the cursor components)
+ * 3. Assign the SupabaseClient, the room name and the cursor object you point with
+ * 4. Optional: Assign Start and Capture buttons and a status Text
+ * 5. Open the web controller in the same room and press Calibrate (or Start here)
+ * 6. For each target on the PC screen, point the cursor at it and capture
+ *
+ * The saved mapping applies to every cursor component in the room at once.
+ */
@@ -0,0 +1,192 @@
+/**
+ * PresenceRoster for Lens Studio
+ *
+ * Shows who is in the room on a Spectacles panel - name, device and role -
+ * the same roster the web controller lists (Core/RoomPresence.ts).
+ *
+ * With a RealtimeCursorBroadcaster assigned, the Spectacles user appears
+ * under the broadcaster's user id and the role follows the room's control
+ * lock: leader while it holds the lock, follower while someone else does,
+ * viewer when the room is free. It also takes the broadcaster's room, which
+ * may have been joined by code. Without one, this panel joins as a viewer.
+ */
+
+import { ControlLock } from "../Core/ControlLock";
+import { Logger } from "../Core/Logger";
+import { PresenceRole, RoomMember, RoomPresence } from "../Core/RoomPresence";
+import { SupabaseClient } from "../Core/SupabaseClient";
+import { RealtimeCursorBroadcaster } from "./RealtimeCursorBroadcaster";
+
+const ROLE_ICONS: { [role: string]: string } = {
+  leader: "👑",
+  follower: "👀",
+  viewer: "🙂"
+};
+
+const DEVICE_ICONS: { [device: string]: string } = {
+  pc: "🖥️",
+  spectacles: "🕶️"
+};
+
+@component
+export class PresenceRoster extends BaseScriptComponent {
+
+  // Supabase Configuration
+  @input
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
+
+  @input
+  @hint("Room name for cursor synchronization")
+  public roomName: string = "spectacles-demo-room";
+
+  // Identity
+  @input
+  @hint("Name shown for this Spectacles user")
+  public userName: string = "Spectacles";
+
+  @input
+  @hint("Color shown for this Spectacles user (\"#RRGGBB\"; the broadcaster's color wins)")
+  public userColor: string = "#4ECDC4";
+
+  @input
+  @allowUndefined
+  @hint("Optional: Broadcaster whose user id and control lock give this user's identity and role")
+  public broadcaster: RealtimeCursorBroadcaster;
+
+  @input
+  @hint("Seconds between heartbeats when Realtime presence is unavailable")
+  @widget(new SliderWidget(1, 30, 1))
+  public heartbeatSeconds: number = 5;
+
+  // Display
+  @input
+  @hint("Text component showing the roster")
+  public rosterText: Text;
+
+  @input
+  @hint("Show debug information in console")
+  public enableDebugLogs: boolean = true;
+
+  private presence: RoomPresence;
+  private controlLock: ControlLock | null = null;
+  private unsubscribeControl: () => void = null;
+  private logger = new Logger("PresenceRoster", { printToConsole: () => this.enableDebugLogs });
+
+  onAwake() {
+    this.createEvent("OnStartEvent").bind(() => {
+      this.initialize();
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      if (this.unsubscribeControl) {
+        this.unsubscribeControl();
+      }
+      if (this.presence) {
+        this.presence.stop();
+      }
+    });
+
+    this.updateRosterText("👥 Connecting...");
+  }
+
+  private async initialize() {
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
+      this.updateRosterText("❌ Missing Supabase credentials");
+      return;
+    }
+
+    await this.supabaseClient.ready();
+
+    // The broadcaster may join a different room by its join code
+    if (this.broadcaster && await this.broadcaster.roomReady()) {
+      this.roomName = this.broadcaster.getRoomName();
+    }
+
+    this.controlLock = this.broadcaster ? this.broadcaster.getControlLock() : null;
+    const userId = this.broadcaster && this.broadcaster.getUserId()
+      ? this.broadcaster.getUserId()
+      : "spectacles_" + Math.random().toString(36).substr(2, 9);
+    const color = this.broadcaster && this.broadcaster.getUserColor() ? this.broadcaster.getUserColor() : this.userColor;
+
+    this.presence = new RoomPresence({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      host: this,
+      roomName: this.roomName,
+      self: {
+        userId: userId,
+        userName: this.userName,
+        device: "spectacles",
+        color: color,
+        role: this.getRole()
+      },
+      heartbeatSeconds: this.heartbeatSeconds,
+      logger: (message) => this.log(message)
+    });
+    this.presence.onChange((members) => this.render(members));
+
+    if (this.controlLock) {
+      this.unsubscribeControl = this.controlLock.onChange(() => {
+        this.presence.update({ role: this.getRole() });
+      });
+    }
+
+    this.presence.start();
+    this.log(`👥 Joined the roster of ${this.roomName} as ${this.userName}`);
+  }
+
+  /**
+   * Our role from the broadcaster's control lock
+   */
+  private getRole(): PresenceRole {
+    if (!this.controlLock) {
+      return "viewer";
+    }
+    if (this.controlLock.isOwner()) {
+      return "leader";
+    }
+    return this.controlLock.getCurrentOwner() ? "follower" : "viewer";
+  }
+
+  private render(members: RoomMember[]) {
+    const lines = members.map(member => {
+      const role = ROLE_ICONS[member.role] || "";
+      const device = DEVICE_ICONS[member.device] || "";
+      const self = member.isSelf ? " (you)" : "";
+      return `${role} ${member.userName}${self} ${device} ${member.role}`;
+    });
+
+    const source = this.presence.isRealtime() ? "" : " (heartbeat)";
+    this.updateRosterText([`👥 ${this.roomName}: ${members.length} in room${source}`, ...lines].join("\n"));
+  }
+
+  /**
+   * Everyone in the room, e.g. for other scripts
+   */
+  public getMembers(): RoomMember[] {
+    return this.presence ? this.presence.getMembers() : [];
+  }
+
+  private log(message: string) {
+    this.logger.log(message);
+  }
+
+  private updateRosterText(text: string) {
+    if (this.rosterText) {
+      this.rosterText.text = text;
+    }
+  }
+}
+
+/**
+ * Usage Instructions:
+ *
+ * 1. Apply supabase/migrations (room_presence) and add a SupabaseClient to the scene
+ * 2. Attach this script to a Scene Object and assign a Text for the roster
+ * 3. Assign the SupabaseClient and the room name used by the cursor components
+ * 4. Optional: Assign the RealtimeCursorBroadcaster so the role follows the control lock
+ *
+ * The web controller lists the same roster, including this Spectacles user.
+ */
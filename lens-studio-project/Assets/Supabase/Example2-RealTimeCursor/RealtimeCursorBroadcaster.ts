@@ -7,27 +7,60 @@
  *
  * This creates a bridge between Supabase Realtime channels
  * and Lens Studio's HTTP-based approach.
+ *
+ * Each user has a single cursor_positions row (room_name, user_id) that every
+ * broadcast upserts; a sampled trail goes to cursor_position_history.
+ *
+ * Only the holder of the room's control lock (Core/ControlLock.ts) moves
+ * the shared cursor. Taking control requests the lock; when the web
+ * controller holds it, the request asks the PC to hand it over. Releasing
+ * hands the room back to the PC.
+ *
+ * The cursor's position is converted to web percentages with the room's
+ * shared cursor mapping (Core/CursorMapping.ts): it is projected along its
+ * view ray onto the mapping plane, so depth does not change where it shows.
+ * With Broadcast Pose on, the row also carries the cursor's depth (forward
+ * distance from the camera), world position and orientation relative to the
+ * camera, so a follower can place it at the same distance and angle.
+ *
+ * Only members of a room may read or write its cursors (Core/RoomService.ts).
+ * On start the broadcaster joins the room with Join Code, or uses Room Name
+ * when it is already a member, or creates that room and logs its join code.
+ */
+
+import { ControlChange, ControlLock } from "../Core/ControlLock";
+import { CursorMapping, CursorMappingStore } from "../Core/CursorMapping";
+import { CursorPositionsInsert, CursorPositionsRow } from "../Core/DatabaseTypes";
+import { LogView } from "../Core/LogConsole";
+import { Logger } from "../Core/Logger";
+import { RoomInfo, RoomService } from "../Core/RoomService";
+import { SupabaseClient } from "../Core/SupabaseClient";
+import { SupabaseError } from "../Core/SupabaseError";
+
+/**
+ * Optional 3D fields of a cursor row (supabase/migrations/20251020000014_cursor_depth.sql)
  */
+export type CursorPose = Pick<CursorPositionsInsert, "depth" | "world_x" | "world_y" | "world_z" | "rot_x" | "rot_y" | "rot_z" | "rot_w">;
 
 @component
 export class RealtimeCursorBroadcaster extends BaseScriptComponent {
 
   // Supabase Configuration
   @input
-  @hint("Your Supabase project URL (e.g., https://your-project.supabase.co)")
-  public supabaseUrl: string = "";
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
 
   @input
-  @hint("Your Supabase anon/public API key from the dashboard")
-  public supabaseAnonKey: string = "";
+  @hint("Room name for cursor synchronization (replaced by the joined room when a join code is set)")
+  public roomName: string = "spectacles-demo-room";
 
   @input
-  @hint("Room name for cursor synchronization")
-  public roomName: string = "spectacles-demo-room";
+  @hint("Join code of the room to join; leave empty to use Room Name")
+  public joinCode: string = "";
 
   @input
-  @hint("Internet Module for making HTTP requests")
-  public internetModule: InternetModule;
+  @hint("Create Room Name when it does not exist yet (the join code is logged)")
+  public createRoomIfMissing: boolean = true;
 
   // Broadcasting Configuration
   @input
@@ -36,11 +69,20 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   public broadcastInterval: number = 0.2;
 
   @input
-  @hint("Enable automatic cleanup of old cursor data")
+  @hint("Seconds between cursor_position_history rows per user (0 = no history)")
+  @widget(new SliderWidget(0, 10, 0.5))
+  public historyInterval: number = 1.0;
+
+  @input
+  @hint("Send the cursor's depth, world position and orientation with its web position")
+  public broadcastPose: boolean = true;
+
+  @input
+  @hint("Enable automatic removal of idle cursors")
   public enableCleanup: boolean = true;
 
   @input
-  @hint("Maximum age of cursor data in seconds before cleanup")
+  @hint("Seconds without updates before a cursor row is removed")
   public maxDataAge: number = 30;
 
   // Control Mode
@@ -48,6 +90,15 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   @hint("Control button for Spectacles to take control")
   public takeControlButton: SceneObject;
 
+  @input
+  @hint("Seconds the control lock is held without renewal (a crashed leader frees the room after this)")
+  @widget(new SliderWidget(2, 30, 1))
+  public controlLeaseSeconds: number = 10;
+
+  @input
+  @hint("Hand control to the PC when the web controller requests it")
+  public grantControlRequests: boolean = true;
+
   // Cursor Object to Track
   @input
   @hint("The cursor object to track and broadcast position")
@@ -63,35 +114,6 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   @hint("Show debug information in console")
   public enableDebugLogs: boolean = true;
 
-  // Coordinate Mapping Parameters
-  @input
-  @hint("Lens Studio X coordinate range (from -lsXRange to +lsXRange)")
-  @widget(new SliderWidget(10, 200, 1))
-  public lsXRange: number = 50;
-
-  @input
-  @hint("Lens Studio Y coordinate range (from -lsYRange to +lsYRange)")
-  @widget(new SliderWidget(10, 200, 1))
-  public lsYRange: number = 30;
-
-  @input
-  @hint("Scale factor for coordinate conversion")
-  @widget(new SliderWidget(0.1, 50.0, 0.1))
-  public coordinateScale: number = 10.0;
-
-  @input
-  @hint("Perspective scaling factor")
-  @widget(new SliderWidget(0.1, 20.0, 0.1))
-  public perspectiveScale: number = 10.0;
-
-  @input
-  @hint("Invert X axis mapping")
-  public invertX: boolean = false;
-
-  @input
-  @hint("Invert Y axis mapping")
-  public invertY: boolean = false;
-
   // Debug Visualization
   @input
   @hint("Show coordinate values in every broadcast log")
@@ -103,29 +125,42 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   public logFrequency: number = 10;
 
   // Private variables
-  private headers: { [key: string]: string };
-  private apiUrl: string;
   private cleanupTimer: any;
   private isInitialized: boolean = false;
   private userId: string;
   private userColor: string;
   private lastBroadcastTime: number = 0;
-  private isSpectaclesLeader: boolean = false;
-  private currentControlMode: string = "pc_leader";
-  private statusMessages: string[] = [];
-  private maxStatusLines: number = 8;
+  /** Last history row per user (ms) */
+  private lastHistoryTimes: { [userId: string]: number } = {};
+  private roomService: RoomService;
+  private room: RoomInfo | null = null;
+  private roomPromise: Promise<boolean>;
+  private controlLock: ControlLock;
+  private mappingStore: CursorMappingStore;
+  private broadcastTimer: DelayedCallbackEvent;
+  private broadcastCount: number = 0;
+  private currentStatus: string = "";
+  private logger = new Logger("CursorBroadcaster", { printToConsole: () => this.enableDebugLogs });
+  private statusView: LogView;
 
   onAwake() {
+    this.setupStatusView();
     this.log("🔧 RealtimeCursorBroadcaster awakening...");
     this.initializeSupabase();
     this.setupButtonInteraction();
 
-    this.createEvent("OnStartEvent").bind(() => {
+    this.createEvent("OnStartEvent").bind(async () => {
+      if (this.isInitialized) {
+        await this.supabaseClient.ready();
+      }
       this.startBroadcastService();
     });
 
     this.createEvent("OnDestroyEvent").bind(() => {
       this.stopBroadcastService();
+      if (this.statusView) {
+        this.statusView.destroy();
+      }
     });
   }
 
@@ -133,40 +168,110 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
    * Initialize Supabase connection parameters
    */
   private initializeSupabase() {
-    if (!this.supabaseUrl || !this.supabaseAnonKey) {
-      this.log("❌ Missing Supabase credentials");
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
       return;
     }
 
-    this.apiUrl = this.supabaseUrl.replace(/\/$/, '') + "/rest/v1/";
-
-    this.headers = {
-      "Content-Type": "application/json",
-      "apikey": this.supabaseAnonKey,
-      "Authorization": `Bearer ${this.supabaseAnonKey}`,
-      "Prefer": "return=representation"
-    };
-
     // Initialize user data
     this.userId = "spectacles_" + Math.random().toString(36).substr(2, 9);
     this.userColor = "#4ECDC4"; // Spectacles default color
 
+    this.roomService = new RoomService({
+      rest: this.supabaseClient.rest,
+      logger: (message) => this.log(message)
+    });
+
     this.isInitialized = true;
     this.log("✅ Supabase broadcaster initialized");
     this.updateCurrentStatus("Initialized");
   }
 
+  /**
+   * Resolves once this user is a member of the room (false when it could not join)
+   */
+  public roomReady(): Promise<boolean> {
+    if (!this.roomPromise) {
+      this.roomPromise = this.enterRoom();
+    }
+    return this.roomPromise;
+  }
+
+  /**
+   * Join or create the room, then set up the services that use its name
+   */
+  private async enterRoom(): Promise<boolean> {
+    if (!this.isInitialized) {
+      return false;
+    }
+
+    await this.supabaseClient.ready();
+    if (!this.supabaseClient.isSignedIn()) {
+      this.log("❌ Rooms need a signed-in user - enable anonymous sign-ins (Authentication > Providers)");
+      this.updateCurrentStatus("Not signed in");
+      return false;
+    }
+
+    const { room, error } = this.joinCode || this.createRoomIfMissing
+      ? await this.roomService.enterRoom(this.roomName, this.joinCode)
+      : await this.roomService.getRoom(this.roomName);
+
+    if (error || !room) {
+      this.log(error
+        ? `❌ Could not enter room: ${error.toString()}`
+        : this.joinCode ? `❌ No active room with join code ${this.joinCode}` : `❌ Not a member of ${this.roomName} - set its join code`);
+      this.updateCurrentStatus("Not in a room");
+      return false;
+    }
+
+    this.room = room;
+    this.roomName = room.name;
+    this.log(`🏠 Room ${room.name} - join code ${room.joinCode}`);
+    this.createRoomServices();
+    return true;
+  }
+
+  private createRoomServices() {
+    this.controlLock = new ControlLock({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      host: this,
+      roomName: this.roomName,
+      ownerId: this.userId,
+      ownerName: "Spectacles",
+      device: "spectacles",
+      leaseSeconds: this.controlLeaseSeconds,
+      grantRequests: this.grantControlRequests,
+      logger: (message) => this.log(message)
+    });
+    this.controlLock.onChange((change) => this.handleControlChange(change));
+
+    this.mappingStore = new CursorMappingStore({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      roomName: this.roomName,
+      logger: (message) => this.log(message)
+    });
+  }
+
   /**
    * Start the broadcast service
    */
-  private startBroadcastService() {
+  private async startBroadcastService() {
     if (!this.isInitialized) {
       this.log("❌ Cannot start service - not initialized");
       return;
     }
 
+    if (!(await this.roomReady())) {
+      this.log("❌ Cannot start service - not a member of the room");
+      return;
+    }
+
     this.log("🚀 Starting cursor broadcast service...");
-    
+    this.controlLock.start();
+    this.mappingStore.start();
+
     // Auto-start as Spectacles leader if cursor object is assigned
     if (this.cursorObject) {
       this.log("🎯 Cursor object detected - auto-starting as Spectacles leader");
@@ -194,6 +299,16 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
     if (this.cleanupTimer) {
       this.cleanupTimer.enabled = false;
     }
+    if (this.broadcastTimer) {
+      this.broadcastTimer.enabled = false;
+    }
+    // Frees the room right away instead of after the lease
+    if (this.controlLock) {
+      this.controlLock.stop();
+    }
+    if (this.mappingStore) {
+      this.mappingStore.stop();
+    }
     this.log("🛑 Cursor broadcast service stopped");
   }
 
@@ -201,25 +316,13 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
    * Test if the cursor_positions table exists and is accessible
    */
   private async testTableAccess() {
-    try {
-      const url = `${this.apiUrl}cursor_positions?limit=1`;
+    const { error } = await this.supabaseClient.rest.from("cursor_positions").select("id").limit(1);
 
-      const request = new Request(url, {
-        method: "GET",
-        headers: this.headers
-      });
-
-      const response = await this.internetModule.fetch(request);
-
-      if (response.ok) {
-        this.log("✅ cursor_positions table is accessible");
-      } else {
-        const errorText = await response.text();
-        this.log(`⚠️ Table access issue: ${response.status} - ${errorText}`);
-        this.log("💡 Create the cursor_positions table using the provided SQL schema");
-      }
-    } catch (error) {
-      this.log(`❌ Table access error: ${error}`);
+    if (!error) {
+      this.log("✅ cursor_positions table is accessible");
+    } else {
+      this.log(`⚠️ Table access issue: ${error.toString()}`);
+      this.log("💡 Create the cursor_positions table using the provided SQL schema");
     }
   }
 
@@ -232,7 +335,8 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
     userName: string,
     x: number,
     y: number,
-    color: string = "#FF6B6B"
+    color: string = "#FF6B6B",
+    pose: CursorPose = {}
   ): Promise<boolean> {
     if (!this.isInitialized) {
       this.log("❌ Cannot broadcast - not initialized");
@@ -240,32 +344,24 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
     }
 
     try {
-      const cursorData = {
+      const cursorData: CursorPositionsInsert = {
         room_name: this.roomName,
         user_id: userId,
         user_name: userName,
         x: x,
         y: y,
         color: color,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...pose
       };
 
-      const url = `${this.apiUrl}cursor_positions`;
-
-      const request = new Request(url, {
-        method: "POST",
-        headers: this.headers,
-        body: JSON.stringify(cursorData)
-      });
-
-      const response = await this.internetModule.fetch(request);
+      const error = await this.upsertCursorRow(cursorData);
 
-      if (response.ok) {
+      if (!error) {
         this.log(`📡 Broadcasted cursor: ${userName} (${x.toFixed(1)}, ${y.toFixed(1)})`);
         return true;
       } else {
-        const errorText = await response.text();
-        this.log(`❌ Broadcast failed: ${response.status} - ${errorText}`);
+        this.log(`❌ Broadcast failed: ${error.toString()}`);
         return false;
       }
     } catch (error) {
@@ -274,6 +370,34 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
     }
   }
 
+  /**
+   * Write a cursor's latest position (one row per room and user) and, every
+   * historyInterval seconds, a cursor_position_history row
+   */
+  private async upsertCursorRow(cursorData: CursorPositionsInsert): Promise<SupabaseError | null> {
+    const { error } = await this.supabaseClient.rest.from("cursor_positions")
+      .upsert(cursorData, { onConflict: "room_name,user_id", returning: "minimal" });
+
+    if (!error) {
+      this.recordHistory(cursorData);
+    }
+    return error;
+  }
+
+  private async recordHistory(cursorData: CursorPositionsInsert) {
+    const lastTime = this.lastHistoryTimes[cursorData.user_id] || 0;
+    if (this.historyInterval <= 0 || cursorData.timestamp - lastTime < this.historyInterval * 1000) {
+      return;
+    }
+    this.lastHistoryTimes[cursorData.user_id] = cursorData.timestamp;
+
+    const { error } = await this.supabaseClient.rest.from("cursor_position_history")
+      .insert(cursorData, { returning: "minimal" });
+    if (error) {
+      this.log(`⚠️ History write failed: ${error.toString()}`);
+    }
+  }
+
   /**
    * Start automatic cleanup of old cursor data
    */
@@ -290,51 +414,38 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   }
 
   /**
-   * Clean up old cursor data from the database
+   * Remove the rows of this room's cursors that stopped sending (one row
+   * per user, so this only deletes users that left)
    */
   private async cleanupOldCursorData() {
-    try {
-      const cutoffTime = Date.now() - (this.maxDataAge * 1000);
-      const url = `${this.apiUrl}cursor_positions?timestamp=lt.${cutoffTime}`;
-
-      const request = new Request(url, {
-        method: "DELETE",
-        headers: this.headers
-      });
-
-      const response = await this.internetModule.fetch(request);
-
-      if (response.ok) {
-        this.log(`🧹 Cleaned up old cursor data (older than ${this.maxDataAge}s)`);
-      }
-    } catch (error) {
-      this.log(`⚠️ Cleanup error: ${error}`);
+    const cutoffTime = Date.now() - (this.maxDataAge * 1000);
+    const { error } = await this.supabaseClient.rest.from("cursor_positions")
+      .delete()
+      .eq("room_name", this.roomName)
+      .lt("timestamp", cutoffTime);
+
+    if (error) {
+      this.log(`⚠️ Cleanup error: ${error.toString()}`);
+    } else {
+      this.log(`🧹 Removed idle cursors (no update for ${this.maxDataAge}s)`);
     }
   }
 
   /**
    * Get recent cursor positions for debugging
    */
-  public async getRecentCursorPositions(limit: number = 5): Promise<any[]> {
-    try {
-      const url = `${this.apiUrl}cursor_positions?room_name=eq.${this.roomName}&order=timestamp.desc&limit=${limit}`;
-
-      const request = new Request(url, {
-        method: "GET",
-        headers: this.headers
-      });
-
-      const response = await this.internetModule.fetch(request);
-
-      if (response.ok) {
-        const data = await response.json();
-        return data;
-      }
-    } catch (error) {
-      this.log(`❌ Error fetching cursor positions: ${error}`);
+  public async getRecentCursorPositions(limit: number = 5): Promise<CursorPositionsRow[]> {
+    const { data, error } = await this.supabaseClient.rest.from("cursor_positions")
+      .select("*")
+      .eq("room_name", this.roomName)
+      .order("timestamp", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.log(`❌ Error fetching cursor positions: ${error.toString()}`);
+      return [];
     }
-
-    return [];
+    return data || [];
   }
 
   /**
@@ -397,7 +508,11 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
    * Toggle between Spectacles leader and PC follower modes
    */
   private toggleSpectaclesControl() {
-    if (this.isSpectaclesLeader) {
+    if (!this.controlLock) {
+      this.log("⚠️ Not in a room yet");
+      return;
+    }
+    if (this.controlLock.isOwner()) {
       this.resignSpectaclesLeader();
     } else {
       this.becomeSpectaclesLeader();
@@ -408,69 +523,71 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
    * Stop being the leader and let PC take control
    */
   private resignSpectaclesLeader() {
-    this.isSpectaclesLeader = false;
-    this.currentControlMode = "pc_leader";
-
     this.log("🤝 Spectacles releasing control back to PC");
-    this.updateCurrentStatus("Active - PC Leader Mode");
 
-    // Notify PC that it should lead again
-    this.broadcastControlSignal("pc_leader");
+    // Stops the broadcast immediately, then frees the room for the PC
+    this.controlLock.release("pc");
   }
 
   /**
-   * Make Spectacles the leader (broadcasts cursor positions)
+   * Request the control lock; broadcasting starts once it is granted
    */
   private async becomeSpectaclesLeader() {
-    this.log("🚀 becomeSpectaclesLeader() called!");
+    if (!this.controlLock) return;
 
-    this.isSpectaclesLeader = true;
-    this.currentControlMode = "spectacles_leader";
+    this.log("🙋 Requesting control of the room...");
+    this.updateCurrentStatus("Requesting control...");
 
-    this.log("👑 Spectacles taking control!");
-    this.updateCurrentStatus("Active - Spectacles Leader Mode");
-
-    // Notify PC that Spectacles is now leader
-    this.log("📡 Broadcasting control signal...");
-    await this.broadcastControlSignal("spectacles_leader");
-
-    // Start broadcasting Spectacles cursor position
-    this.log("🎯 Starting Spectacles cursor broadcast...");
-    this.startSpectaclesCursorBroadcast();
+    const granted = await this.controlLock.request();
+    if (!granted) {
+      const owner = this.controlLock.getCurrentOwner();
+      this.log(`🚫 Control not granted${owner ? ` - ${owner.ownerName || owner.ownerId} keeps it` : ""}`);
+      this.updateCurrentStatus("Active - PC Leader Mode");
+    }
   }
 
   /**
-   * Broadcast control mode change
+   * React to control lock changes from this device or the web controller
    */
-  private async broadcastControlSignal(mode: string) {
-    if (!this.isInitialized) return;
+  private handleControlChange(change: ControlChange) {
+    if (change.owner && change.owner.ownerId === this.userId) {
+      this.log("👑 Spectacles taking control!");
+      this.updateCurrentStatus("Active - Spectacles Leader Mode");
 
-    const controlData = {
-      room_name: this.roomName,
-      user_id: this.userId + "_control",
-      user_name: "Spectacles Controller",
-      x: 0,
-      y: 0,
-      color: this.userColor,
-      timestamp: Date.now()
-    };
-
-    try {
-      const url = `${this.apiUrl}cursor_positions`;
-      const request = new Request(url, {
-        method: "POST",
-        headers: this.headers,
-        body: JSON.stringify(controlData)
-      });
+      this.log("🎯 Starting Spectacles cursor broadcast...");
+      this.startSpectaclesCursorBroadcast();
+      return;
+    }
 
-      const response = await this.internetModule.fetch(request);
+    switch (change.reason) {
+      case "granted":
+        this.log("🤝 PC requested control - handed over");
+        break;
+      case "lost":
+      case "expired":
+        this.log(`⚠️ Control ${change.reason} - stopped broadcasting`);
+        break;
+      case "remote":
+        // The PC offered the room to us
+        if (!change.owner && change.handoffTo === "spectacles" && this.cursorObject) {
+          this.log("🎁 PC handed control to Spectacles");
+          this.becomeSpectaclesLeader();
+          return;
+        }
+        break;
+    }
+    this.updateCurrentStatus(change.owner ? `Active - ${change.owner.ownerName || "PC"} Leading` : "Active - PC Leader Mode");
+  }
 
-      if (response.ok) {
-        this.log(`🎮 Control signal sent: ${mode}`);
-      }
-    } catch (error) {
-      this.log(`❌ Control signal failed: ${error}`);
+  /**
+   * Current control mode for the status display
+   */
+  private getControlMode(): string {
+    if (this.controlLock && this.controlLock.isOwner()) {
+      return "spectacles_leader";
     }
+    const owner = this.controlLock ? this.controlLock.getCurrentOwner() : null;
+    return owner ? `${owner.device}_leader (${owner.ownerName || owner.ownerId})` : "free";
   }
 
   /**
@@ -486,86 +603,86 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
       return;
     }
 
-    const broadcastPattern = this.createEvent("DelayedCallbackEvent");
-    let broadcastCount = 0;
-
-    const broadcast = async () => {
-      if (this.isSpectaclesLeader && this.cursorObject) {
-        // Get the actual world position of the cursor object
-        const transform = this.cursorObject.getTransform();
-        const worldPos = transform.getWorldPosition();
-
-        // Get camera transform for relative positioning
-        // Use the scene object's parent as camera reference, or fallback to scene object itself
-        const cameraTransform = this.getSceneObject().getParent()?.getTransform() ||
-                               this.getSceneObject().getTransform();
-        const cameraPos = cameraTransform.getWorldPosition();
-        const cameraForward = cameraTransform.forward;
-        const cameraRight = cameraTransform.right;
-        const cameraUp = cameraTransform.up;
-
-        // Calculate position relative to camera
-        const toObject = worldPos.sub(cameraPos);
-
-        // Project onto camera's right and up vectors to get 2D position
-        const rightComponent = toObject.dot(cameraRight);
-        const upComponent = toObject.dot(cameraUp);
-        const forwardComponent = toObject.dot(cameraForward);
-
-        // Convert from Lens Studio coordinate system to web percentage
-        // Using configurable parameters for coordinate mapping
-        // LS: X: -lsXRange to +lsXRange, Y: -lsYRange to +lsYRange
-        // Web: 0-100% (top-left to bottom-right)
-        
-        // Use configurable mapping based on the relative position
-        const screenScale = this.perspectiveScale / Math.max(Math.abs(forwardComponent), 1.0); // Perspective scaling
-        let lsX = rightComponent * screenScale * this.coordinateScale; // LS X coordinate
-        let lsY = upComponent * screenScale * this.coordinateScale;    // LS Y coordinate
-        
-        // Apply axis inversion if enabled
-        if (this.invertX) lsX = -lsX;
-        if (this.invertY) lsY = -lsY;
-        
-        // Convert LS coordinates to web percentage using configurable ranges
-        const webX = ((lsX + this.lsXRange) / (this.lsXRange * 2)) * 100;  // -lsXRange to +lsXRange -> 0 to 100%
-        const webY = ((this.lsYRange - lsY) / (this.lsYRange * 2)) * 100;   // +lsYRange to -lsYRange -> 0 to 100% (flip Y)
-
-        // Clamp to valid range
-        const clampedX = Math.max(0, Math.min(100, webX));
-        const clampedY = Math.max(0, Math.min(100, webY));
-
-        broadcastCount++;
-
-        // Log based on frequency setting or verbose mode
-        if (this.verboseLogging || (broadcastCount % this.logFrequency === 0)) {
-          this.log(`🔄 Broadcasting #${broadcastCount}: LS(${lsX.toFixed(1)}, ${lsY.toFixed(1)}) -> Web(${clampedX.toFixed(1)}, ${clampedY.toFixed(1)})`);
-          if (this.verboseLogging) {
-            this.log(`📍 World: (${worldPos.x.toFixed(2)}, ${worldPos.y.toFixed(2)}, ${worldPos.z.toFixed(2)})`);
-            this.log(`🎯 Components: right=${rightComponent.toFixed(2)}, up=${upComponent.toFixed(2)}, forward=${forwardComponent.toFixed(2)}`);
-            this.log(`⚙️ Scales: screen=${screenScale.toFixed(2)}, coord=${this.coordinateScale}, perspective=${this.perspectiveScale}`);
-          }
-        }
+    // One loop at a time, even when control is granted again
+    if (!this.broadcastTimer) {
+      this.broadcastTimer = this.createEvent("DelayedCallbackEvent");
+      this.broadcastTimer.bind(() => this.broadcastCursorObject());
+    }
+    this.broadcastTimer.enabled = true;
 
-        await this.broadcastSpectaclesCursor(this.userId, "Spectacles", clampedX, clampedY, this.userColor);
+    this.log("▶️ Starting first broadcast...");
+    this.broadcastCursorObject();
 
-        broadcastPattern.reset(this.broadcastInterval);
-      } else {
-        this.log("⏹️ Stopping broadcast - no longer leader or no cursor object");
+    this.log("🚀 Started Spectacles cursor broadcast from actual object");
+  }
+
+  /**
+   * Broadcast the cursor object's position once and schedule the next one
+   */
+  private async broadcastCursorObject() {
+    if (this.controlLock.isOwner() && this.cursorObject) {
+      // Get the actual world position of the cursor object
+      const transform = this.cursorObject.getTransform();
+      const worldPos = transform.getWorldPosition();
+
+      // Get camera transform for relative positioning
+      // Use the scene object's parent as camera reference, or fallback to scene object itself
+      const cameraTransform = this.getSceneObject().getParent()?.getTransform() ||
+                             this.getSceneObject().getTransform();
+
+      // Convert to web percentage (0-100%, top-left to bottom-right) with the room's mapping
+      const mapping = this.mappingStore.getMapping();
+      const web = mapping.worldToWeb(worldPos, cameraTransform);
+      const pose = this.broadcastPose ? this.getCursorPose(transform, cameraTransform) : {};
+
+      this.broadcastCount++;
+
+      // Log based on frequency setting or verbose mode
+      if (this.verboseLogging || (this.broadcastCount % this.logFrequency === 0)) {
+        this.log(`🔄 Broadcasting #${this.broadcastCount}: Web(${web.x.toFixed(1)}, ${web.y.toFixed(1)})`);
+        if (this.verboseLogging) {
+          const plane = mapping.cameraToPlane(CursorMapping.toCameraSpace(worldPos, cameraTransform));
+          this.log(`📍 World: (${worldPos.x.toFixed(2)}, ${worldPos.y.toFixed(2)}, ${worldPos.z.toFixed(2)})`);
+          this.log(`🎯 Plane: (${plane.x.toFixed(2)}, ${plane.y.toFixed(2)}) at ${mapping.planeDistance} (${this.mappingStore.getSource()} mapping)`);
+          if (pose.depth) {
+            this.log(`📏 Depth: ${pose.depth.toFixed(2)}`);
+          }
+        }
       }
-    };
 
-    broadcastPattern.bind(broadcast);
+      await this.broadcastSpectaclesCursor(this.userId, "Spectacles", web.x, web.y, this.userColor, pose);
 
-    this.log("▶️ Starting first broadcast...");
-    broadcast();
+      // Control may have moved on while the request was in flight
+      if (this.controlLock.isOwner()) {
+        this.broadcastTimer.reset(this.broadcastInterval);
+      }
+    } else {
+      this.log("⏹️ Stopping broadcast - no longer leader or no cursor object");
+    }
+  }
 
-    this.log("🚀 Started Spectacles cursor broadcast from actual object");
+  /**
+   * Depth and orientation relative to the camera, and the world position, of the cursor
+   */
+  private getCursorPose(cursor: Transform, camera: Transform): CursorPose {
+    const worldPos = cursor.getWorldPosition();
+    const rotation = CursorMapping.toCameraRotation(cursor.getWorldRotation(), camera);
+    return {
+      depth: CursorMapping.cameraDepth(CursorMapping.toCameraSpace(worldPos, camera)),
+      world_x: worldPos.x,
+      world_y: worldPos.y,
+      world_z: worldPos.z,
+      rot_x: rotation.x,
+      rot_y: rotation.y,
+      rot_z: rotation.z,
+      rot_w: rotation.w
+    };
   }
 
   /**
    * Enhanced broadcast method with device type for Spectacles
    */
-  private async broadcastSpectaclesCursor(userId: string, userName: string, x: number, y: number, color: string) {
+  private async broadcastSpectaclesCursor(userId: string, userName: string, x: number, y: number, color: string, pose: CursorPose = {}) {
     if (!this.isInitialized) return false;
 
     const now = Date.now();
@@ -577,38 +694,31 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
 
     this.lastBroadcastTime = now;
 
-    const cursorData = {
+    const cursorData: CursorPositionsInsert = {
       room_name: this.roomName,
       user_id: userId,
       user_name: userName,
       x: x,
       y: y,
       color: color,
-      timestamp: now
+      timestamp: now,
+      ...pose
     };
 
     // Debug log the data being sent
     this.log(`📤 Sending cursor data: room="${cursorData.room_name}", user_id="${cursorData.user_id}", pos=(${x.toFixed(1)}, ${y.toFixed(1)})`);
 
     try {
-      const url = `${this.apiUrl}cursor_positions`;
-      const request = new Request(url, {
-        method: "POST",
-        headers: this.headers,
-        body: JSON.stringify(cursorData)
-      });
-
-      const response = await this.internetModule.fetch(request);
+      const error = await this.upsertCursorRow(cursorData);
 
-      if (response.ok) {
+      if (!error) {
         // Only log every 20th successful broadcast to avoid spam
         if (Math.random() < 0.05) { // 5% chance = roughly every 20 broadcasts
           this.log(`📡 Broadcasting at (${x.toFixed(1)}, ${y.toFixed(1)})`);
         }
         return true;
       } else {
-        const errorText = await response.text();
-        this.log(`❌ Broadcast failed: ${response.status} - ${errorText}`);
+        this.log(`❌ Broadcast failed: ${error.toString()}`);
         this.log(`📋 Data sent: ${JSON.stringify(cursorData)}`);
         return false;
       }
@@ -619,58 +729,51 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   }
 
   /**
-   * Logging helper with status text update
+   * Logging helper (console, shared log store and status text)
    */
   private log(message: string) {
-    if (this.enableDebugLogs) {
-      print(`[CursorBroadcaster] ${message}`);
-    }
-
-    this.updateStatusText(message);
+    this.logger.log(message);
   }
 
   /**
-   * Update status text display
+   * Show a status header above this script's recent log lines
    */
-  private updateStatusText(message: string) {
+  private setupStatusView() {
     if (!this.statusText) return;
 
-    // Add timestamp to message
-    const timestamp = new Date().toLocaleTimeString();
-    const fullMessage = `[${timestamp}] ${message}`;
-
-    // Add to messages array
-    this.statusMessages.push(fullMessage);
-
-    // Keep only recent messages
-    if (this.statusMessages.length > this.maxStatusLines) {
-      this.statusMessages = this.statusMessages.slice(-this.maxStatusLines);
+    const textComponent = this.statusText.getComponent("Component.Text");
+    if (!textComponent) {
+      this.log("❌ Status object needs Text component");
+      return;
     }
 
-    // Update the text component
-    const textComponent = this.statusText.getComponent("Component.Text");
-    if (textComponent) {
-      textComponent.text = this.statusMessages.join('\n');
-    } else {
-      this.statusMessages.push("❌ Status object needs Text component");
+    this.statusView = new LogView(textComponent, {
+      filter: { tags: [this.logger.tag] },
+      maxLines: 5,
+      showTimestamps: true,
+      showTags: false,
+      header: () => this.getStatusHeader()
+    });
+  }
+
+  private getStatusHeader(): string {
+    if (!this.currentStatus) {
+      return "";
     }
+    return `🎮 Broadcaster Status: ${this.currentStatus}\n` +
+           `👤 User: ${this.userId}\n` +
+           `📡 Room: ${this.roomName}\n` +
+           `🔄 Mode: ${this.getControlMode()}\n` +
+           `---Recent Logs---\n`;
   }
 
   /**
    * Update current status display
    */
   private updateCurrentStatus(status: string) {
-    if (!this.statusText) return;
-
-    const textComponent = this.statusText.getComponent("Component.Text");
-    if (textComponent) {
-      const statusHeader = `🎮 Broadcaster Status: ${status}\n` +
-                          `👤 User: ${this.userId}\n` +
-                          `📡 Room: ${this.roomName}\n` +
-                          `🔄 Mode: ${this.currentControlMode}\n` +
-                          `---Recent Logs---\n`;
-
-      textComponent.text = statusHeader + this.statusMessages.slice(-5).join('\n');
+    this.currentStatus = status;
+    if (this.statusView) {
+      this.statusView.render();
     }
   }
 
@@ -681,7 +784,7 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
     const statusTimer = this.createEvent("DelayedCallbackEvent");
 
     const updateStatus = () => {
-      if (this.isSpectaclesLeader) {
+      if (this.controlLock.isOwner()) {
         this.updateCurrentStatus("🎯 Broadcasting Spectacles Cursor");
       } else {
         this.updateCurrentStatus("⏳ Waiting for PC Control");
@@ -704,6 +807,32 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
   public getRoomName(): string {
     return this.roomName;
   }
+
+  public hasControl(): boolean {
+    return !!this.controlLock && this.controlLock.isOwner();
+  }
+
+  /**
+   * The joined room with its join code (null until roomReady() resolves true)
+   */
+  public getRoom(): RoomInfo | null {
+    return this.room;
+  }
+
+  public getUserId(): string {
+    return this.userId;
+  }
+
+  public getUserColor(): string {
+    return this.userColor;
+  }
+
+  /**
+   * The room's control lock, e.g. to follow who leads (null until roomReady() resolves true)
+   */
+  public getControlLock(): ControlLock | null {
+    return this.controlLock || null;
+  }
 }
 
 /**
@@ -718,17 +847,18 @@ export class RealtimeCursorBroadcaster extends BaseScriptComponent {
  *   y FLOAT NOT NULL,
  *   color TEXT DEFAULT '#FF6B6B',
  *   timestamp BIGINT NOT NULL,
- *   created_at TIMESTAMPTZ DEFAULT NOW()
+ *   created_at TIMESTAMPTZ DEFAULT NOW(),
+ *   CONSTRAINT cursor_positions_room_user_key UNIQUE (room_name, user_id)
  * );
  *
+ * -- cursor_position_history and the trigger that ignores late upserts:
+ * -- supabase/migrations/20251020000009_cursor_latest_positions.sql
+ *
  * -- Create index for performance
  * CREATE INDEX idx_cursor_positions_room_timestamp
  * ON cursor_positions(room_name, timestamp DESC);
  *
- * -- Enable Row Level Security (optional)
- * ALTER TABLE cursor_positions ENABLE ROW LEVEL SECURITY;
- *
- * -- Allow anonymous access (for development)
- * CREATE POLICY "Allow anonymous access" ON cursor_positions
- * FOR ALL USING (true);
+ * -- Row Level Security: only signed-in members of a room can read or write
+ * -- its cursors, see the room member policies in
+ * -- supabase/migrations/20251020000012_rooms.sql
  */
\ No newline at end of file
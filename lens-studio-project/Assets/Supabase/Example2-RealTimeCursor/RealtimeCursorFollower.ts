@@ -1,96 +1,222 @@
 /**
  * RealtimeCursorFollower for Lens Studio
  *
- * This component receives real-time cursor positions from a PC client
- * and moves a 3D object in AR space to follow the cursor movements.
+ * This component receives real-time cursor positions from PC clients
+ * and moves 3D objects in AR space to follow the cursor movements.
  *
  * Prerequisites:
- * 1. Add InternetModule to your project
- * 2. Configure Supabase credentials
- * 3. Assign a Scene Object to follow cursor movements
+ * 1. Add a SupabaseClient component to your scene and configure it
+ * 2. Assign a cursor prefab (one cursor per web user, tinted with the
+ *    user's color and labelled with their name) or a single Scene Object
+ *    that follows the most recent cursor
+ *
+ * Only members of a room may read its cursors (Core/RoomService.ts). On
+ * start the follower joins the room with Join Code, or uses Room Name when
+ * this user is already a member of it (e.g. through a broadcaster).
+ *
+ * Cursor positions arrive as `cursor-move` broadcasts on the private Supabase
+ * Realtime channel `cursor-room-<roomName>` (the same channel the web
+ * controller uses).
+ * If the channel cannot be joined (or the socket does not open in time, or
+ * the connection drops), the follower polls the cursor_positions table over
+ * REST until the channel is joined again.
+ *
+ * Cursors that send nothing for Stale Timeout seconds, or whose page sends
+ * `cursor-leave`, are destroyed.
+ *
+ * PC cursors are ignored while a Spectacles device holds the room's control
+ * lock (Core/ControlLock.ts); in single cursor mode only the PC that holds
+ * the lock moves the object.
+ *
+ * With Use Jitter Buffer on, each cursor plays its updates back Playout Delay
+ * ms late through a Core/JitterBuffer.ts: updates are reordered by timestamp
+ * and interpolated, and the cursor keeps moving along its last velocity when
+ * updates are late. Otherwise cursors lerp towards the newest update.
+ *
+ * Web positions are placed with the room's shared cursor mapping
+ * (Core/CursorMapping.ts), the one CursorCalibrationWizard fits and both
+ * broadcasters use, along the mapped view ray at the depth the cursor was sent
+ * with (Distance From Camera for rows without one). A cursor sent with an
+ * orientation is turned to it relative to the camera, and with Use World
+ * Position a cursor sent with a world position is placed there instead.
+ *
+ * A session recorded by the web controller (Core/CursorSession.ts) can be
+ * replayed instead of the live room: set Replay Session Id, or call
+ * startReplay() and the other replay methods. Live updates are ignored while
+ * a replay runs, and the recorded control owner stands in for the lock.
+ */
+
+import { ControlLock } from "../Core/ControlLock";
+import { CursorMapping, CursorMappingStore } from "../Core/CursorMapping";
+import { SESSION_EVENT_CONTROL, SESSION_EVENT_MOVE, SessionEvent, SessionPlayer, loadCursorSession } from "../Core/CursorSession";
+import { CursorPositionsRow } from "../Core/DatabaseTypes";
+import { JitterBuffer } from "../Core/JitterBuffer";
+import { Logger } from "../Core/Logger";
+import { RealtimeChannel } from "../Core/RealtimeClient";
+import { RoomService } from "../Core/RoomService";
+import { SupabaseClient } from "../Core/SupabaseClient";
+
+/**
+ * Fields the follower needs, from a cursor_positions row or a cursor-move broadcast
  */
+type CursorUpdate = Pick<CursorPositionsRow, "user_id" | "user_name" | "x" | "y"> & Partial<CursorPositionsRow>;
+
+/**
+ * One remote user's cursor
+ */
+interface RemoteCursor {
+  userId: string;
+  userName: string;
+  color: vec4;
+  /** Sender timestamp of the latest update, used to drop out-of-order ones */
+  lastTimestamp: number;
+  /** Local time of the latest update, used for stale detection */
+  lastSeen: number;
+  targetPosition: vec3;
+  currentPosition: vec3;
+  /** Forward distance from the camera the cursor was sent with (or Distance From Camera) */
+  depth: number;
+  currentDepth: number;
+  /** Sender's world position, when it is used as is (Use World Position) */
+  worldTarget: vec3 | null;
+  /** Orientation relative to the camera; null when the sender sends none */
+  rotation: quat | null;
+  /** Timestamped web positions (0-100) waiting to be played back */
+  buffer: JitterBuffer;
+  /** Prefab instance; null in single cursor mode */
+  sceneObject: SceneObject | null;
+  label: Text | null;
+}
+
+const DEFAULT_CURSOR_COLOR = new vec4(1, 0.42, 0.42, 1);
 
 @component
 export class RealtimeCursorFollower extends BaseScriptComponent {
 
   // Supabase Configuration
   @input
-  @hint("Your Supabase project URL (e.g., https://your-project.supabase.co)")
-  public supabaseUrl: string = "";
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
 
   @input
-  @hint("Your Supabase anon/public API key from the dashboard")
-  public supabaseAnonKey: string = "";
+  @hint("Room name for cursor synchronization (replaced by the joined room when a join code is set)")
+  public roomName: string = "spectacles-demo-room";
 
   @input
-  @hint("Room name for cursor synchronization")
-  public roomName: string = "spectacles-demo-room";
+  @hint("Join code of the room to join; leave empty to follow Room Name, which this user must already be a member of")
+  public joinCode: string = "";
+
+  @input
+  @hint("Receive cursor-move broadcasts over Supabase Realtime (falls back to REST polling)")
+  public useRealtime: boolean = true;
 
   @input
-  @hint("Internet Module for making HTTP requests")
-  public internetModule: InternetModule;
+  @hint("Only follow PC cursors while no Spectacles device holds the room's control lock")
+  public honorControlLock: boolean = true;
 
   // Cursor Object Configuration
   @input
-  @hint("Scene object that will follow the cursor position")
+  @allowUndefined
+  @hint("Prefab instantiated once per remote user (tinted and labelled); leave empty to move Cursor Object instead")
+  public cursorPrefab: ObjectPrefab;
+
+  @input
+  @allowUndefined
+  @hint("Single scene object that follows the most recent cursor (used when no prefab is assigned)")
   public cursorObject: SceneObject;
 
   @input
-  @hint("Movement speed/smoothing factor (0.1 = smooth, 1.0 = instant)")
-  @widget(new SliderWidget(0.05, 1.0, 0.1))
-  public movementSpeed: number = 0.15;
+  @hint("Tint each cursor's visuals with the user's color")
+  public tintCursors: boolean = true;
+
+  @input
+  @hint("Seconds without updates before a cursor is removed")
+  @widget(new SliderWidget(1, 60, 1))
+  public staleTimeoutSeconds: number = 5;
+
+  @input
+  @hint("Maximum number of cursors shown at once")
+  @widget(new SliderWidget(1, 32, 1))
+  public maxCursors: number = 8;
 
   @input
-  @hint("Scale factor for cursor movements (1.0 = normal, 2.0 = double movement)")
-  @widget(new SliderWidget(0.1, 50, 0.1))
-  public movementScale: number = 1.5;
+  @hint("Play cursor updates back in timestamp order with interpolation and prediction (off = lerp to the newest update)")
+  public useJitterBuffer: boolean = true;
 
   @input
-  @hint("Height offset for the cursor object (Y position)")
-  @widget(new SliderWidget(-2.0, 2.0, 0.1))
-  public heightOffset: number = 0.0;
+  @hint("How far playback trails the sender in ms; higher hides more network jitter")
+  @widget(new SliderWidget(0, 500, 10))
+  public playoutDelayMs: number = 120;
 
   @input
-  @hint("Distance from camera (Z position)")
+  @hint("How long a cursor keeps moving along its last velocity when updates are late, in ms")
+  @widget(new SliderWidget(0, 500, 10))
+  public maxExtrapolationMs: number = 250;
+
+  @input
+  @hint("Movement speed/smoothing factor when the jitter buffer is off (0.1 = smooth, 1.0 = instant)")
+  @widget(new SliderWidget(0.05, 1.0, 0.1))
+  public movementSpeed: number = 0.15;
+
+  @input
+  @hint("Distance from camera along the mapped view ray (the room's calibration decides the direction)")
   @widget(new SliderWidget(0.5, 10.0, 0.1))
   public distanceFromCamera: number = 2.0;
 
-  // Visual Feedback
   @input
-  @hint("Show debug information in console")
-  public enableDebugLogs: boolean = true;
+  @hint("Place cursors at the depth they were sent with (Distance From Camera when they have none)")
+  public useCursorDepth: boolean = true;
 
   @input
-  @hint("Text object to display cursor status (optional)")
-  @allowUndefined
-  public statusText: Text;
+  @hint("Turn cursors to the orientation they were sent with, relative to the camera")
+  public useCursorRotation: boolean = true;
 
-  // Coordinate Mapping Parameters
   @input
-  @hint("Lens Studio X coordinate range (from -lsXRange to +lsXRange)")
-  @widget(new SliderWidget(10, 200, 1))
-  public lsXRange: number = 50;
+  @hint("Place cursors at the sender's world position when it sends one (only for devices sharing a world origin)")
+  public useWorldPosition: boolean = false;
 
+  // Replay
   @input
-  @hint("Lens Studio Y coordinate range (from -lsYRange to +lsYRange)")
-  @widget(new SliderWidget(10, 200, 1))
-  public lsYRange: number = 30;
+  @hint("Recorded session id to replay on start (empty = follow the live room)")
+  public replaySessionId: string = "";
 
   @input
-  @hint("Invert X axis mapping")
-  public invertX: boolean = false;
+  @hint("Replay speed (1 = real time)")
+  @widget(new SliderWidget(0.25, 4, 0.25))
+  public replaySpeed: number = 1;
 
+  // Visual Feedback
   @input
-  @hint("Invert Y axis mapping")
-  public invertY: boolean = false;
+  @hint("Show debug information in console")
+  public enableDebugLogs: boolean = true;
+
+  @input
+  @hint("Text object to display cursor status (optional)")
+  @allowUndefined
+  public statusText: Text;
 
   // Private variables
   private isConnected: boolean = false;
   private targetPosition: vec3 = vec3.zero();
   private currentPosition: vec3 = vec3.zero();
   private lastCursorUpdate: number = 0;
+  /** User moving the single cursor object */
+  private followedUserId: string | null = null;
   private cameraTransform: Transform;
-  private activeUsers: Map<string, any> = new Map();
+  private activeUsers: Map<string, RemoteCursor> = new Map();
+  /** Users ignored because maxCursors was reached, logged once each */
+  private rejectedUsers: { [userId: string]: boolean } = {};
+  private cursorChannel: RealtimeChannel;
+  private isPolling: boolean = false;
+  private pollTimer: DelayedCallbackEvent = null;
+  /** Observes the control lock without ever taking it */
+  private controlLock: ControlLock;
+  private mappingStore: CursorMappingStore;
+  /** Set while a recorded session replays instead of the live room */
+  private replayPlayer: SessionPlayer | null = null;
+  /** Local timestamp given to the latest replayed update */
+  private lastReplayTimestamp: number = 0;
+  private logger = new Logger("RealtimeCursor", { printToConsole: () => this.enableDebugLogs });
 
   onAwake() {
     if (this.cursorObject) {
@@ -107,7 +233,28 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
     });
 
     this.createEvent("UpdateEvent").bind(() => {
+      this.updateReplay();
       this.updateCursorPosition();
+      this.removeStaleCursors();
+    });
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      // The realtime socket is shared, so only leave our own channel
+      // (cleared first, so its CLOSED status does not start polling)
+      if (this.cursorChannel) {
+        const channel = this.cursorChannel;
+        this.cursorChannel = null;
+        this.supabaseClient.realtime.removeChannel(channel);
+      }
+      this.stopCursorPolling();
+      if (this.controlLock) {
+        this.controlLock.stop();
+      }
+      if (this.mappingStore) {
+        this.mappingStore.stop();
+      }
+      this.activeUsers.forEach(cursor => this.destroyCursor(cursor));
+      this.activeUsers.clear();
     });
 
     this.updateStatusText("🔄 Initializing...");
@@ -117,25 +264,134 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
    * Initialize connection to Supabase Realtime
    */
   private async initializeConnection() {
-    if (!this.supabaseUrl || !this.supabaseAnonKey) {
-      this.log("❌ Missing Supabase credentials");
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
       this.updateStatusText("❌ Missing Supabase credentials");
       return;
     }
 
-    if (!this.cursorObject) {
-      this.log("❌ No cursor object assigned");
-      this.updateStatusText("❌ No cursor object assigned");
+    if (!this.cursorPrefab && !this.cursorObject) {
+      this.log("❌ No cursor prefab or cursor object assigned");
+      this.updateStatusText("❌ No cursor prefab or object assigned");
       return;
     }
 
     this.log("🔄 Connecting to Supabase Realtime...");
     this.updateStatusText("🔄 Connecting to Supabase...");
 
-    // Start polling for cursor updates
-    // Note: This is a simplified approach for Lens Studio
-    // In a production app, you might want to use WebSocket connections
-    this.startCursorPolling();
+    await this.supabaseClient.ready();
+
+    if (!(await this.enterRoom())) {
+      this.updateStatusText("❌ Not in a room");
+      return;
+    }
+
+    this.mappingStore = new CursorMappingStore({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      roomName: this.roomName,
+      logger: (message) => this.log(message)
+    });
+    this.mappingStore.start();
+
+    if (this.honorControlLock) {
+      this.controlLock = new ControlLock({
+        rest: this.supabaseClient.rest,
+        realtime: this.supabaseClient.realtime,
+        host: this,
+        roomName: this.roomName
+      });
+      this.controlLock.onChange((change) => {
+        const owner = change.owner;
+        this.log(owner ? `🎮 ${owner.ownerName || owner.ownerId} (${owner.device}) has control` : "🎮 Control is free");
+      });
+      this.controlLock.start();
+    }
+
+    if (this.useRealtime) {
+      this.startRealtimeListener();
+    } else {
+      this.startCursorPolling();
+    }
+
+    if (this.replaySessionId) {
+      this.startReplay(this.replaySessionId);
+    }
+  }
+
+  /**
+   * Join the room by its code, or check that we are a member of Room Name
+   */
+  private async enterRoom(): Promise<boolean> {
+    if (!this.supabaseClient.isSignedIn()) {
+      this.log("❌ Rooms need a signed-in user - enable anonymous sign-ins (Authentication > Providers)");
+      return false;
+    }
+
+    const roomService = new RoomService({
+      rest: this.supabaseClient.rest,
+      logger: (message) => this.log(message)
+    });
+    const { room, error } = this.joinCode
+      ? await roomService.joinRoom(this.joinCode)
+      : await roomService.getRoom(this.roomName);
+
+    if (error || !room) {
+      this.log(error
+        ? `❌ Could not enter room: ${error.toString()}`
+        : this.joinCode ? `❌ No active room with join code ${this.joinCode}` : `❌ Not a member of ${this.roomName} - set its join code`);
+      return false;
+    }
+
+    this.roomName = room.name;
+    this.log(`🏠 Following room ${room.name}`);
+    return true;
+  }
+
+  /**
+   * Listen for cursor-move broadcasts from the web controller
+   */
+  private startRealtimeListener() {
+    this.cursorChannel = this.supabaseClient.realtime.channel(`cursor-room-${this.roomName}`, { private: true })
+      .on("broadcast", { event: "cursor-move" }, (message) => {
+        const cursorData: CursorUpdate = message.payload;
+
+        // Only follow PC cursors, never our own Spectacles broadcasts
+        if (!cursorData || `${cursorData.user_id}`.indexOf("pc_") !== 0) {
+          return;
+        }
+        this.handleCursorUpdate(cursorData);
+      })
+      .on("broadcast", { event: "cursor-leave" }, (message) => {
+        const payload = message.payload;
+        if (payload && !this.replayPlayer && this.activeUsers.has(payload.user_id)) {
+          this.removeCursor(payload.user_id, "left");
+        }
+      })
+      .subscribe((status) => {
+        if (!this.cursorChannel) {
+          return;
+        }
+        if (status === "SUBSCRIBED") {
+          this.isConnected = true;
+          this.log("✅ Realtime channel joined! Listening for cursor movements...");
+          this.updateStatusText("✅ Connected! Waiting for cursor...");
+          this.stopCursorPolling();
+        } else if (!this.isPolling) {
+          this.log(`⚠️ Realtime unavailable (${status}) - falling back to polling`);
+          this.startCursorPolling();
+        }
+      });
+
+    // A socket that never opens reports no status at all
+    const connectTimeout = this.createEvent("DelayedCallbackEvent");
+    connectTimeout.bind(() => {
+      if (this.cursorChannel && !this.cursorChannel.isJoined() && !this.isPolling) {
+        this.log("⚠️ Realtime did not connect in time - falling back to polling");
+        this.startCursorPolling();
+      }
+    });
+    connectTimeout.reset(this.supabaseClient.realtime.getTimeoutSeconds());
   }
 
   /**
@@ -143,30 +399,39 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
    * This simulates real-time updates for Lens Studio
    */
   private startCursorPolling() {
-    const pollInterval = this.createEvent("DelayedCallbackEvent");
-
-    const poll = () => {
-      this.checkForCursorUpdates();
-      pollInterval.reset(0.1); // Poll every 100ms
-    };
-
-    pollInterval.bind(poll);
-    poll(); // Start immediately
+    if (!this.pollTimer) {
+      this.pollTimer = this.createEvent("DelayedCallbackEvent");
+      this.pollTimer.bind(() => {
+        this.checkForCursorUpdates();
+        this.pollTimer.reset(0.1); // Poll every 100ms
+      });
+    }
+    this.isPolling = true;
+    this.pollTimer.enabled = true;
+    this.pollTimer.reset(0); // Start immediately
 
     this.isConnected = true;
     this.log("✅ Connected! Listening for cursor movements...");
     this.updateStatusText("✅ Connected! Waiting for cursor...");
   }
 
+  /**
+   * Stop the REST fallback once the channel is joined (again)
+   */
+  private stopCursorPolling() {
+    if (!this.isPolling) {
+      return;
+    }
+    this.isPolling = false;
+    this.pollTimer.enabled = false;
+    this.log("✅ Realtime channel joined - polling stopped");
+  }
+
   /**
    * Check for cursor updates from PC client
-   * This would ideally use Supabase Realtime, but for simplicity
-   * we'll simulate it with stored cursor data
+   * Fallback path used when the Realtime channel is disabled or unavailable
    */
   private async checkForCursorUpdates() {
-    // For this demo, we'll check a simple table for cursor positions
-    // In reality, you'd use Supabase Realtime channels
-
     if (this.enableDebugLogs) {
       this.log(`🔍 Polling for cursor data in room: ${this.roomName}`);
     }
@@ -174,34 +439,30 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
     try {
       // Filter for PC cursor data only (user_id starts with 'pc_')
       // This prevents the follower from following Spectacles cursor data
-      const url = `${this.supabaseUrl.replace(/\/$/, '')}/rest/v1/cursor_positions?room_name=eq.${this.roomName}&user_id=like.pc_%25&order=timestamp.desc&limit=1`;
-
-      const headers = {
-        "Content-Type": "application/json",
-        "apikey": this.supabaseAnonKey,
-        "Authorization": `Bearer ${this.supabaseAnonKey}`
-      };
-
-      const request = new Request(url, {
-        method: "GET",
-        headers: headers
-      });
-
-      const response = await this.internetModule.fetch(request);
-
-      if (response.ok) {
-        const data = await response.json();
+      // One row per user: multiple cursors read every recent user, single cursor the latest one
+      const since = Date.now() - this.staleTimeoutSeconds * 1000;
+      const limit = this.isMultiCursor() ? this.maxCursors : 1;
+      const { data, error } = await this.supabaseClient.rest.from("cursor_positions")
+        .select("*")
+        .eq("room_name", this.roomName)
+        .like("user_id", "pc_%")
+        .gte("timestamp", since)
+        .order("timestamp", { ascending: false })
+        .limit(limit);
 
+      if (!error) {
         if (this.enableDebugLogs) {
           this.log(`📊 Received ${data.length} cursor records`);
         }
 
         if (data.length > 0) {
-          const cursorData = data[0];
-          if (this.enableDebugLogs) {
-            this.log(`📍 PC Cursor data: x=${cursorData.x}, y=${cursorData.y}, user=${cursorData.user_name}`);
-          }
-          this.handleCursorUpdate(cursorData);
+          // Newest first, one row per user
+          data.forEach(cursorData => {
+            if (this.enableDebugLogs) {
+              this.log(`📍 PC Cursor data: x=${cursorData.x}, y=${cursorData.y}, user=${cursorData.user_name}`);
+            }
+            this.handleCursorUpdate(cursorData);
+          });
         } else {
           if (this.enableDebugLogs) {
             this.log(`⚠️ No PC cursor data found for room: ${this.roomName}`);
@@ -210,7 +471,7 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
         }
       } else {
         if (this.enableDebugLogs) {
-          this.log(`❌ HTTP ${response.status}: ${response.statusText}`);
+          this.log(`❌ Polling failed: ${error.toString()}`);
         }
       }
     } catch (error) {
@@ -222,78 +483,458 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
   }
 
   /**
-   * Handle incoming cursor position data
+   * Handle incoming cursor position data; live data is ignored during a replay
    */
-  private handleCursorUpdate(cursorData: any) {
+  private handleCursorUpdate(cursorData: CursorUpdate, fromReplay: boolean = false) {
+    if (!!this.replayPlayer !== fromReplay) {
+      return;
+    }
+    if (!this.isFollowAllowed(cursorData.user_id)) {
+      return;
+    }
+
     const timestamp = cursorData.timestamp || Date.now();
+    const existing = this.activeUsers.get(cursorData.user_id);
 
-    // Ignore old updates
-    if (timestamp <= this.lastCursorUpdate) {
+    // Ignore old updates (per user, so one slow client cannot hide the others);
+    // the jitter buffer can still slot them in before its playback reaches them
+    if (existing && timestamp <= existing.lastTimestamp) {
+      if (this.useJitterBuffer) {
+        existing.buffer.push({ x: cursorData.x, y: cursorData.y, timestamp: timestamp });
+      }
+      return;
+    }
+    if (!this.isMultiCursor() && timestamp <= this.lastCursorUpdate) {
       return;
     }
 
-    this.lastCursorUpdate = timestamp;
-
-    // Convert web percentage (0-100) to Lens Studio coordinate system
-    // Web: 0-100% (top-left to bottom-right)
-    // LS:  X: -lsXRange to +lsXRange, Y: -lsYRange to +lsYRange
-    let lsX = (cursorData.x / 100) * (this.lsXRange * 2) - this.lsXRange; // 0-100% -> -lsXRange to +lsXRange
-    let lsY = this.lsYRange - (cursorData.y / 100) * (this.lsYRange * 2);  // 0-100% -> +lsYRange to -lsYRange (flip Y)
-    
-    // Apply axis inversion if enabled
-    if (this.invertX) lsX = -lsX;
-    if (this.invertY) lsY = -lsY;
-
-    // Calculate new target position relative to camera
-    this.targetPosition = new vec3(
-      (lsX / this.lsXRange) * this.movementScale,  // Normalize to -1 to +1 range for movement
-      (lsY / this.lsYRange) * this.movementScale + this.heightOffset,  // Normalize to -1 to +1 range for movement
-      this.distanceFromCamera
-    );
-
-    this.log(`📍 Cursor: ${cursorData.user_name} -> Web(${cursorData.x.toFixed(1)}, ${cursorData.y.toFixed(1)}) -> LS(${lsX.toFixed(1)}, ${lsY.toFixed(1)})`);
-    this.updateStatusText(`📍 Following: ${cursorData.user_name}`);
-
-    // Store user info
-    this.activeUsers.set(cursorData.user_id, {
-      name: cursorData.user_name,
-      color: cursorData.color,
-      lastSeen: timestamp
-    });
+    const cursor = existing || this.createCursor(cursorData);
+    if (!cursor) {
+      return;
+    }
+
+    this.lastCursorUpdate = Math.max(this.lastCursorUpdate, timestamp);
+    cursor.lastTimestamp = timestamp;
+    cursor.lastSeen = Date.now();
+
+    // Name or color changed on the web page
+    if (cursorData.user_name && cursorData.user_name !== cursor.userName) {
+      cursor.userName = cursorData.user_name;
+      if (cursor.label) {
+        cursor.label.text = cursor.userName;
+      }
+    }
+    if (cursorData.color) {
+      const color = this.parseColor(cursorData.color);
+      if (!color.equal(cursor.color)) {
+        cursor.color = color;
+        this.applyTint(cursor);
+      }
+    }
+
+    cursor.buffer.push({ x: cursorData.x, y: cursorData.y, timestamp: timestamp });
+    this.updateCursorPose(cursor, cursorData);
+    cursor.targetPosition = cursor.worldTarget
+      ? CursorMapping.toCameraSpace(cursor.worldTarget, this.cameraTransform)
+      : this.toRelativePosition(cursorData.x, cursorData.y, cursor.depth);
+
+    if (!this.isMultiCursor()) {
+      // Single cursor mode: the shared object follows whoever moved last
+      this.targetPosition = cursor.targetPosition;
+      this.followedUserId = cursor.userId;
+    } else if (!existing) {
+      // Appear where the first update points instead of flying in from the camera
+      cursor.currentPosition = cursor.targetPosition;
+      cursor.currentDepth = cursor.depth;
+    }
+
+    if (this.enableDebugLogs) {
+      this.log(`📍 Cursor: ${cursor.userName} -> Web(${cursorData.x.toFixed(1)}, ${cursorData.y.toFixed(1)}) -> LS(${cursor.targetPosition.x.toFixed(2)}, ${cursor.targetPosition.y.toFixed(2)})`);
+    }
+    this.updateFollowingStatus(this.isMultiCursor() ? null : cursor.userName);
   }
 
   /**
-   * Smoothly update cursor object position
+   * Smoothly update cursor object positions
    */
   private updateCursorPosition() {
-    if (!this.cursorObject || !this.isConnected) {
+    if (!this.isConnected) {
+      return;
+    }
+
+    const now = Date.now();
+
+    if (!this.isMultiCursor()) {
+      if (!this.cursorObject) {
+        return;
+      }
+      const followed = this.followedUserId ? this.activeUsers.get(this.followedUserId) : undefined;
+      if (followed && followed.worldTarget) {
+        this.targetPosition = this.trackWorldTarget(followed);
+      }
+      const played = followed ? this.playBack(followed, now) : null;
+      // Smoothly interpolate to target position
+      this.currentPosition = played || vec3.lerp(this.currentPosition, this.targetPosition, this.movementSpeed);
+      this.cursorObject.getTransform().setWorldPosition(this.toWorldPosition(this.currentPosition));
+      if (followed) {
+        this.applyRotation(this.cursorObject.getTransform(), followed);
+      }
       return;
     }
 
-    // Smoothly interpolate to target position
-    this.currentPosition = vec3.lerp(
-      this.currentPosition,
-      this.targetPosition,
-      this.movementSpeed
-    );
+    this.activeUsers.forEach(cursor => {
+      if (cursor.worldTarget) {
+        this.trackWorldTarget(cursor);
+      }
+      cursor.currentPosition = this.playBack(cursor, now) ||
+        vec3.lerp(cursor.currentPosition, cursor.targetPosition, this.movementSpeed);
+      const transform = cursor.sceneObject.getTransform();
+      transform.setWorldPosition(this.toWorldPosition(cursor.currentPosition));
+      this.applyRotation(transform, cursor);
+    });
+  }
 
-    // Apply position relative to camera
+  /**
+   * Take the depth, orientation and world position of an update (when sent and enabled)
+   */
+  private updateCursorPose(cursor: RemoteCursor, cursorData: CursorUpdate) {
+    cursor.depth = this.useCursorDepth && cursorData.depth != null && cursorData.depth > 0 ? cursorData.depth : this.distanceFromCamera;
+
+    const hasRotation = cursorData.rot_w != null && cursorData.rot_x != null && cursorData.rot_y != null && cursorData.rot_z != null;
+    cursor.rotation = this.useCursorRotation && hasRotation
+      ? new quat(cursorData.rot_w, cursorData.rot_x, cursorData.rot_y, cursorData.rot_z)
+      : null;
+
+    const hasWorld = cursorData.world_x != null && cursorData.world_y != null && cursorData.world_z != null;
+    cursor.worldTarget = this.useWorldPosition && hasWorld
+      ? new vec3(cursorData.world_x, cursorData.world_y, cursorData.world_z)
+      : null;
+  }
+
+  /**
+   * A world target stays put while the camera moves, so its camera-relative
+   * position is refreshed every frame
+   */
+  private trackWorldTarget(cursor: RemoteCursor): vec3 {
+    cursor.targetPosition = CursorMapping.toCameraSpace(cursor.worldTarget, this.cameraTransform);
+    return cursor.targetPosition;
+  }
+
+  private applyRotation(transform: Transform, cursor: RemoteCursor) {
+    if (!cursor.rotation) {
+      return;
+    }
+    const target = CursorMapping.fromCameraRotation(cursor.rotation, this.cameraTransform);
+    transform.setWorldRotation(quat.slerp(transform.getWorldRotation(), target, this.movementSpeed));
+  }
+
+  /**
+   * Jitter buffer position of a cursor at `now`, or null to fall back to the lerp
+   */
+  private playBack(cursor: RemoteCursor, now: number): vec3 | null {
+    // World targets are placed directly
+    if (!this.useJitterBuffer || cursor.worldTarget) {
+      return null;
+    }
+    cursor.buffer.setPlayoutDelay(this.playoutDelayMs);
+    const position = cursor.buffer.sample(now);
+    // The buffer plays x / y back; depth changes are eased separately
+    cursor.currentDepth += (cursor.depth - cursor.currentDepth) * this.movementSpeed;
+    return position ? this.toRelativePosition(position.x, position.y, cursor.currentDepth) : null;
+  }
+
+  /**
+   * Web percentage (0-100) -> position relative to the camera, `depth` along the view ray
+   */
+  private toRelativePosition(x: number, y: number, depth: number = this.distanceFromCamera): vec3 {
+    return this.getMapping().webToCamera(x, y, depth);
+  }
+
+  private getMapping(): CursorMapping {
+    return this.mappingStore ? this.mappingStore.getMapping() : new CursorMapping();
+  }
+
+  /**
+   * Camera-relative position -> world space
+   */
+  private toWorldPosition(relativePosition: vec3): vec3 {
     const cameraPos = this.cameraTransform.getWorldPosition();
     const cameraRot = this.cameraTransform.getWorldRotation();
+    return cameraPos.add(cameraRot.multiplyVec3(relativePosition));
+  }
 
-    // Transform relative position to world space
-    const worldPosition = cameraPos.add(cameraRot.multiplyVec3(this.currentPosition));
+  // ---------------------------------------------------------------------------
+  // Cursor lifecycle
+  // ---------------------------------------------------------------------------
 
-    this.cursorObject.getTransform().setWorldPosition(worldPosition);
+  private isMultiCursor(): boolean {
+    return !!this.cursorPrefab;
+  }
+
+  /**
+   * Track a new user; in multi cursor mode instantiate, tint and label their cursor
+   * Returns null when maxCursors is reached
+   */
+  private createCursor(cursorData: CursorUpdate): RemoteCursor | null {
+    if (this.isMultiCursor() && this.activeUsers.size >= this.maxCursors) {
+      if (!this.rejectedUsers[cursorData.user_id]) {
+        this.rejectedUsers[cursorData.user_id] = true;
+        this.log(`⚠️ ${this.maxCursors} cursors shown already - ignoring ${cursorData.user_name}`);
+      }
+      return null;
+    }
+
+    const cursor: RemoteCursor = {
+      userId: cursorData.user_id,
+      userName: cursorData.user_name,
+      color: this.parseColor(cursorData.color),
+      lastTimestamp: 0,
+      lastSeen: Date.now(),
+      targetPosition: vec3.zero(),
+      currentPosition: vec3.zero(),
+      depth: this.distanceFromCamera,
+      currentDepth: this.distanceFromCamera,
+      worldTarget: null,
+      rotation: null,
+      buffer: new JitterBuffer({
+        playoutDelayMs: this.playoutDelayMs,
+        maxExtrapolationMs: this.maxExtrapolationMs
+      }),
+      sceneObject: null,
+      label: null
+    };
+
+    if (this.isMultiCursor()) {
+      cursor.sceneObject = this.cursorPrefab.instantiate(this.getSceneObject());
+      cursor.sceneObject.name = `Cursor ${cursor.userName}`;
+      cursor.label = this.findComponent<Text>(cursor.sceneObject, "Component.Text");
+      if (cursor.label) {
+        cursor.label.text = cursor.userName;
+      }
+
+      // Own material copies, so tinting one cursor does not tint the others
+      if (this.tintCursors) {
+        this.findComponents<RenderMeshVisual>(cursor.sceneObject, "Component.RenderMeshVisual").forEach(visual => {
+          if (visual.mainMaterial) {
+            visual.mainMaterial = visual.mainMaterial.clone();
+          }
+        });
+      }
+      this.applyTint(cursor);
+    } else {
+      cursor.currentPosition = this.currentPosition;
+    }
+
+    this.activeUsers.set(cursor.userId, cursor);
+    delete this.rejectedUsers[cursor.userId];
+    this.log(`👋 ${cursor.userName} joined (${this.activeUsers.size} active)`);
+    return cursor;
+  }
+
+  /**
+   * Destroy cursors whose user has not sent anything for staleTimeoutSeconds
+   * (replayed cursors go stale in session time, see updateReplay)
+   */
+  private removeStaleCursors() {
+    if (this.replayPlayer) {
+      return;
+    }
+    const cutoff = Date.now() - this.staleTimeoutSeconds * 1000;
+    const stale: string[] = [];
+    this.activeUsers.forEach(cursor => {
+      if (cursor.lastSeen < cutoff) {
+        stale.push(cursor.userId);
+      }
+    });
+    stale.forEach(userId => this.removeCursor(userId, "stale"));
+  }
+
+  private removeCursor(userId: string, reason: string) {
+    const cursor = this.activeUsers.get(userId);
+    if (!cursor) {
+      return;
+    }
+    this.destroyCursor(cursor);
+    this.activeUsers.delete(userId);
+    if (this.followedUserId === userId) {
+      this.followedUserId = null;
+    }
+    this.log(`👋 ${cursor.userName} ${reason === "left" ? "left" : "went idle"} (${this.activeUsers.size} active)`);
+    this.updateFollowingStatus(null);
+  }
+
+  /**
+   * Destroy every cursor, e.g. when switching between the live room and a replay
+   */
+  private clearCursors() {
+    this.activeUsers.forEach(cursor => this.destroyCursor(cursor));
+    this.activeUsers.clear();
+    this.followedUserId = null;
+    this.lastCursorUpdate = 0;
+  }
+
+  private destroyCursor(cursor: RemoteCursor) {
+    if (cursor.sceneObject) {
+      cursor.sceneObject.destroy();
+      cursor.sceneObject = null;
+    }
+  }
+
+  private applyTint(cursor: RemoteCursor) {
+    if (!cursor.sceneObject || !this.tintCursors) {
+      return;
+    }
+    this.findComponents<RenderMeshVisual>(cursor.sceneObject, "Component.RenderMeshVisual").forEach(visual => {
+      visual.mainPass.baseColor = cursor.color;
+    });
+  }
+
+  /**
+   * "#RRGGBB" -> vec4 (default color when missing or malformed)
+   */
+  private parseColor(hex: string | null | undefined): vec4 {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex || "");
+    if (!match) {
+      return DEFAULT_CURSOR_COLOR;
+    }
+    return new vec4(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255, 1);
+  }
+
+  private findComponent<T extends Component>(root: SceneObject, type: keyof ComponentNameMap): T | null {
+    const components = this.findComponents<T>(root, type);
+    return components.length > 0 ? components[0] : null;
+  }
+
+  /**
+   * Components of a type on an object and all of its descendants
+   */
+  private findComponents<T extends Component>(root: SceneObject, type: keyof ComponentNameMap): T[] {
+    const found: T[] = root.getComponents(type) as T[];
+    for (let i = 0; i < root.getChildrenCount(); i++) {
+      found.push(...this.findComponents<T>(root.getChild(i), type));
+    }
+    return found;
+  }
+
+  /**
+   * Whether the control lock lets this PC user move cursors
+   */
+  private isFollowAllowed(userId: string): boolean {
+    const owner = this.getControlOwner();
+    if (!owner) {
+      return true;
+    }
+    if (owner.device === "spectacles") {
+      return false;
+    }
+    return this.isMultiCursor() || owner.ownerId === userId;
+  }
+
+  /**
+   * Holder of the control lock, or the recorded one during a replay
+   */
+  private getControlOwner(): { ownerId: string; device: string } | null {
+    if (!this.honorControlLock) {
+      return null;
+    }
+    if (this.replayPlayer) {
+      return this.replayPlayer.getState().controlOwner;
+    }
+    return this.controlLock ? this.controlLock.getCurrentOwner() : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Replay
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Play the recorded events due this frame through the normal cursor path
+   */
+  private updateReplay() {
+    if (!this.replayPlayer) {
+      return;
+    }
+
+    const update = this.replayPlayer.update();
+    if (update.reset) {
+      this.rebuildReplayCursors();
+    } else {
+      update.events.forEach(event => this.applyReplayEvent(event));
+    }
+
+    // Pausing keeps the cursors; they go stale when the session says so
+    const state = this.replayPlayer.getState();
+    const cutoff = state.positionMs - this.staleTimeoutSeconds * 1000;
+    const stale: string[] = [];
+    this.activeUsers.forEach(cursor => {
+      const recorded = state.cursors[cursor.userId];
+      if (!recorded || recorded.movedAtMs < cutoff) {
+        stale.push(cursor.userId);
+      }
+    });
+    stale.forEach(userId => this.removeCursor(userId, "stale"));
+  }
+
+  private applyReplayEvent(event: SessionEvent) {
+    if (event[1] === SESSION_EVENT_MOVE) {
+      this.replayCursor(event[2]);
+    } else if (event[1] === SESSION_EVENT_CONTROL) {
+      this.log(event[2] ? `🎬 ${event[2]} (${event[3]}) had control` : "🎬 Control was free");
+    }
+  }
+
+  /**
+   * After a seek: show the cursors as they were at the new position
+   */
+  private rebuildReplayCursors() {
+    this.clearCursors();
+    const state = this.replayPlayer.getState();
+    const cutoff = state.positionMs - this.staleTimeoutSeconds * 1000;
+    Object.keys(state.cursors).forEach(userId => {
+      if (state.cursors[userId].movedAtMs >= cutoff) {
+        this.replayCursor(userId);
+      }
+    });
+  }
+
+  /**
+   * Feed a recorded cursor's latest position to handleCursorUpdate; the
+   * recording has no sender timestamps, so local ones keep it in order
+   */
+  private replayCursor(userId: string) {
+    const recorded = this.replayPlayer.getState().cursors[userId];
+    // Like the live listener, only PC cursors
+    if (!recorded || userId.indexOf("pc_") !== 0) {
+      return;
+    }
+    this.lastReplayTimestamp = Math.max(Date.now(), this.lastReplayTimestamp + 1);
+    this.handleCursorUpdate({
+      user_id: recorded.userId,
+      user_name: recorded.userName,
+      x: recorded.x,
+      y: recorded.y,
+      color: recorded.color,
+      depth: recorded.depth,
+      timestamp: this.lastReplayTimestamp
+    }, true);
+  }
+
+  private updateFollowingStatus(followedName: string | null) {
+    if (followedName) {
+      this.updateStatusText(`📍 Following: ${followedName}`);
+      return;
+    }
+    const names = Array.from(this.activeUsers.values()).map(cursor => cursor.userName);
+    this.updateStatusText(names.length > 0
+      ? `👥 ${names.length} cursor(s): ${names.join(", ")}`
+      : "✅ Connected! Waiting for cursor...");
   }
 
   /**
    * Logging helper
    */
   private log(message: string) {
-    if (this.enableDebugLogs) {
-      print(`[RealtimeCursor] ${message}`);
-    }
+    this.logger.log(message);
   }
 
   /**
@@ -312,18 +953,106 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
     return Array.from(this.activeUsers.keys());
   }
 
-  public getUserInfo(userId: string): any {
-    return this.activeUsers.get(userId);
+  public getUserInfo(userId: string): { name: string; color: vec4; lastSeen: number } | undefined {
+    const cursor = this.activeUsers.get(userId);
+    return cursor ? { name: cursor.userName, color: cursor.color, lastSeen: cursor.lastSeen } : undefined;
+  }
+
+  /**
+   * Cursor instance of a remote user (multi cursor mode), e.g. to attach effects
+   */
+  public getCursorObject(userId: string): SceneObject | null {
+    const cursor = this.activeUsers.get(userId);
+    return cursor ? cursor.sceneObject : null;
   }
 
   public isCurrentlyConnected(): boolean {
     return this.isConnected;
   }
 
+  public isUsingRealtime(): boolean {
+    return !!this.cursorChannel && this.cursorChannel.isJoined();
+  }
+
   public getCurrentCursorPosition(): vec3 {
     return this.currentPosition;
   }
 
+  /**
+   * Replay a recorded session of this room instead of the live cursors
+   */
+  public async startReplay(sessionId: string): Promise<boolean> {
+    const { recording, error } = await loadCursorSession(this.supabaseClient.rest, sessionId);
+    if (error || !recording) {
+      this.log(`❌ Could not load session ${sessionId}: ${error ? error.message : "not found"}`);
+      this.updateStatusText("❌ Recorded session not found");
+      return false;
+    }
+
+    this.clearCursors();
+    this.replayPlayer = new SessionPlayer(recording);
+    this.replayPlayer.setSpeed(this.replaySpeed);
+    this.replayPlayer.play();
+    this.isConnected = true;
+
+    this.log(`🎬 Replaying ${recording.session.title || sessionId} (${(recording.durationMs / 1000).toFixed(1)}s, ${recording.events.length} events)`);
+    this.updateStatusText(`🎬 Replaying ${recording.session.title || "session"}`);
+    return true;
+  }
+
+  public pauseReplay() {
+    if (this.replayPlayer) {
+      this.replayPlayer.pause();
+    }
+  }
+
+  public resumeReplay() {
+    if (this.replayPlayer) {
+      this.replayPlayer.play();
+    }
+  }
+
+  public seekReplay(seconds: number) {
+    if (this.replayPlayer) {
+      this.replayPlayer.seek(seconds * 1000);
+    }
+  }
+
+  public setReplaySpeed(speed: number) {
+    this.replaySpeed = speed;
+    if (this.replayPlayer) {
+      this.replayPlayer.setSpeed(speed);
+    }
+  }
+
+  /**
+   * End the replay and follow the live room again
+   */
+  public stopReplay() {
+    if (!this.replayPlayer) {
+      return;
+    }
+    this.replayPlayer = null;
+    this.clearCursors();
+    this.log("🎬 Replay stopped - following the live room");
+    this.updateFollowingStatus(null);
+  }
+
+  /**
+   * Replay progress in seconds, or null while following the live room
+   */
+  public getReplayState(): { positionSeconds: number; durationSeconds: number; playing: boolean; speed: number } | null {
+    if (!this.replayPlayer) {
+      return null;
+    }
+    return {
+      positionSeconds: this.replayPlayer.getPosition() / 1000,
+      durationSeconds: this.replayPlayer.getDuration() / 1000,
+      playing: this.replayPlayer.isPlaying(),
+      speed: this.replayPlayer.getSpeed()
+    };
+  }
+
   /**
    * Manual cursor position for testing
    */
@@ -342,12 +1071,16 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
 /**
  * Usage Instructions:
  *
- * 1. Create a Scene Object for the cursor (e.g., a sphere or 3D pointer)
+ * 1. Create a cursor prefab (e.g., a sphere with a child Text for the name),
+ *    or a single Scene Object for the cursor
  * 2. Attach this script to any Scene Object
- * 3. Configure Supabase credentials in the inspector
- * 4. Assign the cursor object to follow
+ * 3. Assign the scene's SupabaseClient in the inspector
+ * 4. Assign the cursor prefab (one cursor per web user) or the cursor object
+ *    (follows the latest cursor)
  * 5. Create the cursor_positions table in Supabase (see documentation)
- * 6. Run the PC cursor controller to send cursor data
+ * 6. Run the PC cursor controller and enter its room's join code as Join Code
+ * 7. Optional: Enter a Replay Session Id (listed under Sessions on the web
+ *    controller) to replay a recorded session of the room
  *
  * Database Table Schema:
  * CREATE TABLE cursor_positions (
@@ -359,6 +1092,7 @@ export class RealtimeCursorFollower extends BaseScriptComponent {
  *   y FLOAT NOT NULL,
  *   color TEXT,
  *   timestamp BIGINT NOT NULL,
- *   created_at TIMESTAMPTZ DEFAULT NOW()
+ *   created_at TIMESTAMPTZ DEFAULT NOW(),
+ *   UNIQUE (room_name, user_id)
  * );
  */
\ No newline at end of file
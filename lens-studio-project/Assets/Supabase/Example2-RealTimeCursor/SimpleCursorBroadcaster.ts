@@ -6,27 +6,42 @@
  * 
  * This version removes all the complex control modes and just focuses on
  * getting the cursor position and sending it to the web app.
+ *
+ * Positions are converted with the room's shared cursor mapping
+ * (Core/CursorMapping.ts), the same one RealtimeCursorBroadcaster and
+ * RealtimeCursorFollower use; run CursorCalibrationWizard to fit it.
+ *
+ * Only members of a room may write its cursors (Core/RoomService.ts). On
+ * start the broadcaster joins the room with Join Code, or uses Room Name
+ * when it is already a member, or creates that room and logs its join code.
  */
 
+import { CursorMappingStore } from "../Core/CursorMapping";
+import { CursorPositionsInsert } from "../Core/DatabaseTypes";
+import { LogView } from "../Core/LogConsole";
+import { Logger } from "../Core/Logger";
+import { RoomService } from "../Core/RoomService";
+import { SupabaseClient } from "../Core/SupabaseClient";
+
 @component
 export class SimpleCursorBroadcaster extends BaseScriptComponent {
 
   // Supabase Configuration
   @input
-  @hint("Your Supabase project URL (e.g., https://your-project.supabase.co)")
-  public supabaseUrl: string = "";
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
 
   @input
-  @hint("Your Supabase anon/public API key from the dashboard")
-  public supabaseAnonKey: string = "";
+  @hint("Room name for cursor synchronization (replaced by the joined room when a join code is set)")
+  public roomName: string = "spectacles-demo-room";
 
   @input
-  @hint("Room name for cursor synchronization")
-  public roomName: string = "spectacles-demo-room";
+  @hint("Join code of the room to join; leave empty to use Room Name")
+  public joinCode: string = "";
 
   @input
-  @hint("Internet Module for making HTTP requests")
-  public internetModule: InternetModule;
+  @hint("Create Room Name when it does not exist yet (the join code is logged)")
+  public createRoomIfMissing: boolean = true;
 
   // Cursor Object to Track
   @input
@@ -43,11 +58,6 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
   @hint("Enable automatic broadcasting on start")
   public autoStart: boolean = true;
 
-  @input
-  @hint("Scale factor for position mapping (higher = more sensitive)")
-  @widget(new SliderWidget(0.1, 10.0, 0.1))
-  public positionScale: number = 20.0;
-
   // Status Display
   @input
   @allowUndefined
@@ -60,20 +70,27 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
   public enableDebugLogs: boolean = true;
 
   // Private variables
-  private headers: { [key: string]: string };
-  private apiUrl: string;
   private isInitialized: boolean = false;
   private isBroadcasting: boolean = false;
   private userId: string;
   private broadcastTimer: any;
-  private logMessages: string[] = [];
-  private maxLogMessages: number = 10;
+  private roomService: RoomService;
+  private roomPromise: Promise<boolean>;
+  private mappingStore: CursorMappingStore;
+  private logger = new Logger("SimpleCursorBroadcaster", { printToConsole: () => this.enableDebugLogs });
+  private logView: LogView;
 
   onAwake() {
+    if (this.logText) {
+      this.logView = new LogView(this.logText, { filter: { tags: [this.logger.tag] }, maxLines: 10, showTags: false });
+    }
     this.log("🔧 SimpleCursorBroadcaster starting...");
     this.initializeSupabase();
 
-    this.createEvent("OnStartEvent").bind(() => {
+    this.createEvent("OnStartEvent").bind(async () => {
+      if (this.isInitialized && !(await this.roomReady())) {
+        return;
+      }
       if (this.autoStart) {
         this.startBroadcasting();
       }
@@ -81,6 +98,12 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
 
     this.createEvent("OnDestroyEvent").bind(() => {
       this.stopBroadcasting();
+      if (this.mappingStore) {
+        this.mappingStore.stop();
+      }
+      if (this.logView) {
+        this.logView.destroy();
+      }
     });
   }
 
@@ -88,8 +111,8 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
    * Initialize Supabase connection parameters
    */
   private initializeSupabase() {
-    if (!this.supabaseUrl || !this.supabaseAnonKey) {
-      this.log("❌ Missing Supabase credentials");
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
       return;
     }
 
@@ -98,22 +121,65 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
       return;
     }
 
-    this.apiUrl = this.supabaseUrl.replace(/\/$/, '') + "/rest/v1/";
-
-    this.headers = {
-      "Content-Type": "application/json",
-      "apikey": this.supabaseAnonKey,
-      "Authorization": `Bearer ${this.supabaseAnonKey}`,
-      "Prefer": "return=representation"
-    };
-
     // Initialize user data
     this.userId = "spectacles_" + Math.random().toString(36).substr(2, 9);
 
+    this.roomService = new RoomService({
+      rest: this.supabaseClient.rest,
+      logger: (message) => this.log(message)
+    });
+
     this.isInitialized = true;
     this.log("✅ Supabase broadcaster initialized");
     this.log(`👤 User ID: ${this.userId}`);
-    this.log(`📡 Room: ${this.roomName}`);
+  }
+
+  /**
+   * Resolves once this user is a member of the room (false when it could not join)
+   */
+  public roomReady(): Promise<boolean> {
+    if (!this.roomPromise) {
+      this.roomPromise = this.enterRoom();
+    }
+    return this.roomPromise;
+  }
+
+  /**
+   * Join or create the room, then follow its cursor mapping
+   */
+  private async enterRoom(): Promise<boolean> {
+    if (!this.isInitialized) {
+      return false;
+    }
+
+    await this.supabaseClient.ready();
+    if (!this.supabaseClient.isSignedIn()) {
+      this.log("❌ Rooms need a signed-in user - enable anonymous sign-ins (Authentication > Providers)");
+      return false;
+    }
+
+    const { room, error } = this.joinCode || this.createRoomIfMissing
+      ? await this.roomService.enterRoom(this.roomName, this.joinCode)
+      : await this.roomService.getRoom(this.roomName);
+
+    if (error || !room) {
+      this.log(error
+        ? `❌ Could not enter room: ${error.toString()}`
+        : this.joinCode ? `❌ No active room with join code ${this.joinCode}` : `❌ Not a member of ${this.roomName} - set its join code`);
+      return false;
+    }
+
+    this.roomName = room.name;
+    this.log(`📡 Room: ${room.name} - join code ${room.joinCode}`);
+
+    this.mappingStore = new CursorMappingStore({
+      rest: this.supabaseClient.rest,
+      realtime: this.supabaseClient.realtime,
+      roomName: this.roomName,
+      logger: (message) => this.log(message)
+    });
+    this.mappingStore.start();
+    return true;
   }
 
   /**
@@ -125,6 +191,11 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
       return;
     }
 
+    if (!this.mappingStore) {
+      this.log("⚠️ Not in a room yet");
+      return;
+    }
+
     if (this.isBroadcasting) {
       this.log("⚠️ Already broadcasting");
       return;
@@ -193,34 +264,23 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
 
   /**
    * Convert world position to screen coordinates (0-100 range)
-   * This is a simplified conversion that you can adjust based on your scene setup
+   * with the room's shared cursor mapping
    */
   private worldToScreen(worldPos: vec3): {x: number, y: number} {
     // Get camera transform (use main camera or scene object's parent)
     const cameraTransform = this.getSceneObject().getParent()?.getTransform() || 
                            this.getSceneObject().getTransform();
-    
-    const cameraPos = cameraTransform.getWorldPosition();
-    
-    // Calculate relative position
-    const relativePos = worldPos.sub(cameraPos);
-    
-    // Simple mapping: use X and Y components directly
-    // Scale and offset to map to 0-100 range
-    const x = 50 + (relativePos.x * this.positionScale);
-    const y = 50 - (relativePos.y * this.positionScale); // Flip Y for screen coords
-    
-    // Clamp to valid range
-    const clampedX = Math.max(0, Math.min(100, x));
-    const clampedY = Math.max(0, Math.min(100, y));
+
+    // Projected onto the mapping plane and clamped to 0-100
+    const screenPos = this.mappingStore.getMapping().worldToWeb(worldPos, cameraTransform);
     
     // Log occasionally for debugging
     if (Math.random() < 0.1) { // 10% of the time
       this.log(`📍 World: (${worldPos.x.toFixed(2)}, ${worldPos.y.toFixed(2)}, ${worldPos.z.toFixed(2)})`);
-      this.log(`📱 Screen: (${clampedX.toFixed(1)}, ${clampedY.toFixed(1)})`);
+      this.log(`📱 Screen: (${screenPos.x.toFixed(1)}, ${screenPos.y.toFixed(1)})`);
     }
     
-    return { x: clampedX, y: clampedY };
+    return screenPos;
   }
 
   /**
@@ -238,36 +298,28 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
     }
 
     try {
-      const cursorData = {
+      const cursorData: CursorPositionsInsert = {
         room_name: this.roomName,
         user_id: userId,
         user_name: userName,
         x: x,
         y: y,
         color: color,
-        timestamp: Date.now(),
-        device_type: "spectacles"
+        timestamp: Date.now()
       };
 
-      const url = `${this.apiUrl}cursor_positions`;
-
-      const request = new Request(url, {
-        method: "POST",
-        headers: this.headers,
-        body: JSON.stringify(cursorData)
-      });
+      // One row per room and user, updated in place
+      const { error } = await this.supabaseClient.rest.from("cursor_positions")
+        .upsert(cursorData, { onConflict: "room_name,user_id", returning: "minimal" });
 
-      const response = await this.internetModule.fetch(request);
-
-      if (response.ok) {
+      if (!error) {
         // Log success occasionally to avoid spam
         if (Math.random() < 0.05) { // 5% of the time
           this.log(`📡 Sent: (${x.toFixed(1)}, ${y.toFixed(1)})`);
         }
         return true;
       } else {
-        const errorText = await response.text();
-        this.log(`❌ Broadcast failed: ${response.status} - ${errorText}`);
+        this.log(`❌ Broadcast failed: ${error.toString()}`);
         return false;
       }
     } catch (error) {
@@ -301,26 +353,10 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
   }
 
   /**
-   * Logging helper with UI text update
+   * Logging helper (console, shared log store and logText panel)
    */
   private log(message: string) {
-    // Always log to console
-    if (this.enableDebugLogs) {
-      print(`[SimpleCursorBroadcaster] ${message}`);
-    }
-    
-    // Also log to UI if text component is available
-    if (this.logText) {
-      this.logMessages.push(message);
-      
-      // Keep only the most recent messages
-      if (this.logMessages.length > this.maxLogMessages) {
-        this.logMessages = this.logMessages.slice(-this.maxLogMessages);
-      }
-      
-      // Update the text component
-      this.logText.text = this.logMessages.join('\n');
-    }
+    this.logger.log(message);
   }
 
   /**
@@ -356,15 +392,14 @@ export class SimpleCursorBroadcaster extends BaseScriptComponent {
  * 1. Create a Scene Object to act as your cursor (sphere, cube, etc.)
  * 2. Attach this script to any Scene Object
  * 3. Configure in inspector:
- *    - Set Supabase URL and API key
- *    - Set room name (must match web app)
+ *    - Assign the scene's SupabaseClient
+ *    - Set room name (must match web app), or the web app's join code
  *    - Assign cursor object to track
- *    - Adjust position scale if needed
  * 4. The script will automatically start broadcasting when the scene starts
  * 5. Move your cursor object around and watch it appear in the web app!
  * 
  * Tips:
- * - Start with positionScale = 20.0 and adjust based on your scene
+ * - Run CursorCalibrationWizard once per room if positions do not line up
  * - Lower broadcastInterval = more responsive but more network usage
  * - Check the logs to see if positions are being sent successfully
  */
\ No newline at end of file
@@ -11,11 +11,10 @@
  * - Apply loaded assets to scene objects
  *
  * Prerequisites:
- * 1. Add InternetModule to your project
+ * 1. Add a SupabaseClient component to your scene and configure it
  * 2. Add Spectacles Interaction Kit (SIK) to your project
- * 3. Configure Supabase credentials
- * 4. Upload assets to Supabase Storage
- * 5. Assign scene objects for displaying loaded assets
+ * 3. Upload assets to Supabase Storage
+ * 4. Assign scene objects for displaying loaded assets
  * 
  * 
  * 
@@ -25,21 +24,21 @@
 
 import { InteractorEvent } from "SpectaclesInteractionKit.lspkg/Core/Interactor/InteractorEvent";
 import { Interactable } from "SpectaclesInteractionKit.lspkg/Components/Interaction/Interactable/Interactable";
+import { LogView } from "../Core/LogConsole";
+import { Logger } from "../Core/Logger";
+import { StorageClient } from "../Core/StorageClient";
+import { SupabaseClient } from "../Core/SupabaseClient";
 
 @component
 export class SupabaseAssetLoader extends BaseScriptComponent {
 
   // Supabase Configuration
   @input
-  @hint("Your Supabase project URL (e.g., https://your-project.supabase.co)")
-  public supabaseUrl: string = "";
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
 
   @input
-  @hint("Your Supabase anon/public API key from the dashboard")
-  public supabaseAnonKey: string = "";
-
-  @input
-  @hint("Use service role key to bypass RLS policies (TESTING ONLY - NOT for production)")
+  @hint("Sign asset URLs with the service role key to bypass RLS policies (TESTING ONLY)")
   public useServiceKey: boolean = false;
 
   @input
@@ -50,10 +49,6 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
   @hint("Supabase Storage bucket name where assets are stored")
   public storageBucket: string = "specs-bucket";
 
-  @input
-  @hint("Internet Module for making HTTP requests")
-  public internetModule: InternetModule;
-
   // Asset Configuration
   @input
   @hint("3D model filename in storage (e.g., 'fox/scene.gltf')")
@@ -114,8 +109,9 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
   public statusText: Text;
 
   // Private variables
-  private headers: { [key: string]: string };
-  private storageApiUrl: string;
+  private storage: StorageClient;
+  private logger = new Logger("SupabaseAssetLoader", { printToConsole: () => this.enableDebugLogs });
+  private statusView: LogView;
   private isInitialized: boolean = false;
   private remoteServiceModule: RemoteServiceModule;
   private remoteMediaModule: RemoteMediaModule;
@@ -127,12 +123,26 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
   } = {};
 
   onAwake() {
+    if (this.statusText) {
+      // Latest status line; debug() details stay in the console and LogConsole
+      this.statusView = new LogView(this.statusText, {
+        filter: { tags: [this.logger.tag], minLevel: "info" },
+        maxLines: 1,
+        showTags: false
+      });
+    }
     this.log("🔧 SupabaseAssetLoader initializing...");
     this.checkInternetAvailability();
     this.initializeSupabase();
     this.initializeRemoteModules();
     this.setupLoadButton();
     this.updateStatus("Initialized - Ready to load assets");
+
+    this.createEvent("OnDestroyEvent").bind(() => {
+      if (this.statusView) {
+        this.statusView.destroy();
+      }
+    });
   }
 
   /**
@@ -162,8 +172,8 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
    * Initialize Supabase connection parameters
    */
   private initializeSupabase() {
-    if (!this.supabaseUrl || !this.supabaseAnonKey) {
-      this.log("❌ Missing Supabase credentials");
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
       this.updateStatus("❌ Missing Supabase credentials");
       return;
     }
@@ -175,21 +185,22 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
       return;
     }
 
-    // Supabase Storage API URL format
-    this.storageApiUrl = this.supabaseUrl.replace(/\/$/, '') + "/storage/v1/object/public/";
-
-    // Use service key if enabled (bypasses RLS policies)
-    const apiKey = this.useServiceKey ? this.supabaseServiceKey : this.supabaseAnonKey;
-    
-    this.headers = {
-      "Content-Type": "application/json",
-      "apikey": apiKey,
-      "Authorization": `Bearer ${apiKey}`
-    };
+    // Service key signing gets its own storage client (bypasses RLS policies)
+    this.storage = this.supabaseClient.storage;
+    if (this.useServiceKey) {
+      this.storage = new StorageClient({
+        storageUrl: this.supabaseClient.storage.getStorageUrl(),
+        internetModule: this.supabaseClient.internetModule,
+        getHeaders: () => ({
+          "apikey": this.supabaseServiceKey,
+          "Authorization": `Bearer ${this.supabaseServiceKey}`
+        })
+      });
+    }
 
     this.isInitialized = true;
     this.log("✅ Supabase asset loader initialized");
-    this.log(`📁 Storage URL: ${this.storageApiUrl}`);
+    this.log(`📁 Storage URL: ${this.storage.getStorageUrl()}`);
     this.log(`🔑 Using ${this.useServiceKey ? 'SERVICE' : 'ANON'} key`);
     
     if (this.useServiceKey) {
@@ -197,6 +208,36 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
     }
   }
 
+  /**
+   * Public URL of an asset in the configured bucket
+   */
+  private getPublicAssetUrl(fileName: string): string {
+    return this.storage.from(this.storageBucket).getPublicUrl(fileName);
+  }
+
+  /**
+   * Resolve the URL used to download an asset
+   * Signed-in users (or the service key) get a signed URL so private buckets
+   * and RLS policies are honored; otherwise the public URL is used
+   */
+  private async resolveAssetUrl(fileName: string): Promise<string> {
+    const publicUrl = this.getPublicAssetUrl(fileName);
+
+    if (!this.useServiceKey) {
+      await this.supabaseClient.ready();
+      if (!this.supabaseClient.isSignedIn()) {
+        return publicUrl;
+      }
+    }
+
+    const { signedUrl, error } = await this.storage.from(this.storageBucket).createSignedUrl(fileName, 3600);
+    if (error) {
+      this.log(`⚠️ Could not sign ${fileName} (${error.status}): ${error.message} - trying public URL`);
+      return publicUrl;
+    }
+    return signedUrl;
+  }
+
   /**
    * Initialize remote service modules for media loading
    */
@@ -317,11 +358,11 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
    * Load a 3D model from Supabase Storage
    */
   private async load3DModel(): Promise<void> {
+    this.log(`📦 Loading 3D model: ${this.modelFileName}`);
+    const modelUrl = await this.resolveAssetUrl(this.modelFileName);
+
     return new Promise((resolve, reject) => {
       try {
-        this.log(`📦 Loading 3D model: ${this.modelFileName}`);
-        
-        const modelUrl = `${this.storageApiUrl}${this.storageBucket}/${this.modelFileName}`;
         this.log(`🔗 Model URL: ${modelUrl}`);
 
         // Create resource from URL
@@ -392,11 +433,11 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
    * Load an image from Supabase Storage
    */
   private async loadImage(): Promise<void> {
+    this.log(`🖼️ Loading image: ${this.imageFileName}`);
+    const imageUrl = await this.resolveAssetUrl(this.imageFileName);
+
     return new Promise((resolve, reject) => {
       try {
-        this.log(`🖼️ Loading image: ${this.imageFileName}`);
-        
-        const imageUrl = `${this.storageApiUrl}${this.storageBucket}/${this.imageFileName}`;
         this.log(`🔗 Image URL: ${imageUrl}`);
 
         // Create resource from URL
@@ -437,11 +478,11 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
    * Load audio from Supabase Storage
    */
   private async loadAudio(): Promise<void> {
+    this.log(`🔊 Loading audio: ${this.audioFileName}`);
+    const audioUrl = await this.resolveAssetUrl(this.audioFileName);
+
     return new Promise((resolve, reject) => {
       try {
-        this.log(`🔊 Loading audio: ${this.audioFileName}`);
-        
-        const audioUrl = `${this.storageApiUrl}${this.storageBucket}/${this.audioFileName}`;
         this.log(`🔗 Audio URL: ${audioUrl}`);
 
         // Create resource from URL
@@ -539,15 +580,15 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
     this.log("🧪 Testing asset URL accessibility...");
 
     // Try both URL formats
-    const baseUrl = this.supabaseUrl.replace(/\/$/, '');
+    const baseUrl = this.supabaseClient.getUrl();
     const altStorageUrl = baseUrl.replace('.supabase.co', '.storage.supabase.co');
 
     const urls = [
-      { name: "3D Model", url: `${this.storageApiUrl}${this.storageBucket}/${this.modelFileName}` },
+      { name: "3D Model", url: this.getPublicAssetUrl(this.modelFileName) },
       { name: "3D Model (Alt)", url: `${altStorageUrl}/${this.storageBucket}/${this.modelFileName}` },
-      { name: "Image", url: `${this.storageApiUrl}${this.storageBucket}/${this.imageFileName}` },
+      { name: "Image", url: this.getPublicAssetUrl(this.imageFileName) },
       { name: "Image (Alt)", url: `${altStorageUrl}/${this.storageBucket}/${this.imageFileName}` },
-      { name: "Audio", url: `${this.storageApiUrl}${this.storageBucket}/${this.audioFileName}` },
+      { name: "Audio", url: this.getPublicAssetUrl(this.audioFileName) },
       { name: "Audio (Alt)", url: `${altStorageUrl}/${this.storageBucket}/${this.audioFileName}` }
     ];
 
@@ -561,7 +602,7 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
           // Don't include auth headers for public storage
         });
 
-        const response = await this.internetModule.fetch(request);
+        const response = await this.supabaseClient.internetModule.fetch(request);
         
         if (response.ok) {
           const contentLength = response.headers.get("content-length");
@@ -626,18 +667,14 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
    * Logging helper
    */
   private log(message: string) {
-    if (this.enableDebugLogs) {
-      print(`[SupabaseAssetLoader] ${message}`);
-    }
+    this.logger.log(message, "debug");
   }
 
   /**
-   * Update status text if available
+   * Log a user-facing status line (shown in statusText)
    */
   private updateStatus(status: string) {
-    if (this.statusText) {
-      this.statusText.text = status;
-    }
+    this.logger.log(status);
   }
 
   /**
@@ -701,7 +738,7 @@ export class SupabaseAssetLoader extends BaseScriptComponent {
  *    - For larger files, consider using signed URLs
  * 
  * 7. LENS STUDIO SETUP:
- *    - Add InternetModule to your project
+ *    - Add a SupabaseClient component (URL, anon key, InternetModule)
  *    - Create scene objects for model container, image display, audio player
  *    - Assign this script to a scene object
  *    - Configure all input parameters in the inspector
@@ -6,30 +6,28 @@
  * from Lens Studio using the InternetModule.
  * 
  * Prerequisites:
- * 1. Add InternetModule to your project
+ * 1. Add a SupabaseClient component to your scene and configure it
  * 2. Add Spectacles Interaction Kit (SIK) to your project
  * 3. Deploy an Edge Function to your Supabase project
- * 4. Configure the endpoint URL and API key
+ * 4. Set the function name
  */
 
 import { InteractorEvent } from "SpectaclesInteractionKit.lspkg/Core/Interactor/InteractorEvent";
 import { Interactable } from "SpectaclesInteractionKit.lspkg/Components/Interaction/Interactable/Interactable";
+import { Logger } from "../Core/Logger";
+import { SupabaseClient } from "../Core/SupabaseClient";
 
 @component
 export class EdgeFunctionCall extends BaseScriptComponent {
 
   // Supabase Configuration
   @input
-  @hint("Internet Module for making HTTP requests")
-  public internetModule: InternetModule;
+  @hint("SupabaseClient component holding the project URL, anon key and InternetModule")
+  public supabaseClient: SupabaseClient;
 
   @input
-  @hint("Supabase Edge Function endpoint URL")
-  public endpointUrl: string = "https://mhuywfpdvmnethlhfaek.supabase.co/functions/v1/specs-example-function";
-
-  @input
-  @hint("Your Supabase anon/public API key")
-  public publicKey: string = "";
+  @hint("Name of the deployed Edge Function (called at /functions/v1/<name>)")
+  public functionName: string = "specs-example-function";
 
   // Function Parameters
   @input
@@ -58,6 +56,8 @@ export class EdgeFunctionCall extends BaseScriptComponent {
   @hint("Enable debug logging")
   public enableDebugLogs: boolean = true;
 
+  private logger = new Logger("EdgeFunctionCall", { printToConsole: () => this.enableDebugLogs });
+
   onAwake() {
     this.log("🔧 EdgeFunctionCall initializing...");
     this.initializeService();
@@ -68,18 +68,32 @@ export class EdgeFunctionCall extends BaseScriptComponent {
    * Initialize the Edge Function service
    */
   private initializeService() {
-    if (!this.internetModule) {
-      this.log("❌ InternetModule not assigned");
+    if (!this.supabaseClient || !this.supabaseClient.isConfigured()) {
+      this.log("❌ Missing SupabaseClient or Supabase credentials");
       return;
     }
 
-    if (!this.endpointUrl || !this.publicKey) {
-      this.log("❌ Missing endpoint URL or API key");
+    if (!this.functionName) {
+      this.log("❌ Missing function name");
       return;
     }
 
     this.log("✅ Edge Function service initialized");
-    this.log(`🔗 Endpoint: ${this.endpointUrl}`);
+    this.log(`🔗 Endpoint: ${this.getEndpointUrl()}`);
+  }
+
+  /**
+   * Full URL of the configured function
+   */
+  private getEndpointUrl(): string {
+    return this.supabaseClient.functions.getUrl(this.functionName);
+  }
+
+  /**
+   * Request headers; the bearer token is the user JWT when signed in
+   */
+  private getRequestHeaders(): { [key: string]: string } {
+    return this.supabaseClient.functions.getHeaders();
   }
 
   /**
@@ -112,7 +126,7 @@ export class EdgeFunctionCall extends BaseScriptComponent {
   private callEdgeFunction() {
     try {
       this.log("🖼️ Processing image with Edge Function...");
-      this.log(`📤 Sending request to: ${this.endpointUrl}`);
+      this.log(`📤 Sending request to: ${this.getEndpointUrl()}`);
 
       // For now, let's use a simple approach - download an image from Supabase Storage
       // and send it to the Edge Function for processing
@@ -136,18 +150,14 @@ export class EdgeFunctionCall extends BaseScriptComponent {
       };
 
       const request = RemoteServiceHttpRequest.create();
-      request.url = this.endpointUrl;
-      request.headers = {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.publicKey}`,
-        "apikey": this.publicKey
-      };
+      request.url = this.getEndpointUrl();
+      request.headers = this.getRequestHeaders();
       request.method = RemoteServiceHttpRequest.HttpRequestMethod.Post;
       request.body = JSON.stringify(payload);
 
       this.log("📤 Sending image URL to Edge Function...");
 
-      this.internetModule.performHttpRequest(request, (response) => {
+      this.supabaseClient.internetModule.performHttpRequest(request, (response) => {
         this.log(`📡 Response Status: ${response.statusCode}`);
         
         if (response.statusCode === 200) {
@@ -197,7 +207,7 @@ export class EdgeFunctionCall extends BaseScriptComponent {
       
       // Use the older RemoteServiceHttpRequest approach for better compatibility
       const request = RemoteServiceHttpRequest.create();
-      request.url = this.endpointUrl;
+      request.url = this.getEndpointUrl();
       
       // Convert bytes to base64 for sending as string body
       const base64Image = this.bytesToBase64(imageBytes);
@@ -208,18 +218,14 @@ export class EdgeFunctionCall extends BaseScriptComponent {
         format: "jpg"
       };
 
-      request.headers = {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.publicKey}`,
-        "apikey": this.publicKey
-      };
+      request.headers = this.getRequestHeaders();
 
       request.method = RemoteServiceHttpRequest.HttpRequestMethod.Post;
       request.body = JSON.stringify(payload);
 
       this.log("📤 Sending base64 image data to Edge Function...");
 
-      this.internetModule.performHttpRequest(request, (response) => {
+      this.supabaseClient.internetModule.performHttpRequest(request, (response) => {
         this.log(`📡 Response Status: ${response.statusCode}`);
         
         if (response.statusCode === 200) {
@@ -385,9 +391,7 @@ export class EdgeFunctionCall extends BaseScriptComponent {
    * Logging helper
    */
   private log(message: string) {
-    if (this.enableDebugLogs) {
-      print(`[EdgeFunctionCall] ${message}`);
-    }
+    this.logger.log(message);
   }
 }
 
@@ -427,12 +431,13 @@ export class EdgeFunctionCall extends BaseScriptComponent {
  *    - Output: Processed PNG image
  * 
  * 3. ENDPOINT URL:
- *    - https://mhuywfpdvmnethlhfaek.supabase.co/functions/v1/specs-example-function
+ *    - Built from the SupabaseClient URL: <supabaseUrl>/functions/v1/specs-example-function
  * 
  * 4. CONFIGURE SCRIPT:
+ *    - Supabase Client: Assign the scene's SupabaseClient
+ *    - Function Name: specs-example-function
  *    - Input Image: Assign a Texture to process
  *    - Output Image: Assign an Image component to display result
- *    - Public Key: Your anon/public API key
  * 
  * 5. LIMITATIONS:
  *    - Texture-to-bytes conversion needs proper implementation
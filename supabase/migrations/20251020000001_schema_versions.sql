@@ -0,0 +1,47 @@
+-- Version 1: schema version tracking and policy introspection
+--
+-- Every migration in this folder records itself in demo_schema_versions, so
+-- the Lens / web health checks can tell which migrations have been applied.
+
+CREATE TABLE IF NOT EXISTS demo_schema_versions (
+  version INT PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE demo_schema_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read schema versions" ON demo_schema_versions;
+CREATE POLICY "Anyone can read schema versions" ON demo_schema_versions
+FOR SELECT TO anon, authenticated
+USING (true);
+
+-- PostgREST's OpenAPI output lists tables and columns but not RLS policies,
+-- so the health checks read them through this function (POST /rest/v1/rpc/demo_schema_policies)
+CREATE OR REPLACE FUNCTION demo_schema_policies()
+RETURNS TABLE (table_name TEXT, rls_enabled BOOLEAN, policy_name TEXT, command TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = pg_catalog, public
+AS $$
+  SELECT
+    c.relname::TEXT,
+    c.relrowsecurity,
+    p.polname::TEXT,
+    CASE p.polcmd
+      WHEN 'r' THEN 'SELECT'
+      WHEN 'a' THEN 'INSERT'
+      WHEN 'w' THEN 'UPDATE'
+      WHEN 'd' THEN 'DELETE'
+      WHEN '*' THEN 'ALL'
+    END
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_policy p ON p.polrelid = c.oid
+  WHERE n.nspname = 'public' AND c.relkind IN ('r', 'p');
+$$;
+
+REVOKE ALL ON FUNCTION demo_schema_policies() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION demo_schema_policies() TO anon, authenticated;
+
+INSERT INTO demo_schema_versions (version, name) VALUES (1, 'schema_versions')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,62 @@
+-- Version 2: tables used by Example1-SupabaseConnector
+--
+-- Safe to run on a project set up from the README: missing tables are
+-- created and missing columns / constraints are added.
+
+CREATE TABLE IF NOT EXISTS test_messages (
+  id BIGSERIAL PRIMARY KEY,
+  message TEXT NOT NULL,
+  sender TEXT,
+  timestamp TIMESTAMPTZ,
+  lens_session_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS realtime_messages (
+  id BIGSERIAL PRIMARY KEY,
+  channel TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS user_interactions (
+  id BIGSERIAL PRIMARY KEY,
+  action TEXT NOT NULL,
+  data TEXT,
+  timestamp TIMESTAMPTZ NOT NULL,
+  session_id TEXT NOT NULL,
+  idempotency_key TEXT UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Retried offline writes are deduplicated on this column
+ALTER TABLE user_interactions ADD COLUMN IF NOT EXISTS idempotency_key TEXT UNIQUE;
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  preferences JSONB,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Upserts target user_id; tables created from older instructions lack the constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'public.user_preferences'::regclass AND contype = 'u'
+      AND conkey = ARRAY[(SELECT attnum FROM pg_attribute WHERE attrelid = 'public.user_preferences'::regclass AND attname = 'user_id')]
+  ) THEN
+    ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_user_id_key UNIQUE (user_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS test_messages_timestamp_idx ON test_messages (timestamp DESC);
+CREATE INDEX IF NOT EXISTS realtime_messages_sent_at_idx ON realtime_messages (sent_at DESC);
+CREATE INDEX IF NOT EXISTS user_interactions_timestamp_idx ON user_interactions (timestamp DESC);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (2, 'example_tables')
+ON CONFLICT (version) DO NOTHING;
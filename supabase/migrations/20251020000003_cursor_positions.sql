@@ -0,0 +1,19 @@
+-- Version 3: cursor positions shared by Example2-RealTimeCursor and the web cursor controller
+
+CREATE TABLE IF NOT EXISTS cursor_positions (
+  id BIGSERIAL PRIMARY KEY,
+  room_name TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  x FLOAT NOT NULL,
+  y FLOAT NOT NULL,
+  color TEXT DEFAULT '#FF6B6B',
+  timestamp BIGINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cursor_positions_room_timestamp
+ON cursor_positions (room_name, timestamp DESC);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (3, 'cursor_positions')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,21 @@
+-- Version 4: geotagged image posts from the Nuxt frontend (read by nearest_posts on Spectacles)
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS posts (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  original_image_url TEXT NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  location_name TEXT,
+  -- Written as 'POINT(lng lat)' by the frontend
+  location extensions.geography(Point, 4326),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS posts_location_idx ON posts USING GIST (location);
+CREATE INDEX IF NOT EXISTS posts_user_created_idx ON posts (user_id, created_at DESC);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (4, 'posts')
+ON CONFLICT (version) DO NOTHING;
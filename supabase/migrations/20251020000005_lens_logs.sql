@@ -0,0 +1,17 @@
+-- Version 5: log batches shipped by the LogConsole component
+
+CREATE TABLE IF NOT EXISTS lens_logs (
+  id BIGSERIAL PRIMARY KEY,
+  level TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  message TEXT NOT NULL,
+  logged_at TIMESTAMPTZ NOT NULL,
+  session_id TEXT NOT NULL,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS lens_logs_session_idx ON lens_logs (session_id, logged_at);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (5, 'lens_logs')
+ON CONFLICT (version) DO NOTHING;
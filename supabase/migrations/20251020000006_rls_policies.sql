@@ -0,0 +1,54 @@
+-- Version 6: row level security for every demo table
+--
+-- The example tables keep the open "Allow anonymous access" policy from the
+-- READMEs so the demos work with the anon key. Tighten these before shipping
+-- a Lens to real users.
+
+ALTER TABLE test_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE realtime_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_interactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cursor_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lens_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON test_messages;
+CREATE POLICY "Allow anonymous access" ON test_messages
+FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON realtime_messages;
+CREATE POLICY "Allow anonymous access" ON realtime_messages
+FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON user_interactions;
+CREATE POLICY "Allow anonymous access" ON user_interactions
+FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON user_preferences;
+CREATE POLICY "Allow anonymous access" ON user_preferences
+FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON cursor_positions;
+CREATE POLICY "Allow anonymous access" ON cursor_positions
+FOR ALL USING (true);
+
+-- Posts are public to read; only the author can change them
+DROP POLICY IF EXISTS "Anyone can read posts" ON posts;
+CREATE POLICY "Anyone can read posts" ON posts
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users manage their own posts" ON posts;
+CREATE POLICY "Users manage their own posts" ON posts
+FOR ALL TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Lenses may write logs but not read them back; read them in the dashboard
+DROP POLICY IF EXISTS "Lens can insert logs" ON lens_logs;
+CREATE POLICY "Lens can insert logs" ON lens_logs
+FOR INSERT TO anon, authenticated
+WITH CHECK (true);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (6, 'rls_policies')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Version 7: standard analytics event columns on user_interactions
+-- (written in batches by Core/Analytics.ts, charted by the web /analytics page)
+
+ALTER TABLE user_interactions ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE user_interactions ADD COLUMN IF NOT EXISTS properties JSONB;
+-- Position of the event within its session, starting at 0 with session_start
+ALTER TABLE user_interactions ADD COLUMN IF NOT EXISTS sequence INT;
+ALTER TABLE user_interactions ADD COLUMN IF NOT EXISTS platform TEXT;
+
+CREATE INDEX IF NOT EXISTS user_interactions_session_idx ON user_interactions (session_id, timestamp);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (7, 'analytics_events')
+ON CONFLICT (version) DO NOTHING;
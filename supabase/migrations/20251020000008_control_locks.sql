@@ -0,0 +1,101 @@
+-- Version 8: control lock deciding which device leads a cursor room
+-- (Core/ControlLock.ts on Spectacles, SpectaclesCursorClient on the web controller)
+--
+-- One row per room. The owner holds the lock for a short lease and renews it
+-- while leading; a lock whose lease ran out is free. Clients never write the
+-- table directly: acquire_control_lock / release_control_lock change it
+-- atomically, so two devices can never both be granted the same room.
+--
+-- A lock belongs to the auth user that took it (owner_uid = auth.uid()), so
+-- only that user can renew or release it, whatever owner_id they pass. The
+-- functions need a signed-in user; an anonymous sign-in is enough.
+
+CREATE TABLE IF NOT EXISTS cursor_control_locks (
+  room_name TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  -- Auth user holding the lock; owner_id is only the device id shown to others
+  owner_uid UUID DEFAULT auth.uid(),
+  owner_name TEXT,
+  -- 'pc' or 'spectacles'
+  device TEXT NOT NULL,
+  lease_expires_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE cursor_control_locks ADD COLUMN IF NOT EXISTS owner_uid UUID DEFAULT auth.uid();
+
+-- Current owner of a room, or no row when the lock is free
+CREATE OR REPLACE FUNCTION control_lock_owner(p_room TEXT)
+RETURNS TABLE (owner_id TEXT, owner_name TEXT, device TEXT, expires_in_ms BIGINT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT lock.owner_id, lock.owner_name, lock.device,
+         (EXTRACT(EPOCH FROM (lock.lease_expires_at - NOW())) * 1000)::BIGINT
+  FROM cursor_control_locks lock
+  WHERE lock.room_name = p_room AND lock.lease_expires_at > NOW();
+$$;
+
+-- Take a free or expired lock, or renew our own lease (same auth user and
+-- owner_id). Returns the owner after the attempt: the lock was granted when
+-- owner_id = p_owner_id.
+CREATE OR REPLACE FUNCTION acquire_control_lock(
+  p_room TEXT,
+  p_owner_id TEXT,
+  p_owner_name TEXT,
+  p_device TEXT,
+  p_lease_seconds INT DEFAULT 10
+)
+RETURNS TABLE (owner_id TEXT, owner_name TEXT, device TEXT, expires_in_ms BIGINT)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to take the control lock' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO cursor_control_locks AS lock (room_name, owner_id, owner_uid, owner_name, device, lease_expires_at, updated_at)
+  VALUES (p_room, p_owner_id, auth.uid(), p_owner_name, p_device, NOW() + make_interval(secs => LEAST(GREATEST(p_lease_seconds, 1), 60)), NOW())
+  ON CONFLICT (room_name) DO UPDATE
+  SET owner_id = EXCLUDED.owner_id,
+      owner_uid = EXCLUDED.owner_uid,
+      owner_name = EXCLUDED.owner_name,
+      device = EXCLUDED.device,
+      lease_expires_at = EXCLUDED.lease_expires_at,
+      updated_at = NOW()
+  WHERE (lock.owner_uid = EXCLUDED.owner_uid AND lock.owner_id = EXCLUDED.owner_id)
+     OR lock.lease_expires_at <= NOW();
+
+  RETURN QUERY SELECT * FROM control_lock_owner(p_room);
+END;
+$$;
+
+-- Give the lock up; returns false when the caller did not hold it as p_owner_id
+CREATE OR REPLACE FUNCTION release_control_lock(p_room TEXT, p_owner_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  WITH released AS (
+    DELETE FROM cursor_control_locks
+    WHERE room_name = p_room AND owner_id = p_owner_id AND owner_uid = auth.uid()
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM released);
+$$;
+
+-- Functions are executable by PUBLIC by default; only signed-in users get them
+REVOKE EXECUTE ON FUNCTION control_lock_owner(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION acquire_control_lock(TEXT, TEXT, TEXT, TEXT, INT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION release_control_lock(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION control_lock_owner(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION acquire_control_lock(TEXT, TEXT, TEXT, TEXT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_control_lock(TEXT, TEXT) TO authenticated;
+
+-- Signed-in users may see who leads; writes only go through the functions above
+ALTER TABLE cursor_control_locks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read control locks" ON cursor_control_locks;
+DROP POLICY IF EXISTS "Signed-in users can read control locks" ON cursor_control_locks;
+CREATE POLICY "Signed-in users can read control locks" ON cursor_control_locks
+FOR SELECT TO authenticated
+USING (true);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (8, 'control_locks')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,57 @@
+-- Version 9: one cursor_positions row per user instead of an append-only log
+--
+-- Broadcasters upsert on (room_name, user_id), so the table holds the latest
+-- position of every cursor and followers read one row per user. A sampled
+-- trail (about once per second per user) goes to cursor_position_history.
+
+-- Keep only the newest row of each cursor before adding the unique key
+DELETE FROM cursor_positions older
+USING cursor_positions newer
+WHERE older.room_name = newer.room_name
+  AND older.user_id = newer.user_id
+  AND (older.timestamp < newer.timestamp OR (older.timestamp = newer.timestamp AND older.id < newer.id));
+
+ALTER TABLE cursor_positions DROP CONSTRAINT IF EXISTS cursor_positions_room_user_key;
+ALTER TABLE cursor_positions ADD CONSTRAINT cursor_positions_room_user_key UNIQUE (room_name, user_id);
+
+-- An upsert that arrives late must not move a cursor back to an older position
+CREATE OR REPLACE FUNCTION cursor_positions_keep_latest()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.timestamp < OLD.timestamp THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cursor_positions_keep_latest ON cursor_positions;
+CREATE TRIGGER cursor_positions_keep_latest
+BEFORE UPDATE ON cursor_positions
+FOR EACH ROW EXECUTE FUNCTION cursor_positions_keep_latest();
+
+CREATE TABLE IF NOT EXISTS cursor_position_history (
+  id BIGSERIAL PRIMARY KEY,
+  room_name TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  x FLOAT NOT NULL,
+  y FLOAT NOT NULL,
+  color TEXT,
+  timestamp BIGINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS cursor_position_history_room_timestamp_idx
+ON cursor_position_history (room_name, timestamp DESC);
+
+ALTER TABLE cursor_position_history ENABLE ROW LEVEL SECURITY;
+
+-- Same open access as cursor_positions; tighten before shipping
+DROP POLICY IF EXISTS "Allow anonymous access" ON cursor_position_history;
+CREATE POLICY "Allow anonymous access" ON cursor_position_history
+FOR ALL USING (true);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (9, 'cursor_latest_positions')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,35 @@
+-- Version 10: calibrated web-to-Lens cursor mapping, one row per room
+--
+-- The calibration wizard fits an affine transform from web percentages
+-- (0-100) to a point on a camera-facing plane plane_distance in front of the
+-- Spectacles camera:
+--
+--   lens_x = m00 * web_x + m01 * web_y + m02
+--   lens_y = m10 * web_x + m11 * web_y + m12
+--
+-- Every cursor component in the room reads the same row (Core/CursorMapping.ts).
+
+CREATE TABLE IF NOT EXISTS cursor_calibrations (
+  room_name TEXT PRIMARY KEY,
+  m00 FLOAT NOT NULL,
+  m01 FLOAT NOT NULL,
+  m02 FLOAT NOT NULL,
+  m10 FLOAT NOT NULL,
+  m11 FLOAT NOT NULL,
+  m12 FLOAT NOT NULL,
+  plane_distance FLOAT NOT NULL,
+  point_count INTEGER NOT NULL,
+  -- Root mean square distance between the targets and the fitted points, in web percent
+  rms_error FLOAT NOT NULL,
+  calibrated_by TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No policies here: the table stays closed until migration 12 lets the
+-- members of a room read and write its calibration
+ALTER TABLE cursor_calibrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON cursor_calibrations;
+
+INSERT INTO demo_schema_versions (version, name) VALUES (10, 'cursor_calibrations')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,59 @@
+-- Version 11: who is in each cursor room
+--
+-- Live presence runs over Supabase Realtime presence on the channel
+-- `cursor-presence-<room>`. Clients also upsert a heartbeat row here every few
+-- seconds while their Realtime channel is down (the web controller always
+-- does), so a Lens without a working socket still shows up in, and can read,
+-- the roster. Rows older than the stale timeout are ignored by readers.
+--
+-- user_id is the client's own id (pc_... / spectacles_...); auth_uid ties the
+-- row to the session that wrote it, so only that user can update or remove it.
+
+CREATE TABLE IF NOT EXISTS room_presence (
+  room_name TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  -- Session that wrote the row (NULL for the anon key)
+  auth_uid UUID DEFAULT auth.uid(),
+  user_name TEXT NOT NULL,
+  device TEXT NOT NULL CHECK (device IN ('pc', 'spectacles')),
+  color TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('leader', 'follower', 'viewer')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_name, user_id)
+);
+
+ALTER TABLE room_presence ADD COLUMN IF NOT EXISTS auth_uid UUID DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS room_presence_room_last_seen_idx
+ON room_presence (room_name, last_seen_at DESC);
+
+ALTER TABLE room_presence ENABLE ROW LEVEL SECURITY;
+
+-- Anyone may read the roster and add themselves; only the session that
+-- wrote a row may update or remove it
+DROP POLICY IF EXISTS "Allow anonymous access" ON room_presence;
+
+DROP POLICY IF EXISTS "Anyone can read room presence" ON room_presence;
+CREATE POLICY "Anyone can read room presence" ON room_presence
+FOR SELECT TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can add their presence" ON room_presence;
+CREATE POLICY "Users can add their presence" ON room_presence
+FOR INSERT TO anon, authenticated
+WITH CHECK (auth_uid IS NOT DISTINCT FROM auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their presence" ON room_presence;
+CREATE POLICY "Users can update their presence" ON room_presence
+FOR UPDATE TO authenticated
+USING (auth_uid = auth.uid())
+WITH CHECK (auth_uid = auth.uid());
+
+DROP POLICY IF EXISTS "Users can remove their presence" ON room_presence;
+CREATE POLICY "Users can remove their presence" ON room_presence
+FOR DELETE TO authenticated
+USING (auth_uid = auth.uid());
+
+INSERT INTO demo_schema_versions (version, name) VALUES (11, 'room_presence')
+ON CONFLICT (version) DO NOTHING;
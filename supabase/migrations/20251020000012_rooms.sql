@@ -0,0 +1,360 @@
+-- Version 12: cursor rooms with join codes, and cursor data for members only
+-- (Core/RoomService.ts on Spectacles, SpectaclesCursorClient on the web controller)
+--
+-- A room is created with create_room(), which returns a short join code; other
+-- users join with join_room(code). Membership is per auth user (anonymous
+-- sign-in is enough), and cursor_positions / cursor_position_history,
+-- cursor_calibrations, room_presence and cursor_control_locks are only
+-- readable (and the cursors, calibrations and locks writable) in rooms the
+-- caller is a member of. A room idle for idle_minutes expires:
+-- expire_idle_rooms() deletes it with its members, cursor rows, roster,
+-- control lock and calibration.
+-- Clients never write rooms or room_members directly.
+--
+-- The room's Realtime channels (`cursor-room-<room>`, `cursor-control-<room>`,
+-- `cursor-calibration-<room>`, `cursor-annotations-<room>` and
+-- `cursor-presence-<room>`) are private channels: the realtime.messages
+-- policies below only let members join, send and receive on them.
+
+CREATE TABLE IF NOT EXISTS rooms (
+  name TEXT PRIMARY KEY CHECK (char_length(name) BETWEEN 1 AND 64),
+  -- Six characters without look-alikes (no 0/O, 1/I/L)
+  join_code TEXT NOT NULL UNIQUE,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  -- Shown by list_active_rooms(); the join code never is
+  is_listed BOOLEAN NOT NULL DEFAULT true,
+  idle_minutes INTEGER NOT NULL DEFAULT 60 CHECK (idle_minutes BETWEEN 5 AND 10080),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_active_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS room_members (
+  room_name TEXT NOT NULL REFERENCES rooms (name) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid(),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_name, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS room_members_user_idx ON room_members (user_id);
+
+-- Used by the policies below; SECURITY DEFINER so they do not recurse into room_members' own policy
+CREATE OR REPLACE FUNCTION is_room_member(p_room TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_members member
+    JOIN rooms room ON room.name = member.room_name
+    WHERE member.room_name = p_room
+      AND member.user_id = auth.uid()
+      AND room.last_active_at + make_interval(mins => room.idle_minutes) > NOW()
+  );
+$$;
+
+-- Room of a room channel topic, or NULL for other topics
+CREATE OR REPLACE FUNCTION room_channel_room(p_topic TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT substring(p_topic FROM '^cursor-(?:room|control|calibration|annotations|presence)-(.+)$');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_room_code()
+RETURNS TEXT
+LANGUAGE sql VOLATILE SET search_path = public AS $$
+  SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + floor(random() * 31)::INT, 1), '')
+  FROM generate_series(1, 6);
+$$;
+
+-- Delete rooms idle for longer than their idle_minutes; returns how many went
+CREATE OR REPLACE FUNCTION expire_idle_rooms()
+RETURNS INTEGER
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  WITH expired AS (
+    DELETE FROM rooms
+    WHERE last_active_at + make_interval(mins => idle_minutes) <= NOW()
+    RETURNING name
+  ),
+  cursors AS (
+    DELETE FROM cursor_positions WHERE room_name IN (SELECT name FROM expired)
+  ),
+  history AS (
+    DELETE FROM cursor_position_history WHERE room_name IN (SELECT name FROM expired)
+  ),
+  presence AS (
+    DELETE FROM room_presence WHERE room_name IN (SELECT name FROM expired)
+  ),
+  locks AS (
+    DELETE FROM cursor_control_locks WHERE room_name IN (SELECT name FROM expired)
+  ),
+  calibrations AS (
+    DELETE FROM cursor_calibrations WHERE room_name IN (SELECT name FROM expired)
+  )
+  SELECT COUNT(*)::INTEGER FROM expired;
+$$;
+
+-- Create a room and join it; returns the room with its join code.
+-- Fails with unique_violation when the name is taken by an active room.
+CREATE OR REPLACE FUNCTION create_room(
+  p_name TEXT,
+  p_idle_minutes INT DEFAULT 60,
+  p_listed BOOLEAN DEFAULT true
+)
+RETURNS TABLE (name TEXT, join_code TEXT, is_listed BOOLEAN, idle_minutes INTEGER, created_at TIMESTAMPTZ, last_active_at TIMESTAMPTZ)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+#variable_conflict use_column
+DECLARE
+  v_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in (anonymously is enough) before creating a room' USING ERRCODE = '42501';
+  END IF;
+
+  -- An expired room's name can be taken again
+  PERFORM expire_idle_rooms();
+
+  LOOP
+    v_code := generate_room_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM rooms WHERE join_code = v_code);
+  END LOOP;
+
+  INSERT INTO rooms (name, join_code, created_by, is_listed, idle_minutes)
+  VALUES (trim(p_name), v_code, auth.uid(), p_listed, p_idle_minutes);
+
+  INSERT INTO room_members (room_name, user_id) VALUES (trim(p_name), auth.uid());
+
+  RETURN QUERY
+  SELECT room.name, room.join_code, room.is_listed, room.idle_minutes, room.created_at, room.last_active_at
+  FROM rooms room WHERE room.name = trim(p_name);
+END;
+$$;
+
+-- Join the active room with this code; returns its name, or no row for an unknown or expired code
+CREATE OR REPLACE FUNCTION join_room(p_join_code TEXT)
+RETURNS TABLE (name TEXT, join_code TEXT, is_listed BOOLEAN, idle_minutes INTEGER, created_at TIMESTAMPTZ, last_active_at TIMESTAMPTZ)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+#variable_conflict use_column
+DECLARE
+  v_room TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in (anonymously is enough) before joining a room' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE rooms SET last_active_at = NOW()
+  WHERE join_code = upper(trim(p_join_code))
+    AND last_active_at + make_interval(mins => idle_minutes) > NOW()
+  RETURNING rooms.name INTO v_room;
+
+  IF v_room IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO room_members (room_name, user_id) VALUES (v_room, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY
+  SELECT room.name, room.join_code, room.is_listed, room.idle_minutes, room.created_at, room.last_active_at
+  FROM rooms room WHERE room.name = v_room;
+END;
+$$;
+
+-- Leave a room; returns false when the caller was not a member
+CREATE OR REPLACE FUNCTION leave_room(p_room TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  WITH left_room AS (
+    DELETE FROM room_members
+    WHERE room_name = p_room AND user_id = auth.uid()
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM left_room);
+$$;
+
+-- Listed rooms that have not expired, most recently active first (without join codes)
+CREATE OR REPLACE FUNCTION list_active_rooms()
+RETURNS TABLE (name TEXT, member_count BIGINT, is_member BOOLEAN, created_at TIMESTAMPTZ, last_active_at TIMESTAMPTZ, expires_at TIMESTAMPTZ)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT room.name,
+         (SELECT COUNT(*) FROM room_members member WHERE member.room_name = room.name),
+         EXISTS (SELECT 1 FROM room_members member WHERE member.room_name = room.name AND member.user_id = auth.uid()),
+         room.created_at,
+         room.last_active_at,
+         room.last_active_at + make_interval(mins => room.idle_minutes)
+  FROM rooms room
+  WHERE room.is_listed AND room.last_active_at + make_interval(mins => room.idle_minutes) > NOW()
+  ORDER BY room.last_active_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_room_member(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION room_channel_room(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_idle_rooms() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_room(TEXT, INT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_room(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_room(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_active_rooms() TO anon, authenticated;
+
+-- Cursor moves keep their room alive (at most one write per room and minute)
+CREATE OR REPLACE FUNCTION touch_cursor_room()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE rooms SET last_active_at = NOW()
+  WHERE name = NEW.room_name AND last_active_at < NOW() - INTERVAL '1 minute';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cursor_positions_touch_room ON cursor_positions;
+CREATE TRIGGER cursor_positions_touch_room
+AFTER INSERT OR UPDATE ON cursor_positions
+FOR EACH ROW EXECUTE FUNCTION touch_cursor_room();
+
+-- Members see their own rooms and memberships; writes only go through the functions above
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their rooms" ON rooms;
+CREATE POLICY "Members can read their rooms" ON rooms
+FOR SELECT TO authenticated
+USING (is_room_member(name));
+
+DROP POLICY IF EXISTS "Members can read room members" ON room_members;
+CREATE POLICY "Members can read room members" ON room_members
+FOR SELECT TO authenticated
+USING (is_room_member(room_name));
+
+-- Cursor data is no longer open to anyone who guesses a room name
+DROP POLICY IF EXISTS "Allow anonymous access" ON cursor_positions;
+DROP POLICY IF EXISTS "Room members can use cursors" ON cursor_positions;
+CREATE POLICY "Room members can use cursors" ON cursor_positions
+FOR ALL TO authenticated
+USING (is_room_member(room_name))
+WITH CHECK (is_room_member(room_name));
+
+DROP POLICY IF EXISTS "Allow anonymous access" ON cursor_position_history;
+DROP POLICY IF EXISTS "Room members can use cursor history" ON cursor_position_history;
+CREATE POLICY "Room members can use cursor history" ON cursor_position_history
+FOR ALL TO authenticated
+USING (is_room_member(room_name))
+WITH CHECK (is_room_member(room_name));
+
+-- A room's calibration is read and written by its members only
+DROP POLICY IF EXISTS "Allow anonymous access" ON cursor_calibrations;
+DROP POLICY IF EXISTS "Room members can read calibrations" ON cursor_calibrations;
+CREATE POLICY "Room members can read calibrations" ON cursor_calibrations
+FOR SELECT TO authenticated
+USING (is_room_member(room_name));
+
+DROP POLICY IF EXISTS "Room members can add calibrations" ON cursor_calibrations;
+CREATE POLICY "Room members can add calibrations" ON cursor_calibrations
+FOR INSERT TO authenticated
+WITH CHECK (is_room_member(room_name));
+
+DROP POLICY IF EXISTS "Room members can update calibrations" ON cursor_calibrations;
+CREATE POLICY "Room members can update calibrations" ON cursor_calibrations
+FOR UPDATE TO authenticated
+USING (is_room_member(room_name))
+WITH CHECK (is_room_member(room_name));
+
+-- Reset to Default on the web page and CursorMappingStore.reset() delete the row
+DROP POLICY IF EXISTS "Room members can reset calibrations" ON cursor_calibrations;
+CREATE POLICY "Room members can reset calibrations" ON cursor_calibrations
+FOR DELETE TO authenticated
+USING (is_room_member(room_name));
+
+-- The roster of a room is for its members; rows stay bound to their session (migration 11)
+DROP POLICY IF EXISTS "Anyone can read room presence" ON room_presence;
+DROP POLICY IF EXISTS "Room members can read room presence" ON room_presence;
+CREATE POLICY "Room members can read room presence" ON room_presence
+FOR SELECT TO authenticated
+USING (is_room_member(room_name));
+
+DROP POLICY IF EXISTS "Users can add their presence" ON room_presence;
+DROP POLICY IF EXISTS "Room members can add their presence" ON room_presence;
+CREATE POLICY "Room members can add their presence" ON room_presence
+FOR INSERT TO authenticated
+WITH CHECK (is_room_member(room_name) AND auth_uid = auth.uid());
+
+-- Who leads a room is for its members too
+DROP POLICY IF EXISTS "Signed-in users can read control locks" ON cursor_control_locks;
+DROP POLICY IF EXISTS "Room members can read control locks" ON cursor_control_locks;
+CREATE POLICY "Room members can read control locks" ON cursor_control_locks
+FOR SELECT TO authenticated
+USING (is_room_member(room_name));
+
+CREATE OR REPLACE FUNCTION control_lock_owner(p_room TEXT)
+RETURNS TABLE (owner_id TEXT, owner_name TEXT, device TEXT, expires_in_ms BIGINT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT lock.owner_id, lock.owner_name, lock.device,
+         (EXTRACT(EPOCH FROM (lock.lease_expires_at - NOW())) * 1000)::BIGINT
+  FROM cursor_control_locks lock
+  WHERE lock.room_name = p_room AND lock.lease_expires_at > NOW() AND is_room_member(p_room);
+$$;
+
+-- Only members may take, renew or release a room's lock (same as migration 8 otherwise)
+CREATE OR REPLACE FUNCTION acquire_control_lock(
+  p_room TEXT,
+  p_owner_id TEXT,
+  p_owner_name TEXT,
+  p_device TEXT,
+  p_lease_seconds INT DEFAULT 10
+)
+RETURNS TABLE (owner_id TEXT, owner_name TEXT, device TEXT, expires_in_ms BIGINT)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_room_member(p_room) THEN
+    RAISE EXCEPTION 'Only members of room % can take its control lock', p_room USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO cursor_control_locks AS lock (room_name, owner_id, owner_uid, owner_name, device, lease_expires_at, updated_at)
+  VALUES (p_room, p_owner_id, auth.uid(), p_owner_name, p_device, NOW() + make_interval(secs => LEAST(GREATEST(p_lease_seconds, 1), 60)), NOW())
+  ON CONFLICT (room_name) DO UPDATE
+  SET owner_id = EXCLUDED.owner_id,
+      owner_uid = EXCLUDED.owner_uid,
+      owner_name = EXCLUDED.owner_name,
+      device = EXCLUDED.device,
+      lease_expires_at = EXCLUDED.lease_expires_at,
+      updated_at = NOW()
+  WHERE (lock.owner_uid = EXCLUDED.owner_uid AND lock.owner_id = EXCLUDED.owner_id)
+     OR lock.lease_expires_at <= NOW();
+
+  RETURN QUERY SELECT * FROM control_lock_owner(p_room);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_control_lock(p_room TEXT, p_owner_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  released INT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_room_member(p_room) THEN
+    RAISE EXCEPTION 'Only members of room % can release its control lock', p_room USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM cursor_control_locks
+  WHERE room_name = p_room AND owner_id = p_owner_id AND owner_uid = auth.uid();
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released > 0;
+END;
+$$;
+
+-- Private room channels: members receive (SELECT) and send (INSERT) broadcasts and presence
+DROP POLICY IF EXISTS "Room members can receive on room channels" ON realtime.messages;
+CREATE POLICY "Room members can receive on room channels" ON realtime.messages
+FOR SELECT TO authenticated
+USING (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND is_room_member(room_channel_room(realtime.topic()))
+);
+
+DROP POLICY IF EXISTS "Room members can send on room channels" ON realtime.messages;
+CREATE POLICY "Room members can send on room channels" ON realtime.messages
+FOR INSERT TO authenticated
+WITH CHECK (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND is_room_member(room_channel_room(realtime.topic()))
+);
+
+INSERT INTO demo_schema_versions (version, name) VALUES (12, 'rooms')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,95 @@
+-- Version 13: recorded cursor sessions for replay
+-- (SessionRecorder in the web controller; Core/CursorSession.ts replays on Spectacles)
+--
+-- cursor_positions only keeps the latest position per user and idle rows are
+-- cleaned up, so a session is archived while it runs: the recorder appends a
+-- chunk of events every few seconds. Each event is a compact JSON array whose
+-- first element is the time in ms since the recording started:
+--
+--   [t, "u", user_id, user_name, color]            cursor identity (before its first move, and on changes)
+--   [t, "m", user_id, x, y, depth?]                cursor move, web percent (0-100);
+--                                                  depth (migration 14) when sent
+--   [t, "c", owner_id | null, device | null]       control lock owner changed
+--   [t, "j", user_id, user_name, device, color, role]  presence join or update
+--   [t, "l", user_id]                              presence leave
+--
+-- Members of the room can list and replay its sessions; only the recorder
+-- changes or deletes them. Sessions outlive their room.
+
+CREATE TABLE IF NOT EXISTS cursor_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_name TEXT NOT NULL,
+  title TEXT,
+  recorded_by UUID NOT NULL DEFAULT auth.uid(),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- NULL while recording
+  ended_at TIMESTAMPTZ,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  event_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS cursor_sessions_room_started_idx
+ON cursor_sessions (room_name, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS cursor_session_chunks (
+  session_id UUID NOT NULL REFERENCES cursor_sessions (id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  start_ms INTEGER NOT NULL,
+  end_ms INTEGER NOT NULL,
+  events JSONB NOT NULL,
+  PRIMARY KEY (session_id, seq)
+);
+
+ALTER TABLE cursor_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cursor_session_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Room members can read sessions" ON cursor_sessions;
+CREATE POLICY "Room members can read sessions" ON cursor_sessions
+FOR SELECT TO authenticated
+USING (recorded_by = auth.uid() OR is_room_member(room_name));
+
+DROP POLICY IF EXISTS "Room members can record sessions" ON cursor_sessions;
+CREATE POLICY "Room members can record sessions" ON cursor_sessions
+FOR INSERT TO authenticated
+WITH CHECK (recorded_by = auth.uid() AND is_room_member(room_name));
+
+DROP POLICY IF EXISTS "Recorders manage their sessions" ON cursor_sessions;
+CREATE POLICY "Recorders manage their sessions" ON cursor_sessions
+FOR UPDATE TO authenticated
+USING (recorded_by = auth.uid())
+WITH CHECK (recorded_by = auth.uid());
+
+DROP POLICY IF EXISTS "Recorders delete their sessions" ON cursor_sessions;
+CREATE POLICY "Recorders delete their sessions" ON cursor_sessions
+FOR DELETE TO authenticated
+USING (recorded_by = auth.uid());
+
+-- Chunks follow their session (the subqueries run under cursor_sessions' policies)
+DROP POLICY IF EXISTS "Readers of a session can read its chunks" ON cursor_session_chunks;
+CREATE POLICY "Readers of a session can read its chunks" ON cursor_session_chunks
+FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM cursor_sessions session WHERE session.id = session_id));
+
+DROP POLICY IF EXISTS "Recorders append chunks" ON cursor_session_chunks;
+CREATE POLICY "Recorders append chunks" ON cursor_session_chunks
+FOR INSERT TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM cursor_sessions session
+  WHERE session.id = session_id AND session.recorded_by = auth.uid() AND session.ended_at IS NULL
+));
+
+-- The recorder follows every cursor move through postgres_changes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'cursor_positions'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE cursor_positions;
+  END IF;
+END;
+$$;
+
+INSERT INTO demo_schema_versions (version, name) VALUES (13, 'cursor_sessions')
+ON CONFLICT (version) DO NOTHING;
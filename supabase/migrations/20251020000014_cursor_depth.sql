@@ -0,0 +1,32 @@
+-- Version 14: 3D cursor data on cursor_positions and cursor_position_history
+-- (RealtimeCursorBroadcaster sends it, RealtimeCursorFollower places cursors with it)
+--
+-- x / y stay the web percentages every client understands. The new columns
+-- are optional; rows without them are placed at the follower's default distance.
+--
+--   depth                     forward distance from the sender's camera, in Lens units
+--                             (the web controller sends its depth slider / scroll wheel)
+--   world_x, world_y, world_z sender's world position (Spectacles only; the same
+--                             world only for devices that share an origin)
+--   rot_x, rot_y, rot_z, rot_w cursor orientation relative to the sender's camera (quaternion)
+
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS depth REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS world_x REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS world_y REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS world_z REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS rot_x REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS rot_y REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS rot_z REAL;
+ALTER TABLE cursor_positions ADD COLUMN IF NOT EXISTS rot_w REAL;
+
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS depth REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS world_x REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS world_y REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS world_z REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS rot_x REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS rot_y REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS rot_z REAL;
+ALTER TABLE cursor_position_history ADD COLUMN IF NOT EXISTS rot_w REAL;
+
+INSERT INTO demo_schema_versions (version, name) VALUES (14, 'cursor_depth')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,69 @@
+-- Version 15: annotation strokes drawn on the web controller and shown in AR
+-- (SpectaclesCursorClient draws, Core/Annotations.ts and AnnotationRenderer show them)
+--
+-- While a stroke is drawn its points stream as `annotation-points` broadcasts
+-- on `cursor-annotations-<room>`; the finished stroke is broadcast as
+-- `annotation-end` and stored here, so a Lens that joins later (or has no
+-- Realtime) still shows it. `annotation-undo` and `annotation-clear` follow
+-- deleting rows. Points are web percentages, like cursor_positions.x / y.
+
+CREATE TABLE IF NOT EXISTS cursor_annotations (
+  -- Generated by the drawing page, also used in the broadcasts
+  id UUID PRIMARY KEY,
+  room_name TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  user_name TEXT,
+  color TEXT NOT NULL DEFAULT '#FF6B6B',
+  -- Line width in percent of the drawing area's width
+  width REAL NOT NULL DEFAULT 0.5 CHECK (width > 0 AND width <= 20),
+  -- Forward distance from the Spectacles camera, like cursor_positions.depth
+  depth REAL,
+  -- [[x, y], ...]
+  points JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS cursor_annotations_room_created_idx
+ON cursor_annotations (room_name, created_at);
+
+ALTER TABLE cursor_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Like cursors: any member of the room may draw, undo and clear
+DROP POLICY IF EXISTS "Room members can use annotations" ON cursor_annotations;
+CREATE POLICY "Room members can use annotations" ON cursor_annotations
+FOR ALL TO authenticated
+USING (is_room_member(room_name))
+WITH CHECK (is_room_member(room_name));
+
+-- Expired rooms take their annotations with them
+CREATE OR REPLACE FUNCTION expire_idle_rooms()
+RETURNS INTEGER
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  WITH expired AS (
+    DELETE FROM rooms
+    WHERE last_active_at + make_interval(mins => idle_minutes) <= NOW()
+    RETURNING name
+  ),
+  cursors AS (
+    DELETE FROM cursor_positions WHERE room_name IN (SELECT name FROM expired)
+  ),
+  history AS (
+    DELETE FROM cursor_position_history WHERE room_name IN (SELECT name FROM expired)
+  ),
+  presence AS (
+    DELETE FROM room_presence WHERE room_name IN (SELECT name FROM expired)
+  ),
+  locks AS (
+    DELETE FROM cursor_control_locks WHERE room_name IN (SELECT name FROM expired)
+  ),
+  calibrations AS (
+    DELETE FROM cursor_calibrations WHERE room_name IN (SELECT name FROM expired)
+  ),
+  annotations AS (
+    DELETE FROM cursor_annotations WHERE room_name IN (SELECT name FROM expired)
+  )
+  SELECT COUNT(*)::INTEGER FROM expired;
+$$;
+
+INSERT INTO demo_schema_versions (version, name) VALUES (15, 'cursor_annotations')
+ON CONFLICT (version) DO NOTHING;
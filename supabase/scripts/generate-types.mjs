@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+/**
+ * Generate TypeScript row models from the PostgREST OpenAPI document
+ *
+ * Writes the same file to the Lens project and the Nuxt frontend, so both
+ * use one set of interfaces and schema drift shows up as compile errors:
+ *
+ *   lens-studio-project/Assets/Supabase/Core/DatabaseTypes.ts
+ *   frontend/utils/databaseTypes.ts
+ *
+ * Usage (from the repository root):
+ *
+ *   SUPABASE_URL=https://your-project.supabase.co SUPABASE_KEY=<key> node supabase/scripts/generate-types.mjs
+ *   node supabase/scripts/generate-types.mjs --input openapi.json
+ *   node supabase/scripts/generate-types.mjs --check   # exit 1 when the files are out of date
+ *
+ * SUPABASE_KEY can be the anon key; use a secret / service role key if the
+ * project restricts the OpenAPI endpoint. Only tables and views the key can
+ * access are included.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "../..");
+
+const OUTPUTS = [
+  "lens-studio-project/Assets/Supabase/Core/DatabaseTypes.ts",
+  "frontend/utils/databaseTypes.ts"
+];
+
+// Internal tables that should not get row models
+const SKIPPED_TABLES = ["demo_schema_versions"];
+
+// ---------------------------------------------------------------------------
+// Input
+// ---------------------------------------------------------------------------
+
+function parseArgs(argv) {
+  const args = { input: null, check: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--input") {
+      args.input = argv[++i];
+    } else if (argv[i] === "--check") {
+      args.check = true;
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+async function loadSpec(input) {
+  if (input) {
+    return JSON.parse(await readFile(resolve(process.cwd(), input), "utf8"));
+  }
+
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_KEY;
+  if (!url || !key) {
+    throw new Error("Set SUPABASE_URL and SUPABASE_KEY, or pass --input <openapi.json>");
+  }
+
+  const response = await fetch(`${url.replace(/\/$/, "")}/rest/v1/`, {
+    headers: { apikey: key, Authorization: `Bearer ${key}`, Accept: "application/openapi+json" }
+  });
+  if (!response.ok) {
+    throw new Error(`OpenAPI request failed: HTTP ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// ---------------------------------------------------------------------------
+// Type mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * TypeScript type for one OpenAPI property (PostgREST puts the Postgres type in `format`)
+ */
+function toTsType(property) {
+  if (Array.isArray(property.enum) && property.enum.length > 0) {
+    return property.enum.map(value => JSON.stringify(value)).join(" | ");
+  }
+
+  const format = (property.format || "").toLowerCase();
+  if (format === "json" || format === "jsonb") {
+    return "Json";
+  }
+
+  switch (property.type) {
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const item = toTsType(property.items || {});
+      return item.indexOf(" ") >= 0 ? `(${item})[]` : `${item}[]`;
+    }
+    case "string":
+      return "string";
+    default:
+      // Types PostgREST cannot describe (e.g. composite) come through without a type
+      return "Json";
+  }
+}
+
+/**
+ * test_messages -> TestMessages
+ */
+function toPascalCase(name) {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(part => part.length > 0)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function quoteKey(name) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function generate(spec) {
+  const definitions = spec.definitions || {};
+  const tables = Object.keys(definitions)
+    .filter(name => SKIPPED_TABLES.indexOf(name) < 0)
+    .sort();
+
+  const lines = [
+    "/**",
+    " * Row models for the Supabase tables",
+    " *",
+    " * GENERATED by supabase/scripts/generate-types.mjs from the PostgREST OpenAPI",
+    " * document - do not edit. Regenerate after applying a migration.",
+    " *",
+    " * - <Table>Row: a row as returned by select (columns without a NOT NULL",
+    " *   constraint or with a default may be null, except primary keys)",
+    " * - <Table>Insert: what insert() accepts (columns with defaults are optional)",
+    " * - <Table>Update: what update() accepts (every column optional)",
+    " */",
+    "",
+    "export type Json = string | number | boolean | null | { [key: string]: Json } | Json[];",
+    ""
+  ];
+
+  tables.forEach(table => {
+    const definition = definitions[table];
+    const properties = definition.properties || {};
+    // PostgREST lists NOT NULL columns without a default as required
+    const required = definition.required || [];
+    const columns = Object.keys(properties);
+    // Primary keys always have a value once the row exists, even when generated
+    const isPrimaryKey = name => (properties[name].description || "").indexOf("<pk/>") >= 0;
+    const isNullable = name => required.indexOf(name) < 0 && !isPrimaryKey(name);
+    const typeName = toPascalCase(table);
+
+    const column = (name, optional, nullable) => {
+      const property = properties[name];
+      const description = (property.description || "").replace(/\n/g, " ").replace(/<[^>]*>/g, "").trim();
+      const comment = [property.format, description].filter(part => part).join(" - ");
+      const type = toTsType(property);
+      return `  /** ${comment} */\n  ${quoteKey(name)}${optional ? "?" : ""}: ${type}${nullable ? " | null" : ""};`;
+    };
+
+    lines.push(`/** public.${table} */`);
+    lines.push(`export interface ${typeName}Row {`);
+    columns.forEach(name => lines.push(column(name, false, isNullable(name))));
+    lines.push("}", "");
+
+    lines.push(`export interface ${typeName}Insert {`);
+    columns.forEach(name => lines.push(column(name, required.indexOf(name) < 0, isNullable(name))));
+    lines.push("}", "");
+
+    lines.push(`export interface ${typeName}Update {`);
+    columns.forEach(name => lines.push(column(name, true, isNullable(name))));
+    lines.push("}", "");
+  });
+
+  lines.push("export interface Tables {");
+  tables.forEach(table => {
+    const typeName = toPascalCase(table);
+    lines.push(`  ${quoteKey(table)}: { Row: ${typeName}Row; Insert: ${typeName}Insert; Update: ${typeName}Update };`);
+  });
+  lines.push("}", "");
+  lines.push("export type TableName = keyof Tables;");
+  lines.push("");
+  lines.push("/** e.g. TableRow<\"posts\"> */");
+  lines.push("export type TableRow<T extends TableName> = Tables[T][\"Row\"];");
+  lines.push("export type TableInsert<T extends TableName> = Tables[T][\"Insert\"];");
+  lines.push("export type TableUpdate<T extends TableName> = Tables[T][\"Update\"];");
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const spec = await loadSpec(args.input);
+  if (!spec.definitions) {
+    throw new Error("The OpenAPI document has no definitions - is this the /rest/v1/ endpoint?");
+  }
+
+  const output = generate(spec);
+  let outdated = false;
+
+  for (const file of OUTPUTS) {
+    const path = resolve(ROOT, file);
+    const current = await readFile(path, "utf8").catch(() => null);
+
+    if (args.check) {
+      if (current !== output) {
+        console.error(`❌ ${file} is out of date`);
+        outdated = true;
+      }
+    } else if (current !== output) {
+      await writeFile(path, output);
+      console.log(`✅ Wrote ${file}`);
+    } else {
+      console.log(`✔️ ${file} is up to date`);
+    }
+  }
+
+  if (outdated) {
+    console.error("Run node supabase/scripts/generate-types.mjs to regenerate");
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+/**
+ * Jitter buffer for remote cursor positions
+ *
+ * Same algorithm as lens-studio-project/Assets/Supabase/Core/JitterBuffer.ts:
+ * samples are kept sorted by sender timestamp, playback runs playoutDelayMs
+ * behind them and interpolates between the two samples around the playback
+ * time; when samples stop arriving the last velocity is extrapolated for up to
+ * maxExtrapolationMs, then the position holds.
+ *
+ * The sender's clock is mapped to ours with the smallest (arrival - timestamp)
+ * seen recently (the fastest delivery).
+ */
+
+const JITTER_OFFSET_WINDOW = 32;
+
+class JitterBuffer {
+    constructor(options = {}) {
+        this.playoutDelayMs = options.playoutDelayMs ?? 100;
+        this.maxExtrapolationMs = options.maxExtrapolationMs ?? 250;
+        this.maxSamples = Math.max(2, options.maxSamples || 32);
+        this.reset();
+    }
+
+    /**
+     * Add { x, y, timestamp }; returns false when it is older than what has been played
+     */
+    push(sample, arrivalTime = Date.now()) {
+        if (sample.timestamp <= this.playedUntil) return false;
+
+        this.offsets.push(arrivalTime - sample.timestamp);
+        if (this.offsets.length > JITTER_OFFSET_WINDOW) {
+            this.offsets.shift();
+        }
+        this.clockOffset = Math.min(...this.offsets);
+
+        // Insert in timestamp order; a repeated timestamp replaces the sample
+        const entry = { x: sample.x, y: sample.y, timestamp: sample.timestamp };
+        let index = this.samples.length;
+        while (index > 0 && this.samples[index - 1].timestamp > sample.timestamp) {
+            index--;
+        }
+        if (index > 0 && this.samples[index - 1].timestamp === sample.timestamp) {
+            this.samples[index - 1] = entry;
+            return true;
+        }
+        this.samples.splice(index, 0, entry);
+
+        if (this.samples.length > this.maxSamples) {
+            this.samples.splice(0, this.samples.length - this.maxSamples);
+        }
+        return true;
+    }
+
+    /**
+     * { x, y, state } to show at local time `now`, or null before the first sample
+     * state: 'waiting' | 'interpolating' | 'extrapolating' | 'holding'
+     */
+    sample(now = Date.now()) {
+        const count = this.samples.length;
+        if (count === 0) return null;
+
+        const playTime = now - this.clockOffset - this.playoutDelayMs;
+        this.playedUntil = Math.max(this.playedUntil, playTime);
+
+        const first = this.samples[0];
+        if (playTime <= first.timestamp) {
+            return { x: first.x, y: first.y, state: 'waiting' };
+        }
+
+        // Between two samples: interpolate, and forget everything before them
+        for (let i = 0; i < count - 1; i++) {
+            const from = this.samples[i];
+            const to = this.samples[i + 1];
+            if (playTime < to.timestamp) {
+                const t = (playTime - from.timestamp) / (to.timestamp - from.timestamp);
+                this.samples.splice(0, i);
+                return {
+                    x: from.x + (to.x - from.x) * t,
+                    y: from.y + (to.y - from.y) * t,
+                    state: 'interpolating'
+                };
+            }
+        }
+
+        // Past the newest sample: keep the last two for the velocity
+        this.samples.splice(0, Math.max(0, count - 2));
+        const last = this.samples[this.samples.length - 1];
+        if (this.samples.length < 2) {
+            return { x: last.x, y: last.y, state: 'holding' };
+        }
+
+        const previous = this.samples[0];
+        const elapsed = playTime - last.timestamp;
+        const ahead = Math.min(elapsed, this.maxExtrapolationMs);
+        const duration = last.timestamp - previous.timestamp;
+
+        return {
+            x: last.x + ((last.x - previous.x) / duration) * ahead,
+            y: last.y + ((last.y - previous.y) / duration) * ahead,
+            state: elapsed > this.maxExtrapolationMs ? 'holding' : 'extrapolating'
+        };
+    }
+
+    /**
+     * Forget all samples and the clock estimate (e.g. when the sender changes)
+     */
+    reset() {
+        this.samples = [];
+        this.offsets = [];
+        this.clockOffset = 0;
+        this.playedUntil = -Infinity;
+    }
+
+    getBufferedCount() {
+        return this.samples.length;
+    }
+}
+
+// Make it globally available
+window.JitterBuffer = JitterBuffer;
@@ -0,0 +1,452 @@
+/**
+ * Cursor session recording and replay
+ *
+ * SessionRecorder archives a room while it runs into cursor_sessions and
+ * cursor_session_chunks (supabase/migrations/20251020000013_cursor_sessions.sql):
+ * every cursor_positions change of the room, the control lock owner and the
+ * presence roster, as compact events appended in chunks every few seconds.
+ * Each event is an array starting with its time in ms since the recording
+ * started:
+ *
+ *   [t, 'u', user_id, user_name, color]               cursor identity
+ *   [t, 'm', user_id, x, y, depth?]                   cursor move (web percent; depth when sent)
+ *   [t, 'c', owner_id | null, device | null]          control owner changed
+ *   [t, 'j', user_id, user_name, device, color, role] presence join or update
+ *   [t, 'l', user_id]                                 presence leave
+ *
+ * SessionPlayer plays a loaded session back with play / pause / seek and
+ * speed control; it is the same player as
+ * lens-studio-project/Assets/Supabase/Core/CursorSession.ts.
+ */
+
+const SESSION_EVENT_USER = 'u';
+const SESSION_EVENT_MOVE = 'm';
+const SESSION_EVENT_CONTROL = 'c';
+const SESSION_EVENT_JOIN = 'j';
+const SESSION_EVENT_LEAVE = 'l';
+
+class SessionRecorder {
+    constructor(cursorClient, options = {}) {
+        this.client = cursorClient;
+        this.supabase = null;
+        this.chunkSeconds = options.chunkSeconds || 10;
+        this.session = null;
+        this.channel = null;
+        this.flushTimer = null;
+        this.unsubscribers = [];
+        this.reset();
+    }
+
+    reset() {
+        this.startedAt = 0;
+        this.pending = []; // events not written yet
+        this.chunkSeq = 0;
+        this.chunkStartMs = 0;
+        this.writtenCount = 0;
+        this.identities = {}; // user_id -> 'name|color' last recorded
+        this.members = {}; // user_id -> 'name|device|color|role' last recorded
+        this.controlOwnerId = undefined;
+        this.writing = Promise.resolve();
+    }
+
+    isRecording() {
+        return !!this.session;
+    }
+
+    /**
+     * Start recording the client's room; resolves with the cursor_sessions row
+     */
+    async start(title = '') {
+        if (this.session) return this.session;
+
+        // Kept, so stop() can still write after the client disconnects
+        const supabase = this.supabase = this.client.supabase;
+        const roomName = this.client.roomName;
+
+        const { data, error } = await supabase
+            .from('cursor_sessions')
+            .insert({ room_name: roomName, title: title || null })
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        this.reset();
+        this.session = data;
+        this.startedAt = Date.now();
+
+        // Who is there, who leads and where the cursors are when it starts
+        this.recordControl(this.client.getCurrentControlOwner());
+        this.recordMembers(this.client.getRoomMembers());
+        const { data: cursors } = await supabase
+            .from('cursor_positions')
+            .select('*')
+            .eq('room_name', roomName);
+        (cursors || []).forEach(row => this.recordMove(row));
+
+        this.unsubscribers.push(this.client.onControlChange(change => this.recordControl(change.owner)));
+        this.unsubscribers.push(this.client.onPresenceChange(members => this.recordMembers(members)));
+
+        this.channel = supabase.channel(`cursor-recording-${roomName}`)
+            .on('postgres_changes', {
+                event: '*',
+                schema: 'public',
+                table: 'cursor_positions',
+                filter: `room_name=eq.${roomName}`
+            }, (change) => {
+                if (change.new && change.new.user_id) {
+                    this.recordMove(change.new);
+                }
+            })
+            .subscribe();
+
+        this.flushTimer = setInterval(() => this.flush(), this.chunkSeconds * 1000);
+        console.log(`🎬 Recording ${roomName} as session ${data.id}`);
+        return data;
+    }
+
+    /**
+     * Write what is left and close the session; resolves with its id
+     */
+    async stop() {
+        if (!this.session) return null;
+
+        clearInterval(this.flushTimer);
+        this.flushTimer = null;
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        if (this.channel) {
+            this.supabase.removeChannel(this.channel);
+            this.channel = null;
+        }
+
+        await this.flush(true);
+        const sessionId = this.session.id;
+        console.log(`🎬 Recorded session ${sessionId}: ${this.writtenCount} events in ${(this.elapsed() / 1000).toFixed(1)}s`);
+        this.session = null;
+        return sessionId;
+    }
+
+    // Recording
+
+    elapsed() {
+        return Date.now() - this.startedAt;
+    }
+
+    record(event) {
+        this.pending.push(event);
+    }
+
+    recordMove(row) {
+        const t = this.elapsed();
+        const identity = `${row.user_name}|${row.color}`;
+        if (this.identities[row.user_id] !== identity) {
+            this.identities[row.user_id] = identity;
+            this.record([t, SESSION_EVENT_USER, row.user_id, row.user_name, row.color || null]);
+        }
+        const move = [t, SESSION_EVENT_MOVE, row.user_id, Math.round(row.x * 10) / 10, Math.round(row.y * 10) / 10];
+        if (row.depth != null) {
+            move.push(Math.round(row.depth * 100) / 100);
+        }
+        this.record(move);
+    }
+
+    recordControl(owner) {
+        const ownerId = owner ? owner.ownerId : null;
+        if (ownerId === this.controlOwnerId) return;
+
+        this.controlOwnerId = ownerId;
+        this.record([this.elapsed(), SESSION_EVENT_CONTROL, ownerId, owner ? owner.device : null]);
+    }
+
+    // Only joins, leaves and changed members are recorded
+    recordMembers(members) {
+        const t = this.elapsed();
+        const current = {};
+
+        members.forEach(member => {
+            const key = `${member.userName}|${member.device}|${member.color}|${member.role}`;
+            current[member.userId] = key;
+            if (this.members[member.userId] !== key) {
+                this.record([t, SESSION_EVENT_JOIN, member.userId, member.userName, member.device, member.color, member.role]);
+            }
+        });
+
+        Object.keys(this.members).forEach(userId => {
+            if (!current[userId]) {
+                this.record([t, SESSION_EVENT_LEAVE, userId]);
+            }
+        });
+
+        this.members = current;
+    }
+
+    // Writing
+
+    // One write at a time, so chunks keep their order
+    flush(final = false) {
+        this.writing = this.writing.then(() => this.writeChunk(final));
+        return this.writing;
+    }
+
+    async writeChunk(final) {
+        const supabase = this.supabase;
+        if (!this.session) return;
+
+        const events = this.pending;
+        const endMs = this.elapsed();
+        this.pending = [];
+
+        if (events.length > 0) {
+            const { error } = await supabase
+                .from('cursor_session_chunks')
+                .insert({
+                    session_id: this.session.id,
+                    seq: this.chunkSeq,
+                    start_ms: this.chunkStartMs,
+                    end_ms: endMs,
+                    events
+                });
+
+            if (error) {
+                // Keep the events for the next chunk
+                console.warn('Session chunk error:', error);
+                this.pending = events.concat(this.pending);
+                if (!final) return;
+            } else {
+                this.chunkSeq++;
+                this.chunkStartMs = endMs;
+                this.writtenCount += events.length;
+            }
+        }
+
+        const update = { duration_ms: endMs, event_count: this.writtenCount };
+        if (final) {
+            update.ended_at = new Date().toISOString();
+        }
+
+        const { error } = await supabase
+            .from('cursor_sessions')
+            .update(update)
+            .eq('id', this.session.id);
+
+        if (error) {
+            console.warn('Session update error:', error);
+        }
+    }
+
+    // Stored sessions
+
+    /**
+     * Recorded sessions of a room, newest first
+     */
+    static async listSessions(supabase, roomName, limit = 20) {
+        const { data, error } = await supabase
+            .from('cursor_sessions')
+            .select('*')
+            .eq('room_name', roomName)
+            .order('started_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            console.warn('List sessions error:', error);
+            return [];
+        }
+        return data || [];
+    }
+
+    /**
+     * A session with all of its events: { session, events, durationMs }, or null
+     */
+    static async loadSession(supabase, sessionId) {
+        const { data: session, error } = await supabase
+            .from('cursor_sessions')
+            .select('*')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+        if (error || !session) {
+            console.warn('Load session error:', error || 'not found');
+            return null;
+        }
+
+        const { data: chunks, error: chunkError } = await supabase
+            .from('cursor_session_chunks')
+            .select('seq,end_ms,events')
+            .eq('session_id', sessionId)
+            .order('seq', { ascending: true });
+
+        if (chunkError) {
+            console.warn('Load session error:', chunkError);
+            return null;
+        }
+
+        let events = [];
+        let durationMs = session.duration_ms;
+        (chunks || []).forEach(chunk => {
+            events = events.concat(chunk.events);
+            durationMs = Math.max(durationMs, chunk.end_ms);
+        });
+
+        return { session, events, durationMs };
+    }
+}
+
+class SessionPlayer {
+    constructor(recording) {
+        this.recording = recording;
+        this.state = SessionPlayer.emptyState();
+        this.index = 0; // next event to play
+        this.speed = 1;
+        this.playing = false;
+        this.basePositionMs = 0; // position at baseTime
+        this.baseTime = 0;
+        this.pendingReset = true;
+    }
+
+    // Transport
+
+    /**
+     * Play from the current position (from the start once the end was reached)
+     */
+    play(now = Date.now()) {
+        if (this.getPosition(now) >= this.recording.durationMs) {
+            this.seek(0, now);
+        }
+        this.basePositionMs = this.getPosition(now);
+        this.baseTime = now;
+        this.playing = true;
+    }
+
+    pause(now = Date.now()) {
+        this.basePositionMs = this.getPosition(now);
+        this.baseTime = now;
+        this.playing = false;
+    }
+
+    /**
+     * Jump to a session time in ms; the next update() reports a reset
+     */
+    seek(positionMs, now = Date.now()) {
+        const target = Math.max(0, Math.min(this.recording.durationMs, positionMs));
+        if (target < this.state.positionMs) {
+            this.state = SessionPlayer.emptyState();
+            this.index = 0;
+        }
+        this.advanceTo(target);
+
+        this.basePositionMs = target;
+        this.baseTime = now;
+        this.pendingReset = true;
+    }
+
+    /**
+     * Playback speed, 0.1 - 16 (1 = real time)
+     */
+    setSpeed(speed, now = Date.now()) {
+        this.basePositionMs = this.getPosition(now);
+        this.baseTime = now;
+        this.speed = Math.max(0.1, Math.min(16, speed));
+    }
+
+    isPlaying() {
+        return this.playing;
+    }
+
+    getDuration() {
+        return this.recording.durationMs;
+    }
+
+    getPosition(now = Date.now()) {
+        if (!this.playing) {
+            return this.basePositionMs;
+        }
+        return Math.min(this.recording.durationMs, this.basePositionMs + (now - this.baseTime) * this.speed);
+    }
+
+    // Playback
+
+    /**
+     * Play the events up to `now`: { reset, events }. After a seek reset is
+     * true and the room should be redrawn from getState() instead.
+     */
+    update(now = Date.now()) {
+        const position = this.getPosition(now);
+        const events = this.advanceTo(position);
+
+        if (this.playing && position >= this.recording.durationMs) {
+            this.pause(now);
+        }
+
+        if (this.pendingReset) {
+            this.pendingReset = false;
+            return { reset: true, events: [] };
+        }
+        return { reset: false, events };
+    }
+
+    /**
+     * The room at the last update or seek:
+     * { positionMs, cursors: { id: { userId, userName, color, x, y, depth, movedAtMs } },
+     *   controlOwner: { ownerId, device } | null, members: { id: { userId, userName, device, color, role } } }
+     */
+    getState() {
+        return this.state;
+    }
+
+    advanceTo(positionMs) {
+        const played = [];
+        const events = this.recording.events;
+        while (this.index < events.length && events[this.index][0] <= positionMs) {
+            SessionPlayer.applyEvent(this.state, events[this.index]);
+            played.push(events[this.index]);
+            this.index++;
+        }
+        this.state.positionMs = positionMs;
+        return played;
+    }
+
+    static emptyState() {
+        return { positionMs: 0, cursors: {}, controlOwner: null, members: {} };
+    }
+
+    static applyEvent(state, event) {
+        const [t, type, userId] = event;
+        switch (type) {
+            case SESSION_EVENT_USER: {
+                const cursor = state.cursors[userId];
+                if (cursor) {
+                    cursor.userName = event[3];
+                    cursor.color = event[4];
+                } else {
+                    state.cursors[userId] = { userId, userName: event[3], color: event[4], x: 50, y: 50, depth: null, movedAtMs: -1 };
+                }
+                break;
+            }
+            case SESSION_EVENT_MOVE: {
+                const cursor = state.cursors[userId] ||
+                    (state.cursors[userId] = { userId, userName: userId, color: null, x: 50, y: 50, depth: null, movedAtMs: -1 });
+                cursor.x = event[3];
+                cursor.y = event[4];
+                cursor.depth = event[5] ?? null;
+                cursor.movedAtMs = t;
+                break;
+            }
+            case SESSION_EVENT_CONTROL:
+                state.controlOwner = userId ? { ownerId: userId, device: event[3] } : null;
+                break;
+            case SESSION_EVENT_JOIN:
+                state.members[userId] = { userId, userName: event[3], device: event[4], color: event[5], role: event[6] };
+                break;
+            case SESSION_EVENT_LEAVE:
+                delete state.members[userId];
+                break;
+        }
+    }
+}
+
+// Make them globally available
+window.SessionRecorder = SessionRecorder;
+window.SessionPlayer = SessionPlayer;
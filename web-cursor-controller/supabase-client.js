@@ -2,6 +2,32 @@
  * Enhanced Supabase client for real-time cursor broadcasting
  * This version writes cursor positions to a database table AND
  * uses Supabase Realtime channels for maximum compatibility
+ *
+ * Which device leads the room is decided by the control lock in
+ * cursor_control_locks (supabase/migrations/20251020000008_control_locks.sql),
+ * the same protocol as Core/ControlLock.ts in the Lens:
+ * requestControl() takes a free room or asks the holder to hand it over,
+ * the holder renews its lease while leading, releaseControl() frees it.
+ *
+ * Calibration: the Lens' CursorCalibrationWizard drives a wizard over
+ * `cursor-calibration-<room>` and saves the fitted web-to-Lens mapping in
+ * cursor_calibrations; this page shows its targets and can start, capture
+ * and cancel it (see Core/CursorMapping.ts for the events).
+ *
+ * Rooms: cursor_positions is only open to members of a room
+ * (supabase/migrations/20251020000012_rooms.sql, like Core/RoomService.ts).
+ * connect() signs in anonymously, then joins the room by its join code, or
+ * uses the named room when already a member, or creates it.
+ *
+ * Depth: every cursor move carries `depth`, how far in front of the
+ * Spectacles camera the cursor should appear (Lens units, set with
+ * setCursorDepth()); the Lens also sends its world position and orientation
+ * (supabase/migrations/20251020000014_cursor_depth.sql).
+ *
+ * Presence: every connected page and Lens tracks itself (name, device, color,
+ * role) on `cursor-presence-<room>`, like Core/RoomPresence.ts. This page
+ * also heartbeats its room_presence row, so a Lens without Realtime still
+ * sees it, and merges the fresh rows into the roster it reports.
  */
 
 // Use the global supabase object from CDN
@@ -15,6 +41,47 @@ class SpectaclesCursorClient {
         this.userColor = this.generateRandomColor();
         this.lastBroadcastTime = 0;
         this.broadcastThrottleMs = 50; // 20 FPS max
+        this.cursorDepth = 2.0; // Lens units in front of the camera
+        this.historyIntervalMs = 1000; // cursor_position_history sample rate (0 = off)
+        this.lastHistoryTime = 0;
+
+        // Control lock
+        this.controlChannel = null;
+        this.controlOwner = null; // { ownerId, ownerName, device, expiresAt }
+        this.controlListeners = [];
+        this.controlLeaseSeconds = 10;
+        this.grantControlRequests = true;
+        this.renewTimer = null;
+        this.watchTimer = null;
+        this.controlRequest = null; // { deadline, resolvers, timer }
+
+        // Calibration
+        this.calibrationChannel = null;
+        this.calibrationListeners = [];
+
+        // Annotations
+        this.annotationChannel = null;
+        this.annotationListeners = [];
+        this.annotationBatchMs = 50; // annotation-points rate while drawing
+        this.annotationMaxPoints = 2000;
+        this.annotationColor = null; // null = the cursor color
+        this.annotationWidth = 0.5; // percent of the drawing area's width
+        this.currentStroke = null; // { id, color, width, depth, points, sentCount, timer }
+        this.ownStrokeIds = []; // strokes drawn here, for undo
+
+        // Presence
+        this.presenceChannel = null;
+        this.presenceRole = 'viewer';
+        this.presenceJoinedAt = null;
+        this.presenceHeartbeatSeconds = 5;
+        this.presenceStaleSeconds = 15;
+        this.presenceTimer = null;
+        this.presenceRows = {}; // user_id -> fresh room_presence row
+        this.roomMembers = [];
+        this.presenceListeners = [];
+
+        // Room
+        this.room = null; // { name, join_code, is_listed, idle_minutes, created_at, last_active_at }
     }
 
     generateUserId() {
@@ -26,13 +93,31 @@ class SpectaclesCursorClient {
         return colors[Math.floor(Math.random() * colors.length)];
     }
 
-    async connect(supabaseUrl, supabaseKey, roomName, userName) {
-        try {
+    /**
+     * Create the Supabase client without joining a room (e.g. to list rooms)
+     */
+    init(supabaseUrl, supabaseKey) {
+        if (!this.supabase) {
             // Create Supabase client using global supabase from CDN
             this.supabase = supabase.createClient(supabaseUrl, supabaseKey);
-            this.roomName = roomName;
+        }
+        return this.supabase;
+    }
+
+    /**
+     * Connect to a room: by joinCode when given, otherwise roomName
+     * (created when it does not exist yet)
+     */
+    async connect(supabaseUrl, supabaseKey, roomName, userName, joinCode = '') {
+        try {
+            this.init(supabaseUrl, supabaseKey);
             this.userName = userName;
 
+            await this.ensureSession();
+            this.room = await this.enterRoom(roomName, joinCode);
+            this.roomName = this.room.name;
+            console.log(`🏠 Room ${this.room.name} - join code ${this.room.join_code}`);
+
             // Test connection by checking if cursor_positions table exists
             const { data, error } = await this.supabase
                 .from('cursor_positions')
@@ -46,9 +131,10 @@ class SpectaclesCursorClient {
             }
 
             // Create realtime channel for immediate feedback
-            this.channel = this.supabase.channel(`cursor-room-${roomName}`, {
+            this.channel = this.supabase.channel(`cursor-room-${this.roomName}`, {
                 config: {
-                    broadcast: { self: false } // Don't broadcast to self
+                    broadcast: { self: false }, // Don't broadcast to self
+                    private: true // Room members only (migration 12)
                 }
             });
 
@@ -68,6 +154,11 @@ class SpectaclesCursorClient {
                 }
             });
 
+            this.startControlLock();
+            this.joinCalibrationChannel();
+            this.joinAnnotationChannel();
+            this.startPresence();
+
             return true;
 
         } catch (error) {
@@ -96,21 +187,25 @@ class SpectaclesCursorClient {
             user_name: this.userName,
             x: x,
             y: y,
+            depth: this.cursorDepth,
             color: this.userColor,
             timestamp: now
         };
 
         try {
-            // Method 1: Write to database table (for Lens Studio to read)
-            const { data, error } = await this.supabase
+            // Method 1: Update our row in the database (for Lens Studio to read)
+            // One row per room and user, so the table does not grow with every move
+            const { error } = await this.supabase
                 .from('cursor_positions')
-                .insert(cursorData);
+                .upsert(cursorData, { onConflict: 'room_name,user_id' });
 
             if (error) {
                 console.error('Database write error:', error);
                 return false;
             }
 
+            this.recordHistory(cursorData);
+
             // Method 2: Broadcast via Realtime channel (for web clients)
             if (this.channel) {
                 this.channel.send({
@@ -129,8 +224,36 @@ class SpectaclesCursorClient {
         }
     }
 
+    /**
+     * Depth sent with the next cursor moves, clamped to 0.5 - 10; returns it
+     */
+    setCursorDepth(depth) {
+        this.cursorDepth = Math.min(10, Math.max(0.5, Number(depth) || 2));
+        return this.cursorDepth;
+    }
+
+    getCursorDepth() {
+        return this.cursorDepth;
+    }
+
+    async recordHistory(cursorData) {
+        if (this.historyIntervalMs <= 0 || cursorData.timestamp - this.lastHistoryTime < this.historyIntervalMs) {
+            return;
+        }
+        this.lastHistoryTime = cursorData.timestamp;
+
+        const { error } = await this.supabase
+            .from('cursor_position_history')
+            .insert(cursorData);
+
+        if (error) {
+            console.warn('History write error:', error);
+        }
+    }
+
+    // Removes the rows of this room's cursors idle for 30 seconds (users that left)
     async cleanupOldPositions() {
-        if (!this.supabase) return;
+        if (!this.supabase || !this.roomName) return;
 
         try {
             const cutoffTime = Date.now() - (30 * 1000); // 30 seconds ago
@@ -138,10 +261,11 @@ class SpectaclesCursorClient {
             const { error } = await this.supabase
                 .from('cursor_positions')
                 .delete()
+                .eq('room_name', this.roomName)
                 .lt('timestamp', cutoffTime);
 
             if (!error) {
-                console.log('🧹 Cleaned up old cursor positions');
+                console.log('🧹 Removed idle cursors');
             }
         } catch (error) {
             console.warn('Cleanup error:', error);
@@ -164,11 +288,16 @@ class SpectaclesCursorClient {
     }
 
     disconnect() {
+        this.stopControlLock();
+        this.leaveCalibrationChannel();
+        this.leaveAnnotationChannel();
+        this.stopPresence();
         if (this.channel) {
             this.channel.unsubscribe();
             this.channel = null;
         }
         this.supabase = null;
+        this.room = null;
         this.isConnected = false;
         console.log('📱 Disconnected from Supabase');
     }
@@ -185,31 +314,984 @@ class SpectaclesCursorClient {
         };
     }
 
+    /**
+     * Compatibility wrapper: 'pc_leader' requests control,
+     * 'spectacles_leader' hands it to the Spectacles
+     */
     async setControlMode(mode) {
-        // Store control mode in database for Lens Studio to read
-        if (!this.supabase) return;
+        if (mode === 'pc_leader') {
+            return this.requestControl();
+        }
+        await this.releaseControl('spectacles');
+        return false;
+    }
 
-        try {
-            const { error } = await this.supabase
-                .from('cursor_positions')
-                .insert({
-                    room_name: this.roomName,
-                    user_id: this.userId + '_control',
-                    user_name: this.userName + ' (control)',
-                    x: 0,
-                    y: 0,
-                    color: this.userColor,
-                    timestamp: Date.now()
-                });
+    // Control lock
 
-            if (!error) {
-                console.log(`🎮 Control mode set to: ${mode}`);
+    startControlLock() {
+        this.controlChannel = this.supabase.channel(`cursor-control-${this.roomName}`, {
+            config: {
+                broadcast: { self: false },
+                private: true
+            }
+        });
+
+        this.controlChannel.on('broadcast', { event: 'control-changed' }, ({ payload }) => {
+            this.handleControlChanged(payload);
+        });
+        this.controlChannel.on('broadcast', { event: 'control-request' }, ({ payload }) => {
+            this.handleControlRequest(payload);
+        });
+        this.controlChannel.subscribe();
+
+        // Poll the owner so expired leases are noticed without any broadcast
+        this.getControlOwner();
+        this.watchTimer = setInterval(() => {
+            if (this.controlOwner && Date.now() >= this.controlOwner.expiresAt) {
+                this.setControlOwner(null, this.controlOwner.ownerId === this.userId ? 'expired' : 'remote');
+            }
+            if (!this.isControlOwner()) {
+                this.getControlOwner();
+            }
+        }, (this.controlLeaseSeconds / 2) * 1000);
+    }
+
+    async stopControlLock() {
+        this.finishControlRequest(false);
+        if (this.watchTimer) {
+            clearInterval(this.watchTimer);
+            this.watchTimer = null;
+        }
+
+        // Leave only after the release broadcast went out
+        const channel = this.controlChannel;
+        if (this.isControlOwner()) {
+            await this.releaseControl();
+        }
+        if (this.renewTimer) {
+            clearTimeout(this.renewTimer);
+            this.renewTimer = null;
+        }
+        if (channel) {
+            channel.unsubscribe();
+        }
+        if (this.controlChannel === channel) {
+            this.controlChannel = null;
+        }
+        this.controlOwner = null;
+    }
+
+    /**
+     * Listen for control changes: callback({ owner, reason, handoffTo })
+     * Returns an unsubscribe function
+     */
+    onControlChange(callback) {
+        this.controlListeners.push(callback);
+        return () => {
+            this.controlListeners = this.controlListeners.filter(listener => listener !== callback);
+        };
+    }
+
+    isControlOwner() {
+        return !!this.controlOwner && this.controlOwner.ownerId === this.userId && Date.now() < this.controlOwner.expiresAt;
+    }
+
+    getCurrentControlOwner() {
+        return this.controlOwner && Date.now() < this.controlOwner.expiresAt ? { ...this.controlOwner } : null;
+    }
+
+    /**
+     * Ask the server who holds the room
+     */
+    async getControlOwner() {
+        if (!this.supabase) return null;
+
+        const requestedAt = Date.now();
+        const { data, error } = await this.supabase.rpc('control_lock_owner', { p_room: this.roomName });
+        if (error) {
+            console.warn('Control owner error:', error);
+            return this.getCurrentControlOwner();
+        }
+
+        const owner = data && data[0] ? this.toControlOwner(data[0], requestedAt) : null;
+        // Our own lease is only started and extended by acquireControl()
+        if (owner && owner.ownerId === this.userId) {
+            return this.getCurrentControlOwner();
+        }
+        if (!this.isControlOwner() || owner) {
+            this.setControlOwner(owner, this.isControlOwner() ? 'lost' : 'remote');
+        }
+        return owner;
+    }
+
+    /**
+     * Take control; when another device holds it, ask it to hand over and
+     * keep trying until it does or its lease runs out.
+     * Resolves true once granted, false after the timeout.
+     */
+    requestControl(timeoutSeconds = this.controlLeaseSeconds + 2) {
+        if (!this.supabase) return Promise.resolve(false);
+        if (this.isControlOwner()) return Promise.resolve(true);
+
+        if (!this.controlRequest) {
+            this.controlRequest = { deadline: Date.now() + timeoutSeconds * 1000, resolvers: [], timer: null };
+            this.attemptControlRequest(true);
+        }
+        return new Promise(resolve => this.controlRequest.resolvers.push(resolve));
+    }
+
+    /**
+     * Stop leading and free the room; handoffTo ('pc' or 'spectacles')
+     * tells the other devices which of them should take over
+     */
+    async releaseControl(handoffTo = null, reason = 'released') {
+        if (!this.controlOwner || this.controlOwner.ownerId !== this.userId) return;
+
+        // Stop leading before the room becomes free
+        if (this.renewTimer) {
+            clearTimeout(this.renewTimer);
+            this.renewTimer = null;
+        }
+        this.setControlOwner(null, reason, handoffTo);
+
+        const { error } = await this.supabase.rpc('release_control_lock', {
+            p_room: this.roomName,
+            p_owner_id: this.userId
+        });
+        if (error) {
+            // The lease still runs out on its own
+            console.warn('Control release error:', error);
+            return;
+        }
+
+        this.sendControlEvent('control-changed', {
+            owner_id: null,
+            released_by: this.userId,
+            handoff_to: handoffTo
+        });
+        console.log(`🤝 Control released${handoffTo ? ` to ${handoffTo}` : ''}`);
+    }
+
+    async attemptControlRequest(announce) {
+        const granted = await this.acquireControl();
+        const request = this.controlRequest;
+        if (!request) return;
+
+        if (granted) {
+            this.finishControlRequest(true);
+            return;
+        }
+
+        if (announce && this.controlOwner) {
+            console.log(`🙋 Requesting control from ${this.controlOwner.ownerName || this.controlOwner.ownerId}`);
+            this.sendControlEvent('control-request', {
+                requester_id: this.userId,
+                requester_name: this.userName,
+                device: 'pc'
+            });
+        }
+
+        if (Date.now() >= request.deadline) {
+            console.log('⏱️ Control request timed out');
+            this.finishControlRequest(false);
+            return;
+        }
+        request.timer = setTimeout(() => this.attemptControlRequest(false), 1000);
+    }
+
+    finishControlRequest(granted) {
+        const request = this.controlRequest;
+        if (!request) return;
+
+        this.controlRequest = null;
+        clearTimeout(request.timer);
+        request.resolvers.forEach(resolve => resolve(granted));
+    }
+
+    /**
+     * Take a free lock or renew ours; true when we hold it afterwards
+     */
+    async acquireControl() {
+        if (!this.supabase) return false;
+
+        // Counted from before the request, so our lease ends before the server's
+        const requestedAt = Date.now();
+        const { data, error } = await this.supabase.rpc('acquire_control_lock', {
+            p_room: this.roomName,
+            p_owner_id: this.userId,
+            p_owner_name: this.userName,
+            p_device: 'pc',
+            p_lease_seconds: this.controlLeaseSeconds
+        });
+
+        if (error) {
+            console.warn('Control lock error:', error);
+            return false;
+        }
+
+        const row = data && data[0];
+        if (row && row.owner_id === this.userId) {
+            const wasOwner = this.isControlOwner();
+            this.controlOwner = {
+                ownerId: this.userId,
+                ownerName: this.userName,
+                device: 'pc',
+                expiresAt: requestedAt + this.controlLeaseSeconds * 1000
+            };
+
+            clearTimeout(this.renewTimer);
+            this.renewTimer = setTimeout(() => this.renewControl(), (this.controlLeaseSeconds / 3) * 1000);
+
+            if (!wasOwner) {
+                console.log('👑 Control granted');
+                this.notifyControlChange({ owner: { ...this.controlOwner }, reason: 'acquired' });
+                this.sendControlEvent('control-changed', { ...row, expires_in_ms: this.controlLeaseSeconds * 1000 });
             }
+            return true;
+        }
+
+        this.setControlOwner(row ? this.toControlOwner(row, requestedAt) : null, this.isControlOwner() ? 'lost' : 'remote');
+        return false;
+    }
+
+    async renewControl() {
+        this.renewTimer = null;
+        if (!this.controlOwner || this.controlOwner.ownerId !== this.userId) return;
+
+        const renewed = await this.acquireControl();
+        if (renewed || !this.controlOwner || this.controlOwner.ownerId !== this.userId) return;
+
+        // Renewal failed without anyone else taking over (e.g. offline):
+        // keep leading until the lease runs out, retrying meanwhile
+        if (Date.now() >= this.controlOwner.expiresAt) {
+            console.warn('⏱️ Control lease expired');
+            this.setControlOwner(null, 'expired');
+        } else {
+            this.renewTimer = setTimeout(() => this.renewControl(), 1000);
+        }
+    }
+
+    handleControlChanged(payload) {
+        if (!payload || payload.room_name !== this.roomName) return;
+
+        if (payload.owner_id) {
+            if (payload.owner_id !== this.userId) {
+                this.setControlOwner(this.toControlOwner(payload, Date.now()), this.isControlOwner() ? 'lost' : 'remote');
+            }
+            return;
+        }
+
+        // Released: retry a pending request right away
+        if (this.controlOwner && this.controlOwner.ownerId === payload.released_by) {
+            this.setControlOwner(null, 'remote', payload.handoff_to);
+        }
+        if (this.controlRequest) {
+            clearTimeout(this.controlRequest.timer);
+            this.attemptControlRequest(false);
+        }
+    }
+
+    handleControlRequest(payload) {
+        if (!payload || payload.requester_id === this.userId || !this.isControlOwner()) return;
+
+        if (!this.grantControlRequests) {
+            console.log(`🚫 Ignoring control request from ${payload.requester_name || payload.requester_id}`);
+            return;
+        }
+
+        console.log(`🤝 Handing control to ${payload.requester_name || payload.requester_id}`);
+        this.releaseControl(payload.device || null, 'granted');
+    }
+
+    setControlOwner(owner, reason, handoffTo = null) {
+        const previous = this.getCurrentControlOwner();
+        this.controlOwner = owner;
+
+        const previousId = previous ? previous.ownerId : null;
+        const currentId = owner ? owner.ownerId : null;
+        if (previousId !== currentId || handoffTo) {
+            this.notifyControlChange({ owner: owner ? { ...owner } : null, reason, handoffTo });
+        }
+    }
+
+    toControlOwner(row, receivedAt) {
+        return {
+            ownerId: row.owner_id,
+            ownerName: row.owner_name || null,
+            device: row.device,
+            expiresAt: receivedAt + Math.max(0, Number(row.expires_in_ms) || 0)
+        };
+    }
+
+    sendControlEvent(event, payload) {
+        if (!this.controlChannel) return;
+
+        this.controlChannel.send({
+            type: 'broadcast',
+            event,
+            payload: { room_name: this.roomName, ...payload }
+        });
+    }
+
+    notifyControlChange(change) {
+        this.controlListeners.forEach(listener => listener(change));
+    }
+
+    // Calibration
+
+    joinCalibrationChannel() {
+        this.calibrationChannel = this.supabase.channel(`cursor-calibration-${this.roomName}`, {
+            config: {
+                broadcast: { self: false },
+                private: true
+            }
+        });
+
+        ['calibration-target', 'calibration-finished', 'calibration-cancel', 'calibration-updated'].forEach(event => {
+            this.calibrationChannel.on('broadcast', { event }, ({ payload }) => {
+                if (payload && payload.room_name === this.roomName) {
+                    this.calibrationListeners.forEach(listener => listener({ event, payload }));
+                }
+            });
+        });
+        this.calibrationChannel.subscribe();
+    }
+
+    leaveCalibrationChannel() {
+        if (this.calibrationChannel) {
+            this.calibrationChannel.unsubscribe();
+            this.calibrationChannel = null;
+        }
+    }
+
+    /**
+     * Listen for wizard events from the Lens: callback({ event, payload })
+     * - calibration-target: { step, count, x, y } target to show
+     * - calibration-finished: { saved, rms_error, point_count, message }
+     * - calibration-cancel / calibration-updated
+     * Returns an unsubscribe function
+     */
+    onCalibrationEvent(callback) {
+        this.calibrationListeners.push(callback);
+        return () => {
+            this.calibrationListeners = this.calibrationListeners.filter(listener => listener !== callback);
+        };
+    }
+
+    startCalibrationWizard() {
+        this.sendCalibrationEvent('calibration-start', {});
+    }
+
+    /**
+     * The Spectacles cursor is on target `step`
+     */
+    captureCalibrationTarget(step) {
+        this.sendCalibrationEvent('calibration-capture', { step });
+    }
+
+    cancelCalibration() {
+        this.sendCalibrationEvent('calibration-cancel', {});
+    }
+
+    /**
+     * The room's cursor_calibrations row, or null while uncalibrated
+     */
+    async getCalibration() {
+        if (!this.supabase) return null;
+
+        const { data, error } = await this.supabase
+            .from('cursor_calibrations')
+            .select('*')
+            .eq('room_name', this.roomName)
+            .maybeSingle();
+
+        if (error) {
+            console.warn('Get calibration error:', error);
+            return null;
+        }
+        return data;
+    }
+
+    /**
+     * Delete the room's calibration; every Lens goes back to the default mapping
+     */
+    async resetCalibration() {
+        if (!this.supabase) return false;
+
+        const { error } = await this.supabase
+            .from('cursor_calibrations')
+            .delete()
+            .eq('room_name', this.roomName);
+
+        if (error) {
+            console.warn('Reset calibration error:', error);
+            return false;
+        }
+
+        this.sendCalibrationEvent('calibration-updated', {});
+        console.log('📐 Calibration reset to the default mapping');
+        return true;
+    }
+
+    sendCalibrationEvent(event, payload) {
+        if (!this.calibrationChannel) return;
+
+        this.calibrationChannel.send({
+            type: 'broadcast',
+            event,
+            payload: { room_name: this.roomName, ...payload }
+        });
+    }
+
+    // Annotations
+
+    joinAnnotationChannel() {
+        this.annotationChannel = this.supabase.channel(`cursor-annotations-${this.roomName}`, {
+            config: {
+                broadcast: { self: false },
+                private: true
+            }
+        });
+
+        ['annotation-points', 'annotation-end', 'annotation-undo', 'annotation-clear'].forEach(event => {
+            this.annotationChannel.on('broadcast', { event }, ({ payload }) => {
+                if (payload && payload.room_name === this.roomName) {
+                    this.annotationListeners.forEach(listener => listener({ event, payload }));
+                }
+            });
+        });
+        this.annotationChannel.subscribe();
+    }
+
+    leaveAnnotationChannel() {
+        if (this.currentStroke) {
+            clearTimeout(this.currentStroke.timer);
+            this.currentStroke = null;
+        }
+        this.ownStrokeIds = [];
+        if (this.annotationChannel) {
+            this.annotationChannel.unsubscribe();
+            this.annotationChannel = null;
+        }
+    }
+
+    /**
+     * Listen for strokes from other pages (and clears from the Lens):
+     * callback({ event, payload }) with the payloads documented in
+     * supabase/migrations/20251020000015_cursor_annotations.sql
+     * Returns an unsubscribe function
+     */
+    onAnnotationEvent(callback) {
+        this.annotationListeners.push(callback);
+        return () => {
+            this.annotationListeners = this.annotationListeners.filter(listener => listener !== callback);
+        };
+    }
+
+    /**
+     * Color ("#RRGGBB", null = the cursor color) and width (percent of the
+     * drawing area's width, 0.1 - 20) of the next strokes
+     */
+    setAnnotationStyle({ color, width } = {}) {
+        if (color !== undefined) {
+            this.annotationColor = color;
+        }
+        if (width !== undefined) {
+            this.annotationWidth = Math.max(0.1, Math.min(20, width));
+        }
+    }
+
+    /**
+     * Start a stroke at web percentages (0-100); returns its id
+     */
+    beginStroke(x, y) {
+        if (!this.isConnected || !this.annotationChannel) return null;
+
+        if (this.currentStroke) {
+            this.endStroke();
+        }
+
+        this.currentStroke = {
+            id: crypto.randomUUID(),
+            color: this.annotationColor || this.userColor,
+            width: this.annotationWidth,
+            depth: this.cursorDepth,
+            points: [],
+            sentCount: 0,
+            timer: null
+        };
+        this.extendStroke(x, y);
+        return this.currentStroke.id;
+    }
+
+    /**
+     * Add a point to the current stroke; points go out in batches
+     */
+    extendStroke(x, y) {
+        const stroke = this.currentStroke;
+        if (!stroke || stroke.points.length >= this.annotationMaxPoints) return;
+
+        const point = [Math.round(x * 100) / 100, Math.round(y * 100) / 100];
+        const last = stroke.points[stroke.points.length - 1];
+        if (last && last[0] === point[0] && last[1] === point[1]) return;
+
+        stroke.points.push(point);
+        if (!stroke.timer) {
+            stroke.timer = setTimeout(() => this.flushStroke(), this.annotationBatchMs);
+        }
+    }
+
+    /**
+     * Send the points added since the last batch
+     */
+    flushStroke() {
+        const stroke = this.currentStroke;
+        if (!stroke) return;
+
+        clearTimeout(stroke.timer);
+        stroke.timer = null;
+        if (stroke.sentCount >= stroke.points.length) return;
+
+        this.sendAnnotationEvent('annotation-points', {
+            ...this.getStrokePayload(stroke),
+            start_index: stroke.sentCount,
+            points: stroke.points.slice(stroke.sentCount)
+        });
+        stroke.sentCount = stroke.points.length;
+    }
+
+    /**
+     * Finish the current stroke: broadcast all of its points and store it
+     */
+    async endStroke() {
+        const stroke = this.currentStroke;
+        if (!stroke) return false;
+
+        this.flushStroke();
+        this.currentStroke = null;
+
+        const payload = { ...this.getStrokePayload(stroke), points: stroke.points };
+        this.sendAnnotationEvent('annotation-end', payload);
+        this.ownStrokeIds.push(stroke.id);
+
+        const { error } = await this.supabase
+            .from('cursor_annotations')
+            .insert({
+                id: stroke.id,
+                room_name: this.roomName,
+                user_id: this.userId,
+                user_name: this.userName,
+                color: stroke.color,
+                width: stroke.width,
+                depth: stroke.depth,
+                points: stroke.points
+            });
+
+        if (error) {
+            console.warn('Save annotation error:', error);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Remove the last stroke drawn here; returns its id, or null
+     */
+    async undoStroke() {
+        if (!this.supabase) return null;
+
+        const strokeId = this.ownStrokeIds.pop();
+        if (!strokeId) return null;
+
+        const { error } = await this.supabase
+            .from('cursor_annotations')
+            .delete()
+            .eq('id', strokeId);
+
+        if (error) {
+            console.warn('Undo annotation error:', error);
+            this.ownStrokeIds.push(strokeId);
+            return null;
+        }
+
+        this.sendAnnotationEvent('annotation-undo', { stroke_id: strokeId });
+        console.log('↩️ Annotation undone');
+        return strokeId;
+    }
+
+    /**
+     * Delete every stroke of the room, for everyone
+     */
+    async clearAnnotations() {
+        if (!this.supabase) return false;
+
+        const { error } = await this.supabase
+            .from('cursor_annotations')
+            .delete()
+            .eq('room_name', this.roomName);
+
+        if (error) {
+            console.warn('Clear annotations error:', error);
+            return false;
+        }
+
+        this.ownStrokeIds = [];
+        this.sendAnnotationEvent('annotation-clear', {});
+        console.log('🧹 Annotations cleared');
+        return true;
+    }
+
+    /**
+     * The room's stored strokes, oldest first
+     */
+    async loadAnnotations() {
+        if (!this.supabase) return [];
+
+        const { data, error } = await this.supabase
+            .from('cursor_annotations')
+            .select('*')
+            .eq('room_name', this.roomName)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.warn('Load annotations error:', error);
+            return [];
+        }
+        return data;
+    }
+
+    getStrokePayload(stroke) {
+        return {
+            stroke_id: stroke.id,
+            user_id: this.userId,
+            user_name: this.userName,
+            color: stroke.color,
+            width: stroke.width,
+            depth: stroke.depth
+        };
+    }
+
+    sendAnnotationEvent(event, payload) {
+        if (!this.annotationChannel) return;
+
+        this.annotationChannel.send({
+            type: 'broadcast',
+            event,
+            payload: { room_name: this.roomName, ...payload }
+        });
+    }
+
+    // Rooms
+
+    /**
+     * Rooms are per auth user; an anonymous session is enough
+     */
+    async ensureSession() {
+        const { data } = await this.supabase.auth.getSession();
+        if (data.session) return data.session;
+
+        const { data: signIn, error } = await this.supabase.auth.signInAnonymously();
+        if (error) {
+            throw new Error(`Anonymous sign-in failed (${error.message}) - enable anonymous sign-ins under Authentication > Providers`);
+        }
+        console.log('👤 Signed in anonymously');
+        return signIn.session;
+    }
+
+    async enterRoom(roomName, joinCode) {
+        if (joinCode) {
+            const room = await this.joinRoom(joinCode);
+            if (!room) {
+                throw new Error(`No active room with join code ${joinCode}`);
+            }
+            return room;
+        }
+
+        const existing = await this.getRoom(roomName);
+        if (existing) return existing;
+
+        try {
+            return await this.createRoom(roomName);
         } catch (error) {
-            console.warn('Control mode error:', error);
+            if (error.code === '23505') {
+                throw new Error(`Room "${roomName}" belongs to someone else - enter its join code`);
+            }
+            throw error;
         }
     }
 
+    /**
+     * Create a room and join it; returns the room with its join_code
+     */
+    async createRoom(name, { idleMinutes = 60, listed = true } = {}) {
+        const { data, error } = await this.supabase
+            .rpc('create_room', { p_name: name, p_idle_minutes: idleMinutes, p_listed: listed });
+
+        if (error) throw error;
+        console.log(`🏠 Created room ${data[0].name} - join code ${data[0].join_code}`);
+        return data[0];
+    }
+
+    /**
+     * Join the room with this code; null for an unknown or expired code
+     */
+    async joinRoom(joinCode) {
+        const { data, error } = await this.supabase
+            .rpc('join_room', { p_join_code: joinCode });
+
+        if (error) throw error;
+        return data[0] || null;
+    }
+
+    /**
+     * The room if we are a member and it has not expired, otherwise null
+     */
+    async getRoom(name = this.roomName) {
+        const { data, error } = await this.supabase
+            .from('rooms')
+            .select('*')
+            .eq('name', name)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Stop being a member of the current room (disconnect afterwards)
+     */
+    async leaveRoom() {
+        if (!this.supabase || !this.room) return false;
+
+        const { data, error } = await this.supabase
+            .rpc('leave_room', { p_room: this.room.name });
+
+        if (error) {
+            console.warn('Leave room error:', error);
+            return false;
+        }
+        console.log(`🚪 Left room ${this.room.name}`);
+        return data === true;
+    }
+
+    /**
+     * Listed rooms that have not expired, most recently active first:
+     * [{ name, member_count, is_member, created_at, last_active_at, expires_at }]
+     */
+    async listActiveRooms() {
+        if (!this.supabase) return [];
+
+        const { data, error } = await this.supabase.rpc('list_active_rooms');
+        if (error) {
+            console.warn('List rooms error:', error);
+            return [];
+        }
+        return data;
+    }
+
+    /**
+     * Delete idle rooms now (create_room also does); returns how many expired
+     */
+    async expireIdleRooms() {
+        if (!this.supabase) return 0;
+
+        const { data, error } = await this.supabase.rpc('expire_idle_rooms');
+        if (error) {
+            console.warn('Expire rooms error:', error);
+            return 0;
+        }
+        return data;
+    }
+
+    getRoomInfo() {
+        return this.room ? { ...this.room } : null;
+    }
+
+    // Presence
+
+    startPresence() {
+        this.presenceJoinedAt = new Date().toISOString();
+        this.presenceChannel = this.supabase.channel(`cursor-presence-${this.roomName}`, {
+            config: {
+                presence: { key: this.userId },
+                private: true
+            }
+        });
+
+        this.presenceChannel.on('presence', { event: 'sync' }, () => this.refreshRoomMembers());
+        this.presenceChannel.subscribe((status) => {
+            if (status === 'SUBSCRIBED') {
+                console.log('👥 Joined room presence');
+                this.trackPresence();
+            }
+        });
+
+        this.presenceHeartbeat();
+        this.presenceTimer = setInterval(() => this.presenceHeartbeat(), this.presenceHeartbeatSeconds * 1000);
+    }
+
+    async stopPresence() {
+        if (this.presenceTimer) {
+            clearInterval(this.presenceTimer);
+            this.presenceTimer = null;
+        }
+
+        const supabase = this.supabase;
+        if (this.presenceChannel) {
+            this.presenceChannel.untrack();
+            this.presenceChannel.unsubscribe();
+            this.presenceChannel = null;
+        }
+
+        this.presenceRows = {};
+        this.roomMembers = [];
+        this.notifyPresenceChange();
+
+        if (supabase) {
+            await supabase
+                .from('room_presence')
+                .delete()
+                .eq('room_name', this.roomName)
+                .eq('user_id', this.userId);
+        }
+    }
+
+    /**
+     * Our role in the roster: 'leader', 'follower' or 'viewer'
+     */
+    setPresenceRole(role) {
+        if (role === this.presenceRole) return;
+
+        this.presenceRole = role;
+        if (this.presenceChannel) {
+            this.trackPresence();
+            this.sendPresenceHeartbeat();
+            this.refreshRoomMembers();
+        }
+    }
+
+    /**
+     * Everyone in the room, oldest first:
+     * [{ userId, userName, device, color, role, joinedAt, source, isSelf }]
+     */
+    getRoomMembers() {
+        return this.roomMembers.map(member => ({ ...member }));
+    }
+
+    /**
+     * Listen for roster changes: callback(members)
+     * Returns an unsubscribe function
+     */
+    onPresenceChange(callback) {
+        this.presenceListeners.push(callback);
+        return () => {
+            this.presenceListeners = this.presenceListeners.filter(listener => listener !== callback);
+        };
+    }
+
+    getPresencePayload() {
+        return {
+            user_id: this.userId,
+            user_name: this.userName,
+            device: 'pc',
+            color: this.userColor,
+            role: this.presenceRole,
+            joined_at: this.presenceJoinedAt
+        };
+    }
+
+    trackPresence() {
+        if (this.presenceChannel) {
+            this.presenceChannel.track(this.getPresencePayload());
+        }
+    }
+
+    async presenceHeartbeat() {
+        await this.sendPresenceHeartbeat();
+        await this.readPresenceHeartbeats();
+    }
+
+    // Always sent, so a Lens without Realtime still sees this page
+    async sendPresenceHeartbeat() {
+        if (!this.supabase) return;
+
+        const { error } = await this.supabase
+            .from('room_presence')
+            .upsert({
+                room_name: this.roomName,
+                ...this.getPresencePayload(),
+                last_seen_at: new Date().toISOString()
+            }, { onConflict: 'room_name,user_id' });
+
+        if (error) {
+            console.warn('Presence heartbeat error:', error);
+        }
+    }
+
+    async readPresenceHeartbeats() {
+        if (!this.supabase) return;
+
+        const since = new Date(Date.now() - this.presenceStaleSeconds * 1000).toISOString();
+        const { data, error } = await this.supabase
+            .from('room_presence')
+            .select('*')
+            .eq('room_name', this.roomName)
+            .gte('last_seen_at', since);
+
+        if (error) {
+            console.warn('Read roster error:', error);
+            return;
+        }
+
+        this.presenceRows = {};
+        (data || []).forEach(row => {
+            this.presenceRows[row.user_id] = row;
+        });
+        this.refreshRoomMembers();
+    }
+
+    // Presence wins over a heartbeat row of the same user
+    refreshRoomMembers() {
+        const byUser = {};
+
+        Object.values(this.presenceRows).forEach(row => {
+            byUser[row.user_id] = this.toRoomMember(row, 'heartbeat');
+        });
+
+        const state = this.presenceChannel ? this.presenceChannel.presenceState() : {};
+        Object.values(state).forEach(metas => {
+            const latest = metas[metas.length - 1];
+            if (latest && latest.user_id) {
+                byUser[latest.user_id] = this.toRoomMember(latest, 'realtime');
+            }
+        });
+
+        if (this.presenceChannel) {
+            byUser[this.userId] = this.toRoomMember(this.getPresencePayload(), 'realtime');
+        }
+
+        this.roomMembers = Object.values(byUser).sort((a, b) => a.joinedAt - b.joinedAt);
+        this.notifyPresenceChange();
+    }
+
+    toRoomMember(entry, source) {
+        return {
+            userId: entry.user_id,
+            userName: entry.user_name || entry.user_id,
+            device: entry.device === 'spectacles' ? 'spectacles' : 'pc',
+            color: entry.color || '#FFFFFF',
+            role: ['leader', 'follower', 'viewer'].includes(entry.role) ? entry.role : 'viewer',
+            joinedAt: new Date(entry.joined_at).getTime() || Date.now(),
+            source,
+            isSelf: entry.user_id === this.userId
+        };
+    }
+
+    notifyPresenceChange() {
+        const members = this.getRoomMembers();
+        this.presenceListeners.forEach(listener => listener(members));
+    }
+
     async getSpectaclesCursor() {
         // Get latest cursor from Spectacles (device_type = 'spectacles')
         if (!this.supabase) return null;